@@ -32,6 +32,22 @@ export const ENV_CONFIG = {
   
   // Twitter API Configuration
   TWITTER_BEARER_TOKEN: process.env.TWITTER_BEARER_TOKEN || '',
+
+  // Discord Bot Configuration (optional - enables the Discord sync)
+  DISCORD_BOT_TOKEN: process.env.DISCORD_BOT_TOKEN || '',
+
+  // Telegram MTProto Configuration (optional - enables the Telegram sync, see npm run telegram:login)
+  TELEGRAM_API_ID: parseInt(process.env.TELEGRAM_API_ID || '0', 10),
+  TELEGRAM_API_HASH: process.env.TELEGRAM_API_HASH || '',
+  TELEGRAM_SESSION: process.env.TELEGRAM_SESSION || '',
+
+  // Reddit OAuth Configuration (optional - enables the Reddit sync, uses a "script" app's credentials)
+  REDDIT_CLIENT_ID: process.env.REDDIT_CLIENT_ID || '',
+  REDDIT_CLIENT_SECRET: process.env.REDDIT_CLIENT_SECRET || '',
+  REDDIT_USER_AGENT: process.env.REDDIT_USER_AGENT || 'dao-social-tracker/1.0',
+
+  // YouTube Data API Configuration (optional - enables the YouTube sync)
+  YOUTUBE_API_KEY: process.env.YOUTUBE_API_KEY || '',
   
   // Validation
   isValid: function() {
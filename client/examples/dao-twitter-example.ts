@@ -29,9 +29,6 @@ async function testDAOTwitterService() {
       console.log(`\n🏛️  DAO: ${dao.name} (${dao.slug})`);
       
       try {
-        // Test creating a Twitter table for this DAO
-        await twitterService.createAccountTwitterTable(dao.slug);
-        
         // Get recent tweets
         console.log(`\n📋 Recent tweets:`);
         const recentTweets = await twitterService.getTwitterPosts(dao.slug, {
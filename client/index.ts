@@ -28,7 +28,10 @@ async function main() {
     console.log('📊 System Status:');
     console.log(`   • BioDAOs: ${status.total_biodaos}`);
     console.log(`   • Twitter: ${status.platforms.twitter ? '✅ Enabled' : '❌ Disabled'}`);
-    console.log(`   • Discord: ${status.platforms.discord ? '✅ Enabled' : '❌ Disabled (coming soon)'}`);
+    console.log(`   • Discord: ${status.platforms.discord ? '✅ Enabled' : '❌ Disabled (set DISCORD_BOT_TOKEN)'}`);
+    console.log(`   • Telegram: ${status.platforms.telegram ? '✅ Enabled' : '❌ Disabled (run npm run telegram:login)'}`);
+    console.log(`   • Reddit: ${status.platforms.reddit ? '✅ Enabled' : '❌ Disabled (set REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET)'}`);
+    console.log(`   • YouTube: ${status.platforms.youtube ? '✅ Enabled' : '❌ Disabled (set YOUTUBE_API_KEY)'}`);
     
     if (status.total_biodaos === 0) {
       console.log('');
@@ -0,0 +1,193 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+
+export interface ReceivedWebhook {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+  received_at: string;
+}
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string; // Headers and body as sent, dot-stuffing removed
+  authenticated_as: string | null;
+  received_at: string;
+}
+
+export interface AlertSinkMockOptions {
+  quiet?: boolean; // Don't log received webhooks and mails (e.g. under the test runner)
+}
+
+/**
+ * Local stand-in for alert destinations: an HTTP endpoint that records webhook and
+ * Slack-style posts, and a plain SMTP server (no TLS) that records mails. GET /received
+ * on the HTTP port lists everything captured so far.
+ */
+export class AlertSinkMockServer {
+  private httpServer: http.Server | null = null;
+  private smtpServer: net.Server | null = null;
+  private smtpSockets = new Set<net.Socket>();
+  private failures = 0;
+  readonly webhooks: ReceivedWebhook[] = [];
+  readonly mails: ReceivedMail[] = [];
+
+  constructor(private options: AlertSinkMockOptions = {}) {}
+
+  /**
+   * Start both servers; resolves with their addresses
+   */
+  async start(
+    httpPort: number = 0,
+    smtpPort: number = 0,
+    host: string = '127.0.0.1'
+  ): Promise<{ webhookUrl: string; smtpHost: string; smtpPort: number }> {
+    this.httpServer = http.createServer((req, res) => this.handleHttp(req, res));
+    this.smtpServer = net.createServer(socket => this.handleSmtp(socket));
+
+    await Promise.all([this.httpServer, this.smtpServer].map(server => new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(server === this.httpServer ? httpPort : smtpPort, host, () => resolve());
+    })));
+
+    return {
+      webhookUrl: `http://${host}:${(this.httpServer.address() as AddressInfo).port}/webhook`,
+      smtpHost: host,
+      smtpPort: (this.smtpServer.address() as AddressInfo).port
+    };
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.smtpSockets) socket.destroy();
+    const servers = [this.httpServer, this.smtpServer].filter((server): server is http.Server | net.Server => server !== null);
+    this.httpServer = null;
+    this.smtpServer = null;
+    await Promise.all(servers.map(server => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))));
+  }
+
+  /**
+   * Answer the next `count` webhook posts with 500, e.g. to test recorded notification errors
+   */
+  failNextWebhooks(count: number = 1): void {
+    this.failures += count;
+  }
+
+  private log(message: string): void {
+    if (!this.options.quiet) console.log(message);
+  }
+
+  private handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    if (req.method === 'GET' && req.url === '/received') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ webhooks: this.webhooks, mails: this.mails }, null, 2));
+      return;
+    }
+
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      if (this.failures > 0) {
+        this.failures--;
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end('injected failure');
+        return;
+      }
+
+      let body: any = raw;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // Keep the raw text
+      }
+      this.webhooks.push({ path: req.url || '/', headers: req.headers, body, received_at: new Date().toISOString() });
+      this.log(`📨 Webhook ${req.url}: ${typeof body === 'object' && body?.text ? String(body.text).split('\n')[0] : raw.slice(0, 120)}`);
+
+      // Slack answers a plain "ok"
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+    });
+  }
+
+  private handleSmtp(socket: net.Socket): void {
+    this.smtpSockets.add(socket);
+    socket.on('close', () => this.smtpSockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    let inData = false;
+    let dataLines: string[] = [];
+    let mail: { from: string; to: string[]; authenticated_as: string | null } = { from: '', to: [], authenticated_as: null };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 mock-smtp ESMTP ready');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            this.mails.push({ ...mail, data: dataLines.join('\r\n'), received_at: new Date().toISOString() });
+            this.log(`✉️  Mail from ${mail.from} to ${mail.to.join(', ')}`);
+            mail = { from: '', to: [], authenticated_as: mail.authenticated_as };
+            dataLines = [];
+            reply('250 OK: queued');
+          } else {
+            dataLines.push(line.startsWith('..') ? line.slice(1) : line);
+          }
+          continue;
+        }
+
+        const [verb = '', ...rest] = line.split(' ');
+        const argument = rest.join(' ');
+        switch (verb.toUpperCase()) {
+          case 'EHLO':
+            reply('250-mock-smtp');
+            reply('250-AUTH PLAIN');
+            reply('250 8BITMIME');
+            break;
+          case 'HELO':
+            reply('250 mock-smtp');
+            break;
+          case 'AUTH': {
+            const credentials = Buffer.from(argument.replace(/^PLAIN\s+/i, ''), 'base64').toString('utf8').split('\u0000');
+            mail.authenticated_as = credentials[1] || null;
+            reply('235 Authentication successful');
+            break;
+          }
+          case 'MAIL':
+            mail.from = argument.replace(/^FROM:\s*/i, '').replace(/[<>]/g, '');
+            reply('250 OK');
+            break;
+          case 'RCPT':
+            mail.to.push(argument.replace(/^TO:\s*/i, '').replace(/[<>]/g, ''));
+            reply('250 OK');
+            break;
+          case 'DATA':
+            inData = true;
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'RSET':
+            mail = { from: '', to: [], authenticated_as: mail.authenticated_as };
+            reply('250 OK');
+            break;
+          case 'NOOP':
+            reply('250 OK');
+            break;
+          case 'QUIT':
+            reply('221 Bye');
+            socket.end();
+            break;
+          default:
+            reply('502 Command not implemented');
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { DiscordChannel, DiscordMessage } from '../services/discord/discordApiClient';
+
+export interface DiscordMockFixtures {
+  guilds: Record<string, { id: string; name: string; channels: DiscordChannel[] }>;
+  messages: Record<string, DiscordMessage[]>; // Recorded messages per channel id
+  forbiddenChannels?: string[]; // Channels the bot can list but not read (403 Missing Access)
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Load recorded Discord responses from a JSON file
+ */
+export function loadDiscordFixtures(filePath: string): DiscordMockFixtures {
+  return JSON.parse(readFileSync(filePath, 'utf8')) as DiscordMockFixtures;
+}
+
+/**
+ * Local stand-in for the Discord REST endpoints used by DiscordSyncService.
+ * Serves recorded guild channels and messages with Discord's before/after/limit paging.
+ */
+export class DiscordMockServer {
+  private server: http.Server | null = null;
+  private faults: Array<{ status: number; remaining: number }> = [];
+  private channels = new Map<string, DiscordChannel>();
+
+  constructor(private fixtures: DiscordMockFixtures) {
+    for (const guild of Object.values(fixtures.guilds)) {
+      for (const channel of guild.channels) {
+        this.channels.set(channel.id, channel);
+      }
+    }
+  }
+
+  static fromFile(filePath: string): DiscordMockServer {
+    return new DiscordMockServer(loadDiscordFixtures(filePath));
+  }
+
+  /**
+   * Start listening; resolves with the base URL to use as DISCORD_API_BASE_URL
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}/api/v10`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Answer the next `count` requests with the given status (429s include retry_after)
+   */
+  injectFault(status: number, count: number = 1): void {
+    this.faults.push({ status, remaining: count });
+  }
+
+  /**
+   * Add a message as if it had just been posted, e.g. to test incremental syncs
+   */
+  addMessage(message: DiscordMessage): void {
+    const messages = this.fixtures.messages[message.channel_id] || [];
+    messages.push(message);
+    messages.sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+    this.fixtures.messages[message.channel_id] = messages;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/^\/api\/v\d+(?=\/)/, '');
+
+    const response = this.respond(req, path, url.searchParams);
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(JSON.stringify(response.body));
+  }
+
+  private respond(req: IncomingMessage, path: string, query: URLSearchParams): MockResponse {
+    if (!/^Bot \S+/.test(req.headers.authorization || '')) {
+      return { status: 401, body: { message: '401: Unauthorized', code: 0 } };
+    }
+
+    const fault = this.faults[0];
+    if (fault) {
+      fault.remaining--;
+      if (fault.remaining <= 0) this.faults.shift();
+
+      if (fault.status === 429) {
+        return {
+          status: 429,
+          body: { message: 'You are being rate limited.', retry_after: 0.05, global: false },
+          headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset-after': '0.05' }
+        };
+      }
+      return { status: fault.status, body: { message: http.STATUS_CODES[fault.status] || 'Error', code: 0 } };
+    }
+
+    if (req.method !== 'GET') {
+      return { status: 405, body: { message: '405: Method Not Allowed', code: 0 } };
+    }
+
+    let match: RegExpMatchArray | null;
+    if ((match = path.match(/^\/guilds\/(\d+)\/channels$/))) {
+      const guild = this.fixtures.guilds[match[1]!];
+      return guild
+        ? { status: 200, body: guild.channels }
+        : { status: 404, body: { message: 'Unknown Guild', code: 10004 } };
+    }
+    if ((match = path.match(/^\/channels\/(\d+)$/))) {
+      const channel = this.channels.get(match[1]!);
+      return channel
+        ? { status: 200, body: channel }
+        : { status: 404, body: { message: 'Unknown Channel', code: 10003 } };
+    }
+    if ((match = path.match(/^\/channels\/(\d+)\/messages$/))) {
+      return this.getMessages(match[1]!, query);
+    }
+
+    return { status: 404, body: { message: '404: Not Found', code: 0 } };
+  }
+
+  private getMessages(channelId: string, query: URLSearchParams): MockResponse {
+    if (!this.channels.has(channelId)) {
+      return { status: 404, body: { message: 'Unknown Channel', code: 10003 } };
+    }
+    if (this.fixtures.forbiddenChannels?.includes(channelId)) {
+      return { status: 403, body: { message: 'Missing Access', code: 50001 } };
+    }
+
+    const limit = parseInt(query.get('limit') || '50', 10);
+    if (!(limit >= 1 && limit <= 100)) {
+      return { status: 400, body: { message: 'Invalid Form Body', code: 50035 } };
+    }
+
+    // Oldest first; Discord answers newest first
+    const all = this.fixtures.messages[channelId] || [];
+    const after = query.get('after');
+    const before = query.get('before');
+    let page: DiscordMessage[];
+
+    if (after) {
+      page = all.filter(message => BigInt(message.id) > BigInt(after)).slice(0, limit);
+    } else {
+      const older = before ? all.filter(message => BigInt(message.id) < BigInt(before)) : all;
+      page = older.slice(Math.max(0, older.length - limit));
+    }
+
+    return { status: 200, body: [...page].reverse() };
+  }
+}
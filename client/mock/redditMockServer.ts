@@ -0,0 +1,254 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { RedditComment, RedditPost, RedditSubreddit } from '../services/reddit/redditApiClient';
+
+interface RedditThing<T> {
+  kind: string;
+  data: T;
+}
+
+interface RedditListingResponse<T> {
+  kind: 'Listing';
+  data: { after: string | null; before: string | null; children: Array<RedditThing<T>> };
+}
+
+/**
+ * Canned responses in Reddit's own JSON shapes, so real captures of
+ * /r/<sub>/about.json, /r/<sub>/new.json and /r/<sub>/comments.json can be pasted in
+ */
+export interface RedditMockFixtures {
+  subreddits: Record<string, {
+    about: RedditThing<RedditSubreddit>;
+    new: RedditListingResponse<RedditPost>;
+    comments: RedditListingResponse<RedditComment>;
+  }>;
+  privateSubreddits?: string[]; // Answer 403 { reason: 'private' }
+  bannedSubreddits?: string[]; // Answer 404 { reason: 'banned' }
+  rateLimit?: { requests: number; windowSeconds: number };
+}
+
+interface MockSubreddit {
+  about: RedditSubreddit;
+  posts: RedditPost[]; // Newest first
+  comments: RedditComment[]; // Newest first
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Load canned Reddit responses from a JSON file
+ */
+export function loadRedditFixtures(filePath: string): RedditMockFixtures {
+  return JSON.parse(readFileSync(filePath, 'utf8')) as RedditMockFixtures;
+}
+
+/**
+ * Local stand-in for the Reddit OAuth endpoints used by RedditSyncService.
+ * Issues application-only tokens, pages listings with after/limit and reports
+ * a rate budget in the x-ratelimit-* headers.
+ */
+export class RedditMockServer {
+  private server: http.Server | null = null;
+  private faults: Array<{ status: number; remaining: number }> = [];
+  private subreddits = new Map<string, MockSubreddit>();
+  private tokens = new Set<string>();
+  private window = { startedAt: Date.now(), used: 0 };
+  private requestsPerWindow: number;
+  private windowSeconds: number;
+
+  constructor(private fixtures: RedditMockFixtures) {
+    for (const [name, subreddit] of Object.entries(fixtures.subreddits)) {
+      this.subreddits.set(name.toLowerCase(), {
+        about: subreddit.about.data,
+        posts: this.sortNewestFirst(subreddit.new.data.children.map(child => child.data)),
+        comments: this.sortNewestFirst(subreddit.comments.data.children.map(child => child.data))
+      });
+    }
+    this.requestsPerWindow = fixtures.rateLimit?.requests ?? 100;
+    this.windowSeconds = fixtures.rateLimit?.windowSeconds ?? 60;
+  }
+
+  static fromFile(filePath: string): RedditMockServer {
+    return new RedditMockServer(loadRedditFixtures(filePath));
+  }
+
+  /**
+   * Start listening; resolves with the base URL to use as REDDIT_API_BASE_URL
+   * (the token endpoint is served at <base>/api/v1/access_token)
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Answer the next `count` API requests with the given status
+   */
+  injectFault(status: number, count: number = 1): void {
+    this.faults.push({ status, remaining: count });
+  }
+
+  /**
+   * Add a post or comment as if it had just been submitted, e.g. to test incremental syncs
+   */
+  addPost(post: RedditPost): void {
+    const subreddit = this.getSubreddit(post.subreddit);
+    subreddit.posts = this.sortNewestFirst([...subreddit.posts, post]);
+  }
+
+  addComment(comment: RedditComment): void {
+    const subreddit = this.getSubreddit(comment.subreddit);
+    subreddit.comments = this.sortNewestFirst([...subreddit.comments, comment]);
+  }
+
+  /**
+   * Change subscriber or active user counts, e.g. to test audience snapshots
+   */
+  updateSubreddit(name: string, about: Partial<RedditSubreddit>): void {
+    const subreddit = this.getSubreddit(name);
+    subreddit.about = { ...subreddit.about, ...about };
+  }
+
+  private getSubreddit(name: string): MockSubreddit {
+    const subreddit = this.subreddits.get(name.toLowerCase());
+    if (!subreddit) throw new Error(`Unknown mock subreddit: ${name}`);
+    return subreddit;
+  }
+
+  private sortNewestFirst<T extends { created_utc: number }>(items: T[]): T[] {
+    return [...items].sort((a, b) => b.created_utc - a.created_utc);
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/\.json$/, '').replace(/\/+$/, '');
+
+    const response = path === '/api/v1/access_token'
+      ? this.issueToken(req)
+      : this.respond(req, path, url.searchParams);
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(JSON.stringify(response.body));
+  }
+
+  private issueToken(req: IncomingMessage): MockResponse {
+    if (req.method !== 'POST' || !/^Basic \S+/.test(req.headers.authorization || '')) {
+      return { status: 401, body: { message: 'Unauthorized', error: 401 } };
+    }
+
+    const token = `mock-token-${this.tokens.size + 1}`;
+    this.tokens.add(token);
+    return { status: 200, body: { access_token: token, token_type: 'bearer', expires_in: 86400, scope: '*' } };
+  }
+
+  /**
+   * Count a request against the current window and build the x-ratelimit-* headers
+   */
+  private spendBudget(): { allowed: boolean; headers: Record<string, string> } {
+    const elapsed = (Date.now() - this.window.startedAt) / 1000;
+    if (elapsed >= this.windowSeconds) {
+      this.window = { startedAt: Date.now(), used: 0 };
+    }
+
+    const allowed = this.window.used < this.requestsPerWindow;
+    if (allowed) this.window.used++;
+
+    const reset = Math.max(0, Math.ceil(this.windowSeconds - (Date.now() - this.window.startedAt) / 1000));
+    return {
+      allowed,
+      headers: {
+        'x-ratelimit-used': String(this.window.used),
+        'x-ratelimit-remaining': (this.requestsPerWindow - this.window.used).toFixed(1),
+        'x-ratelimit-reset': String(reset)
+      }
+    };
+  }
+
+  private respond(req: IncomingMessage, path: string, query: URLSearchParams): MockResponse {
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    if (!this.tokens.has(token)) {
+      return { status: 401, body: { message: 'Unauthorized', error: 401 } };
+    }
+
+    const budget = this.spendBudget();
+    if (!budget.allowed) {
+      return { status: 429, body: { message: 'Too Many Requests', error: 429 }, headers: budget.headers };
+    }
+
+    const fault = this.faults[0];
+    if (fault) {
+      fault.remaining--;
+      if (fault.remaining <= 0) this.faults.shift();
+      return { status: fault.status, body: { message: http.STATUS_CODES[fault.status] || 'Error', error: fault.status }, headers: budget.headers };
+    }
+
+    if (req.method !== 'GET') {
+      return { status: 405, body: { message: 'Method Not Allowed', error: 405 }, headers: budget.headers };
+    }
+
+    const match = path.match(/^\/r\/([A-Za-z0-9_]+)\/(about|new|comments)$/);
+    if (!match) {
+      return { status: 404, body: { message: 'Not Found', error: 404 }, headers: budget.headers };
+    }
+
+    const name = match[1]!.toLowerCase();
+    const isListed = (names?: string[]) => (names || []).some(listed => listed.toLowerCase() === name);
+    if (isListed(this.fixtures.privateSubreddits)) {
+      return { status: 403, body: { reason: 'private', message: 'Forbidden', error: 403 }, headers: budget.headers };
+    }
+    if (isListed(this.fixtures.bannedSubreddits)) {
+      return { status: 404, body: { reason: 'banned', message: 'Not Found', error: 404 }, headers: budget.headers };
+    }
+
+    const subreddit = this.subreddits.get(name);
+    if (!subreddit) {
+      return { status: 404, body: { message: 'Not Found', error: 404 }, headers: budget.headers };
+    }
+
+    if (match[2] === 'about') {
+      return { status: 200, body: { kind: 't5', data: subreddit.about }, headers: budget.headers };
+    }
+
+    const body = match[2] === 'new'
+      ? this.listing(subreddit.posts, 't3', query)
+      : this.listing(subreddit.comments, 't1', query);
+    return { status: 200, body, headers: budget.headers };
+  }
+
+  private listing<T extends { name: string }>(items: T[], kind: string, query: URLSearchParams): RedditListingResponse<T> {
+    const limit = Math.min(Math.max(parseInt(query.get('limit') || '25', 10) || 25, 1), 100);
+    const after = query.get('after');
+
+    // An unknown `after` (e.g. a deleted item) gives an empty page, as on Reddit
+    const start = after ? items.findIndex(item => item.name === after) + 1 : 0;
+    const page = after && start === 0 ? [] : items.slice(start, start + limit);
+    const hasMore = start + page.length < items.length && page.length > 0;
+
+    return {
+      kind: 'Listing',
+      data: {
+        after: hasMore ? page[page.length - 1]!.name : null,
+        before: null,
+        children: page.map(data => ({ kind, data }))
+      }
+    };
+  }
+}
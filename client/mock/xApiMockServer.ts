@@ -0,0 +1,586 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { EndpointRateLimiter } from '../services/twitter/endpointRateLimiter';
+
+// The user timeline endpoint only returns the ~3200 most recent tweets
+const TIMELINE_LIMIT = 3200;
+
+// Epoch used by X snowflake ids
+const TWITTER_EPOCH_MS = 1288834974657n;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface MockTweetGenerator {
+  count: number; // Tweets that already exist when the server starts
+  intervalHours: number; // Time between tweets; new ones keep appearing as the mock clock advances
+  baseLikes: number; // Likes a tweet settles at after a few days
+  text: string; // Template, `{n}` is replaced with the tweet number
+}
+
+export interface MockUserFixture {
+  id: string;
+  username: string;
+  name: string;
+  created_at?: string;
+  verified?: boolean;
+  protected?: boolean;
+  suspended?: boolean;
+  followers_count: number;
+  following_count?: number;
+  listed_count?: number;
+  followerDriftPerDay?: number; // Followers gained (or lost) per simulated day
+  tweets?: MockTweetGenerator;
+}
+
+export interface MockXApiSettings {
+  timeScale: number; // Simulated time passing per real second, e.g. 3600 = one hour per second
+  rateLimitWindowSeconds: number;
+  serviceUnavailableRate: number; // Probability (0-1) that any request answers 503
+}
+
+export interface MockXApiFixtures {
+  settings?: Partial<MockXApiSettings>;
+  rateLimits?: Record<string, number>; // Requests per window by endpoint key, e.g. "GET /users/:id/tweets"
+  users: MockUserFixture[];
+}
+
+interface MockTweet {
+  id: string;
+  text: string;
+  created_at: string;
+  author_id: string;
+  conversation_id: string;
+  lang: string;
+  entities: { hashtags: Array<{ start: number; end: number; tag: string }> };
+  public_metrics: {
+    retweet_count: number;
+    reply_count: number;
+    like_count: number;
+    quote_count: number;
+    impression_count: number;
+  };
+  edit_history_tweet_ids: string[];
+}
+
+interface QueuedFault {
+  status: number;
+  remaining: number;
+  endpoint?: string;
+}
+
+interface RateLimitWindow {
+  limit: number;
+  remaining: number;
+  resetAt: number; // Unix seconds
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+const DEFAULT_SETTINGS: MockXApiSettings = {
+  timeScale: 1,
+  rateLimitWindowSeconds: 15 * 60,
+  serviceUnavailableRate: 0
+};
+
+const DEFAULT_RATE_LIMIT = 300;
+
+/**
+ * Load fixtures from a JSON file
+ */
+export function loadMockFixtures(filePath: string): MockXApiFixtures {
+  return JSON.parse(readFileSync(filePath, 'utf8')) as MockXApiFixtures;
+}
+
+/**
+ * Snowflake id for a timestamp, so ids sort by creation time like real tweet ids
+ */
+function snowflakeId(timestampMs: number, sequence: number): string {
+  return (((BigInt(timestampMs) - TWITTER_EPOCH_MS) << 22n) | BigInt(sequence & 0xfff)).toString();
+}
+
+/**
+ * Deterministic 0-1 value per tweet so engagement differs between tweets but not between runs
+ */
+function spread(seed: number): number {
+  return ((seed * 2654435761) % 1000) / 1000;
+}
+
+function problem(title: string, detail: string, type: string = 'about:blank', extra: Record<string, unknown> = {}) {
+  return { title, detail, type, ...extra };
+}
+
+/**
+ * Local stand-in for the X API v2 endpoints used by the sync services.
+ * Serves fixture users and generated timelines, and can simulate pagination,
+ * 429s with reset headers, 503s, suspended/protected users and follower drift.
+ */
+export class MockXApiServer {
+  private settings: MockXApiSettings;
+  private server: http.Server | null = null;
+  private usersById = new Map<string, MockUserFixture>();
+  private usersByUsername = new Map<string, MockUserFixture>();
+  private rateLimitWindows = new Map<string, RateLimitWindow>();
+  private faults: QueuedFault[] = [];
+  private startedAt = Date.now();
+  private clockOffsetMs = 0;
+
+  constructor(private fixtures: MockXApiFixtures, settings: Partial<MockXApiSettings> = {}) {
+    this.settings = { ...DEFAULT_SETTINGS, ...fixtures.settings, ...settings };
+
+    for (const user of fixtures.users) {
+      this.usersById.set(user.id, user);
+      this.usersByUsername.set(user.username.toLowerCase(), user);
+    }
+  }
+
+  static fromFile(filePath: string, settings: Partial<MockXApiSettings> = {}): MockXApiServer {
+    return new MockXApiServer(loadMockFixtures(filePath), settings);
+  }
+
+  /**
+   * Start listening; resolves with the base URL to use as TWITTER_API_BASE_URL
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.send(res, { status: 500, body: problem('Internal Error', error instanceof Error ? error.message : String(error)) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}/2`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  /**
+   * Answer the next `count` requests (optionally only for one endpoint key) with the given status
+   */
+  injectFault(status: number, count: number = 1, endpoint?: string): void {
+    this.faults.push({ status, remaining: count, endpoint });
+  }
+
+  /**
+   * Move the simulated clock forward, e.g. to let followers drift or new tweets appear
+   */
+  advanceClock(hours: number): void {
+    this.clockOffsetMs += hours * HOUR_MS;
+  }
+
+  /**
+   * Clear faults and rate limit windows and rewind the simulated clock
+   */
+  reset(): void {
+    this.faults = [];
+    this.rateLimitWindows.clear();
+    this.startedAt = Date.now();
+    this.clockOffsetMs = 0;
+  }
+
+  /**
+   * Current simulated time
+   */
+  now(): number {
+    return this.startedAt + (Date.now() - this.startedAt) * this.settings.timeScale + this.clockOffsetMs;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname.startsWith('/_mock/')) {
+      this.send(res, await this.handleControl(req, url));
+      return;
+    }
+
+    // Only GET /2/... endpoints exist; the prefix is stripped so paths match the client's endpoint keys
+    const path = url.pathname.replace(/^\/2(?=\/)/, '');
+    const endpoint = EndpointRateLimiter.endpointKey(req.method, path);
+
+    if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+      this.send(res, { status: 401, body: problem('Unauthorized', 'Unauthorized', 'about:blank', { status: 401 }) });
+      return;
+    }
+
+    const window = this.consumeRateLimit(endpoint);
+    const headers = {
+      'x-rate-limit-limit': String(window.limit),
+      'x-rate-limit-remaining': String(Math.max(0, window.remaining)),
+      'x-rate-limit-reset': String(window.resetAt)
+    };
+
+    if (window.remaining < 0) {
+      this.send(res, { status: 429, body: problem('Too Many Requests', 'Too Many Requests', 'about:blank', { status: 429 }) }, headers);
+      return;
+    }
+
+    const faultStatus = this.takeFault(endpoint);
+    if (faultStatus) {
+      if (faultStatus === 429) headers['x-rate-limit-remaining'] = '0';
+      this.send(res, { status: faultStatus, body: problem(http.STATUS_CODES[faultStatus] || 'Error', `Simulated ${faultStatus}`, 'about:blank', { status: faultStatus }) }, headers);
+      return;
+    }
+
+    this.send(res, this.route(req.method || 'GET', path, url.searchParams), headers);
+  }
+
+  private route(method: string, path: string, query: URLSearchParams): MockResponse {
+    if (method !== 'GET') {
+      return { status: 405, body: problem('Method Not Allowed', `${method} is not supported by the mock`) };
+    }
+
+    let match: RegExpMatchArray | null;
+    if ((match = path.match(/^\/users\/by\/username\/([^/]+)$/))) {
+      return this.getUserByUsername(decodeURIComponent(match[1]!), query);
+    }
+    if (path === '/users/by') {
+      return this.getUsersByUsernames(query);
+    }
+    if ((match = path.match(/^\/users\/(\d+)\/tweets$/))) {
+      return this.getUserTimeline(match[1]!, query);
+    }
+    if (path === '/tweets') {
+      return this.getTweetsByIds(query);
+    }
+
+    return { status: 404, body: problem('Not Found Error', `No mock for ${method} ${path}`) };
+  }
+
+  private getUserByUsername(username: string, query: URLSearchParams): MockResponse {
+    const lookup = this.lookupUser(username, query);
+    return { status: 200, body: 'user' in lookup ? { data: lookup.user } : { errors: [lookup.error] } };
+  }
+
+  private getUsersByUsernames(query: URLSearchParams): MockResponse {
+    const usernames = (query.get('usernames') || '').split(',').filter(Boolean);
+    if (usernames.length === 0 || usernames.length > 100) {
+      return { status: 400, body: problem('Invalid Request', 'The `usernames` query parameter must contain 1 to 100 usernames') };
+    }
+
+    const data: unknown[] = [];
+    const errors: unknown[] = [];
+    for (const username of usernames) {
+      const lookup = this.lookupUser(username, query);
+      if ('user' in lookup) data.push(lookup.user);
+      else errors.push(lookup.error);
+    }
+
+    return { status: 200, body: { ...(data.length > 0 && { data }), ...(errors.length > 0 && { errors }) } };
+  }
+
+  private getUserTimeline(userId: string, query: URLSearchParams): MockResponse {
+    const user = this.usersById.get(userId);
+    if (!user) {
+      return { status: 200, body: { errors: [this.notFound('user', 'id', userId, `Could not find user with id: [${userId}].`)] } };
+    }
+    if (user.suspended) {
+      return { status: 200, body: { errors: [this.suspended('id', userId)] } };
+    }
+    if (user.protected) {
+      return { status: 200, body: { errors: [this.notAuthorized(userId)] } };
+    }
+
+    const maxResults = parseInt(query.get('max_results') || '10', 10);
+    if (!(maxResults >= 5 && maxResults <= 100)) {
+      return { status: 400, body: problem('Invalid Request', 'The `max_results` query parameter value must be between 5 and 100') };
+    }
+
+    let offset = 0;
+    const paginationToken = query.get('pagination_token');
+    if (paginationToken) {
+      offset = parseInt(Buffer.from(paginationToken, 'base64url').toString('utf8'), 10);
+      if (!(offset >= 0)) {
+        return { status: 400, body: problem('Invalid Request', 'The `pagination_token` query parameter value is invalid') };
+      }
+    }
+
+    const sinceId = query.get('since_id');
+    const untilId = query.get('until_id');
+    const startTime = query.get('start_time') ? Date.parse(query.get('start_time')!) : undefined;
+    const endTime = query.get('end_time') ? Date.parse(query.get('end_time')!) : undefined;
+
+    const tweets = this.generateTweets(user)
+      .slice(0, TIMELINE_LIMIT)
+      .filter(tweet => !sinceId || BigInt(tweet.id) > BigInt(sinceId))
+      .filter(tweet => !untilId || BigInt(tweet.id) < BigInt(untilId))
+      .filter(tweet => startTime === undefined || Date.parse(tweet.created_at) >= startTime)
+      .filter(tweet => endTime === undefined || Date.parse(tweet.created_at) <= endTime);
+
+    const page = tweets.slice(offset, offset + maxResults);
+    const nextOffset = offset + page.length;
+    const tweetFields = this.fieldList(query.get('tweet.fields'));
+    const expansions = this.fieldList(query.get('expansions'));
+
+    const meta: Record<string, unknown> = { result_count: page.length };
+    if (page.length > 0) {
+      meta.newest_id = page[0]!.id;
+      meta.oldest_id = page[page.length - 1]!.id;
+    }
+    if (nextOffset < tweets.length && page.length > 0) {
+      meta.next_token = Buffer.from(String(nextOffset), 'utf8').toString('base64url');
+    }
+
+    return {
+      status: 200,
+      body: {
+        ...(page.length > 0 && { data: page.map(tweet => this.renderTweet(tweet, tweetFields)) }),
+        ...(expansions.includes('author_id') && page.length > 0 && {
+          includes: { users: [this.renderUser(user, this.fieldList(query.get('user.fields')))] }
+        }),
+        meta
+      }
+    };
+  }
+
+  private getTweetsByIds(query: URLSearchParams): MockResponse {
+    const ids = (query.get('ids') || '').split(',').filter(Boolean);
+    if (ids.length === 0 || ids.length > 100) {
+      return { status: 400, body: problem('Invalid Request', 'The `ids` query parameter must contain 1 to 100 ids') };
+    }
+
+    const tweetFields = this.fieldList(query.get('tweet.fields'));
+    const data: unknown[] = [];
+    const errors: unknown[] = [];
+
+    for (const id of ids) {
+      const found = this.findTweet(id);
+      if (!found || found.user.suspended) {
+        errors.push(this.notFound('tweet', 'ids', id, `Could not find tweet with ids: [${id}].`));
+      } else if (found.user.protected) {
+        errors.push(this.notAuthorized(found.user.id, 'tweet', 'ids', id));
+      } else {
+        data.push(this.renderTweet(found.tweet, tweetFields));
+      }
+    }
+
+    return { status: 200, body: { ...(data.length > 0 && { data }), ...(errors.length > 0 && { errors }) } };
+  }
+
+  private lookupUser(username: string, query: URLSearchParams): { user: unknown } | { error: unknown } {
+    const user = this.usersByUsername.get(username.toLowerCase());
+    if (!user) {
+      return { error: this.notFound('user', 'username', username, `Could not find user with username: [${username}].`) };
+    }
+    if (user.suspended) {
+      return { error: this.suspended('username', username) };
+    }
+    return { user: this.renderUser(user, this.fieldList(query.get('user.fields'))) };
+  }
+
+  /**
+   * Tweets visible at the current simulated time, newest first
+   */
+  private generateTweets(user: MockUserFixture): MockTweet[] {
+    const generator = user.tweets;
+    if (!generator || generator.count <= 0) return [];
+
+    const intervalMs = generator.intervalHours * HOUR_MS;
+    const firstTweetAt = this.startedAt - generator.count * intervalMs;
+    const now = this.now();
+    const visible = Math.floor((now - firstTweetAt) / intervalMs);
+    const tweets: MockTweet[] = [];
+
+    for (let n = visible; n >= 1; n--) {
+      tweets.push(this.buildTweet(user, generator, n, firstTweetAt + n * intervalMs, now));
+    }
+    return tweets;
+  }
+
+  private buildTweet(user: MockUserFixture, generator: MockTweetGenerator, n: number, createdAt: number, now: number): MockTweet {
+    const id = snowflakeId(createdAt, Number(BigInt(user.id) % 4096n));
+    const text = generator.text.replace('{n}', String(n));
+
+    // Engagement grows quickly after posting and levels off over a few days
+    const ageHours = Math.max(0, (now - createdAt) / HOUR_MS);
+    const settledLikes = generator.baseLikes * (0.5 + spread(n + Number(BigInt(user.id) % 1000n)));
+    const likes = Math.round(settledLikes * (1 - Math.exp(-ageHours / 12)));
+
+    const hashtags: MockTweet['entities']['hashtags'] = [];
+    for (const match of text.matchAll(/#(\w+)/g)) {
+      hashtags.push({ start: match.index!, end: match.index! + match[0].length, tag: match[1]! });
+    }
+
+    return {
+      id,
+      text,
+      created_at: new Date(createdAt).toISOString(),
+      author_id: user.id,
+      conversation_id: id,
+      lang: 'en',
+      entities: { hashtags },
+      public_metrics: {
+        retweet_count: Math.round(likes / 5),
+        reply_count: Math.round(likes / 10),
+        like_count: likes,
+        quote_count: Math.round(likes / 25),
+        impression_count: likes * 40
+      },
+      edit_history_tweet_ids: [id]
+    };
+  }
+
+  private findTweet(id: string): { user: MockUserFixture; tweet: MockTweet } | null {
+    for (const user of this.usersById.values()) {
+      const tweet = this.generateTweets(user).find(candidate => candidate.id === id);
+      if (tweet) return { user, tweet };
+    }
+    return null;
+  }
+
+  private renderTweet(tweet: MockTweet, fields: string[]): Record<string, unknown> {
+    const rendered: Record<string, unknown> = { id: tweet.id, text: tweet.text, edit_history_tweet_ids: tweet.edit_history_tweet_ids };
+    for (const field of fields) {
+      if (field in tweet) rendered[field] = tweet[field as keyof MockTweet];
+    }
+    return rendered;
+  }
+
+  private renderUser(user: MockUserFixture, fields: string[]): Record<string, unknown> {
+    const simulatedDays = (this.now() - this.startedAt) / DAY_MS;
+    const followers = Math.max(0, Math.round(user.followers_count + (user.followerDriftPerDay || 0) * simulatedDays));
+
+    const full: Record<string, unknown> = {
+      created_at: user.created_at,
+      verified: user.verified || false,
+      protected: user.protected || false,
+      public_metrics: {
+        followers_count: followers,
+        following_count: user.following_count || 0,
+        tweet_count: this.generateTweets(user).length,
+        listed_count: user.listed_count || 0
+      }
+    };
+
+    const rendered: Record<string, unknown> = { id: user.id, name: user.name, username: user.username };
+    for (const field of fields) {
+      if (full[field] !== undefined) rendered[field] = full[field];
+    }
+    return rendered;
+  }
+
+  private fieldList(value: string | null): string[] {
+    return (value || '').split(',').map(field => field.trim()).filter(Boolean);
+  }
+
+  private notFound(resourceType: string, parameter: string, value: string, detail: string) {
+    return problem('Not Found Error', detail, 'https://api.twitter.com/2/problems/resource-not-found', {
+      value, resource_type: resourceType, parameter, resource_id: value
+    });
+  }
+
+  private suspended(parameter: string, value: string) {
+    return problem('Forbidden', `User has been suspended: [${value}].`, 'https://api.twitter.com/2/problems/resource-not-found', {
+      value, resource_type: 'user', parameter, resource_id: value
+    });
+  }
+
+  private notAuthorized(userId: string, resourceType: string = 'user', parameter: string = 'id', value: string = userId) {
+    return problem('Authorization Error', `Sorry, you are not authorized to see the user with id: [${userId}].`, 'https://api.twitter.com/2/problems/not-authorized-for-resource', {
+      value, resource_type: resourceType, parameter, resource_id: value
+    });
+  }
+
+  /**
+   * Spend one request from the endpoint's window; remaining drops below 0 once the limit is exceeded
+   */
+  private consumeRateLimit(endpoint: string): RateLimitWindow {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    let window = this.rateLimitWindows.get(endpoint);
+
+    if (!window || window.resetAt <= nowSeconds) {
+      const limit = this.fixtures.rateLimits?.[endpoint] ?? DEFAULT_RATE_LIMIT;
+      window = { limit, remaining: limit, resetAt: nowSeconds + this.settings.rateLimitWindowSeconds };
+      this.rateLimitWindows.set(endpoint, window);
+    }
+
+    window.remaining--;
+    return { ...window };
+  }
+
+  private takeFault(endpoint: string): number | null {
+    const fault = this.faults.find(candidate => !candidate.endpoint || candidate.endpoint === endpoint);
+    if (fault) {
+      fault.remaining--;
+      if (fault.remaining <= 0) {
+        this.faults.splice(this.faults.indexOf(fault), 1);
+      }
+      return fault.status;
+    }
+
+    if (this.settings.serviceUnavailableRate > 0 && Math.random() < this.settings.serviceUnavailableRate) {
+      return 503;
+    }
+    return null;
+  }
+
+  /**
+   * /_mock/* control endpoints for driving the mock from another process
+   */
+  private async handleControl(req: IncomingMessage, url: URL): Promise<MockResponse> {
+    const body = req.method === 'POST' ? await this.readJson(req) : {};
+
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /_mock/state':
+        return {
+          status: 200,
+          body: {
+            now: new Date(this.now()).toISOString(),
+            settings: this.settings,
+            faults: this.faults,
+            rateLimits: Object.fromEntries(this.rateLimitWindows)
+          }
+        };
+      case 'POST /_mock/faults':
+        if (typeof body.status !== 'number') {
+          return { status: 400, body: problem('Invalid Request', '`status` must be a number') };
+        }
+        this.injectFault(body.status, body.count ?? 1, body.endpoint);
+        return { status: 200, body: { faults: this.faults } };
+      case 'POST /_mock/advance':
+        if (typeof body.hours !== 'number') {
+          return { status: 400, body: problem('Invalid Request', '`hours` must be a number') };
+        }
+        this.advanceClock(body.hours);
+        return { status: 200, body: { now: new Date(this.now()).toISOString() } };
+      case 'POST /_mock/reset':
+        this.reset();
+        return { status: 200, body: { now: new Date(this.now()).toISOString() } };
+      default:
+        return { status: 404, body: problem('Not Found Error', `Unknown control endpoint ${req.method} ${url.pathname}`) };
+    }
+  }
+
+  private async readJson(req: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8');
+    if (!raw) return {};
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+
+  private send(res: ServerResponse, response: MockResponse, headers: Record<string, string> = {}): void {
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(response.body));
+  }
+}
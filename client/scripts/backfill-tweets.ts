@@ -0,0 +1,156 @@
+import dotenv from 'dotenv';
+import { XApiClient } from '../services/twitter/xApiClient';
+import { RateLimitManager } from '../services/twitter/rateLimitManager';
+import { createRateLimitStore } from '../services/twitter/rateLimitStore';
+import { TwitterBackfillService, BackfillResult, MAX_TIMELINE_TWEETS } from '../services/twitter/twitterBackfillService';
+
+// Load environment variables
+dotenv.config();
+
+interface BackfillArgs {
+  account?: string;
+  since?: Date;
+  maxTweets?: number;
+  restart: boolean;
+  all: boolean;
+}
+
+function printUsage(): void {
+  console.log(`
+🚀 Historical Tweet Backfill
+
+Usage: npm run backfill -- [options]
+
+Options:
+  --account <slug>     Backfill one account
+  --all                Backfill every account with a Twitter handle
+  --since <YYYY-MM-DD> Stop at tweets older than this date
+  --max-tweets <n>     Stop after n tweets per account (max ${MAX_TIMELINE_TWEETS})
+  --restart            Ignore saved progress and start again from the newest tweet
+
+Interrupted runs (rate limits, monthly post budget, crashes) resume from their checkpoint.
+
+Examples:
+  npm run backfill -- --account vitadao --since 2023-01-01
+  npm run backfill -- --all --max-tweets 1000
+  `);
+}
+
+function parseArgs(argv: string[]): BackfillArgs {
+  const args: BackfillArgs = { restart: false, all: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--account':
+        if (!value) throw new Error('--account requires a slug');
+        args.account = value;
+        i++;
+        break;
+      case '--since': {
+        const since = value ? new Date(`${value}T00:00:00Z`) : undefined;
+        if (!since || isNaN(since.getTime())) throw new Error('--since requires a date in YYYY-MM-DD format');
+        args.since = since;
+        i++;
+        break;
+      }
+      case '--max-tweets': {
+        const maxTweets = parseInt(value || '', 10);
+        if (!(maxTweets > 0)) throw new Error('--max-tweets requires a positive number');
+        args.maxTweets = maxTweets;
+        i++;
+        break;
+      }
+      case '--restart':
+        args.restart = true;
+        break;
+      case '--all':
+        args.all = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+async function main() {
+  let args: BackfillArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    printUsage();
+    process.exit(1);
+  }
+
+  if (!args.account && !args.all) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const bearerToken = process.env.TWITTER_BEARER_TOKEN;
+  if (!bearerToken) {
+    console.error('❌ TWITTER_BEARER_TOKEN environment variable is required');
+    process.exit(1);
+  }
+
+  // Share the persisted monthly budget with the sync server
+  const rateLimitManager = new RateLimitManager(undefined, createRateLimitStore());
+  await rateLimitManager.initialize();
+
+  const apiClient = new XApiClient(bearerToken, { rateLimitManager });
+  const backfillService = new TwitterBackfillService(apiClient, rateLimitManager);
+
+  const results: BackfillResult[] = [];
+
+  try {
+    const accounts = await backfillService.getAccounts(args.account);
+    if (accounts.length === 0) {
+      console.error(`❌ No account with a Twitter handle found${args.account ? ` for slug '${args.account}'` : ''}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`📚 Backfilling ${accounts.length} account(s)${args.since ? ` back to ${args.since.toISOString().slice(0, 10)}` : ''}`);
+    console.log(`📊 Monthly post budget left: ${rateLimitManager.getRemainingPostBudget()}`);
+
+    for (const account of accounts) {
+      const result = await backfillService.backfillAccount(account, {
+        since: args.since,
+        maxTweets: args.maxTweets,
+        restart: args.restart,
+        onProgress: checkpoint => {
+          console.log(`   ${account.slug}: ${checkpoint.tweets_fetched} tweets, ${checkpoint.pages_fetched} pages (${checkpoint.status})`);
+        }
+      });
+      results.push(result);
+
+      // Further accounts would pause immediately once the post budget is used up
+      if (result.status === 'paused' && rateLimitManager.getRemainingPostBudget() < 100) {
+        console.warn('⚠️ Monthly post budget exhausted - stopping. Re-run next month to continue.');
+        break;
+      }
+    }
+  } finally {
+    await rateLimitManager.flush();
+  }
+
+  console.log('\n📊 Backfill Results:');
+  for (const result of results) {
+    const icon = result.status === 'completed' ? '✅' : result.status === 'paused' ? '⏸️' : '❌';
+    console.log(`${icon} ${result.accountSlug}: ${result.status} - ${result.tweetsStored} tweets stored in ${result.pagesFetched} pages${result.resumed ? ' (resumed)' : ''}${result.error ? ` - ${result.error}` : ''}`);
+  }
+
+  if (results.some(result => result.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Backfill failed:', error);
+  process.exit(1);
+});
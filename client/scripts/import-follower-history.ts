@@ -0,0 +1,196 @@
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { AccountService } from '../services/dao/daoService';
+import { Account } from '../services/types/dao';
+import TwitterFollowerService from '../services/twitter/twitterFollowerService';
+import { FollowerSnapshotImporter, SnapshotImportResult, parseFollowerCountsCsv } from '../services/twitter/followerSnapshotImporter';
+
+// Load environment variables
+dotenv.config();
+
+interface ImportArgs {
+  csv?: string;
+  legacy: boolean;
+  gaps: boolean;
+  fillGaps: boolean;
+  account?: string;
+  days: number;
+  maxGapDays?: number;
+  overwrite: boolean;
+  dryRun: boolean;
+}
+
+function printUsage(): void {
+  console.log(`
+📈 Follower History Import & Gap Filling
+
+Usage: npm run import:followers -- [options]
+
+Modes:
+  --csv <file>         Import daily follower counts from a CSV file
+  --legacy             Import from the legacy account_follower_history table
+  --gaps               List missing snapshot dates
+  --fill-gaps          Interpolate missing dates between observed snapshots
+
+Options:
+  --account <slug>     Only this account (required for a CSV without an account column)
+  --days <n>           How far back --gaps looks (default 90)
+  --max-gap-days <n>   Longer gaps are left open instead of interpolated (default 31)
+  --overwrite          Replace snapshots the daily sync already recorded
+  --dry-run            Show what an import would change without writing
+
+The CSV needs a header with date and follower_count (or followers) columns, and
+optionally an account column holding a slug, Twitter handle or account id.
+
+Examples:
+  npm run import:followers -- --csv exports/vitadao.csv --account vitadao --dry-run
+  npm run import:followers -- --legacy
+  npm run import:followers -- --gaps --days 365
+  `);
+}
+
+function parseArgs(argv: string[]): ImportArgs {
+  const args: ImportArgs = { legacy: false, gaps: false, fillGaps: false, days: 90, overwrite: false, dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--csv':
+        if (!value) throw new Error('--csv requires a file path');
+        args.csv = value;
+        i++;
+        break;
+      case '--account':
+        if (!value) throw new Error('--account requires a slug');
+        args.account = value;
+        i++;
+        break;
+      case '--days': {
+        const days = parseInt(value || '', 10);
+        if (!(days > 0)) throw new Error('--days requires a positive number');
+        args.days = days;
+        i++;
+        break;
+      }
+      case '--max-gap-days': {
+        const maxGapDays = parseInt(value || '', 10);
+        if (!(maxGapDays > 0)) throw new Error('--max-gap-days requires a positive number');
+        args.maxGapDays = maxGapDays;
+        i++;
+        break;
+      }
+      case '--legacy':
+        args.legacy = true;
+        break;
+      case '--gaps':
+        args.gaps = true;
+        break;
+      case '--fill-gaps':
+        args.fillGaps = true;
+        break;
+      case '--overwrite':
+        args.overwrite = true;
+        break;
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+function printResults(results: SnapshotImportResult[], dryRun: boolean): void {
+  console.log(`\n📊 Import Results${dryRun ? ' (dry run - nothing written)' : ''}:`);
+  for (const result of results) {
+    const range = result.first_date ? `${result.first_date} to ${result.last_date}` : 'no data';
+    console.log(`✅ ${result.slug} (${result.source}, ${range}): ${result.days_read} days read, ${result.inserted} new, ` +
+      `${result.replaced_interpolated} replaced interpolated, ${result.replaced_observed} replaced observed, ` +
+      `${result.skipped_existing} already recorded${dryRun ? '' : `, ${result.interpolated} days interpolated`}`);
+  }
+}
+
+async function main() {
+  let args: ImportArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    printUsage();
+    process.exit(1);
+  }
+
+  if (!args.csv && !args.legacy && !args.gaps && !args.fillGaps) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const accountService = new AccountService();
+  // Nothing here calls the X API
+  const followerService = new TwitterFollowerService('');
+  const importer = new FollowerSnapshotImporter(followerService);
+  const options = { overwrite: args.overwrite, dryRun: args.dryRun, maxGapDays: args.maxGapDays };
+
+  const accounts = await accountService.getAllAccounts();
+  let account: Account | null = null;
+  if (args.account) {
+    account = accounts.find(candidate => candidate.slug === args.account) ?? null;
+    if (!account) {
+      console.error(`❌ Account '${args.account}' not found`);
+      process.exit(1);
+    }
+  }
+
+  if (args.csv) {
+    const { rows, errors: parseErrors } = parseFollowerCountsCsv(readFileSync(args.csv, 'utf8'));
+    console.log(`📄 Read ${rows.length} rows from ${args.csv}`);
+
+    const { results, errors } = await importer.importCsvRows(rows, accounts, account, options);
+    printResults(results, args.dryRun);
+
+    const allErrors = [...parseErrors, ...errors];
+    if (allErrors.length > 0) {
+      console.warn(`\n⚠️ ${allErrors.length} row(s) skipped:`);
+      allErrors.slice(0, 20).forEach(error => console.warn(`   ${error}`));
+      if (allErrors.length > 20) console.warn(`   ... and ${allErrors.length - 20} more`);
+      process.exitCode = 1;
+    }
+  }
+
+  if (args.legacy) {
+    const targets = account ? [account] : accounts.filter(candidate => candidate.twitter_handle);
+    console.log(`📚 Importing legacy follower history for ${targets.length} account(s)`);
+
+    const results: SnapshotImportResult[] = [];
+    for (const target of targets) {
+      results.push(await importer.importLegacyHistory(target, options));
+    }
+    printResults(results, args.dryRun);
+  }
+
+  if (args.fillGaps && !args.dryRun) {
+    const inserted = await followerService.fillSnapshotGaps(account?.id ?? null, undefined, args.maxGapDays);
+    console.log(`\n🧩 Interpolated ${inserted} missing day(s)${account ? ` for ${account.slug}` : ''}`);
+  }
+
+  if (args.gaps) {
+    const gaps = await followerService.getSnapshotGaps(account?.id ?? null, args.days);
+    const slugs = new Map(accounts.map(candidate => [candidate.id, candidate.slug]));
+
+    console.log(`\n🕳️ ${gaps.length} gap(s) in the last ${args.days} days:`);
+    for (const gap of gaps) {
+      const status = gap.after_count === null ? 'sync stopped' : gap.filled ? 'interpolated' : 'open';
+      console.log(`   ${slugs.get(gap.account_id) ?? gap.account_id}: ${gap.gap_start} to ${gap.gap_end} ` +
+        `(${gap.missing_days} days, ${gap.before_count} -> ${gap.after_count ?? '?'}, ${status})`);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Follower history import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+import { AlertSinkMockServer } from '../mock/alertSinkMockServer';
+
+// Load environment variables
+dotenv.config();
+
+const HTTP_PORT = parseInt(process.env.MOCK_ALERT_HTTP_PORT || '4013', 10);
+const SMTP_PORT = parseInt(process.env.MOCK_ALERT_SMTP_PORT || '2525', 10);
+
+async function main() {
+  const server = new AlertSinkMockServer();
+  const { webhookUrl, smtpPort } = await server.start(HTTP_PORT, SMTP_PORT, '0.0.0.0');
+
+  console.log(`🧪 Mock alert webhook listening on ${webhookUrl.replace('0.0.0.0', 'localhost')}`);
+  console.log(`🧪 Mock SMTP server listening on localhost:${smtpPort}`);
+  console.log(`📄 Captured alerts: http://localhost:${HTTP_PORT}/received`);
+  console.log('\nPoint the alert notifiers at it with:');
+  console.log(`  ALERT_WEBHOOK_URL=http://localhost:${HTTP_PORT}/webhook ALERT_SLACK_WEBHOOK_URL=http://localhost:${HTTP_PORT}/slack \\`);
+  console.log(`    ALERT_SMTP_HOST=localhost ALERT_SMTP_PORT=${smtpPort} ALERT_EMAIL_TO=team@example.org npm start`);
+
+  const shutdown = async () => {
+    console.log('\n🛑 Stopping mock alert sinks...');
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to start mock alert sinks:', error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+import { DiscordMockServer } from '../mock/discordMockServer';
+
+// Load environment variables
+dotenv.config();
+
+const PORT = parseInt(process.env.MOCK_DISCORD_API_PORT || '4011', 10);
+const FIXTURES = process.env.MOCK_DISCORD_API_FIXTURES || resolve(process.cwd(), 'client/mock/fixtures/discord.json');
+
+async function main() {
+  const server = DiscordMockServer.fromFile(FIXTURES);
+  await server.start(PORT, '0.0.0.0');
+
+  console.log(`🧪 Mock Discord API listening on http://localhost:${PORT}/api/v10`);
+  console.log(`📄 Fixtures: ${FIXTURES}`);
+  console.log('\nPoint the BioDAO sync at it with:');
+  console.log(`  DISCORD_API_BASE_URL=http://localhost:${PORT}/api/v10 DISCORD_BOT_TOKEN=mock-token npm run dev`);
+
+  const shutdown = async () => {
+    console.log('\n🛑 Stopping mock Discord API...');
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to start mock Discord API:', error);
+  process.exit(1);
+});
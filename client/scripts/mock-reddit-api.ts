@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+import { RedditMockServer } from '../mock/redditMockServer';
+
+// Load environment variables
+dotenv.config();
+
+const PORT = parseInt(process.env.MOCK_REDDIT_API_PORT || '4012', 10);
+const FIXTURES = process.env.MOCK_REDDIT_API_FIXTURES || resolve(process.cwd(), 'client/mock/fixtures/reddit.json');
+
+async function main() {
+  const server = RedditMockServer.fromFile(FIXTURES);
+  await server.start(PORT, '0.0.0.0');
+
+  console.log(`🧪 Mock Reddit API listening on http://localhost:${PORT}`);
+  console.log(`📄 Fixtures: ${FIXTURES}`);
+  console.log('\nPoint the BioDAO sync at it with:');
+  console.log(`  REDDIT_API_BASE_URL=http://localhost:${PORT} REDDIT_AUTH_URL=http://localhost:${PORT}/api/v1/access_token \\`);
+  console.log('    REDDIT_CLIENT_ID=mock REDDIT_CLIENT_SECRET=mock npm run dev');
+
+  const shutdown = async () => {
+    console.log('\n🛑 Stopping mock Reddit API...');
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to start mock Reddit API:', error);
+  process.exit(1);
+});
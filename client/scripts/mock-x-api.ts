@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+import { MockXApiServer } from '../mock/xApiMockServer';
+
+// Load environment variables
+dotenv.config();
+
+const PORT = parseInt(process.env.MOCK_X_API_PORT || '4010', 10);
+const FIXTURES = process.env.MOCK_X_API_FIXTURES || resolve(process.cwd(), 'client/mock/fixtures/x-api.json');
+
+async function main() {
+  const settings = {
+    ...(process.env.MOCK_X_API_TIME_SCALE && { timeScale: parseFloat(process.env.MOCK_X_API_TIME_SCALE) }),
+    ...(process.env.MOCK_X_API_503_RATE && { serviceUnavailableRate: parseFloat(process.env.MOCK_X_API_503_RATE) }),
+    ...(process.env.MOCK_X_API_RATE_LIMIT_WINDOW && { rateLimitWindowSeconds: parseInt(process.env.MOCK_X_API_RATE_LIMIT_WINDOW, 10) })
+  };
+
+  const server = MockXApiServer.fromFile(FIXTURES, settings);
+  const baseUrl = await server.start(PORT, '0.0.0.0');
+
+  console.log(`🧪 Mock X API listening on ${baseUrl.replace('0.0.0.0', 'localhost')}`);
+  console.log(`📄 Fixtures: ${FIXTURES}`);
+  console.log('\nPoint the sync services at it with:');
+  console.log(`  TWITTER_API_BASE_URL=http://localhost:${PORT}/2 TWITTER_BEARER_TOKEN=mock-token npm start`);
+  console.log('\nControl endpoints:');
+  console.log('  GET  /_mock/state                          - simulated clock, queued faults, rate limit windows');
+  console.log('  POST /_mock/faults  {"status":503,"count":2} - fail the next requests (optional "endpoint")');
+  console.log('  POST /_mock/advance {"hours":24}            - move the simulated clock forward');
+  console.log('  POST /_mock/reset                          - clear faults and rate limits, rewind the clock');
+
+  const shutdown = async () => {
+    console.log('\n🛑 Stopping mock X API...');
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to start mock X API:', error);
+  process.exit(1);
+});
@@ -1,7 +1,7 @@
 #!/usr/bin/env ts-node
 
 import { supabase } from '../services/supabase/client';
-import { EngagementSyncService, RateLimitManager, SyncLogger } from '../services/twitter';
+import { EngagementSyncService, RateLimitManager, SyncLogger, createRateLimitStore } from '../services/twitter';
 
 async function setupEngagementSync() {
   console.log('🚀 Setting up Twitter Engagement Sync System...');
@@ -32,13 +32,15 @@ async function setupEngagementSync() {
     }
 
     // Initialize services
+    const rateLimitManager = new RateLimitManager(undefined, createRateLimitStore());
+    await rateLimitManager.initialize();
+
     const syncService = new EngagementSyncService(bearerToken, {
       daysToLookBack: 5,
       syncIntervalHours: 2,
       maxRequestsPerBatch: 5  // Conservative for setup
-    });
+    }, rateLimitManager);
 
-    const rateLimitManager = new RateLimitManager();
     const logger = new SyncLogger('SetupTest');
 
     // Test rate limit manager
@@ -116,7 +118,8 @@ async function checkSystemHealth() {
     }
 
     // Check rate limit status
-    const rateLimitManager = new RateLimitManager();
+    const rateLimitManager = new RateLimitManager(undefined, createRateLimitStore());
+    await rateLimitManager.initialize();
     const usage = rateLimitManager.getUsageStats();
     
     console.log('\n📊 Rate limit usage:');
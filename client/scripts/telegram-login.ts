@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+import { createInterface } from 'readline/promises';
+import { TelegramClient } from 'telegram';
+import { StringSession } from 'telegram/sessions';
+import { LogLevel } from 'telegram/extensions/Logger';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Log in to Telegram once and print the session string for TELEGRAM_SESSION.
+ * Use a dedicated account that has joined the channels and groups to track.
+ */
+async function main() {
+  const apiId = parseInt(process.env.TELEGRAM_API_ID || '', 10);
+  const apiHash = process.env.TELEGRAM_API_HASH;
+
+  if (!apiId || !apiHash) {
+    console.error('❌ TELEGRAM_API_ID and TELEGRAM_API_HASH environment variables are required');
+    console.log('💡 Create them at https://my.telegram.org/apps');
+    process.exit(1);
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const client = new TelegramClient(new StringSession(''), apiId, apiHash, { connectionRetries: 5 });
+  client.setLogLevel(LogLevel.ERROR);
+
+  try {
+    await client.start({
+      phoneNumber: () => rl.question('📱 Phone number (international format): '),
+      phoneCode: () => rl.question('🔑 Login code: '),
+      password: () => rl.question('🔒 Two-step verification password (if enabled): '),
+      onError: error => console.error('❌ Login failed:', error.message)
+    });
+
+    console.log('\n✅ Logged in. Add this to your environment:\n');
+    console.log(`TELEGRAM_SESSION=${client.session.save()}`);
+    console.log('\n⚠️  The session grants full access to the account - keep it secret.');
+  } finally {
+    rl.close();
+    await client.disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Telegram login failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,264 @@
+import { supabase } from '../supabase/client';
+import { AccountService } from '../dao/daoService';
+import { BioDAOService } from '../biodao/biodaoService';
+import { Account } from '../types/dao';
+import { median, percentileRank, round } from './statistics';
+
+export const BENCHMARK_METRICS = [
+  'follower_growth',
+  'growth_percentage',
+  'tweet_volume',
+  'engagement_rate',
+  'median_likes',
+  'top_tweet_reach'
+] as const;
+export type BenchmarkMetric = typeof BENCHMARK_METRICS[number];
+
+// 'all' accounts, accounts with a tag ('tag:longevity') or accounts linked to a BioDAO
+export type PeerGroup =
+  | { kind: 'all' }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'biodao' };
+
+export interface BenchmarkScore {
+  value: number | null;
+  rank: number | null; // 1 = best in the peer group
+  percentile: number | null; // Share of peers (0-100) at or below this value
+}
+
+export interface AccountBenchmark {
+  account_id: string;
+  slug: string;
+  name: string;
+  twitter_handle: string | null;
+  tags: string[];
+  biodao_slug: string | null;
+  start_followers: number | null;
+  end_followers: number | null;
+  top_tweet_id: string | null;
+  metrics: Record<BenchmarkMetric, BenchmarkScore>;
+}
+
+export interface BenchmarkLeaderboard {
+  days: number;
+  peer_group: string;
+  sort_by: BenchmarkMetric;
+  peer_count: number;
+  peer_medians: Record<BenchmarkMetric, number | null>;
+  accounts: AccountBenchmark[];
+  generated_at: string;
+}
+
+export interface BenchmarkOptions {
+  days?: number;
+  peerGroup?: PeerGroup;
+  sortBy?: BenchmarkMetric;
+  limit?: number;
+}
+
+// One row of get_account_benchmark_metrics
+interface BenchmarkMetricsRow {
+  account_id: string;
+  start_followers: number | null;
+  end_followers: number | null;
+  tweet_count: number;
+  normalized_engagements: number;
+  follower_sum: number;
+  median_likes: number | null;
+  top_tweet_id: string | null;
+  top_tweet_views: number | null;
+}
+
+interface BenchmarkCandidate {
+  account: Account;
+  biodaoSlug: string | null;
+  row: BenchmarkMetricsRow;
+  values: Record<BenchmarkMetric, number | null>;
+}
+
+/**
+ * Parse a peer group from the API: 'all', 'biodao' or 'tag:<tag>'
+ */
+export function parsePeerGroup(value: string | null | undefined): PeerGroup | null {
+  if (!value || value === 'all') return { kind: 'all' };
+  if (value === 'biodao') return { kind: 'biodao' };
+  if (value.startsWith('tag:') && value.length > 4) return { kind: 'tag', tag: value.slice(4).toLowerCase() };
+  return null;
+}
+
+export function formatPeerGroup(group: PeerGroup): string {
+  return group.kind === 'tag' ? `tag:${group.tag}` : group.kind;
+}
+
+function normalizeHandle(handle: string): string {
+  return handle.trim().replace(/^@/, '').toLowerCase();
+}
+
+function metricValues(row: BenchmarkMetricsRow): Record<BenchmarkMetric, number | null> {
+  const start = row.start_followers;
+  const end = row.end_followers;
+  const hasGrowth = start !== null && end !== null;
+
+  return {
+    follower_growth: hasGrowth ? end - start : null,
+    growth_percentage: hasGrowth && start > 0 ? round((end - start) / start * 100, 2) : null,
+    tweet_volume: Number(row.tweet_count),
+    engagement_rate: Number(row.follower_sum) > 0
+      ? round(Number(row.normalized_engagements) / Number(row.follower_sum) * 100, 4)
+      : null,
+    median_likes: row.median_likes,
+    top_tweet_reach: row.top_tweet_views === null ? null : Number(row.top_tweet_views)
+  };
+}
+
+/**
+ * Ranks tracked accounts against each other over a window: follower growth, growth %,
+ * tweet volume, engagement rate, median likes and top tweet reach. Metrics for all
+ * accounts come from one query; ranks and percentiles are computed within a peer group.
+ */
+export class AccountBenchmarkService {
+  constructor(
+    private accountService: AccountService,
+    private biodaoService: BioDAOService = new BioDAOService()
+  ) {}
+
+  /**
+   * Leaderboard of the peer group, best first by sortBy
+   */
+  async getLeaderboard(options: BenchmarkOptions = {}): Promise<BenchmarkLeaderboard> {
+    const { days = 30, peerGroup = { kind: 'all' }, sortBy = 'engagement_rate', limit } = options;
+    const candidates = await this.loadCandidates(days);
+    const peers = candidates.filter(candidate => this.isInPeerGroup(candidate, peerGroup));
+
+    const accounts = peers
+      .map(candidate => this.score(candidate, peers))
+      .sort((a, b) => (a.metrics[sortBy].rank ?? Infinity) - (b.metrics[sortBy].rank ?? Infinity));
+
+    return {
+      days,
+      peer_group: formatPeerGroup(peerGroup),
+      sort_by: sortBy,
+      peer_count: peers.length,
+      peer_medians: this.peerMedians(peers),
+      accounts: limit === undefined ? accounts : accounts.slice(0, limit),
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * One account's scores against a peer group, which it need not belong to
+   */
+  async getAccountBenchmark(
+    accountSlug: string,
+    options: Omit<BenchmarkOptions, 'sortBy' | 'limit'> = {}
+  ): Promise<(Omit<BenchmarkLeaderboard, 'accounts' | 'sort_by'> & { account: AccountBenchmark }) | null> {
+    const { days = 30, peerGroup = { kind: 'all' } } = options;
+    const candidates = await this.loadCandidates(days);
+
+    const target = candidates.find(candidate => candidate.account.slug === accountSlug);
+    if (!target) return null;
+
+    const peers = candidates.filter(candidate => this.isInPeerGroup(candidate, peerGroup));
+    const compared = peers.includes(target) ? peers : [...peers, target];
+
+    return {
+      days,
+      peer_group: formatPeerGroup(peerGroup),
+      peer_count: peers.length,
+      peer_medians: this.peerMedians(peers),
+      account: this.score(target, compared),
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  // Accounts with a Twitter handle, their window metrics and BioDAO membership
+  private async loadCandidates(days: number): Promise<BenchmarkCandidate[]> {
+    const [accounts, metricsResult, biodaos, socialAccounts] = await Promise.all([
+      this.accountService.getAllAccounts(),
+      supabase.rpc('get_account_benchmark_metrics', { p_days: days }),
+      this.biodaoService.getAllBioDAOs(),
+      this.biodaoService.getSocialAccountsByPlatform('twitter')
+    ]);
+
+    if (metricsResult.error) {
+      throw new Error(`Failed to fetch benchmark metrics: ${metricsResult.error.message}`);
+    }
+
+    const rows = new Map<string, BenchmarkMetricsRow>(
+      ((metricsResult.data || []) as BenchmarkMetricsRow[]).map(row => [row.account_id, row])
+    );
+
+    // BioDAO Twitter accounts are matched to tracked accounts by handle
+    const biodaoSlugs = new Map(biodaos.map(biodao => [biodao.id, biodao.slug]));
+    const biodaoByHandle = new Map<string, string>();
+    for (const social of socialAccounts) {
+      const slug = biodaoSlugs.get(social.biodao_id);
+      if (slug) biodaoByHandle.set(normalizeHandle(social.account_identifier), slug);
+    }
+
+    return accounts.flatMap(account => {
+      const row = rows.get(account.id);
+      if (!row || !account.twitter_handle) return [];
+      return [{
+        account,
+        biodaoSlug: biodaoByHandle.get(normalizeHandle(account.twitter_handle)) ?? null,
+        row,
+        values: metricValues(row)
+      }];
+    });
+  }
+
+  private isInPeerGroup(candidate: BenchmarkCandidate, group: PeerGroup): boolean {
+    switch (group.kind) {
+      case 'all':
+        return true;
+      case 'biodao':
+        return candidate.biodaoSlug !== null;
+      case 'tag':
+        return (candidate.account.tags || []).some(tag => tag.toLowerCase() === group.tag);
+    }
+  }
+
+  private score(candidate: BenchmarkCandidate, peers: BenchmarkCandidate[]): AccountBenchmark {
+    const metrics = {} as Record<BenchmarkMetric, BenchmarkScore>;
+
+    for (const metric of BENCHMARK_METRICS) {
+      const value = candidate.values[metric];
+      const peerValues = peers
+        .map(peer => peer.values[metric])
+        .filter((peerValue): peerValue is number => peerValue !== null);
+
+      metrics[metric] = value === null
+        ? { value: null, rank: null, percentile: null }
+        : {
+          value,
+          rank: peerValues.filter(peerValue => peerValue > value).length + 1,
+          percentile: round(percentileRank(peerValues, value) ?? 0, 1)
+        };
+    }
+
+    return {
+      account_id: candidate.account.id,
+      slug: candidate.account.slug,
+      name: candidate.account.name,
+      twitter_handle: candidate.account.twitter_handle ?? null,
+      tags: candidate.account.tags || [],
+      biodao_slug: candidate.biodaoSlug,
+      start_followers: candidate.row.start_followers,
+      end_followers: candidate.row.end_followers,
+      top_tweet_id: candidate.row.top_tweet_id,
+      metrics
+    };
+  }
+
+  private peerMedians(peers: BenchmarkCandidate[]): Record<BenchmarkMetric, number | null> {
+    const medians = {} as Record<BenchmarkMetric, number | null>;
+    for (const metric of BENCHMARK_METRICS) {
+      const value = median(peers
+        .map(peer => peer.values[metric])
+        .filter((peerValue): peerValue is number => peerValue !== null));
+      medians[metric] = value === null ? null : round(value, 4);
+    }
+    return medians;
+  }
+}
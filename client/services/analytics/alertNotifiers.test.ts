@@ -0,0 +1,106 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertSinkMockServer } from '../../mock/alertSinkMockServer';
+import { AnalyticsAlert } from './alertStore';
+import { AlertNotification, SlackWebhookNotifier, SmtpEmailNotifier, WebhookNotifier } from './alertNotifiers';
+
+function testNotification(): AlertNotification {
+  const alert: AnalyticsAlert = {
+    id: 'alert-1',
+    account_id: 'account-1',
+    kind: 'follower_drop',
+    severity: 'critical',
+    observed_at: '2024-09-05T00:00:00.000Z',
+    value: -480,
+    expected: 12,
+    z_score: -7.2,
+    message: 'Followers fell by 480 (10,480 → 10,000) on 2024-09-05',
+    context: { series: 'followers' },
+    dedupe_key: 'follower_drop:account-1:2024-09-05',
+    notified_at: null,
+    notification_errors: [],
+    delivery_attempts: 0,
+    created_at: '2024-09-05T01:00:00.000Z'
+  };
+  return { alert, account: { slug: 'vitadao', name: 'VitaDAO', twitter_handle: '@vitadao' } };
+}
+
+describe('alert notifiers against the alert sink', () => {
+  const sink = new AlertSinkMockServer({ quiet: true });
+  let webhookUrl: string;
+  let smtpHost: string;
+  let smtpPort: number;
+
+  before(async () => {
+    ({ webhookUrl, smtpHost, smtpPort } = await sink.start());
+  });
+
+  after(() => sink.stop());
+
+  beforeEach(() => {
+    sink.webhooks.length = 0;
+    sink.mails.length = 0;
+  });
+
+  test('posts the alert and account to a webhook with the configured headers', async () => {
+    await new WebhookNotifier(webhookUrl, { Authorization: 'Bearer sink-token' }).notify(testNotification());
+
+    assert.equal(sink.webhooks.length, 1);
+    const [received] = sink.webhooks;
+    assert.equal(received?.headers.authorization, 'Bearer sink-token');
+    assert.equal(received?.body.type, 'analytics_alert');
+    assert.equal(received?.body.alert.id, 'alert-1');
+    assert.equal(received?.body.account.slug, 'vitadao');
+    assert.match(received?.body.text, /^🚨 \[critical\] VitaDAO \(@vitadao\): follower drop\n/);
+  });
+
+  test('posts Slack blocks with the title and message', async () => {
+    await new SlackWebhookNotifier(webhookUrl).notify(testNotification());
+
+    const blocks = sink.webhooks[0]?.body.blocks;
+    assert.equal(blocks[0].text.text, '🚨 [critical] VitaDAO (@vitadao): follower drop');
+    assert.equal(blocks[1].text.text, testNotification().alert.message);
+  });
+
+  test('throws when the webhook answers with an error', async () => {
+    sink.failNextWebhooks(1);
+
+    await assert.rejects(new WebhookNotifier(webhookUrl).notify(testNotification()), /status code 500/);
+    assert.equal(sink.webhooks.length, 0);
+  });
+
+  test('mails the alert when plaintext AUTH is explicitly allowed', async () => {
+    const notifier = new SmtpEmailNotifier({
+      host: smtpHost,
+      port: smtpPort,
+      user: 'alerts',
+      pass: 'secret',
+      allowInsecureAuth: true,
+      from: 'alerts@example.org',
+      to: ['ops@example.org', 'team@example.org']
+    });
+
+    await notifier.notify(testNotification());
+
+    assert.equal(sink.mails.length, 1);
+    const [mail] = sink.mails;
+    assert.equal(mail?.authenticated_as, 'alerts');
+    assert.equal(mail?.from, 'alerts@example.org');
+    assert.deepEqual(mail?.to, ['ops@example.org', 'team@example.org']);
+    assert.match(mail?.data ?? '', /Followers fell by 480/);
+  });
+
+  test('refuses to send credentials to a server without STARTTLS', async () => {
+    const notifier = new SmtpEmailNotifier({
+      host: smtpHost,
+      port: smtpPort,
+      user: 'alerts',
+      pass: 'secret',
+      from: 'alerts@example.org',
+      to: ['ops@example.org']
+    });
+
+    await assert.rejects(notifier.notify(testNotification()), /does not offer STARTTLS/);
+    assert.equal(sink.mails.length, 0);
+  });
+});
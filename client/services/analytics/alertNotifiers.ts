@@ -0,0 +1,146 @@
+import axios from 'axios';
+import { AlertSeverity, AnalyticsAlert } from './alertStore';
+import { SmtpOptions, sendMail } from './smtpClient';
+
+export interface AlertAccount {
+  slug: string;
+  name: string;
+  twitter_handle?: string | null;
+}
+
+export interface AlertNotification {
+  alert: AnalyticsAlert;
+  account: AlertAccount | null;
+}
+
+/**
+ * A destination for alerts. notify() throws when delivery fails; the error is recorded
+ * on the alert and the other notifiers still run.
+ */
+export interface AlertNotifier {
+  readonly name: string;
+  notify(notification: AlertNotification): Promise<void>;
+}
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  critical: '🚨'
+};
+
+export function formatAlertTitle({ alert, account }: AlertNotification): string {
+  const who = account ? `${account.name}${account.twitter_handle ? ` (@${account.twitter_handle.replace(/^@/, '')})` : ''}` : alert.account_id;
+  return `${SEVERITY_ICONS[alert.severity]} [${alert.severity}] ${who}: ${alert.kind.replace('_', ' ')}`;
+}
+
+export function formatAlertText(notification: AlertNotification): string {
+  const { alert } = notification;
+  return [
+    formatAlertTitle(notification),
+    alert.message,
+    `Observed ${alert.value} vs expected ${alert.expected} (z = ${alert.z_score}) at ${alert.observed_at}`
+  ].join('\n');
+}
+
+/**
+ * POSTs the alert as JSON to any HTTP endpoint
+ */
+export class WebhookNotifier implements AlertNotifier {
+  readonly name = 'webhook';
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {},
+    private timeoutMs: number = 10000
+  ) {}
+
+  async notify(notification: AlertNotification): Promise<void> {
+    await axios.post(this.url, {
+      type: 'analytics_alert',
+      text: formatAlertText(notification),
+      alert: notification.alert,
+      account: notification.account
+    }, { headers: this.headers, timeout: this.timeoutMs });
+  }
+}
+
+/**
+ * Posts to a Slack incoming webhook (Mattermost and Discord's /slack endpoint accept the same payload)
+ */
+export class SlackWebhookNotifier implements AlertNotifier {
+  readonly name = 'slack';
+
+  constructor(private url: string, private timeoutMs: number = 10000) {}
+
+  async notify(notification: AlertNotification): Promise<void> {
+    const { alert } = notification;
+    await axios.post(this.url, {
+      text: formatAlertText(notification),
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: formatAlertTitle(notification) } },
+        { type: 'section', text: { type: 'mrkdwn', text: alert.message } },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `value *${alert.value}* · expected ${alert.expected} · z = ${alert.z_score} · ${alert.observed_at}` }]
+        }
+      ]
+    }, { timeout: this.timeoutMs });
+  }
+}
+
+export interface EmailNotifierOptions extends SmtpOptions {
+  from: string;
+  to: string[];
+}
+
+/**
+ * Mails the alert through an SMTP server
+ */
+export class SmtpEmailNotifier implements AlertNotifier {
+  readonly name = 'email';
+
+  constructor(private options: EmailNotifierOptions) {}
+
+  async notify(notification: AlertNotification): Promise<void> {
+    await sendMail(this.options, {
+      from: this.options.from,
+      to: this.options.to,
+      subject: formatAlertTitle(notification),
+      text: `${formatAlertText(notification)}\n\nContext:\n${JSON.stringify(notification.alert.context, null, 2)}\n`
+    });
+  }
+}
+
+/**
+ * Build the notifiers configured through ALERT_* environment variables
+ */
+export function createAlertNotifiersFromEnv(env: NodeJS.ProcessEnv = process.env): AlertNotifier[] {
+  const notifiers: AlertNotifier[] = [];
+
+  if (env.ALERT_WEBHOOK_URL) {
+    const headers: Record<string, string> = env.ALERT_WEBHOOK_TOKEN
+      ? { Authorization: `Bearer ${env.ALERT_WEBHOOK_TOKEN}` }
+      : {};
+    notifiers.push(new WebhookNotifier(env.ALERT_WEBHOOK_URL, headers));
+  }
+
+  if (env.ALERT_SLACK_WEBHOOK_URL) {
+    notifiers.push(new SlackWebhookNotifier(env.ALERT_SLACK_WEBHOOK_URL));
+  }
+
+  if (env.ALERT_SMTP_HOST && env.ALERT_EMAIL_TO) {
+    notifiers.push(new SmtpEmailNotifier({
+      host: env.ALERT_SMTP_HOST,
+      port: env.ALERT_SMTP_PORT ? parseInt(env.ALERT_SMTP_PORT, 10) : undefined,
+      secure: env.ALERT_SMTP_SECURE === 'true',
+      user: env.ALERT_SMTP_USER,
+      pass: env.ALERT_SMTP_PASS,
+      rejectUnauthorized: env.ALERT_SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+      allowInsecureAuth: env.ALERT_SMTP_ALLOW_INSECURE_AUTH === 'true',
+      from: env.ALERT_EMAIL_FROM || 'alerts@localhost',
+      to: env.ALERT_EMAIL_TO.split(',').map(address => address.trim()).filter(Boolean)
+    }));
+  }
+
+  return notifiers;
+}
@@ -0,0 +1,246 @@
+import { randomUUID } from 'crypto';
+import { supabase } from '../supabase/client';
+
+export type AlertKind = 'follower_drop' | 'follower_spike' | 'engagement_spike';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export const ALERT_KINDS: AlertKind[] = ['follower_drop', 'follower_spike', 'engagement_spike'];
+// Lowest first
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+// One row of the analytics_alerts table
+export interface AnalyticsAlert {
+  id: string;
+  account_id: string;
+  kind: AlertKind;
+  severity: AlertSeverity;
+  observed_at: string;
+  value: number;
+  expected: number;
+  z_score: number;
+  message: string;
+  context: Record<string, any>;
+  dedupe_key: string;
+  notified_at: string | null;
+  notification_errors: string[];
+  delivery_attempts: number; // Dispatches in which every notifier failed
+  created_at: string;
+}
+
+export type NewAnalyticsAlert = Omit<AnalyticsAlert, 'id' | 'notified_at' | 'notification_errors' | 'delivery_attempts' | 'created_at'>;
+
+export interface ListAlertsFilter {
+  accountId?: string;
+  kind?: AlertKind;
+  minSeverity?: AlertSeverity;
+  limit: number;
+  offset: number;
+}
+
+export function severityAtLeast(severity: AlertSeverity, minimum: AlertSeverity): boolean {
+  return ALERT_SEVERITIES.indexOf(severity) >= ALERT_SEVERITIES.indexOf(minimum);
+}
+
+/**
+ * Where detected anomalies are kept
+ */
+export interface AlertStore {
+  /**
+   * Store the alerts whose dedupe_key isn't stored yet; returns only those
+   */
+  insertNew(alerts: NewAnalyticsAlert[]): Promise<AnalyticsAlert[]>;
+
+  /**
+   * Alerts the notifiers haven't run for yet, oldest first
+   */
+  listUndelivered(limit: number): Promise<AnalyticsAlert[]>;
+
+  markNotified(id: string, errors: string[]): Promise<void>;
+
+  /**
+   * Keep an alert pending after every notifier failed, to be sent again on the next dispatch
+   */
+  recordFailedDelivery(id: string, attempts: number, errors: string[]): Promise<void>;
+
+  get(id: string): Promise<AnalyticsAlert | null>;
+
+  /**
+   * Most recently observed first
+   */
+  list(filter: ListAlertsFilter): Promise<AnalyticsAlert[]>;
+}
+
+/**
+ * Keeps alerts for the lifetime of the process only (local development)
+ */
+export class MemoryAlertStore implements AlertStore {
+  private alerts = new Map<string, AnalyticsAlert>();
+
+  async insertNew(alerts: NewAnalyticsAlert[]): Promise<AnalyticsAlert[]> {
+    const existingKeys = new Set(Array.from(this.alerts.values()).map(alert => alert.dedupe_key));
+    const inserted: AnalyticsAlert[] = [];
+
+    for (const input of alerts) {
+      if (existingKeys.has(input.dedupe_key)) continue;
+      existingKeys.add(input.dedupe_key);
+
+      const alert: AnalyticsAlert = {
+        ...input,
+        id: randomUUID(),
+        notified_at: null,
+        notification_errors: [],
+        delivery_attempts: 0,
+        created_at: new Date().toISOString()
+      };
+      this.alerts.set(alert.id, alert);
+      inserted.push({ ...alert });
+    }
+    return inserted;
+  }
+
+  async listUndelivered(limit: number): Promise<AnalyticsAlert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.notified_at === null)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .slice(0, limit)
+      .map(alert => ({ ...alert }));
+  }
+
+  async markNotified(id: string, errors: string[]): Promise<void> {
+    const alert = this.alerts.get(id);
+    if (alert) {
+      alert.notified_at = new Date().toISOString();
+      alert.notification_errors = errors;
+    }
+  }
+
+  async recordFailedDelivery(id: string, attempts: number, errors: string[]): Promise<void> {
+    const alert = this.alerts.get(id);
+    if (alert) {
+      alert.delivery_attempts = attempts;
+      alert.notification_errors = errors;
+    }
+  }
+
+  async get(id: string): Promise<AnalyticsAlert | null> {
+    const alert = this.alerts.get(id);
+    return alert ? { ...alert } : null;
+  }
+
+  async list(filter: ListAlertsFilter): Promise<AnalyticsAlert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => !filter.accountId || alert.account_id === filter.accountId)
+      .filter(alert => !filter.kind || alert.kind === filter.kind)
+      .filter(alert => !filter.minSeverity || severityAtLeast(alert.severity, filter.minSeverity))
+      .sort((a, b) => b.observed_at.localeCompare(a.observed_at))
+      .slice(filter.offset, filter.offset + filter.limit)
+      .map(alert => ({ ...alert }));
+  }
+}
+
+/**
+ * Stores alerts in the analytics_alerts table (production)
+ */
+export class SupabaseAlertStore implements AlertStore {
+  async insertNew(alerts: NewAnalyticsAlert[]): Promise<AnalyticsAlert[]> {
+    if (alerts.length === 0) return [];
+
+    // Rows that conflict on dedupe_key are skipped and not returned
+    const { data, error } = await supabase
+      .from('analytics_alerts')
+      .upsert(alerts, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to store analytics alerts: ${error.message}`);
+    }
+    return (data || []) as AnalyticsAlert[];
+  }
+
+  async listUndelivered(limit: number): Promise<AnalyticsAlert[]> {
+    const { data, error } = await supabase
+      .from('analytics_alerts')
+      .select('*')
+      .is('notified_at', null)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load undelivered analytics alerts: ${error.message}`);
+    }
+    return (data || []) as AnalyticsAlert[];
+  }
+
+  async markNotified(id: string, errors: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('analytics_alerts')
+      .update({ notified_at: new Date().toISOString(), notification_errors: errors })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update analytics alert ${id}: ${error.message}`);
+    }
+  }
+
+  async recordFailedDelivery(id: string, attempts: number, errors: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('analytics_alerts')
+      .update({ delivery_attempts: attempts, notification_errors: errors })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update analytics alert ${id}: ${error.message}`);
+    }
+  }
+
+  async get(id: string): Promise<AnalyticsAlert | null> {
+    const { data, error } = await supabase
+      .from('analytics_alerts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load analytics alert ${id}: ${error.message}`);
+    }
+    return data as AnalyticsAlert | null;
+  }
+
+  async list(filter: ListAlertsFilter): Promise<AnalyticsAlert[]> {
+    let query = supabase
+      .from('analytics_alerts')
+      .select('*')
+      .order('observed_at', { ascending: false })
+      .range(filter.offset, filter.offset + filter.limit - 1);
+
+    if (filter.accountId) {
+      query = query.eq('account_id', filter.accountId);
+    }
+    if (filter.kind) {
+      query = query.eq('kind', filter.kind);
+    }
+    if (filter.minSeverity) {
+      query = query.in('severity', ALERT_SEVERITIES.filter(severity => severityAtLeast(severity, filter.minSeverity!)));
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list analytics alerts: ${error.message}`);
+    }
+    return (data || []) as AnalyticsAlert[];
+  }
+}
+
+/**
+ * Pick a store from ALERT_STORE ('supabase' or 'memory')
+ */
+export function createAlertStore(kind: string = process.env.ALERT_STORE || 'supabase'): AlertStore {
+  switch (kind.toLowerCase()) {
+    case 'memory':
+      return new MemoryAlertStore();
+    case 'supabase':
+      return new SupabaseAlertStore();
+    default:
+      throw new Error(`Unknown ALERT_STORE '${kind}' - expected supabase or memory`);
+  }
+}
@@ -0,0 +1,125 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertSinkMockServer } from '../../mock/alertSinkMockServer';
+import { AccountService } from '../dao/daoService';
+import { Account } from '../types/dao';
+import { AlertSeverity, MemoryAlertStore, NewAnalyticsAlert } from './alertStore';
+import { AlertNotifier, WebhookNotifier } from './alertNotifiers';
+import { AnomalyAlertService } from './anomalyAlertService';
+
+const ACCOUNTS: Account[] = [{
+  id: 'account-1',
+  name: 'VitaDAO',
+  slug: 'vitadao',
+  twitter_handle: 'vitadao',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z'
+}];
+
+function newAlert(severity: AlertSeverity = 'critical', date: string = '2024-09-05'): NewAnalyticsAlert {
+  return {
+    account_id: 'account-1',
+    kind: 'follower_drop',
+    severity,
+    observed_at: `${date}T00:00:00.000Z`,
+    value: -480,
+    expected: 12,
+    z_score: -7.2,
+    message: `Followers fell by 480 on ${date}`,
+    context: { series: 'followers' },
+    dedupe_key: `follower_drop:account-1:${date}`
+  };
+}
+
+describe('AnomalyAlertService.dispatchPending against the alert sink', () => {
+  const sink = new AlertSinkMockServer({ quiet: true });
+  let webhookUrl: string;
+  let store: MemoryAlertStore;
+
+  before(async () => {
+    ({ webhookUrl } = await sink.start());
+  });
+
+  after(() => sink.stop());
+
+  beforeEach(() => {
+    sink.webhooks.length = 0;
+    store = new MemoryAlertStore();
+  });
+
+  function createService(notifiers: AlertNotifier[], maxDeliveryAttempts: number = 3): AnomalyAlertService {
+    return new AnomalyAlertService(new AccountService(), store, notifiers, { maxDeliveryAttempts });
+  }
+
+  test('delivers pending alerts and marks them notified', async () => {
+    const [alert] = await store.insertNew([newAlert()]);
+
+    assert.equal(await createService([new WebhookNotifier(webhookUrl)]).dispatchPending(ACCOUNTS), 1);
+
+    assert.equal(sink.webhooks.length, 1);
+    assert.equal(sink.webhooks[0]?.body.account.slug, 'vitadao');
+    const stored = await store.get(alert!.id);
+    assert.ok(stored?.notified_at);
+    assert.deepEqual(stored?.notification_errors, []);
+    assert.equal(await createService([new WebhookNotifier(webhookUrl)]).dispatchPending(ACCOUNTS), 0);
+  });
+
+  test('marks alerts below the minimum severity as handled without sending them', async () => {
+    const [alert] = await store.insertNew([newAlert('info')]);
+
+    assert.equal(await createService([new WebhookNotifier(webhookUrl)]).dispatchPending(ACCOUNTS), 0);
+
+    assert.equal(sink.webhooks.length, 0);
+    assert.ok((await store.get(alert!.id))?.notified_at);
+  });
+
+  test('keeps an alert pending while every notifier fails and retries it next time', async () => {
+    const [alert] = await store.insertNew([newAlert()]);
+    const service = createService([new WebhookNotifier(webhookUrl)]);
+    sink.failNextWebhooks(1);
+
+    assert.equal(await service.dispatchPending(ACCOUNTS), 0);
+    const failed = await store.get(alert!.id);
+    assert.equal(failed?.notified_at, null);
+    assert.equal(failed?.delivery_attempts, 1);
+    assert.match(failed?.notification_errors[0] ?? '', /^webhook: .*status code 500/);
+
+    assert.equal(await service.dispatchPending(ACCOUNTS), 1);
+    const delivered = await store.get(alert!.id);
+    assert.ok(delivered?.notified_at);
+    assert.deepEqual(delivered?.notification_errors, []);
+    assert.equal(sink.webhooks.length, 1);
+  });
+
+  test('gives up on an alert after maxDeliveryAttempts failed dispatches', async () => {
+    const [alert] = await store.insertNew([newAlert()]);
+    const service = createService([new WebhookNotifier(webhookUrl)], 3);
+    sink.failNextWebhooks(3);
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      assert.equal(await service.dispatchPending(ACCOUNTS), 0);
+    }
+
+    const stored = await store.get(alert!.id);
+    assert.ok(stored?.notified_at, 'the alert should no longer be pending');
+    assert.equal(stored?.notification_errors.length, 1);
+    assert.deepEqual(await store.listUndelivered(10), []);
+  });
+
+  test('counts an alert as delivered when at least one notifier accepts it', async () => {
+    const [alert] = await store.insertNew([newAlert()]);
+    const failing: AlertNotifier = {
+      name: 'email',
+      notify: async () => {
+        throw new Error('SMTP server unreachable');
+      }
+    };
+
+    assert.equal(await createService([failing, new WebhookNotifier(webhookUrl)]).dispatchPending(ACCOUNTS), 1);
+
+    const stored = await store.get(alert!.id);
+    assert.ok(stored?.notified_at);
+    assert.deepEqual(stored?.notification_errors, ['email: SMTP server unreachable']);
+    assert.equal(sink.webhooks.length, 1);
+  });
+});
@@ -0,0 +1,477 @@
+import { supabase } from '../supabase/client';
+import { AccountService } from '../dao/daoService';
+import { ACCOUNT_TWEETS_TABLE } from '../dao/daoTwitterService';
+import { SyncLogger } from '../twitter/syncLogger';
+import { Account } from '../types/dao';
+import { SeriesAnomaly, detectRollingAnomalies } from './anomalyDetector';
+import { AlertSeverity, AlertStore, AnalyticsAlert, ListAlertsFilter, NewAnalyticsAlert, severityAtLeast } from './alertStore';
+import { AlertNotifier } from './alertNotifiers';
+import { round } from './statistics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// How often start() checks whether a scan is due and allowed
+const CHECK_INTERVAL_MS = 60 * 1000;
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+export interface AnomalyAlertServiceOptions {
+  followerLookbackDays?: number; // Snapshot history used as baseline (default 90)
+  engagementLookbackDays?: number; // Tweet history used as baseline (default 60)
+  alertWindowDays?: number; // Only anomalies this recent raise alerts, so a first scan doesn't replay history (default 3)
+  window?: number; // Points in the rolling baseline (default 14)
+  minHistory?: number; // Points needed before anything is flagged (default 7)
+  threshold?: number; // |z| that makes a point anomalous (default 3)
+  criticalThreshold?: number; // |z| that raises the severity one step (default 6)
+  minFollowerChange?: number; // Smallest daily follower deviation worth an alert (default 10)
+  minFollowerChangeRatio?: number; // ...or this share of the account's followers, whichever is larger (default 0.002)
+  minTweetAgeHours?: number; // Younger tweets are still collecting engagement and are skipped (default 24)
+  minSeverity?: AlertSeverity; // Lower severities are stored but not sent (default warning)
+  scanIntervalMs?: number; // How often start() scans (default 1 hour)
+  maxDeliveryAttempts?: number; // Dispatches an alert gets while every notifier fails before it's given up (default 5)
+}
+
+export interface AlertScanResult {
+  started_at: string;
+  finished_at: string;
+  accounts_scanned: number;
+  anomalies_detected: number;
+  alerts_created: number;
+  alerts_dispatched: number;
+  errors: string[];
+}
+
+export interface NotifierTestResult {
+  notifier: string;
+  delivered: boolean;
+  error: string | null;
+}
+
+interface SnapshotRow {
+  date: string;
+  follower_count: number;
+}
+
+interface TweetRow {
+  id: string;
+  url: string | null;
+  created_at: string;
+  like_count: number | null;
+  retweet_count: number | null;
+  reply_count: number | null;
+  quote_count: number | null;
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? '+' : ''}${Math.round(value).toLocaleString('en-US')}`;
+}
+
+/**
+ * Scans follower_daily_snapshots and per-tweet engagement for anomalies with rolling
+ * z-scores, stores them in analytics_alerts and dispatches new ones to the notifiers.
+ *
+ * Followers are scored on their daily change (a purge shows up as a drop far outside the
+ * usual day-to-day growth); tweets on log engagement relative to the account's recent tweets.
+ */
+export class AnomalyAlertService {
+  private options: Required<AnomalyAlertServiceOptions>;
+  private logger: SyncLogger;
+  private scanTimer: NodeJS.Timeout | null = null;
+  private scanning = false;
+  private lastScanStartedAt: number | null = null;
+  private lastScan: AlertScanResult | null = null;
+
+  constructor(
+    private accountService: AccountService,
+    private store: AlertStore,
+    private notifiers: AlertNotifier[] = [],
+    options: AnomalyAlertServiceOptions = {}
+  ) {
+    this.options = {
+      followerLookbackDays: options.followerLookbackDays ?? 90,
+      engagementLookbackDays: options.engagementLookbackDays ?? 60,
+      alertWindowDays: options.alertWindowDays ?? 3,
+      window: options.window ?? 14,
+      minHistory: options.minHistory ?? 7,
+      threshold: options.threshold ?? 3,
+      criticalThreshold: options.criticalThreshold ?? 6,
+      minFollowerChange: options.minFollowerChange ?? 10,
+      minFollowerChangeRatio: options.minFollowerChangeRatio ?? 0.002,
+      minTweetAgeHours: options.minTweetAgeHours ?? 24,
+      minSeverity: options.minSeverity ?? 'warning',
+      scanIntervalMs: options.scanIntervalMs ?? HOUR_MS,
+      maxDeliveryAttempts: options.maxDeliveryAttempts ?? 5
+    };
+    this.logger = new SyncLogger('AnomalyAlertService');
+  }
+
+  /**
+   * Scan every account with a Twitter handle, store new alerts and dispatch them
+   */
+  async scan(now: Date = new Date()): Promise<AlertScanResult> {
+    const startedAt = new Date().toISOString();
+    const accounts = (await this.accountService.getAllAccounts()).filter(account => account.twitter_handle);
+    const errors: string[] = [];
+    const detected: NewAnalyticsAlert[] = [];
+
+    for (const account of accounts) {
+      try {
+        detected.push(...await this.scanAccount(account, now));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${account.slug}: ${message}`);
+        this.logger.warn(`Anomaly scan failed for ${account.slug}`, { error: message });
+      }
+    }
+
+    const created = await this.store.insertNew(detected);
+    if (created.length > 0) {
+      this.logger.info(`🔔 ${created.length} new analytics alert(s)`, {
+        alerts: created.map(alert => `${alert.kind}:${alert.severity}:${alert.account_id}`)
+      });
+    }
+
+    const dispatched = await this.dispatchPending(accounts);
+
+    this.lastScan = {
+      started_at: startedAt,
+      finished_at: new Date().toISOString(),
+      accounts_scanned: accounts.length,
+      anomalies_detected: detected.length,
+      alerts_created: created.length,
+      alerts_dispatched: dispatched,
+      errors
+    };
+    return this.lastScan;
+  }
+
+  /**
+   * Anomalies for one account that fall inside the alert window (not stored)
+   */
+  async scanAccount(account: Account, now: Date = new Date()): Promise<NewAnalyticsAlert[]> {
+    const [snapshots, tweets] = await Promise.all([
+      this.loadSnapshots(account.id, now),
+      this.loadTweets(account.id, now)
+    ]);
+
+    return [
+      ...this.detectFollowerAnomalies(account, snapshots, now),
+      ...this.detectEngagementAnomalies(account, tweets, now)
+    ];
+  }
+
+  /**
+   * Send undelivered alerts to every notifier. Alerts below minSeverity are marked as
+   * handled without being sent. An alert no notifier accepted stays pending for the next
+   * dispatch until maxDeliveryAttempts is reached. Returns how many were delivered.
+   */
+  async dispatchPending(accounts?: Account[]): Promise<number> {
+    const pending = await this.store.listUndelivered(100);
+    if (pending.length === 0) return 0;
+
+    const byId = new Map((accounts ?? await this.accountService.getAllAccounts()).map(account => [account.id, account]));
+    let sent = 0;
+
+    for (const alert of pending) {
+      if (!severityAtLeast(alert.severity, this.options.minSeverity) || this.notifiers.length === 0) {
+        await this.store.markNotified(alert.id, []);
+        continue;
+      }
+
+      const errors = await this.notifyAll(alert, byId.get(alert.account_id) ?? null);
+      if (errors.length < this.notifiers.length) {
+        await this.store.markNotified(alert.id, errors);
+        sent++;
+        continue;
+      }
+
+      const attempts = alert.delivery_attempts + 1;
+      if (attempts >= this.options.maxDeliveryAttempts) {
+        this.logger.error(`Giving up on alert ${alert.id} after ${attempts} failed deliveries`, { errors });
+        await this.store.markNotified(alert.id, errors);
+      } else {
+        await this.store.recordFailedDelivery(alert.id, attempts, errors);
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Send a made-up alert to every notifier to check the configuration
+   */
+  async sendTestAlert(): Promise<NotifierTestResult[]> {
+    const now = new Date().toISOString();
+    const alert: AnalyticsAlert = {
+      id: 'test',
+      account_id: 'test',
+      kind: 'follower_drop',
+      severity: 'warning',
+      observed_at: now,
+      value: -120,
+      expected: 15,
+      z_score: -4.5,
+      message: 'Test alert: followers fell by 120 against an average of +15/day',
+      context: { test: true },
+      dedupe_key: `test:${now}`,
+      notified_at: null,
+      notification_errors: [],
+      delivery_attempts: 0,
+      created_at: now
+    };
+    const account = { slug: 'test-account', name: 'Test Account', twitter_handle: 'test_account' };
+
+    return Promise.all(this.notifiers.map(async notifier => {
+      try {
+        await notifier.notify({ alert, account });
+        return { notifier: notifier.name, delivered: true, error: null };
+      } catch (error) {
+        return { notifier: notifier.name, delivered: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+  }
+
+  async listAlerts(filter: ListAlertsFilter): Promise<AnalyticsAlert[]> {
+    return this.store.list(filter);
+  }
+
+  /**
+   * Scan every scanIntervalMs while canRun() allows it (e.g. only on the holder of its lease).
+   * The first scan runs as soon as canRun() allows it, not one interval after startup.
+   */
+  start(canRun: () => boolean = () => true): void {
+    if (this.scanTimer) {
+      this.logger.warn('Anomaly alert service already started');
+      return;
+    }
+
+    const check = () => {
+      if (this.scanning || !canRun()) return;
+      if (this.lastScanStartedAt !== null && Date.now() - this.lastScanStartedAt < this.options.scanIntervalMs) return;
+
+      this.scanning = true;
+      this.lastScanStartedAt = Date.now();
+      this.scan()
+        .catch(error => this.logger.error('Anomaly scan failed', error))
+        .finally(() => {
+          this.scanning = false;
+        });
+    };
+
+    this.scanTimer = setInterval(check, Math.min(CHECK_INTERVAL_MS, this.options.scanIntervalMs));
+    check();
+  }
+
+  stop(): void {
+    if (this.scanTimer) {
+      clearInterval(this.scanTimer);
+      this.scanTimer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      isRunning: this.scanTimer !== null,
+      notifiers: this.notifiers.map(notifier => notifier.name),
+      minSeverity: this.options.minSeverity,
+      lastScan: this.lastScan
+    };
+  }
+
+  private async notifyAll(alert: AnalyticsAlert, account: Account | null): Promise<string[]> {
+    const errors: string[] = [];
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier.notify({ alert, account });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${notifier.name}: ${message}`);
+        this.logger.warn(`Failed to send alert ${alert.id} via ${notifier.name}`, { error: message });
+      }
+    }
+    return errors;
+  }
+
+  private severityFor(zScore: number, isDrop: boolean): AlertSeverity {
+    const extreme = Math.abs(zScore) >= this.options.criticalThreshold;
+    // Drops (purges, suspensions) matter more than spikes
+    if (isDrop) return extreme ? 'critical' : 'warning';
+    return extreme ? 'warning' : 'info';
+  }
+
+  private isInAlertWindow(observedAt: string, now: Date, extraMs: number = 0): boolean {
+    return new Date(observedAt).getTime() >= now.getTime() - this.options.alertWindowDays * DAY_MS - extraMs;
+  }
+
+  private detectFollowerAnomalies(account: Account, snapshots: SnapshotRow[], now: Date): NewAnalyticsAlert[] {
+    // Daily change between consecutive snapshots, spread over the days between them
+    const changes = snapshots.slice(1).map((snapshot, index) => {
+      const previous = snapshots[index]!;
+      const gapDays = Math.max(1, Math.round((Date.parse(snapshot.date) - Date.parse(previous.date)) / DAY_MS));
+      return { snapshot, previous, gapDays, value: (snapshot.follower_count - previous.follower_count) / gapDays };
+    });
+
+    const followers = snapshots[snapshots.length - 1]?.follower_count ?? 0;
+    const anomalies = detectRollingAnomalies(
+      changes.map(change => ({ at: change.snapshot.date, value: change.value })),
+      {
+        window: this.options.window,
+        minHistory: this.options.minHistory,
+        threshold: this.options.threshold,
+        minDeviation: Math.max(this.options.minFollowerChange, followers * this.options.minFollowerChangeRatio)
+      }
+    );
+
+    return anomalies
+      .filter(anomaly => this.isInAlertWindow(anomaly.at, now))
+      .map(anomaly => {
+        const change = changes.find(candidate => candidate.snapshot.date === anomaly.at)!;
+        const isDrop = anomaly.z_score < 0;
+        const kind = isDrop ? 'follower_drop' : 'follower_spike';
+        const total = change.snapshot.follower_count - change.previous.follower_count;
+
+        return this.toAlert(account, kind, this.severityFor(anomaly.z_score, isDrop), anomaly, {
+          observedAt: new Date(`${anomaly.at}T00:00:00Z`).toISOString(),
+          dedupeKey: `${kind}:${account.id}:${anomaly.at}`,
+          message: `Followers ${isDrop ? 'fell' : 'jumped'} by ${Math.abs(total).toLocaleString('en-US')} ` +
+            `(${change.previous.follower_count.toLocaleString('en-US')} → ${change.snapshot.follower_count.toLocaleString('en-US')}) ` +
+            `${change.gapDays > 1 ? `over ${change.gapDays} days to ${anomaly.at}` : `on ${anomaly.at}`}; ` +
+            `the previous ${anomaly.baseline_size} snapshots averaged ${formatSigned(anomaly.expected)}/day`,
+          context: {
+            series: 'followers',
+            date: anomaly.at,
+            previous_date: change.previous.date,
+            gap_days: change.gapDays,
+            previous_followers: change.previous.follower_count,
+            followers: change.snapshot.follower_count
+          }
+        });
+      });
+  }
+
+  private detectEngagementAnomalies(account: Account, tweets: TweetRow[], now: Date): NewAnalyticsAlert[] {
+    const matureBefore = now.getTime() - this.options.minTweetAgeHours * HOUR_MS;
+    const scored = tweets
+      .filter(tweet => new Date(tweet.created_at).getTime() <= matureBefore)
+      .map(tweet => ({
+        tweet,
+        engagements: (tweet.like_count || 0) + (tweet.retweet_count || 0) + (tweet.reply_count || 0) + (tweet.quote_count || 0)
+      }));
+
+    // Engagement is heavy-tailed, so tweets are compared on a log scale
+    const anomalies = detectRollingAnomalies(
+      scored.map(({ tweet, engagements }) => ({ at: tweet.id, value: Math.log1p(engagements) })),
+      {
+        window: this.options.window * 2,
+        minHistory: this.options.minHistory,
+        threshold: this.options.threshold,
+        minSpread: 0.25
+      }
+    );
+
+    return anomalies
+      .filter(anomaly => anomaly.z_score > 0)
+      .flatMap(anomaly => {
+        const { tweet, engagements } = scored.find(candidate => candidate.tweet.id === anomaly.at)!;
+        if (!this.isInAlertWindow(tweet.created_at, now, this.options.minTweetAgeHours * HOUR_MS)) return [];
+
+        const typical = Math.round(Math.expm1(anomaly.expected));
+        const multiple = typical > 0 ? round(engagements / typical, 1) : null;
+
+        return [this.toAlert(account, 'engagement_spike', this.severityFor(anomaly.z_score, false), anomaly, {
+          observedAt: new Date(tweet.created_at).toISOString(),
+          dedupeKey: `engagement_spike:${account.id}:${tweet.id}`,
+          value: engagements,
+          expected: typical,
+          message: `Tweet ${tweet.id} drew ${engagements.toLocaleString('en-US')} engagements` +
+            `${multiple ? `, ${multiple}x` : ' against'} the typical ${typical.toLocaleString('en-US')} of the previous ${anomaly.baseline_size} tweets`,
+          context: {
+            series: 'tweet_engagement',
+            tweet_id: tweet.id,
+            url: tweet.url,
+            created_at: tweet.created_at,
+            likes: tweet.like_count || 0,
+            retweets: tweet.retweet_count || 0,
+            replies: tweet.reply_count || 0,
+            quotes: tweet.quote_count || 0
+          }
+        })];
+      });
+  }
+
+  private toAlert(
+    account: Account,
+    kind: NewAnalyticsAlert['kind'],
+    severity: AlertSeverity,
+    anomaly: SeriesAnomaly,
+    details: {
+      observedAt: string;
+      dedupeKey: string;
+      message: string;
+      context: Record<string, any>;
+      value?: number;
+      expected?: number;
+    }
+  ): NewAnalyticsAlert {
+    return {
+      account_id: account.id,
+      kind,
+      severity,
+      observed_at: details.observedAt,
+      value: round(details.value ?? anomaly.value, 2),
+      expected: round(details.expected ?? anomaly.expected, 2),
+      z_score: round(anomaly.z_score, 2),
+      message: details.message,
+      context: {
+        ...details.context,
+        baseline_size: anomaly.baseline_size,
+        baseline_spread: round(anomaly.spread, 4),
+        threshold: this.options.threshold
+      },
+      dedupe_key: details.dedupeKey
+    };
+  }
+
+  private async loadSnapshots(accountId: string, now: Date): Promise<SnapshotRow[]> {
+    const since = new Date(now.getTime() - this.options.followerLookbackDays * DAY_MS).toISOString().split('T')[0];
+
+    const { data, error } = await supabase
+      .from('follower_daily_snapshots')
+      .select('date, follower_count')
+      .eq('account_id', accountId)
+      .eq('is_interpolated', false)
+      .gte('date', since)
+      .order('date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load follower snapshots: ${error.message}`);
+    }
+    return (data || []) as SnapshotRow[];
+  }
+
+  private async loadTweets(accountId: string, now: Date): Promise<TweetRow[]> {
+    const since = new Date(now.getTime() - this.options.engagementLookbackDays * DAY_MS).toISOString();
+    const tweets: TweetRow[] = [];
+
+    // Read page by page so a busy account's newest tweets, the ones alerts look at, aren't cut off
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(ACCOUNT_TWEETS_TABLE)
+        .select('id, url, created_at, like_count, retweet_count, reply_count, quote_count')
+        .eq('account_id', accountId)
+        .gte('created_at', since)
+        .not('created_at', 'is', null)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load tweets: ${error.message}`);
+      }
+
+      tweets.push(...((data || []) as TweetRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return tweets;
+  }
+}
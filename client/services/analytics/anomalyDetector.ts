@@ -0,0 +1,74 @@
+import { mean, standardDeviation } from './statistics';
+
+export interface SeriesPoint {
+  at: string; // Date or timestamp of the observation
+  value: number;
+}
+
+export interface SeriesAnomaly {
+  at: string;
+  value: number;
+  expected: number; // Mean of the baseline window
+  spread: number; // Standard deviation of the baseline window (after the minSpread floor)
+  z_score: number;
+  baseline_size: number;
+}
+
+export interface RollingZScoreOptions {
+  window?: number; // Preceding points in the baseline (default 14)
+  minHistory?: number; // Points needed before anything is flagged (default 7)
+  threshold?: number; // |z| at or above which a point is anomalous (default 3)
+  minSpread?: number; // Floor for the standard deviation so flat series don't flag tiny changes (default 1)
+  minDeviation?: number; // Smallest |value - expected| worth flagging (default 0)
+}
+
+/**
+ * Flag points that deviate from the rolling mean of the points before them by at least
+ * `threshold` standard deviations. Flagged points are left out of later baselines so one
+ * spike doesn't hide the next; after `minHistory` flagged points in a row the series is
+ * taken to have shifted and those points become the new baseline.
+ */
+export function detectRollingAnomalies(points: SeriesPoint[], options: RollingZScoreOptions = {}): SeriesAnomaly[] {
+  const window = options.window ?? 14;
+  const minHistory = options.minHistory ?? 7;
+  const threshold = options.threshold ?? 3;
+  const minSpread = options.minSpread ?? 1;
+  const minDeviation = options.minDeviation ?? 0;
+
+  let baseline: number[] = [];
+  let flaggedRun: number[] = [];
+  const anomalies: SeriesAnomaly[] = [];
+
+  for (const point of points) {
+    const recent = baseline.slice(-window);
+    const expected = mean(recent);
+
+    if (recent.length >= minHistory && expected !== null) {
+      const spread = Math.max(standardDeviation(recent) ?? 0, minSpread);
+      const zScore = (point.value - expected) / spread;
+
+      if (Math.abs(zScore) >= threshold && Math.abs(point.value - expected) >= minDeviation) {
+        anomalies.push({
+          at: point.at,
+          value: point.value,
+          expected,
+          spread,
+          z_score: zScore,
+          baseline_size: recent.length
+        });
+
+        flaggedRun.push(point.value);
+        if (flaggedRun.length >= minHistory) {
+          baseline = flaggedRun;
+          flaggedRun = [];
+        }
+        continue;
+      }
+    }
+
+    baseline.push(point.value);
+    flaggedRun = [];
+  }
+
+  return anomalies;
+}
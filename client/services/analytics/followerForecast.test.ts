@@ -0,0 +1,130 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FollowerObservation, backtestFollowerModel, buildFollowerForecast } from './followerForecast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIRST_DAY = Date.UTC(2024, 0, 1);
+
+function dateAt(day: number): string {
+  return new Date(FIRST_DAY + day * DAY_MS).toISOString().split('T')[0]!;
+}
+
+// Daily snapshots from 2024-01-01
+function series(days: number, followersOn: (day: number) => number): FollowerObservation[] {
+  return Array.from({ length: days }, (_, day) => ({ date: dateAt(day), follower_count: Math.round(followersOn(day)) }));
+}
+
+// Noon on the given day of the series
+function noonOn(day: number): Date {
+  return new Date(FIRST_DAY + day * DAY_MS + 12 * 60 * 60 * 1000);
+}
+
+const steady = series(120, day => 10000 + 50 * day);
+const saturating = series(150, day => 10000 + 3000 * (1 - Math.exp(-day / 40)));
+const noisy = series(150, day => 5000 + 20 * day + 30 * Math.sin(day * 1.7));
+
+describe('backtestFollowerModel', () => {
+  test('scores the held-out days of a straight line as exact', () => {
+    const result = backtestFollowerModel('linear', steady, 30);
+
+    assert.deepEqual(result, {
+      model: 'linear',
+      holdout_days: 30,
+      train_points: 90,
+      test_points: 30,
+      mae: 0,
+      rmse: 0,
+      mape: 0,
+      coverage_80: 1,
+      coverage_95: 1
+    });
+  });
+
+  test('keeps noisy linear growth inside the prediction intervals', () => {
+    const result = backtestFollowerModel('linear', noisy, 30);
+
+    assert.ok(result);
+    assert.ok(result.mape !== null && result.mape < 1);
+    assert.ok(result.coverage_95 >= 0.9);
+  });
+
+  test('prefers the damped trend on growth that levels off', () => {
+    const linear = backtestFollowerModel('linear', saturating, 30);
+    const damped = backtestFollowerModel('damped', saturating, 30);
+
+    assert.ok(linear && damped);
+    assert.ok(damped.mae < linear.mae / 10, `damped MAE ${damped.mae} vs linear ${linear.mae}`);
+    assert.ok(damped.coverage_80 > linear.coverage_80);
+  });
+
+  test('returns null without enough history before the holdout', () => {
+    assert.equal(backtestFollowerModel('linear', series(20, day => 1000 + day), 15), null);
+    assert.equal(backtestFollowerModel('damped', [], 30), null);
+  });
+});
+
+describe('buildFollowerForecast', () => {
+  test('extrapolates a straight line and dates the next milestone', () => {
+    const forecast = buildFollowerForecast(steady, { milestones: [20000, 10000] }, noonOn(119));
+
+    assert.ok(forecast);
+    assert.equal(forecast.model, 'linear');
+    assert.equal(forecast.daily_trend, 50);
+    assert.deepEqual(forecast.history, { first_date: '2024-01-01', last_date: dateAt(119), points: 120, current_followers: 15950 });
+    assert.deepEqual(forecast.horizons[0], {
+      horizon_days: 30,
+      date: dateAt(149),
+      followers: 17450,
+      lower_80: 17450,
+      upper_80: 17450,
+      lower_95: 17450,
+      upper_95: 17450
+    });
+
+    // Milestones come back in ascending order; 4,050 more followers at 50 a day takes 81 days
+    assert.deepEqual(forecast.milestones, [
+      { milestone: 10000, reached: true, expected_date: null, earliest_date: null, latest_date: null },
+      { milestone: 20000, reached: false, expected_date: dateAt(200), earliest_date: dateAt(200), latest_date: dateAt(200) }
+    ]);
+  });
+
+  test('counts horizons from today when the last snapshot is older', () => {
+    const forecast = buildFollowerForecast(steady, { horizons: [30] }, noonOn(129));
+
+    assert.equal(forecast?.horizons[0]?.horizon_days, 30);
+    assert.equal(forecast?.horizons[0]?.date, dateAt(159));
+    assert.equal(forecast?.horizons[0]?.followers, 15950 + 50 * 40);
+  });
+
+  test('picks the damped model for levelling growth and forecasts below the straight line', () => {
+    const forecast = buildFollowerForecast(saturating, {}, noonOn(149));
+    const linear = buildFollowerForecast(saturating, { model: 'linear' }, noonOn(149));
+
+    assert.ok(forecast && linear);
+    assert.equal(forecast.model, 'damped');
+    assert.equal(linear.model, 'linear');
+    assert.deepEqual(forecast.backtests.map(result => result.model), ['linear', 'damped']);
+    assert.ok(forecast.horizons[0]!.followers < linear.horizons[0]!.followers);
+    assert.ok(forecast.horizons[0]!.followers <= 13000, 'the forecast should stay under the asymptote');
+  });
+
+  test('widens the intervals with the horizon on noisy data', () => {
+    const forecast = buildFollowerForecast(noisy, { model: 'linear' }, noonOn(149));
+
+    assert.ok(forecast);
+    const widths = forecast.horizons.map(point => point.upper_95 - point.lower_95);
+    assert.ok(widths[0]! > 0);
+    assert.ok(widths[0]! < widths[1]! && widths[1]! < widths[2]!);
+    for (const point of forecast.horizons) {
+      assert.ok(point.lower_95 <= point.lower_80 && point.lower_80 <= point.followers);
+      assert.ok(point.followers <= point.upper_80 && point.upper_80 <= point.upper_95);
+    }
+  });
+
+  test('needs minPoints distinct dates', () => {
+    const duplicated = series(6, day => 100 + day).flatMap(observation => [observation, observation]);
+
+    assert.equal(buildFollowerForecast(duplicated), null);
+    assert.equal(buildFollowerForecast(duplicated, { minPoints: 6 })?.history.points, 6);
+  });
+});
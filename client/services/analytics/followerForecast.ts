@@ -0,0 +1,434 @@
+import { supabase } from '../supabase/client';
+import { AccountService } from '../dao/daoService';
+import { Account } from '../types/dao';
+import { mean, round } from './statistics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Two-sided normal quantiles for the 80% and 95% prediction intervals
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+export type ForecastModel = 'linear' | 'damped';
+export type ForecastModelChoice = ForecastModel | 'auto';
+
+export const FORECAST_MODELS: ForecastModelChoice[] = ['auto', 'linear', 'damped'];
+
+export interface FollowerObservation {
+  date: string; // YYYY-MM-DD
+  follower_count: number;
+}
+
+export interface FollowerForecastOptions {
+  model?: ForecastModelChoice; // 'auto' picks the model with the lower backtest MAPE (default)
+  horizons?: number[]; // Days ahead to report (default 30, 90, 180)
+  milestones?: number[]; // Follower counts to estimate dates for (default 10k, 50k, 100k)
+  holdoutDays?: number; // Most recent days held out for the backtest (default 30)
+  linearWindowDays?: number; // The linear model fits only this much recent history (default 90)
+  maxMilestoneDays?: number; // Milestones further out than this are reported as not reached (default 2 years)
+  minPoints?: number; // Snapshots needed to forecast at all (default 7)
+}
+
+export interface ForecastPoint {
+  horizon_days: number;
+  date: string;
+  followers: number;
+  lower_80: number;
+  upper_80: number;
+  lower_95: number;
+  upper_95: number;
+}
+
+export interface MilestoneEstimate {
+  milestone: number;
+  reached: boolean; // Already at or above it
+  expected_date: string | null; // When the point forecast crosses it
+  earliest_date: string | null; // When the upper 80% bound crosses it
+  latest_date: string | null; // When the lower 80% bound crosses it (null if not within maxMilestoneDays)
+}
+
+export interface BacktestResult {
+  model: ForecastModel;
+  holdout_days: number;
+  train_points: number;
+  test_points: number;
+  mae: number;
+  rmse: number;
+  mape: number | null;
+  coverage_80: number; // Share of held-out snapshots inside the 80% interval
+  coverage_95: number;
+}
+
+export interface FollowerForecast {
+  model: ForecastModel;
+  generated_at: string;
+  history: {
+    first_date: string;
+    last_date: string;
+    points: number;
+    current_followers: number;
+  };
+  daily_trend: number; // Followers per day the model expects right after the last snapshot
+  horizons: ForecastPoint[];
+  milestones: MilestoneEstimate[];
+  backtests: BacktestResult[];
+  parameters: Record<string, number>;
+}
+
+interface Prediction {
+  mean: number;
+  sd: number;
+}
+
+// A fitted model: predictions are made relative to the last observation it saw
+interface FittedModel {
+  model: ForecastModel;
+  lastDate: string;
+  predict(daysAhead: number): Prediction;
+  parameters: Record<string, number>;
+}
+
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function dateFromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0]!;
+}
+
+/**
+ * Linear trend as a random walk with drift: the average daily change over the recent
+ * window, anchored at the last snapshot. The interval grows with the square root of the
+ * horizon plus the uncertainty in the drift itself.
+ */
+function fitLinear(observations: FollowerObservation[], windowDays: number): FittedModel | null {
+  const last = observations[observations.length - 1]!;
+  const lastDay = dayNumber(last.date);
+  const recent = observations.filter(observation => dayNumber(observation.date) >= lastDay - windowDays);
+  if (recent.length < 3) return null;
+
+  // Changes between consecutive snapshots, spread over the days between them
+  const changes: Array<{ days: number; change: number }> = [];
+  for (let index = 1; index < recent.length; index++) {
+    changes.push({
+      days: dayNumber(recent[index]!.date) - dayNumber(recent[index - 1]!.date),
+      change: recent[index]!.follower_count - recent[index - 1]!.follower_count
+    });
+  }
+  const totalDays = changes.reduce((sum, { days }) => sum + days, 0);
+  const drift = changes.reduce((sum, { change }) => sum + change, 0) / totalDays;
+
+  // A change over k days has variance k * sigma^2
+  const sse = changes.reduce((sum, { days, change }) => sum + (change - drift * days) ** 2 / days, 0);
+  const sigma = Math.sqrt(sse / Math.max(1, changes.length - 1));
+
+  return {
+    model: 'linear',
+    lastDate: last.date,
+    predict: daysAhead => ({
+      mean: last.follower_count + drift * daysAhead,
+      sd: sigma * Math.sqrt(daysAhead * (1 + daysAhead / totalDays))
+    }),
+    parameters: { drift: round(drift, 4), sigma: round(sigma, 2), window_days: totalDays, points: recent.length }
+  };
+}
+
+/**
+ * Holt's linear trend with damping (ETS(A,Ad,N)) on a daily grid. Missing days are
+ * filled by linear interpolation; alpha, beta and phi are picked by grid search on the
+ * one-step-ahead squared error.
+ */
+function fitDamped(observations: FollowerObservation[]): FittedModel | null {
+  const firstDay = dayNumber(observations[0]!.date);
+  const lastDay = dayNumber(observations[observations.length - 1]!.date);
+  if (lastDay - firstDay < 3) return null;
+
+  // Daily series with gaps interpolated
+  const series: number[] = [];
+  for (let index = 0; index < observations.length - 1; index++) {
+    const from = observations[index]!;
+    const to = observations[index + 1]!;
+    const span = dayNumber(to.date) - dayNumber(from.date);
+    for (let step = 0; step < span; step++) {
+      series.push(from.follower_count + (to.follower_count - from.follower_count) * step / span);
+    }
+  }
+  series.push(observations[observations.length - 1]!.follower_count);
+
+  const initialSpan = Math.min(7, series.length - 1);
+  const initialTrend = (series[initialSpan]! - series[0]!) / initialSpan;
+
+  let best: { alpha: number; beta: number; phi: number; sse: number; level: number; trend: number } | null = null;
+  for (const alpha of [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9]) {
+    for (const beta of [0.01, 0.05, 0.1, 0.2, 0.3]) {
+      for (const phi of [0.8, 0.9, 0.95, 0.98]) {
+        let level = series[0]!;
+        let trend = initialTrend;
+        let sse = 0;
+        for (let t = 1; t < series.length; t++) {
+          const error = series[t]! - (level + phi * trend);
+          level = level + phi * trend + alpha * error;
+          trend = phi * trend + alpha * beta * error;
+          sse += error * error;
+        }
+        if (!best || sse < best.sse) {
+          best = { alpha, beta, phi, sse, level, trend };
+        }
+      }
+    }
+  }
+
+  const { alpha, beta, phi, sse, level, trend } = best!;
+  const sigma = Math.sqrt(sse / Math.max(1, series.length - 1 - 3));
+
+  // Variance of the h-step forecast: sigma^2 * (1 + sum_{j<h} (alpha * (1 + beta * phi_j))^2)
+  const varianceFactors = [1];
+  let phiSum = 0;
+  const factorFor = (daysAhead: number): number => {
+    while (varianceFactors.length < daysAhead) {
+      const j = varianceFactors.length;
+      phiSum += phi ** j;
+      varianceFactors.push(varianceFactors[j - 1]! + (alpha * (1 + beta * phiSum)) ** 2);
+    }
+    return varianceFactors[Math.max(0, daysAhead - 1)]!;
+  };
+
+  return {
+    model: 'damped',
+    lastDate: observations[observations.length - 1]!.date,
+    predict: daysAhead => {
+      // phi + phi^2 + ... + phi^h
+      const damping = phi === 1 ? daysAhead : phi * (1 - phi ** daysAhead) / (1 - phi);
+      return { mean: level + damping * trend, sd: sigma * Math.sqrt(factorFor(daysAhead)) };
+    },
+    parameters: {
+      alpha,
+      beta,
+      phi,
+      level: round(level, 2),
+      trend: round(trend, 4),
+      sigma: round(sigma, 2),
+      points: series.length
+    }
+  };
+}
+
+function fitModel(model: ForecastModel, observations: FollowerObservation[], linearWindowDays: number): FittedModel | null {
+  return model === 'linear' ? fitLinear(observations, linearWindowDays) : fitDamped(observations);
+}
+
+function interval(prediction: Prediction, z: number): [number, number] {
+  return [Math.max(0, Math.round(prediction.mean - z * prediction.sd)), Math.round(prediction.mean + z * prediction.sd)];
+}
+
+/**
+ * Fit on everything before the last holdoutDays and score the forecasts of the held-out snapshots
+ */
+export function backtestFollowerModel(
+  model: ForecastModel,
+  observations: FollowerObservation[],
+  holdoutDays: number,
+  options: { linearWindowDays?: number; minPoints?: number } = {}
+): BacktestResult | null {
+  if (observations.length === 0) return null;
+
+  const cutoff = dayNumber(observations[observations.length - 1]!.date) - holdoutDays;
+  const train = observations.filter(observation => dayNumber(observation.date) <= cutoff);
+  const test = observations.filter(observation => dayNumber(observation.date) > cutoff);
+  if (train.length < (options.minPoints ?? 7) || test.length === 0) return null;
+
+  const fitted = fitModel(model, train, options.linearWindowDays ?? 90);
+  if (!fitted) return null;
+
+  const trainLastDay = dayNumber(fitted.lastDate);
+  const errors: number[] = [];
+  const percentageErrors: number[] = [];
+  let inside80 = 0;
+  let inside95 = 0;
+
+  for (const observation of test) {
+    const prediction = fitted.predict(dayNumber(observation.date) - trainLastDay);
+    const actual = observation.follower_count;
+    errors.push(actual - prediction.mean);
+    if (actual > 0) percentageErrors.push(Math.abs(actual - prediction.mean) / actual * 100);
+
+    const [low80, high80] = interval(prediction, Z_80);
+    const [low95, high95] = interval(prediction, Z_95);
+    if (actual >= low80 && actual <= high80) inside80++;
+    if (actual >= low95 && actual <= high95) inside95++;
+  }
+
+  const mape = mean(percentageErrors);
+  return {
+    model,
+    holdout_days: holdoutDays,
+    train_points: train.length,
+    test_points: test.length,
+    mae: round(mean(errors.map(Math.abs))!, 2),
+    rmse: round(Math.sqrt(mean(errors.map(error => error * error))!), 2),
+    mape: mape === null ? null : round(mape, 3),
+    coverage_80: round(inside80 / test.length, 3),
+    coverage_95: round(inside95 / test.length, 3)
+  };
+}
+
+/**
+ * Forecast an account's followers from its daily snapshots (oldest first). Returns null
+ * when there are fewer than minPoints snapshots.
+ */
+export function buildFollowerForecast(
+  snapshots: FollowerObservation[],
+  options: FollowerForecastOptions = {},
+  now: Date = new Date()
+): FollowerForecast | null {
+  const {
+    model = 'auto',
+    horizons = [30, 90, 180],
+    milestones = [10000, 50000, 100000],
+    holdoutDays = 30,
+    linearWindowDays = 90,
+    maxMilestoneDays = 730,
+    minPoints = 7
+  } = options;
+
+  // One observation per date, oldest first
+  const observations = Array.from(new Map(snapshots.map(snapshot => [snapshot.date, snapshot])).values())
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (observations.length < minPoints) return null;
+
+  const backtestOptions = { linearWindowDays, minPoints };
+  const backtests = (['linear', 'damped'] as ForecastModel[])
+    .map(candidate => backtestFollowerModel(candidate, observations, holdoutDays, backtestOptions))
+    .filter((result): result is BacktestResult => result !== null);
+
+  let chosen: ForecastModel;
+  if (model !== 'auto') {
+    chosen = model;
+  } else if (backtests.length > 0) {
+    const score = (result: BacktestResult) => result.mape ?? result.rmse;
+    chosen = backtests.reduce((best, result) => score(result) < score(best) ? result : best).model;
+  } else {
+    // Too little history to backtest: the damped trend needs a couple of weeks to settle
+    chosen = observations.length >= 14 ? 'damped' : 'linear';
+  }
+
+  const fitted = fitModel(chosen, observations, linearWindowDays) ?? fitLinear(observations, Number.MAX_SAFE_INTEGER);
+  if (!fitted) return null;
+
+  const lastDay = dayNumber(fitted.lastDate);
+  const current = observations[observations.length - 1]!.follower_count;
+  // Horizons count from today; the last snapshot may be a few days old
+  const todayOffset = Math.max(0, dayNumber(now.toISOString().split('T')[0]!) - lastDay);
+
+  const forecastAt = (daysAhead: number): ForecastPoint => {
+    const prediction = fitted.predict(daysAhead);
+    const [lower80, upper80] = interval(prediction, Z_80);
+    const [lower95, upper95] = interval(prediction, Z_95);
+    return {
+      horizon_days: daysAhead - todayOffset,
+      date: dateFromDayNumber(lastDay + daysAhead),
+      followers: Math.max(0, Math.round(prediction.mean)),
+      lower_80: lower80,
+      upper_80: upper80,
+      lower_95: lower95,
+      upper_95: upper95
+    };
+  };
+
+  const milestoneEstimates = milestones
+    .slice()
+    .sort((a, b) => a - b)
+    .map(milestone => {
+      if (current >= milestone) {
+        return { milestone, reached: true, expected_date: null, earliest_date: null, latest_date: null };
+      }
+
+      let expected: string | null = null;
+      let earliest: string | null = null;
+      let latest: string | null = null;
+      for (let daysAhead = 1; daysAhead <= maxMilestoneDays + todayOffset && !latest; daysAhead++) {
+        const point = forecastAt(daysAhead);
+        if (!earliest && point.upper_80 >= milestone) earliest = point.date;
+        if (!expected && point.followers >= milestone) expected = point.date;
+        if (!latest && point.lower_80 >= milestone) latest = point.date;
+      }
+      return { milestone, reached: false, expected_date: expected, earliest_date: earliest, latest_date: latest };
+    });
+
+  return {
+    model: chosen,
+    generated_at: now.toISOString(),
+    history: {
+      first_date: observations[0]!.date,
+      last_date: fitted.lastDate,
+      points: observations.length,
+      current_followers: current
+    },
+    daily_trend: round(fitted.predict(1).mean - fitted.predict(0).mean, 2),
+    horizons: horizons.map(horizon => forecastAt(horizon + todayOffset)),
+    milestones: milestoneEstimates,
+    backtests,
+    parameters: fitted.parameters
+  };
+}
+
+export interface AccountFollowerForecast extends FollowerForecast {
+  account_id: string;
+  slug: string;
+  name: string;
+}
+
+/**
+ * Projects follower counts from follower_daily_snapshots for quarterly planning
+ */
+export class FollowerForecastService {
+  constructor(private accountService: AccountService) {}
+
+  /**
+   * Forecast one account; null when it has too few snapshots
+   */
+  async forecastAccount(
+    account: Account,
+    options: FollowerForecastOptions & { historyDays?: number } = {}
+  ): Promise<AccountFollowerForecast | null> {
+    const snapshots = await this.loadSnapshots(account.id, options.historyDays ?? 365);
+    const forecast = buildFollowerForecast(snapshots, options);
+    return forecast && { account_id: account.id, slug: account.slug, name: account.name, ...forecast };
+  }
+
+  /**
+   * Forecast every account with a Twitter handle; accounts with too little history are listed separately
+   */
+  async forecastAllAccounts(
+    options: FollowerForecastOptions & { historyDays?: number } = {}
+  ): Promise<{ forecasts: AccountFollowerForecast[]; insufficient_history: string[] }> {
+    const accounts = (await this.accountService.getAllAccounts()).filter(account => account.twitter_handle);
+    const forecasts: AccountFollowerForecast[] = [];
+    const insufficient: string[] = [];
+
+    for (const account of accounts) {
+      const forecast = await this.forecastAccount(account, options);
+      if (forecast) forecasts.push(forecast);
+      else insufficient.push(account.slug);
+    }
+
+    return { forecasts, insufficient_history: insufficient };
+  }
+
+  private async loadSnapshots(accountId: string, historyDays: number): Promise<FollowerObservation[]> {
+    const since = new Date(Date.now() - historyDays * DAY_MS).toISOString().split('T')[0];
+
+    const { data, error } = await supabase
+      .from('follower_daily_snapshots')
+      .select('date, follower_count')
+      .eq('account_id', accountId)
+      .eq('is_interpolated', false)
+      .gte('date', since)
+      .order('date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load follower snapshots for forecasting: ${error.message}`);
+    }
+    return (data || []) as FollowerObservation[];
+  }
+}
@@ -0,0 +1,216 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { randomUUID } from 'crypto';
+
+export interface SmtpOptions {
+  host: string;
+  port?: number; // Default 465 with secure, 587 otherwise
+  secure?: boolean; // Implicit TLS; without it STARTTLS is used when the server offers it
+  user?: string;
+  pass?: string;
+  timeoutMs?: number; // Per command (default 15 seconds)
+  rejectUnauthorized?: boolean; // Verify the server certificate (default true)
+  allowInsecureAuth?: boolean; // Send credentials over an unencrypted connection (default false)
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// RFC 2047 encoded-word for headers that aren't printable ASCII
+function encodeHeader(value: string): string {
+  const printable = Array.from(value).every(char => char >= ' ' && char <= '~');
+  return printable ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// "Alerts <alerts@example.org>" -> "alerts@example.org"
+function mailbox(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+}
+
+// CRLF line endings and dot-stuffing for the DATA section
+function encodeBody(text: string): string {
+  return text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => line.startsWith('.') ? `.${line}` : line)
+    .join('\r\n');
+}
+
+/**
+ * One SMTP session: reads multi-line replies and can switch to TLS after STARTTLS
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error(`SMTP server did not answer within ${this.timeoutMs}ms`)));
+    socket.on('data', chunk => this.onData(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.replyLines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.replyLines.map(replyLine => replyLine.slice(4)) };
+        this.replyLines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  /**
+   * Send a command and fail unless the reply code is one of `expected`
+   */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      // Don't echo credentials back in the error
+      const sent = line.startsWith('AUTH') ? 'AUTH' : line.split(' ')[0];
+      throw new Error(`SMTP ${sent} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async startTls(host: string, rejectUnauthorized: boolean): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    const secure = tls.connect({ socket: plain, servername: host, rejectUnauthorized });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => resolve());
+      secure.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpOptions, port: number, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port, servername: options.host, rejectUnauthorized: options.rejectUnauthorized ?? true })
+      : net.connect({ host: options.host, port });
+
+    const timer = setTimeout(() => socket.destroy(new Error(`Could not connect to ${options.host}:${port} within ${timeoutMs}ms`)), timeoutMs);
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Deliver a plain-text mail over SMTP: EHLO, STARTTLS when offered, AUTH PLAIN when a user
+ * is configured, then MAIL/RCPT/DATA. Enough for alert mails without a mail library.
+ * Credentials are only sent over TLS unless allowInsecureAuth is set.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const port = options.port ?? (options.secure ? 465 : 587);
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const session = new SmtpSession(await connect(options, port, timeoutMs), timeoutMs);
+
+  try {
+    const greeting = await session.read();
+    if (greeting.code !== 220) {
+      throw new Error(`SMTP server rejected the connection: ${greeting.code} ${greeting.lines.join(' ')}`);
+    }
+
+    const hostname = os.hostname() || 'localhost';
+    const ehlo = await session.command(`EHLO ${hostname}`, [250]);
+    let encrypted = options.secure === true;
+
+    if (!options.secure && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      await session.startTls(options.host, options.rejectUnauthorized ?? true);
+      await session.command(`EHLO ${hostname}`, [250]);
+      encrypted = true;
+    }
+
+    if (options.user) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error(`SMTP server ${options.host} does not offer STARTTLS; refusing to send credentials unencrypted`);
+      }
+      const credentials = Buffer.from(`\u0000${options.user}\u0000${options.pass || ''}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${mailbox(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${mailbox(recipient)}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+
+    const domain = mailbox(message.from).split('@')[1] || hostname;
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit'
+    ];
+    await session.command(`${headers.join('\r\n')}\r\n\r\n${encodeBody(message.text)}\r\n.`, [250]);
+
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Summary statistics shared by the analytics services
+ */
+export interface Distribution {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  p10: number | null;
+  p25: number | null;
+  p75: number | null;
+  p90: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Percentile (0-100) of already sorted values, interpolating between the closest ranks
+export function percentileOfSorted(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower]!;
+  return lowerValue + (sorted[upper]! - lowerValue) * (rank - lower);
+}
+
+export function percentile(values: number[], p: number): number | null {
+  return percentileOfSorted([...values].sort((a, b) => a - b), p);
+}
+
+export function median(values: number[]): number | null {
+  return percentile(values, 50);
+}
+
+// Sample standard deviation; null with fewer than two values
+export function standardDeviation(values: number[]): number | null {
+  const average = mean(values);
+  if (average === null || values.length < 2) return null;
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+// Share of values (0-100) at or below value; places an account among its peers
+export function percentileRank(values: number[], value: number): number | null {
+  if (values.length === 0) return null;
+  const atOrBelow = values.filter(candidate => candidate <= value).length;
+  return (atOrBelow / values.length) * 100;
+}
+
+/**
+ * Mean, median, quartiles and extremes of a sample, rounded to `digits` decimals
+ */
+export function summarize(values: number[], digits: number = 4): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => {
+    const value = percentileOfSorted(sorted, p);
+    return value === null ? null : round(value, digits);
+  };
+  const average = mean(sorted);
+
+  return {
+    count: sorted.length,
+    mean: average === null ? null : round(average, digits),
+    median: at(50),
+    p10: at(10),
+    p25: at(25),
+    p75: at(75),
+    p90: at(90),
+    min: at(0),
+    max: at(100)
+  };
+}
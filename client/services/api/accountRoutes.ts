@@ -0,0 +1,244 @@
+import { ApiRouter, ApiError, ok, paginate, parsePagination, parseIntegerParam } from './apiRouter';
+import { AccountService } from '../dao/daoService';
+import { AccountTwitterService } from '../dao/daoTwitterService';
+import TwitterFollowerService from '../twitter/twitterFollowerService';
+import { Account } from '../types/dao';
+import { AccountBenchmarkService, BENCHMARK_METRICS, BenchmarkMetric, PeerGroup, parsePeerGroup } from '../analytics/accountBenchmarkService';
+import { FollowerForecastService, FollowerForecastOptions, FORECAST_MODELS, ForecastModelChoice } from '../analytics/followerForecast';
+
+export interface AccountRouteServices {
+  accountService: AccountService;
+  twitterService: AccountTwitterService;
+  followerService: TwitterFollowerService;
+  benchmarkService: AccountBenchmarkService;
+  forecastService: FollowerForecastService;
+}
+
+const TWEET_ORDER_FIELDS = ['created_at', 'like_count', 'retweet_count', 'view_count'] as const;
+type TweetOrderField = typeof TWEET_ORDER_FIELDS[number];
+
+const TOP_TWEET_ORDER_FIELDS = ['like_count', 'retweet_count', 'reply_count', 'quote_count', 'view_count'] as const;
+type TopTweetOrderField = typeof TOP_TWEET_ORDER_FIELDS[number];
+
+/**
+ * Look up an account by slug or fail with a 404
+ */
+export async function requireAccount(accountService: AccountService, slug: string): Promise<Account> {
+  const account = await accountService.getAccountBySlug(slug);
+  if (!account) {
+    throw ApiError.notFound(`Account '${slug}' not found`);
+  }
+  return account;
+}
+
+function parsePeerGroupParam(query: URLSearchParams): PeerGroup {
+  const peerGroup = parsePeerGroup(query.get('peer_group'));
+  if (!peerGroup) {
+    throw ApiError.badRequest(`Query parameter 'peer_group' must be 'all', 'biodao' or 'tag:<tag>'`);
+  }
+  return peerGroup;
+}
+
+// Comma-separated positive integers, e.g. ?horizons=30,90,180
+function parseIntegerListParam(query: URLSearchParams, name: string, max: number): number[] | undefined {
+  const raw = query.get(name);
+  if (raw === null || raw === '') return undefined;
+
+  const values = raw.split(',').map(value => Number(value.trim()));
+  if (values.length > 10 || values.some(value => !Number.isInteger(value) || value < 1 || value > max)) {
+    throw ApiError.badRequest(`Query parameter '${name}' must be up to 10 comma-separated integers between 1 and ${max}`);
+  }
+  return values;
+}
+
+function parseForecastParams(query: URLSearchParams): FollowerForecastOptions & { historyDays: number } {
+  const model = (query.get('model') || 'auto') as ForecastModelChoice;
+  if (!FORECAST_MODELS.includes(model)) {
+    throw ApiError.badRequest(`Query parameter 'model' must be one of: ${FORECAST_MODELS.join(', ')}`);
+  }
+
+  return {
+    model,
+    horizons: parseIntegerListParam(query, 'horizons', 730),
+    milestones: parseIntegerListParam(query, 'milestones', 1_000_000_000),
+    holdoutDays: parseIntegerParam(query, 'holdout_days', 30, 7, 180),
+    historyDays: parseIntegerParam(query, 'history_days', 365, 14, 1825)
+  };
+}
+
+/**
+ * Read-only routes for accounts, their tweets, analytics and follower growth
+ */
+export function registerAccountRoutes(router: ApiRouter, services: AccountRouteServices): void {
+  const { accountService, twitterService, followerService, benchmarkService, forecastService } = services;
+
+  router.get('/accounts', async ({ query }) => {
+    const pagination = parsePagination(query);
+    const accounts = await accountService.getAllAccounts();
+    const page = accounts.slice(pagination.offset, pagination.offset + pagination.limit + 1);
+    return ok({ ...paginate(page, pagination), total: accounts.length });
+  });
+
+  router.get('/tweets/top', async ({ query }) => {
+    const days = parseIntegerParam(query, 'days', 7, 1, 365);
+    const limit = parseIntegerParam(query, 'limit', 20, 1, 100);
+
+    const orderBy = (query.get('order_by') || 'like_count') as TopTweetOrderField;
+    if (!TOP_TWEET_ORDER_FIELDS.includes(orderBy)) {
+      throw ApiError.badRequest(`Query parameter 'order_by' must be one of: ${TOP_TWEET_ORDER_FIELDS.join(', ')}`);
+    }
+
+    const tweets = await twitterService.getTopTweetsAcrossAccounts({ days, orderBy, limit });
+    return ok({ data: tweets, days, order_by: orderBy });
+  });
+
+  // Rank accounts within a peer group on growth, volume and engagement over the last N days
+  router.get('/benchmarks', async ({ query }) => {
+    const days = parseIntegerParam(query, 'days', 30, 1, 365);
+    const limit = parseIntegerParam(query, 'limit', 50, 1, 500);
+    const peerGroup = parsePeerGroupParam(query);
+
+    const sortBy = (query.get('sort_by') || 'engagement_rate') as BenchmarkMetric;
+    if (!BENCHMARK_METRICS.includes(sortBy)) {
+      throw ApiError.badRequest(`Query parameter 'sort_by' must be one of: ${BENCHMARK_METRICS.join(', ')}`);
+    }
+
+    const leaderboard = await benchmarkService.getLeaderboard({ days, peerGroup, sortBy, limit });
+    return ok({ data: leaderboard });
+  });
+
+  // Follower projections for every account, e.g. for quarterly planning
+  router.get('/forecasts', async ({ query }) => {
+    const result = await forecastService.forecastAllAccounts(parseForecastParams(query));
+    return ok({ data: result.forecasts, insufficient_history: result.insufficient_history });
+  });
+
+  router.get('/accounts/:slug', async ({ params }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    return ok({ data: account });
+  });
+
+  router.get('/accounts/:slug/tweets', async ({ params, query }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    const pagination = parsePagination(query);
+
+    const orderBy = (query.get('order_by') || 'created_at') as TweetOrderField;
+    if (!TWEET_ORDER_FIELDS.includes(orderBy)) {
+      throw ApiError.badRequest(`Query parameter 'order_by' must be one of: ${TWEET_ORDER_FIELDS.join(', ')}`);
+    }
+
+    const order = query.get('order') || 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+      throw ApiError.badRequest(`Query parameter 'order' must be 'asc' or 'desc'`);
+    }
+
+    const tweets = await twitterService.getTwitterPosts(account.slug, {
+      limit: pagination.limit + 1,
+      offset: pagination.offset,
+      orderBy,
+      orderDirection: order
+    });
+
+    return ok(paginate(tweets, pagination));
+  });
+
+  router.get('/accounts/:slug/tweets/:tweetId/engagement', async ({ params }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    const curve = await twitterService.getTweetEngagementCurve(account.slug, params.tweetId!);
+    if (!curve) {
+      throw ApiError.notFound(`Tweet '${params.tweetId}' not found for account '${account.slug}'`);
+    }
+    return ok({ data: curve });
+  });
+
+  router.get('/accounts/:slug/analytics', async ({ params }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    const analytics = await twitterService.getTwitterAnalytics(account.slug);
+    return ok({ data: analytics });
+  });
+
+  // Engagement normalized by followers; ?include=tweets adds the per-tweet rates
+  router.get('/accounts/:slug/analytics/engagement-rate', async ({ params, query }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    const days = parseIntegerParam(query, 'days', 30, 1, 365);
+
+    const include = query.get('include');
+    if (include && include !== 'tweets') {
+      throw ApiError.badRequest(`Query parameter 'include' must be 'tweets'`);
+    }
+
+    const rates = await twitterService.getEngagementRateAnalytics(account.slug, {
+      days,
+      includeTweets: include === 'tweets'
+    });
+    return ok({ data: rates });
+  });
+
+  router.get('/accounts/:slug/benchmark', async ({ params, query }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    const days = parseIntegerParam(query, 'days', 30, 1, 365);
+
+    const benchmark = await benchmarkService.getAccountBenchmark(account.slug, {
+      days,
+      peerGroup: parsePeerGroupParam(query)
+    });
+    if (!benchmark) {
+      throw ApiError.badRequest(`Account '${account.slug}' has no Twitter handle`);
+    }
+    return ok({ data: benchmark });
+  });
+
+  // Projected followers with 80%/95% intervals, milestone dates and a holdout backtest of both models
+  router.get('/accounts/:slug/forecast', async ({ params, query }) => {
+    const account = await requireAccount(accountService, params.slug!);
+
+    const forecast = await forecastService.forecastAccount(account, parseForecastParams(query));
+    if (!forecast) {
+      throw ApiError.badRequest(`Account '${account.slug}' does not have enough follower snapshots to forecast`);
+    }
+    return ok({ data: forecast });
+  });
+
+  router.get('/accounts/:slug/growth', async ({ params, query }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    const days = parseIntegerParam(query, 'days', 30, 1, 365);
+
+    const [growth, snapshots] = await Promise.all([
+      followerService.getAccountGrowthOverDays(account.id, days),
+      followerService.getAccountDailySnapshots(account.id, days)
+    ]);
+
+    return ok({
+      data: {
+        account_id: account.id,
+        slug: account.slug,
+        current_followers: account.follower_count ?? null,
+        days,
+        growth,
+        snapshots
+      }
+    });
+  });
+
+  // Calendar weeks or months, compared at the period boundaries so missing days don't skew them
+  router.get('/accounts/:slug/growth/periods', async ({ params, query }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    const period = query.get('period') || 'week';
+    if (period !== 'week' && period !== 'month') {
+      throw ApiError.badRequest(`Query parameter 'period' must be 'week' or 'month'`);
+    }
+    const periods = parseIntegerParam(query, 'periods', 12, 1, 104);
+
+    const growth = await followerService.getAccountGrowthByPeriod(account.id, period, periods);
+    return ok({ data: growth, period });
+  });
+
+  // Dates the daily follower sync missed; filled ones have interpolated snapshots
+  router.get('/accounts/:slug/snapshots/gaps', async ({ params, query }) => {
+    const account = await requireAccount(accountService, params.slug!);
+    const days = parseIntegerParam(query, 'days', 90, 1, 730);
+
+    const gaps = await followerService.getSnapshotGaps(account.id, days);
+    return ok({ data: gaps, days });
+  });
+}
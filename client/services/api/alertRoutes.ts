@@ -0,0 +1,72 @@
+import { ApiRouter, ApiError, ApiRequest, ApiResponse, ok, paginate, parsePagination, requireBearerToken } from './apiRouter';
+import { requireAccount } from './accountRoutes';
+import { AccountService } from '../dao/daoService';
+import { AnomalyAlertService } from '../analytics/anomalyAlertService';
+import { ALERT_KINDS, ALERT_SEVERITIES, AlertKind, AlertSeverity } from '../analytics/alertStore';
+
+export interface AlertRouteServices {
+  accountService: AccountService;
+  alertService: AnomalyAlertService | null;
+  authToken?: string;
+}
+
+/**
+ * Anomaly alerts: listing is public like the other analytics; scans and test sends need the API token
+ */
+export function registerAlertRoutes(router: ApiRouter, services: AlertRouteServices): void {
+  const { accountService, authToken } = services;
+
+  const requireAlertService = (): AnomalyAlertService => {
+    if (!services.alertService) {
+      throw ApiError.serviceUnavailable('Anomaly alerts are disabled');
+    }
+    return services.alertService;
+  };
+
+  const authenticated = (handler: (req: ApiRequest) => Promise<ApiResponse>) =>
+    async (req: ApiRequest): Promise<ApiResponse> => {
+      requireBearerToken(req.headers, authToken);
+      return handler(req);
+    };
+
+  router.get('/alerts', async ({ query }) => {
+    const alertService = requireAlertService();
+    const pagination = parsePagination(query);
+
+    const kind = query.get('kind') || undefined;
+    if (kind && !ALERT_KINDS.includes(kind as AlertKind)) {
+      throw ApiError.badRequest(`Query parameter 'kind' must be one of ${ALERT_KINDS.join(', ')}`);
+    }
+    const minSeverity = query.get('min_severity') || undefined;
+    if (minSeverity && !ALERT_SEVERITIES.includes(minSeverity as AlertSeverity)) {
+      throw ApiError.badRequest(`Query parameter 'min_severity' must be one of ${ALERT_SEVERITIES.join(', ')}`);
+    }
+
+    const slug = query.get('account');
+    const account = slug ? await requireAccount(accountService, slug) : null;
+
+    const alerts = await alertService.listAlerts({
+      accountId: account?.id,
+      kind: kind as AlertKind | undefined,
+      minSeverity: minSeverity as AlertSeverity | undefined,
+      limit: pagination.limit + 1,
+      offset: pagination.offset
+    });
+    return ok(paginate(alerts, pagination));
+  });
+
+  // Run a scan now instead of waiting for the next interval
+  router.post('/alerts/scan', authenticated(async () => {
+    return ok({ data: await requireAlertService().scan() });
+  }));
+
+  // Send a made-up alert through every configured notifier
+  router.post('/alerts/test', authenticated(async () => {
+    const alertService = requireAlertService();
+    const results = await alertService.sendTestAlert();
+    if (results.length === 0) {
+      throw ApiError.badRequest('No alert notifiers configured - set ALERT_WEBHOOK_URL, ALERT_SLACK_WEBHOOK_URL or ALERT_SMTP_HOST');
+    }
+    return ok({ data: results });
+  }));
+}
@@ -0,0 +1,283 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+
+export type RouteParams = Record<string, string>;
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface ApiRequest {
+  method: string;
+  path: string;
+  params: RouteParams;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body?: any;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+export type RouteHandler = (req: ApiRequest) => Promise<ApiResponse>;
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+}
+
+export interface PaginatedResult<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    offset: number;
+    has_more: boolean;
+    next_offset: number | null;
+  };
+}
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Error that is rendered as a JSON error body with the given HTTP status
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  static badRequest(message: string, details?: unknown): ApiError {
+    return new ApiError(400, 'bad_request', message, details);
+  }
+
+  static notFound(message: string): ApiError {
+    return new ApiError(404, 'not_found', message);
+  }
+
+  static unauthorized(message: string = 'Missing or invalid bearer token'): ApiError {
+    return new ApiError(401, 'unauthorized', message);
+  }
+
+  static conflict(message: string): ApiError {
+    return new ApiError(409, 'conflict', message);
+  }
+
+  static serviceUnavailable(message: string): ApiError {
+    return new ApiError(503, 'service_unavailable', message);
+  }
+}
+
+export const ok = (body: unknown): ApiResponse => ({ status: 200, body });
+export const accepted = (body: unknown): ApiResponse => ({ status: 202, body });
+
+/**
+ * Require an `Authorization: Bearer <token>` header matching the configured token
+ */
+export function requireBearerToken(headers: ApiRequest['headers'], expectedToken: string | undefined): void {
+  if (!expectedToken) {
+    throw new ApiError(403, 'forbidden', 'This endpoint is disabled until API_AUTH_TOKEN is configured');
+  }
+
+  const header = headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    throw ApiError.unauthorized();
+  }
+
+  const provided = Buffer.from(token);
+  const expected = Buffer.from(expectedToken);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw ApiError.unauthorized();
+  }
+}
+
+/**
+ * Parse `limit` and `offset` query parameters
+ */
+export function parsePagination(
+  query: URLSearchParams,
+  defaults: { limit?: number; maxLimit?: number } = {}
+): Pagination {
+  const { limit: defaultLimit = 50, maxLimit = 200 } = defaults;
+  const limit = parseIntegerParam(query, 'limit', defaultLimit, 1, maxLimit);
+  const offset = parseIntegerParam(query, 'offset', 0, 0, Number.MAX_SAFE_INTEGER);
+  return { limit, offset };
+}
+
+/**
+ * Parse an integer query parameter, rejecting values outside [min, max]
+ */
+export function parseIntegerParam(
+  query: URLSearchParams,
+  name: string,
+  defaultValue: number,
+  min: number,
+  max: number
+): number {
+  const raw = query.get(name);
+  if (raw === null || raw === '') return defaultValue;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw ApiError.badRequest(`Query parameter '${name}' must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Build a paginated body from a page fetched with `limit + 1` rows
+ */
+export function paginate<T>(rows: T[], pagination: Pagination): PaginatedResult<T> {
+  const hasMore = rows.length > pagination.limit;
+  return {
+    data: hasMore ? rows.slice(0, pagination.limit) : rows,
+    pagination: {
+      limit: pagination.limit,
+      offset: pagination.offset,
+      has_more: hasMore,
+      next_offset: hasMore ? pagination.offset + pagination.limit : null
+    }
+  };
+}
+
+// Malformed percent-encoding is the client's mistake, not a server error
+function decodePathParam(name: string, value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw ApiError.badRequest(`Path parameter '${name}' is not valid percent-encoding`);
+  }
+}
+
+export class ApiRouter {
+  private routes: Route[] = [];
+
+  constructor(private basePath: string = '/api/v1') {}
+
+  get(path: string, handler: RouteHandler): void {
+    this.register('GET', path, handler);
+  }
+
+  post(path: string, handler: RouteHandler): void {
+    this.register('POST', path, handler);
+  }
+
+  register(method: HttpMethod, path: string, handler: RouteHandler): void {
+    const paramNames: string[] = [];
+    const source = `${this.basePath}${path}`
+      .split('/')
+      .map(segment => {
+        if (segment.startsWith(':')) {
+          paramNames.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), paramNames, handler });
+  }
+
+  /**
+   * Check whether a request URL belongs to this router
+   */
+  matches(url: string | undefined): boolean {
+    return !!url && (url === this.basePath || url.startsWith(`${this.basePath}/`) || url.startsWith(`${this.basePath}?`));
+  }
+
+  /**
+   * Dispatch a request to the matching route and write the JSON response
+   */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const method = (req.method || 'GET').toUpperCase();
+
+      let pathMatched = false;
+      for (const route of this.routes) {
+        const match = route.pattern.exec(url.pathname);
+        if (!match) continue;
+        pathMatched = true;
+        if (route.method !== method) continue;
+
+        const params: RouteParams = {};
+        route.paramNames.forEach((name, index) => {
+          params[name] = decodePathParam(name, match[index + 1] || '');
+        });
+
+        const response = await route.handler({
+          method,
+          path: url.pathname,
+          params,
+          query: url.searchParams,
+          headers: req.headers,
+          body: method === 'GET' ? undefined : await this.readJsonBody(req)
+        });
+
+        this.sendJson(res, response.status, response.body);
+        return;
+      }
+
+      if (pathMatched) {
+        throw new ApiError(405, 'method_not_allowed', `Method ${method} not allowed for ${url.pathname}`);
+      }
+      throw ApiError.notFound(`No route for ${method} ${url.pathname}`);
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf8').trim();
+    if (!raw) return {};
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw ApiError.badRequest('Request body must be valid JSON');
+    }
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: ServerResponse, error: unknown): void {
+    if (error instanceof ApiError) {
+      this.sendJson(res, error.status, {
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.details !== undefined && { details: error.details })
+        },
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    console.error('Unhandled API error:', error);
+    this.sendJson(res, 500, {
+      error: {
+        code: 'internal_error',
+        message: error instanceof Error ? error.message : String(error)
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+}
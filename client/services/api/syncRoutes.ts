@@ -0,0 +1,335 @@
+import {
+  ApiRouter,
+  ApiError,
+  ApiRequest,
+  ApiResponse,
+  accepted,
+  ok,
+  paginate,
+  parseIntegerParam,
+  parsePagination,
+  requireBearerToken
+} from './apiRouter';
+import { requireAccount } from './accountRoutes';
+import { AccountService } from '../dao/daoService';
+import { EngagementSyncService } from '../twitter/engagementSyncService';
+import TwitterFollowerService from '../twitter/twitterFollowerService';
+import { SyncJobManager, StartSyncJobOptions, SyncJob } from '../sync/syncJobManager';
+import { SyncAlreadyRunningError } from '../twitter/syncErrors';
+import { SyncJobQueue } from '../sync/syncJobQueue';
+import { QUEUED_JOB_STATUSES, QUEUED_JOB_TYPES, QueuedJobStatus, QueuedJobType } from '../sync/syncJobStore';
+import { SyncScheduler } from '../sync/syncScheduler';
+import { BackfillJobPayload, validateBackfillPayload } from '../sync/twitterSyncJobs';
+import { CronExpression } from '../sync/cronExpression';
+import { SyncLeaseManager } from '../sync/syncLeaseManager';
+
+export interface SyncRouteServices {
+  accountService: AccountService;
+  syncService: EngagementSyncService | null;
+  followerService: TwitterFollowerService | null;
+  jobManager: SyncJobManager;
+  jobQueue?: SyncJobQueue | null;
+  scheduler?: SyncScheduler | null;
+  leaseManager?: SyncLeaseManager | null;
+  authToken?: string;
+}
+
+/**
+ * Authenticated routes to trigger syncs manually and poll their progress
+ */
+export function registerSyncRoutes(router: ApiRouter, services: SyncRouteServices): void {
+  const { accountService, jobManager, authToken } = services;
+
+  const requireSyncService = (): EngagementSyncService => {
+    if (!services.syncService) {
+      throw ApiError.serviceUnavailable('Engagement sync is disabled - no Twitter bearer token configured');
+    }
+    return services.syncService;
+  };
+
+  const requireFollowerService = (): TwitterFollowerService => {
+    if (!services.followerService) {
+      throw ApiError.serviceUnavailable('Follower sync is disabled - no Twitter bearer token configured');
+    }
+    return services.followerService;
+  };
+
+  const requireJobQueue = (): SyncJobQueue => {
+    if (!services.jobQueue) {
+      throw ApiError.serviceUnavailable('Sync job queue is disabled - no Twitter bearer token configured');
+    }
+    return services.jobQueue;
+  };
+
+  const requireScheduler = (): SyncScheduler => {
+    if (!services.scheduler) {
+      throw ApiError.serviceUnavailable('Sync scheduler is disabled - no Twitter bearer token configured');
+    }
+    return services.scheduler;
+  };
+
+  // Manual syncs hold a lease per lock so two replicas can't run the same sync at once
+  const acquireLeases = async (locks: string[]): Promise<string[]> => {
+    const { leaseManager } = services;
+    if (!leaseManager) return [];
+
+    const acquired: string[] = [];
+    for (const name of locks.map(lock => `manual-sync:${lock}`)) {
+      // Already ours means a sync on this instance holds it; leave it to that sync to release
+      if (leaseManager.isHolder(name)) {
+        await Promise.all(acquired.map(held => leaseManager.release(held)));
+        throw new ApiError(409, 'sync_in_progress', `Sync already in progress (${name})`);
+      }
+
+      const { acquired: isHeld, lease } = await leaseManager.acquire(name);
+      if (!isHeld) {
+        await Promise.all(acquired.map(held => leaseManager.release(held)));
+        throw new ApiError(409, 'sync_in_progress', `Sync already in progress on instance ${lease.holder_id} (${name})`);
+      }
+      acquired.push(name);
+    }
+    return acquired;
+  };
+
+  const startJob = async (options: StartSyncJobOptions): Promise<SyncJob> => {
+    const leases = await acquireLeases(options.locks);
+    const releaseLeases = () => Promise.all(leases.map(name => services.leaseManager!.release(name)));
+
+    try {
+      return jobManager.start({
+        ...options,
+        run: async context => {
+          try {
+            return await options.run(context);
+          } finally {
+            await releaseLeases();
+          }
+        }
+      });
+    } catch (error) {
+      await releaseLeases();
+      if (error instanceof SyncAlreadyRunningError) {
+        throw new ApiError(409, 'sync_in_progress', error.message);
+      }
+      throw error;
+    }
+  };
+
+  const authenticated = (handler: (req: ApiRequest) => Promise<ApiResponse>) =>
+    async (req: ApiRequest): Promise<ApiResponse> => {
+      requireBearerToken(req.headers, authToken);
+      return handler(req);
+    };
+
+  router.post('/sync/engagement', authenticated(async () => {
+    const syncService = requireSyncService();
+
+    const job = await startJob({
+      type: 'engagement',
+      locks: ['engagement'],
+      isBusy: () => syncService.isSyncRunning(),
+      run: async ({ reportProgress }) => {
+        const stats = await syncService.runEngagementSync(progress => reportProgress({
+          total: progress.accountsTotal,
+          completed: progress.accountsProcessed,
+          current: progress.currentAccount
+        }));
+        return { stats };
+      }
+    });
+
+    return accepted({ data: job });
+  }));
+
+  router.post('/sync/followers', authenticated(async () => {
+    const followerService = requireFollowerService();
+
+    const job = await startJob({
+      type: 'followers',
+      locks: ['followers'],
+      isBusy: () => followerService.isSyncRunning(),
+      run: async ({ reportProgress }) => {
+        const followerResult = await followerService.updateAllFollowerCounts(progress => reportProgress({
+          total: progress.accountsTotal,
+          completed: progress.accountsProcessed
+        }));
+        return { followerResult };
+      }
+    });
+
+    return accepted({ data: job });
+  }));
+
+  router.post('/sync/accounts/:slug', authenticated(async ({ params }) => {
+    const syncService = requireSyncService();
+    const followerService = requireFollowerService();
+    const account = await requireAccount(accountService, params.slug!);
+
+    if (!account.twitter_handle) {
+      throw ApiError.badRequest(`Account '${account.slug}' has no Twitter handle`);
+    }
+
+    const job = await startJob({
+      type: 'account',
+      target: account.slug,
+      locks: ['engagement', 'followers'],
+      isBusy: () => syncService.isSyncRunning() || followerService.isSyncRunning(),
+      run: async ({ reportProgress }) => {
+        reportProgress({ total: 2, completed: 0, current: account.slug, phase: 'engagement' });
+        const stats = await syncService.runAccountSync(account.slug);
+
+        reportProgress({ completed: 1, phase: 'followers' });
+        const followerResult = await followerService.updateSingleAccountFollowerCount(account);
+
+        reportProgress({ completed: 2, phase: undefined });
+        return { stats, followerResult };
+      }
+    });
+
+    return accepted({ data: job });
+  }));
+
+  router.get('/sync/jobs', authenticated(async ({ query }) => {
+    const limit = parseIntegerParam(query, 'limit', 20, 1, 100);
+    return ok({ data: jobManager.listJobs(limit) });
+  }));
+
+  router.get('/sync/jobs/:id', authenticated(async ({ params }) => {
+    const job = jobManager.getJob(params.id!);
+    if (!job) {
+      throw ApiError.notFound(`Sync job '${params.id}' not found`);
+    }
+    return ok({ data: job });
+  }));
+
+  router.get('/sync/queue', authenticated(async () => {
+    return ok({ data: await requireJobQueue().getStatus() });
+  }));
+
+  // ?status=dead lists the dead-letter queue
+  router.get('/sync/queue/jobs', authenticated(async ({ query }) => {
+    const jobQueue = requireJobQueue();
+    const pagination = parsePagination(query);
+
+    const status = query.get('status') || undefined;
+    if (status && !QUEUED_JOB_STATUSES.includes(status as QueuedJobStatus)) {
+      throw ApiError.badRequest(`Query parameter 'status' must be one of ${QUEUED_JOB_STATUSES.join(', ')}`);
+    }
+    const jobType = query.get('type') || undefined;
+    if (jobType && !QUEUED_JOB_TYPES.includes(jobType as QueuedJobType)) {
+      throw ApiError.badRequest(`Query parameter 'type' must be one of ${QUEUED_JOB_TYPES.join(', ')}`);
+    }
+
+    const jobs = await jobQueue.listJobs({
+      status: status as QueuedJobStatus | undefined,
+      jobType: jobType as QueuedJobType | undefined,
+      limit: pagination.limit + 1,
+      offset: pagination.offset
+    });
+    return ok(paginate(jobs, pagination));
+  }));
+
+  router.get('/sync/queue/jobs/:id', authenticated(async ({ params }) => {
+    const job = await requireJobQueue().getJob(params.id!);
+    if (!job) {
+      throw ApiError.notFound(`Queued sync job '${params.id}' not found`);
+    }
+    return ok({ data: job });
+  }));
+
+  // Queue a job for one account; returns the already queued job if there is one
+  router.post('/sync/queue/jobs', authenticated(async ({ body }) => {
+    const jobQueue = requireJobQueue();
+    const jobType = body?.type as QueuedJobType;
+    if (!QUEUED_JOB_TYPES.includes(jobType)) {
+      throw ApiError.badRequest(`Field 'type' must be one of ${QUEUED_JOB_TYPES.join(', ')}`);
+    }
+    if (typeof body?.account !== 'string' || !body.account) {
+      throw ApiError.badRequest(`Field 'account' must be an account slug`);
+    }
+
+    const account = await requireAccount(accountService, body.account);
+    if (!account.twitter_handle) {
+      throw ApiError.badRequest(`Account '${account.slug}' has no Twitter handle`);
+    }
+
+    const payload = body.payload && typeof body.payload === 'object' ? body.payload : undefined;
+    if (jobType === 'backfill' && payload) {
+      const invalid = validateBackfillPayload(payload as BackfillJobPayload);
+      if (invalid) {
+        throw ApiError.badRequest(`Field 'payload': ${invalid}`);
+      }
+    }
+
+    const job = await jobQueue.enqueue(jobType, account.id, { payload });
+    return accepted({ data: job });
+  }));
+
+  router.post('/sync/queue/jobs/:id/retry', authenticated(async ({ params }) => {
+    const jobQueue = requireJobQueue();
+    const existing = await jobQueue.getJob(params.id!);
+    if (!existing) {
+      throw ApiError.notFound(`Queued sync job '${params.id}' not found`);
+    }
+    if (existing.status !== 'dead') {
+      throw ApiError.conflict(`Queued sync job '${params.id}' is ${existing.status}, only dead jobs can be retried`);
+    }
+
+    const job = await jobQueue.retryDeadJob(existing.id);
+    if (!job) {
+      throw ApiError.conflict(`A ${existing.job_type} job for this account is already queued`);
+    }
+    return accepted({ data: job });
+  }));
+
+  router.get('/sync/schedules', authenticated(async () => {
+    return ok({ data: await requireScheduler().listSchedules() });
+  }));
+
+  // Create or replace a schedule; without 'account' it replaces the job type's default
+  router.post('/sync/schedules', authenticated(async ({ body }) => {
+    const scheduler = requireScheduler();
+    const jobType = body?.job_type as QueuedJobType;
+    if (!QUEUED_JOB_TYPES.includes(jobType)) {
+      throw ApiError.badRequest(`Field 'job_type' must be one of ${QUEUED_JOB_TYPES.join(', ')}`);
+    }
+    if (typeof body?.cron !== 'string') {
+      throw ApiError.badRequest(`Field 'cron' must be a cron expression such as "0 * * * *"`);
+    }
+    try {
+      CronExpression.parse(body.cron);
+    } catch (error) {
+      throw ApiError.badRequest(error instanceof Error ? error.message : String(error));
+    }
+
+    const missedRunPolicy = body.missed_run_policy;
+    if (missedRunPolicy !== undefined && missedRunPolicy !== 'catch_up' && missedRunPolicy !== 'skip') {
+      throw ApiError.badRequest(`Field 'missed_run_policy' must be catch_up or skip`);
+    }
+    if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+      throw ApiError.badRequest(`Field 'is_active' must be a boolean`);
+    }
+
+    let accountId: string | null = null;
+    if (body.account !== undefined && body.account !== null) {
+      if (typeof body.account !== 'string' || !body.account) {
+        throw ApiError.badRequest(`Field 'account' must be an account slug`);
+      }
+      accountId = (await requireAccount(accountService, body.account)).id;
+    }
+
+    const schedule = await scheduler.setSchedule(jobType, accountId, body.cron, {
+      missedRunPolicy,
+      isActive: body.is_active
+    });
+    return ok({ data: schedule });
+  }));
+
+  router.register('DELETE', '/sync/schedules/:id', authenticated(async ({ params }) => {
+    const removed = await requireScheduler().removeSchedule(params.id!);
+    if (!removed) {
+      throw ApiError.notFound(`Sync schedule '${params.id}' not found`);
+    }
+    return ok({ data: { id: params.id, deleted: true } });
+  }));
+}
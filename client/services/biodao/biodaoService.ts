@@ -6,7 +6,8 @@ import {
   BioDAOSocialData,
   SocialPlatform,
   SocialDataQuery,
-  BioDAOWithAccounts 
+  BioDAOWithAccounts,
+  BioDAOAudienceSnapshot
 } from '../types/biodao';
 
 export class BioDAOService {
@@ -92,6 +93,18 @@ export class BioDAOService {
     return data;
   }
 
+  // Get the active social accounts of every BioDAO on one platform
+  async getSocialAccountsByPlatform(platform: SocialPlatform): Promise<BioDAOSocialAccount[]> {
+    const { data, error } = await supabase
+      .from('biodao_social_accounts')
+      .select('*')
+      .eq('platform', platform)
+      .eq('is_active', true);
+
+    if (error) throw error;
+    return data || [];
+  }
+
   // Get social accounts for a BioDAO
   async getSocialAccounts(biodaoId: string, platform?: SocialPlatform): Promise<BioDAOSocialAccount[]> {
     let query = supabase
@@ -138,7 +151,19 @@ export class BioDAOService {
     });
     
     if (error) throw error;
-    return data || [];
+
+    // The RPC only filters by platform; apply the remaining filters here
+    const from = query.date_from ? new Date(query.date_from).getTime() : undefined;
+    const to = query.date_to ? new Date(query.date_to).getTime() : undefined;
+
+    return ((data || []) as BioDAOSocialData[]).filter(post => {
+      if (query.post_type && post.post_type !== query.post_type) return false;
+      if (from === undefined && to === undefined) return true;
+
+      const postedAt = post.posted_at ? new Date(post.posted_at).getTime() : NaN;
+      if (Number.isNaN(postedAt)) return false;
+      return (from === undefined || postedAt >= from) && (to === undefined || postedAt <= to);
+    });
   }
 
   // Update sync status
@@ -159,6 +184,25 @@ export class BioDAOService {
     if (error) throw error;
   }
 
+  // Update sync status after syncing one account; other accounts' errors on the same platform are kept
+  async updateAccountSyncStatus(
+    biodaoId: string,
+    platform: SocialPlatform,
+    accountIdentifier: string,
+    previous: BioDAOSyncStatus | undefined,
+    lastSyncData: Record<string, any>,
+    accountErrors: any[]
+  ): Promise<void> {
+    const otherErrors = (previous?.sync_errors || []).filter(error => error?.account !== accountIdentifier);
+
+    await this.updateSyncStatus(biodaoId, platform, {
+      last_sync_time: new Date().toISOString(),
+      last_sync_data: lastSyncData,
+      sync_errors: [...otherErrors, ...accountErrors],
+      is_syncing: false
+    });
+  }
+
   // Get sync status
   async getSyncStatus(biodaoId: string, platform?: SocialPlatform): Promise<BioDAOSyncStatus[]> {
     let query = supabase
@@ -175,6 +219,49 @@ export class BioDAOService {
     return data || [];
   }
 
+  // Record today's member count (and messages seen since the last sync) for a social account
+  async recordAudienceSnapshot(
+    biodaoId: string,
+    platform: SocialPlatform,
+    accountIdentifier: string,
+    memberCount: number,
+    messageCount: number = 0,
+    activeCount?: number | null
+  ): Promise<void> {
+    const { error } = await supabase.rpc('record_daily_audience_snapshot', {
+      p_biodao_id: biodaoId,
+      p_platform: platform,
+      p_account_identifier: accountIdentifier,
+      p_member_count: memberCount,
+      p_message_count: messageCount,
+      p_active_count: activeCount ?? null
+    });
+
+    if (error) throw error;
+  }
+
+  // Get daily audience snapshots for a BioDAO, newest first
+  async getAudienceHistory(
+    biodaoId: string,
+    platform?: SocialPlatform,
+    limit: number = 30
+  ): Promise<BioDAOAudienceSnapshot[]> {
+    let query = supabase
+      .from('biodao_audience_snapshots')
+      .select('*')
+      .eq('biodao_id', biodaoId)
+      .order('date', { ascending: false })
+      .limit(limit);
+
+    if (platform) {
+      query = query.eq('platform', platform);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
   // Get engagement metrics for a BioDAO
   async getEngagementMetrics(daoSlug: string, platform?: SocialPlatform, days: number = 30): Promise<any> {
     const dateFrom = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
@@ -184,7 +271,8 @@ export class BioDAOService {
     const socialData = await this.getSocialData({
       dao_slug: daoSlug,
       platform,
-      limit: 1000
+      limit: 1000,
+      date_from: dateFrom
     });
 
     const metrics = socialData.reduce((acc, post) => {
@@ -209,6 +297,7 @@ export class BioDAOService {
       avg_likes: metrics.total_posts > 0 ? Math.round(metrics.total_likes / metrics.total_posts) : 0,
       avg_shares: metrics.total_posts > 0 ? Math.round(metrics.total_shares / metrics.total_posts) : 0,
       avg_comments: metrics.total_posts > 0 ? Math.round(metrics.total_comments / metrics.total_posts) : 0,
+      avg_views: metrics.total_posts > 0 ? Math.round(metrics.total_views / metrics.total_posts) : 0,
       period_days: days,
       platform: platform || 'all'
     };
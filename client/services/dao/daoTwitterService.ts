@@ -1,7 +1,9 @@
 import { supabase } from '../supabase/client.js';
+import { Distribution, round, summarize } from '../analytics/statistics.js';
 
 export interface TwitterPost {
   id: string;
+  account_id?: string;
   type?: string;
   url?: string;
   twitter_url?: string;
@@ -45,30 +47,226 @@ export interface TwitterAnalytics {
   recent_tweets: TwitterPost[];
 }
 
-export class AccountTwitterService {
-  
-  // Get table name for an Account
-  private getTableName(accountSlug: string): string {
-    return `account_${accountSlug}_tweets`;
+export interface TopTweet {
+  account_id: string;
+  account_name: string;
+  account_slug: string;
+  tweet_id: string;
+  text: string | null;
+  url: string | null;
+  created_at: string;
+  like_count: number;
+  retweet_count: number;
+  reply_count: number;
+  quote_count: number;
+  view_count: number;
+}
+
+export interface TweetMetricsSnapshot {
+  tweet_id: string;
+  like_count: number;
+  retweet_count: number;
+  reply_count: number;
+  quote_count: number;
+  view_count: number;
+  recorded_at: string;
+}
+
+export interface TweetVelocityWindow {
+  hours: number;
+  // null when the tweet has not been observed that long after posting
+  like_count: number | null;
+  retweet_count: number | null;
+  view_count: number | null;
+  likes_per_hour: number | null;
+}
+
+export interface TweetEngagementCurve {
+  tweet_id: string;
+  account_slug: string;
+  created_at: string | null;
+  final_like_count: number;
+  hours_to_90_percent_likes: number | null;
+  velocity: TweetVelocityWindow[];
+  snapshots: TweetMetricsSnapshot[];
+}
+
+// Engagement rates are percentages of the followers the account had on the tweet's date
+export interface TweetEngagementRate {
+  tweet_id: string;
+  created_at: string;
+  follower_count: number;
+  engagements: number;
+  engagement_rate: number;
+  like_rate: number;
+  retweet_rate: number;
+  reply_rate: number;
+  quote_rate: number;
+}
+
+export interface DailyEngagementRate {
+  date: string;
+  tweet_count: number;
+  follower_count: number;
+  engagements: number;
+  engagement_rate: number; // All of the day's engagements over that day's followers
+}
+
+export interface EngagementRateAnalytics {
+  account_slug: string;
+  days: number;
+  since: string;
+  tweet_count: number;
+  // Tweets from before the first follower snapshot can't be normalized and are left out
+  tweets_without_follower_count: number;
+  follower_count_start: number | null;
+  follower_count_end: number | null;
+  total_engagements: number;
+  // Total engagements over the summed follower counts of the tweets, so busy days don't dominate
+  account_engagement_rate: number | null;
+  per_tweet: {
+    engagement_rate: Distribution;
+    like_rate: Distribution;
+    retweet_rate: Distribution;
+    reply_rate: Distribution;
+    quote_rate: Distribution;
+  };
+  per_day: Distribution;
+  daily: DailyEngagementRate[];
+  tweets?: TweetEngagementRate[];
+}
+
+// All tweets live in one table partitioned by account_id
+export const ACCOUNT_TWEETS_TABLE = 'account_tweets';
+export const TWEET_METRICS_HISTORY_TABLE = 'tweet_metrics_history';
+
+// Hours after posting used for velocity comparisons
+export const VELOCITY_WINDOWS_HOURS = [1, 6, 24, 72];
+
+const HOUR_MS = 60 * 60 * 1000;
+// Supabase caps a select at 1000 rows by default
+const PAGE_SIZE = 1000;
+
+type SnapshotMetric = 'like_count' | 'retweet_count' | 'view_count';
+
+interface FollowerSnapshot {
+  date: string;
+  follower_count: number;
+}
+
+interface TweetEngagementRow {
+  id: string;
+  created_at: string | null;
+  like_count: number | null;
+  retweet_count: number | null;
+  reply_count: number | null;
+  quote_count: number | null;
+}
+
+// Follower count in effect on a date: the latest snapshot on or before it.
+// Snapshots must be sorted by date; returns null before the first one.
+function followersOn(snapshots: FollowerSnapshot[], date: string): number | null {
+  let followers: number | null = null;
+  for (const snapshot of snapshots) {
+    if (snapshot.date > date) break;
+    followers = snapshot.follower_count;
   }
+  return followers;
+}
+
+function ratePercent(count: number, followers: number): number {
+  return round(count / followers * 100, 4);
+}
+
+// Metric value at a point in time, linearly interpolated between snapshots.
+// The tweet is assumed to start at zero when posted.
+function metricAt(
+  snapshots: TweetMetricsSnapshot[],
+  createdAtMs: number,
+  atMs: number,
+  metric: SnapshotMetric
+): number | null {
+  const last = snapshots[snapshots.length - 1];
+  if (!last || new Date(last.recorded_at).getTime() < atMs) return null;
+
+  let prevTime = createdAtMs;
+  let prevValue = 0;
+  for (const snapshot of snapshots) {
+    const time = new Date(snapshot.recorded_at).getTime();
+    const value = snapshot[metric] || 0;
+    if (time >= atMs) {
+      if (time === prevTime) return value;
+      return Math.round(prevValue + (value - prevValue) * (atMs - prevTime) / (time - prevTime));
+    }
+    prevTime = time;
+    prevValue = value;
+  }
+  return null;
+}
+
+// Hours from posting until likes first reached 90% of the latest count
+function hoursToLikeShare(snapshots: TweetMetricsSnapshot[], createdAtMs: number, share: number): number | null {
+  const finalLikes = snapshots[snapshots.length - 1]?.like_count || 0;
+  if (finalLikes <= 0) return null;
+
+  const threshold = finalLikes * share;
+  let prevTime = createdAtMs;
+  let prevValue = 0;
+  for (const snapshot of snapshots) {
+    const time = new Date(snapshot.recorded_at).getTime();
+    const value = snapshot.like_count || 0;
+    if (value >= threshold) {
+      const reachedAt = value === prevValue
+        ? time
+        : prevTime + (threshold - prevValue) / (value - prevValue) * (time - prevTime);
+      return Math.round(Math.max(0, reachedAt - createdAtMs) / HOUR_MS * 100) / 100;
+    }
+    prevTime = time;
+    prevValue = value;
+  }
+  return null;
+}
+
+export class AccountTwitterService {
+  private accountIdCache = new Map<string, string>();
+
+  // Resolve an Account slug to its id
+  protected async getAccountId(accountSlug: string): Promise<string> {
+    const cached = this.accountIdCache.get(accountSlug);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id')
+      .eq('slug', accountSlug)
+      .maybeSingle();
 
-  // Create a new Account Twitter table
-  async createAccountTwitterTable(accountSlug: string): Promise<void> {
-    const { error } = await supabase.rpc('create_account_twitter_table', {
-      account_slug: accountSlug
-    });
-    
     if (error) {
-      throw new Error(`Failed to create Twitter table for ${accountSlug}: ${error.message}`);
+      throw new Error(`Failed to look up account ${accountSlug}: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error(`Account ${accountSlug} not found`);
     }
+
+    this.accountIdCache.set(accountSlug, data.id);
+    return data.id;
+  }
+
+  /**
+   * @deprecated Tweets are stored in the shared account_tweets table, so no per-account table is needed
+   */
+  async createAccountTwitterTable(accountSlug: string): Promise<void> {
+    // Still validates the slug so callers notice unknown accounts
+    await this.getAccountId(accountSlug);
   }
 
   // Insert Twitter posts for a DAO
   async insertTwitterPosts(accountSlug: string, posts: TwitterPost[]): Promise<void> {
-    const tableName = this.getTableName(accountSlug);
+    const accountId = await this.getAccountId(accountSlug);
     
     // Transform posts to match database schema
     const transformedPosts = posts.map(post => ({
+      account_id: accountId,
       id: post.id,
       type: post.type || 'tweet',
       url: post.url,
@@ -101,8 +299,8 @@ export class AccountTwitterService {
     }));
 
     const { error } = await supabase
-      .from(tableName)
-      .upsert(transformedPosts, { onConflict: 'id' });
+      .from(ACCOUNT_TWEETS_TABLE)
+      .upsert(transformedPosts, { onConflict: 'account_id,id' });
     
     if (error) {
       throw new Error(`Failed to insert Twitter posts for ${accountSlug}: ${error.message}`);
@@ -119,7 +317,7 @@ export class AccountTwitterService {
       orderDirection?: 'asc' | 'desc';
     } = {}
   ): Promise<TwitterPost[]> {
-    const tableName = this.getTableName(accountSlug);
+    const accountId = await this.getAccountId(accountSlug);
     const { 
       limit = 50, 
       offset = 0, 
@@ -128,8 +326,9 @@ export class AccountTwitterService {
     } = options;
 
     const { data, error } = await supabase
-      .from(tableName)
+      .from(ACCOUNT_TWEETS_TABLE)
       .select('*')
+      .eq('account_id', accountId)
       .order(orderBy, { ascending: orderDirection === 'asc' })
       .range(offset, offset + limit - 1);
     
@@ -142,12 +341,13 @@ export class AccountTwitterService {
 
   // Get Twitter analytics for a DAO
   async getTwitterAnalytics(accountSlug: string): Promise<TwitterAnalytics> {
-    const tableName = this.getTableName(accountSlug);
+    const accountId = await this.getAccountId(accountSlug);
     
     // Get basic stats
     const { data: stats, error: statsError } = await supabase
-      .from(tableName)
+      .from(ACCOUNT_TWEETS_TABLE)
       .select('like_count, retweet_count, view_count')
+      .eq('account_id', accountId)
       .not('like_count', 'is', null)
       .not('retweet_count', 'is', null)
       .not('view_count', 'is', null);
@@ -158,22 +358,25 @@ export class AccountTwitterService {
 
     // Get most liked tweet
     const { data: mostLiked, error: likedError } = await supabase
-      .from(tableName)
+      .from(ACCOUNT_TWEETS_TABLE)
       .select('*')
+      .eq('account_id', accountId)
       .order('like_count', { ascending: false })
       .limit(1);
     
     // Get most retweeted tweet
     const { data: mostRetweeted, error: retweetError } = await supabase
-      .from(tableName)
+      .from(ACCOUNT_TWEETS_TABLE)
       .select('*')
+      .eq('account_id', accountId)
       .order('retweet_count', { ascending: false })
       .limit(1);
     
     // Get recent tweets
     const { data: recent, error: recentError } = await supabase
-      .from(tableName)
+      .from(ACCOUNT_TWEETS_TABLE)
       .select('*')
+      .eq('account_id', accountId)
       .order('created_at', { ascending: false })
       .limit(10);
     
@@ -206,12 +409,13 @@ export class AccountTwitterService {
     query: string, 
     options: { limit?: number } = {}
   ): Promise<TwitterPost[]> {
-    const tableName = this.getTableName(accountSlug);
+    const accountId = await this.getAccountId(accountSlug);
     const { limit = 50 } = options;
 
     const { data, error } = await supabase
-      .from(tableName)
+      .from(ACCOUNT_TWEETS_TABLE)
       .select('*')
+      .eq('account_id', accountId)
       .textSearch('text', query)
       .order('created_at', { ascending: false })
       .limit(limit);
@@ -234,13 +438,14 @@ export class AccountTwitterService {
     total_retweets: number;
     total_views: number;
   }>> {
-    const tableName = this.getTableName(accountSlug);
+    const accountId = await this.getAccountId(accountSlug);
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
     const { data, error } = await supabase
-      .from(tableName)
+      .from(ACCOUNT_TWEETS_TABLE)
       .select('created_at, like_count, retweet_count, view_count')
+      .eq('account_id', accountId)
       .gte('created_at', startDate.toISOString())
       .order('created_at', { ascending: true });
     
@@ -273,6 +478,224 @@ export class AccountTwitterService {
     
     return Array.from(metrics.values());
   }
+
+  // Get engagement rates normalized by the follower count on each tweet's date
+  async getEngagementRateAnalytics(
+    accountSlug: string,
+    options: { days?: number; includeTweets?: boolean } = {}
+  ): Promise<EngagementRateAnalytics> {
+    const { days = 30, includeTweets = false } = options;
+    const accountId = await this.getAccountId(accountSlug);
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - days);
+    const sinceDate = since.toISOString().split('T')[0]!;
+
+    const [tweets, snapshotsResult, earlierResult] = await Promise.all([
+      this.getTweetEngagementSince(accountSlug, accountId, since),
+      supabase
+        .from('follower_daily_snapshots')
+        .select('date, follower_count')
+        .eq('account_id', accountId)
+        .gte('date', sinceDate)
+        .order('date', { ascending: true }),
+      // The snapshot in effect when the window starts
+      supabase
+        .from('follower_daily_snapshots')
+        .select('date, follower_count')
+        .eq('account_id', accountId)
+        .lt('date', sinceDate)
+        .order('date', { ascending: false })
+        .limit(1)
+    ]);
+
+    const failed = snapshotsResult.error || earlierResult.error;
+    if (failed) {
+      throw new Error(`Failed to fetch engagement rates for ${accountSlug}: ${failed.message}`);
+    }
+
+    const snapshots: FollowerSnapshot[] = [...(earlierResult.data || []), ...(snapshotsResult.data || [])];
+    const rates: TweetEngagementRate[] = [];
+    let withoutFollowers = 0;
+
+    for (const tweet of tweets) {
+      if (!tweet.created_at) continue;
+
+      const createdAt = new Date(tweet.created_at).toISOString();
+      const followers = followersOn(snapshots, createdAt.split('T')[0]!);
+      if (!followers) {
+        withoutFollowers++;
+        continue;
+      }
+
+      const likes = tweet.like_count || 0;
+      const retweets = tweet.retweet_count || 0;
+      const replies = tweet.reply_count || 0;
+      const quotes = tweet.quote_count || 0;
+      const engagements = likes + retweets + replies + quotes;
+
+      rates.push({
+        tweet_id: tweet.id,
+        created_at: createdAt,
+        follower_count: followers,
+        engagements,
+        engagement_rate: ratePercent(engagements, followers),
+        like_rate: ratePercent(likes, followers),
+        retweet_rate: ratePercent(retweets, followers),
+        reply_rate: ratePercent(replies, followers),
+        quote_rate: ratePercent(quotes, followers)
+      });
+    }
+
+    // Group by date
+    const daily = new Map<string, DailyEngagementRate>();
+    for (const rate of rates) {
+      const date = rate.created_at.split('T')[0]!;
+      const day = daily.get(date) || { date, tweet_count: 0, follower_count: rate.follower_count, engagements: 0, engagement_rate: 0 };
+      day.tweet_count++;
+      day.engagements += rate.engagements;
+      day.engagement_rate = ratePercent(day.engagements, day.follower_count);
+      daily.set(date, day);
+    }
+
+    const totalEngagements = rates.reduce((sum, rate) => sum + rate.engagements, 0);
+    const followerSum = rates.reduce((sum, rate) => sum + rate.follower_count, 0);
+    const activeDays = Array.from(daily.values());
+
+    return {
+      account_slug: accountSlug,
+      days,
+      since: since.toISOString(),
+      tweet_count: rates.length,
+      tweets_without_follower_count: withoutFollowers,
+      follower_count_start: followersOn(snapshots, sinceDate),
+      follower_count_end: snapshots[snapshots.length - 1]?.follower_count ?? null,
+      total_engagements: totalEngagements,
+      account_engagement_rate: followerSum > 0 ? ratePercent(totalEngagements, followerSum) : null,
+      per_tweet: {
+        engagement_rate: summarize(rates.map(rate => rate.engagement_rate)),
+        like_rate: summarize(rates.map(rate => rate.like_rate)),
+        retweet_rate: summarize(rates.map(rate => rate.retweet_rate)),
+        reply_rate: summarize(rates.map(rate => rate.reply_rate)),
+        quote_rate: summarize(rates.map(rate => rate.quote_rate))
+      },
+      per_day: summarize(activeDays.map(day => day.engagement_rate)),
+      daily: activeDays,
+      ...(includeTweets ? { tweets: rates } : {})
+    };
+  }
+
+  // Get the engagement counts of every tweet posted since `since`, oldest first, page by page
+  private async getTweetEngagementSince(accountSlug: string, accountId: string, since: Date): Promise<TweetEngagementRow[]> {
+    const tweets: TweetEngagementRow[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(ACCOUNT_TWEETS_TABLE)
+        .select('id, created_at, like_count, retweet_count, reply_count, quote_count')
+        .eq('account_id', accountId)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch engagement rates for ${accountSlug}: ${error.message}`);
+      }
+
+      tweets.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return tweets;
+  }
+
+  // Get every engagement snapshot recorded for a tweet, oldest first
+  async getTweetMetricsHistory(accountSlug: string, tweetId: string): Promise<TweetMetricsSnapshot[]> {
+    const accountId = await this.getAccountId(accountSlug);
+
+    const { data, error } = await supabase
+      .from(TWEET_METRICS_HISTORY_TABLE)
+      .select('tweet_id, like_count, retweet_count, reply_count, quote_count, view_count, recorded_at')
+      .eq('account_id', accountId)
+      .eq('tweet_id', tweetId)
+      .order('recorded_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch metrics history for tweet ${tweetId}: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Get a tweet's engagement curve with its early velocity and time to 90% of final likes
+  async getTweetEngagementCurve(accountSlug: string, tweetId: string): Promise<TweetEngagementCurve | null> {
+    const accountId = await this.getAccountId(accountSlug);
+
+    const { data: tweet, error } = await supabase
+      .from(ACCOUNT_TWEETS_TABLE)
+      .select('id, created_at')
+      .eq('account_id', accountId)
+      .eq('id', tweetId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch tweet ${tweetId} for ${accountSlug}: ${error.message}`);
+    }
+    if (!tweet) return null;
+
+    const snapshots = await this.getTweetMetricsHistory(accountSlug, tweetId);
+    const createdAtMs = tweet.created_at ? new Date(tweet.created_at).getTime() : null;
+
+    const velocity = VELOCITY_WINDOWS_HOURS.map(hours => {
+      if (createdAtMs === null) {
+        return { hours, like_count: null, retweet_count: null, view_count: null, likes_per_hour: null };
+      }
+      const atMs = createdAtMs + hours * HOUR_MS;
+      const likeCount = metricAt(snapshots, createdAtMs, atMs, 'like_count');
+      return {
+        hours,
+        like_count: likeCount,
+        retweet_count: metricAt(snapshots, createdAtMs, atMs, 'retweet_count'),
+        view_count: metricAt(snapshots, createdAtMs, atMs, 'view_count'),
+        likes_per_hour: likeCount === null ? null : Math.round(likeCount / hours * 100) / 100
+      };
+    });
+
+    return {
+      tweet_id: tweetId,
+      account_slug: accountSlug,
+      created_at: tweet.created_at,
+      final_like_count: snapshots[snapshots.length - 1]?.like_count || 0,
+      hours_to_90_percent_likes: createdAtMs === null ? null : hoursToLikeShare(snapshots, createdAtMs, 0.9),
+      velocity,
+      snapshots
+    };
+  }
+
+  // Get the top tweets across all Accounts in one query
+  async getTopTweetsAcrossAccounts(
+    options: {
+      days?: number;
+      orderBy?: 'like_count' | 'retweet_count' | 'reply_count' | 'quote_count' | 'view_count';
+      limit?: number;
+    } = {}
+  ): Promise<TopTweet[]> {
+    const { days = 7, orderBy = 'like_count', limit = 20 } = options;
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+
+    const { data, error } = await supabase.rpc('get_top_tweets_across_accounts', {
+      p_since: since.toISOString(),
+      p_order_by: orderBy,
+      p_limit: limit
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch top tweets: ${error.message}`);
+    }
+
+    return data || [];
+  }
 }
 
 // Backward compatibility - export the old class name
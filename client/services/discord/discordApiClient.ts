@@ -0,0 +1,168 @@
+import axios, { AxiosInstance } from 'axios';
+
+// Overridable so the client can be pointed at the local mock (npm run mock:discord)
+export const DISCORD_API_BASE_URL = process.env.DISCORD_API_BASE_URL || 'https://discord.com/api/v10';
+
+// Discord returns at most 100 messages per request
+export const DISCORD_MESSAGES_PER_PAGE = 100;
+
+// Channel types that hold regular messages (text, announcement, public/private threads)
+export const DISCORD_MESSAGE_CHANNEL_TYPES = [0, 5, 10, 11, 12];
+
+export interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  avatar?: string | null;
+  bot?: boolean;
+}
+
+export interface DiscordChannel {
+  id: string;
+  type: number;
+  guild_id?: string;
+  name?: string;
+  parent_id?: string | null;
+  message_count?: number;
+}
+
+export interface DiscordReaction {
+  count: number;
+  emoji: { id: string | null; name: string | null };
+}
+
+export interface DiscordAttachment {
+  id: string;
+  filename: string;
+  url: string;
+  content_type?: string;
+}
+
+export interface DiscordMessage {
+  id: string;
+  channel_id: string;
+  type: number;
+  content: string;
+  timestamp: string;
+  edited_timestamp?: string | null;
+  author: DiscordUser;
+  attachments?: DiscordAttachment[];
+  embeds?: any[];
+  reactions?: DiscordReaction[];
+  message_reference?: { message_id?: string; channel_id?: string; guild_id?: string };
+  thread?: DiscordChannel;
+}
+
+export interface DiscordMessageQuery {
+  after?: string;
+  before?: string;
+  limit?: number;
+}
+
+export interface DiscordApiClientOptions {
+  baseUrl?: string;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+/**
+ * Error raised by DiscordApiClient; `code` is Discord's JSON error code when present
+ */
+export class DiscordApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly status?: number,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = 'DiscordApiError';
+  }
+
+  /**
+   * Network failures, rate limits and 5xx responses are worth retrying
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Minimal client for the Discord REST endpoints used by the BioDAO sync (bot token auth)
+ */
+export class DiscordApiClient {
+  private http: AxiosInstance;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+
+  constructor(botToken: string, options: DiscordApiClientOptions = {}) {
+    this.http = axios.create({
+      baseURL: options.baseUrl || DISCORD_API_BASE_URL,
+      headers: {
+        'Authorization': `Bot ${botToken}`,
+      }
+    });
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+  }
+
+  async getChannel(channelId: string): Promise<DiscordChannel> {
+    return this.request<DiscordChannel>(`/channels/${channelId}`);
+  }
+
+  /**
+   * Channels of a guild that can contain messages
+   */
+  async getGuildMessageChannels(guildId: string): Promise<DiscordChannel[]> {
+    const channels = await this.request<DiscordChannel[]>(`/guilds/${guildId}/channels`);
+    return channels.filter(channel => DISCORD_MESSAGE_CHANNEL_TYPES.includes(channel.type));
+  }
+
+  /**
+   * One page of channel messages, newest first (as Discord returns them)
+   */
+  async getChannelMessages(channelId: string, query: DiscordMessageQuery = {}): Promise<DiscordMessage[]> {
+    return this.request<DiscordMessage[]>(`/channels/${channelId}/messages`, {
+      limit: Math.min(query.limit ?? DISCORD_MESSAGES_PER_PAGE, DISCORD_MESSAGES_PER_PAGE),
+      ...(query.after && { after: query.after }),
+      ...(query.before && { before: query.before })
+    });
+  }
+
+  /**
+   * Run a GET request, waiting out 429s (retry_after) and retrying transient failures with backoff
+   */
+  private async request<T>(path: string, params: Record<string, any> = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.http.get<T>(path, { params });
+        return response.data;
+      } catch (error) {
+        const apiError = this.toApiError(error, path);
+        if (!apiError.retryable || attempt >= this.maxRetries) {
+          throw apiError;
+        }
+
+        // Discord tells us exactly how long to wait on a 429
+        const retryAfterSeconds = axios.isAxiosError(error) ? Number(error.response?.data?.retry_after) : NaN;
+        const delay = apiError.status === 429 && retryAfterSeconds > 0
+          ? Math.ceil(retryAfterSeconds * 1000)
+          : this.retryBaseDelayMs * Math.pow(2, attempt);
+
+        console.warn(`Discord ${path} failed (${apiError.message}), retrying in ${delay}ms (${attempt + 1}/${this.maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private toApiError(error: unknown, endpoint: string): DiscordApiError {
+    if (!axios.isAxiosError(error) || !error.response) {
+      const message = error instanceof Error ? error.message : String(error);
+      return new DiscordApiError(`Request to ${endpoint} failed: ${message}`, endpoint);
+    }
+
+    const { status, data } = error.response;
+    const detail = data?.message || error.message;
+    return new DiscordApiError(`Request to ${endpoint} failed with ${status}: ${detail}`, endpoint, status, data?.code);
+  }
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolve } from 'path';
+import { DiscordMockServer } from '../../mock/discordMockServer';
+import { MemoryBioDAOService, testBioDAO, testSocialAccount } from '../../test/memoryBioDAOService';
+import { DiscordMessageData } from '../types/biodao';
+import { DiscordApiClient } from './discordApiClient';
+import { DiscordSyncService } from './discordSyncService';
+
+const FIXTURES = resolve(process.cwd(), 'client/mock/fixtures/discord.json');
+
+// Recorded VitaDAO server: #general, #announcements, #core-team (bot lacks access) and a voice channel
+const GUILD_ID = '1098765432109876543';
+const GENERAL = '1098765432109876601';
+const ANNOUNCEMENTS = '1098765432109876602';
+const CORE_TEAM = '1098765432109876603';
+
+describe('DiscordSyncService against the recorded fixtures', () => {
+  let server: DiscordMockServer;
+  let biodaoService: MemoryBioDAOService;
+  let syncService: DiscordSyncService;
+
+  beforeEach(async () => {
+    server = DiscordMockServer.fromFile(FIXTURES);
+    const baseUrl = await server.start();
+    biodaoService = new MemoryBioDAOService();
+    syncService = new DiscordSyncService('test-token', new DiscordApiClient('test-token', { baseUrl, retryBaseDelayMs: 10 }), biodaoService);
+  });
+
+  afterEach(() => server.stop());
+
+  test('stores messages from every readable channel and skips system messages', async () => {
+    const result = await syncService.syncAccount(testBioDAO(), testSocialAccount('discord', GUILD_ID));
+
+    // 6 of 7 in #general (one member join) and both announcements
+    assert.deepEqual(result, { stored: 8, errors: 1 });
+    const stored = biodaoService.stored('discord') as DiscordMessageData[];
+    assert.equal(stored.length, 8);
+    assert.ok(!stored.some(data => data.post_id === '1279742548377600000'), 'the join message should be skipped');
+
+    const first = stored.find(data => data.post_id === '1279730468782080000');
+    assert.equal(first?.post_type, 'post');
+    assert.equal(first?.engagement_metrics.replies, 2);
+    assert.equal(first?.platform_data.channel_name, 'general');
+
+    const reply = stored.find(data => data.post_id === '1279732482048000000');
+    assert.equal(reply?.post_type, 'comment');
+
+    const threadStarter = stored.find(data => data.post_id === '1280180433715200000');
+    assert.equal(threadStarter?.engagement_metrics.replies, 17);
+    assert.equal(threadStarter?.platform_data.message_type, 'thread_starter');
+  });
+
+  test('records channel cursors and the unreadable channel in the sync status', async () => {
+    await syncService.syncAccount(testBioDAO(), testSocialAccount('discord', GUILD_ID));
+
+    const [status] = await biodaoService.getSyncStatus('biodao-1', 'discord');
+    assert.ok(status);
+    assert.deepEqual(status.last_sync_data.channels, {
+      [GENERAL]: '1280799512985600000',
+      [ANNOUNCEMENTS]: '1281305346048000000'
+    });
+    assert.equal(status.sync_errors.length, 1);
+    assert.equal(status.sync_errors[0].channel, CORE_TEAM);
+  });
+
+  test('only fetches messages newer than the cursors on the next sync', async () => {
+    const account = testSocialAccount('discord', GUILD_ID);
+    await syncService.syncAccount(testBioDAO(), account);
+
+    assert.equal((await syncService.syncAccount(testBioDAO(), account)).stored, 0);
+
+    server.addMessage({
+      id: '1281400000000000000',
+      channel_id: GENERAL,
+      type: 0,
+      content: 'new funding round is live',
+      timestamp: '2024-09-06T08:00:00.000+00:00',
+      author: { id: '803312345678901201', username: 'alice.bio' }
+    });
+
+    assert.equal((await syncService.syncAccount(testBioDAO(), account)).stored, 1);
+    const [status] = await biodaoService.getSyncStatus('biodao-1', 'discord');
+    assert.equal(status?.last_sync_data.channels[GENERAL], '1281400000000000000');
+  });
+
+  test('syncs only the configured channels', async () => {
+    const result = await syncService.syncAccount(testBioDAO(), testSocialAccount('discord', GUILD_ID, { channel_ids: [ANNOUNCEMENTS] }));
+
+    assert.deepEqual(result, { stored: 2, errors: 0 });
+  });
+
+  test('waits out a rate limited request and carries on', async () => {
+    server.injectFault(429);
+
+    const result = await syncService.syncAccount(testBioDAO(), testSocialAccount('discord', GUILD_ID));
+
+    assert.equal(result.stored, 8);
+  });
+
+  test('throws and records the error when the server cannot be read', async () => {
+    await assert.rejects(syncService.syncAccount(testBioDAO(), testSocialAccount('discord', '1')));
+
+    const [status] = await biodaoService.getSyncStatus('biodao-1', 'discord');
+    assert.equal(status?.sync_errors.length, 1);
+    assert.equal(status?.sync_errors[0].account, '1');
+  });
+});
@@ -0,0 +1,280 @@
+import { BioDAOService } from '../biodao/biodaoService';
+import { BioDAO, BioDAOSocialAccount, DiscordAccountData, DiscordMessageData } from '../types/biodao';
+import { DiscordApiClient, DiscordChannel, DiscordMessage, DISCORD_MESSAGES_PER_PAGE } from './discordApiClient';
+
+// Default, reply and thread starter messages; joins, pins, boosts etc. are skipped
+const SYNCED_MESSAGE_TYPES = [0, 19, 21];
+
+// Upper bound on pages fetched per channel in one sync; the cursor picks up the rest next time
+const MAX_PAGES_PER_CHANNEL = 10;
+
+const DEFAULT_INITIAL_MESSAGE_LIMIT = 100;
+
+interface DiscordSyncCursors {
+  channels: Record<string, string>; // channel id -> newest synced message id
+}
+
+export class DiscordSyncService {
+  private apiClient: DiscordApiClient;
+  private biodaoService: BioDAOService;
+
+  constructor(
+    botToken: string,
+    apiClient: DiscordApiClient = new DiscordApiClient(botToken),
+    biodaoService: BioDAOService = new BioDAOService()
+  ) {
+    this.apiClient = apiClient;
+    this.biodaoService = biodaoService;
+  }
+
+  /**
+   * Configured channels of a server, or every message channel the bot can see
+   */
+  private async getChannels(account: BioDAOSocialAccount): Promise<DiscordChannel[]> {
+    const accountData = (account.account_data || {}) as DiscordAccountData;
+
+    if (accountData.channel_ids && accountData.channel_ids.length > 0) {
+      const channels: DiscordChannel[] = [];
+      for (const channelId of accountData.channel_ids) {
+        channels.push(await this.apiClient.getChannel(channelId));
+      }
+      return channels;
+    }
+
+    return this.apiClient.getGuildMessageChannels(account.account_identifier);
+  }
+
+  /**
+   * Messages newer than the cursor, oldest first. Without a cursor only the latest `initialLimit` are fetched.
+   */
+  async fetchNewMessages(channelId: string, afterId?: string, initialLimit: number = DEFAULT_INITIAL_MESSAGE_LIMIT): Promise<DiscordMessage[]> {
+    const messages: DiscordMessage[] = [];
+
+    if (afterId) {
+      let cursor = afterId;
+      for (let page = 0; page < MAX_PAGES_PER_CHANNEL; page++) {
+        const batch = await this.apiClient.getChannelMessages(channelId, { after: cursor, limit: DISCORD_MESSAGES_PER_PAGE });
+        if (batch.length === 0) break;
+
+        messages.push(...batch);
+        cursor = this.newestId(batch);
+        if (batch.length < DISCORD_MESSAGES_PER_PAGE) break;
+      }
+    } else {
+      let before: string | undefined;
+      while (messages.length < initialLimit) {
+        const limit = Math.min(DISCORD_MESSAGES_PER_PAGE, initialLimit - messages.length);
+        const batch = await this.apiClient.getChannelMessages(channelId, { before, limit });
+        if (batch.length === 0) break;
+
+        messages.push(...batch);
+        before = this.oldestId(batch);
+        if (batch.length < limit) break;
+      }
+    }
+
+    // Snowflake ids sort by creation time
+    return messages.sort((a, b) => this.compareIds(a.id, b.id));
+  }
+
+  private transformDiscordMessageToBioDAOFormat(
+    message: DiscordMessage,
+    channel: DiscordChannel,
+    serverId: string,
+    replyCounts: Map<string, number>
+  ): Omit<DiscordMessageData, 'id' | 'synced_at' | 'created_at'> {
+    const reactions: Record<string, number> = {};
+    for (const reaction of message.reactions || []) {
+      const key = reaction.emoji.name || reaction.emoji.id || 'unknown';
+      reactions[key] = (reactions[key] || 0) + reaction.count;
+    }
+
+    const isReply = message.type === 19 || Boolean(message.message_reference?.message_id);
+
+    return {
+      platform: 'discord',
+      post_id: message.id,
+      post_type: isReply ? 'comment' : 'post',
+      content: message.content,
+      author_info: {
+        username: message.author.username,
+        display_name: message.author.global_name || message.author.username,
+        user_id: message.author.id,
+        avatar_url: message.author.avatar
+          ? `https://cdn.discordapp.com/avatars/${message.author.id}/${message.author.avatar}.png`
+          : undefined
+      },
+      engagement_metrics: {
+        reactions,
+        // Thread replies plus inline replies seen in this sync
+        replies: (message.thread?.message_count || 0) + (replyCounts.get(message.id) || 0)
+      },
+      platform_data: {
+        server_id: serverId,
+        channel_id: channel.id,
+        channel_name: channel.name || channel.id,
+        message_type: message.thread ? 'thread_starter' : isReply ? 'reply' : 'default',
+        attachments: (message.attachments || []).map(attachment => ({
+          filename: attachment.filename,
+          url: attachment.url,
+          content_type: attachment.content_type || 'application/octet-stream'
+        })),
+        embeds: message.embeds || []
+      },
+      posted_at: message.timestamp
+    };
+  }
+
+  /**
+   * Sync one channel and return the newest message id stored (or the previous cursor)
+   */
+  private async syncChannel(
+    bioDAO: BioDAO,
+    serverId: string,
+    channel: DiscordChannel,
+    cursor: string | undefined,
+    initialLimit: number
+  ): Promise<{ cursor: string | undefined; stored: number }> {
+    const fetched = await this.fetchNewMessages(channel.id, cursor, initialLimit);
+    const messages = fetched.filter(message => SYNCED_MESSAGE_TYPES.includes(message.type));
+
+    // Replies to messages from earlier syncs are not counted; their stored counts stay as they were
+    const replyCounts = new Map<string, number>();
+    for (const message of messages) {
+      const parentId = message.message_reference?.message_id;
+      if (parentId) {
+        replyCounts.set(parentId, (replyCounts.get(parentId) || 0) + 1);
+      }
+    }
+
+    for (const message of messages) {
+      const discordData = this.transformDiscordMessageToBioDAOFormat(message, channel, serverId, replyCounts);
+      await this.biodaoService.storeSocialData(bioDAO.slug, discordData);
+    }
+
+    // Skipped system messages still move the cursor so they aren't fetched again
+    const newest = fetched.length > 0 ? this.newestId(fetched) : undefined;
+    return {
+      cursor: newest && (!cursor || this.compareIds(newest, cursor) > 0) ? newest : cursor,
+      stored: messages.length
+    };
+  }
+
+  /**
+   * Sync one server's channels and merge its cursors into the BioDAO's discord sync status.
+   * Throws if the server itself can't be read; unreadable channels are recorded as errors.
+   */
+  async syncAccount(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<{ stored: number; errors: number }> {
+    const serverId = account.account_identifier;
+    const initialLimit = (account.account_data as DiscordAccountData)?.initial_message_limit ?? DEFAULT_INITIAL_MESSAGE_LIMIT;
+
+    // Cursors for every server share the BioDAO's discord sync status row
+    const syncStatus = (await this.biodaoService.getSyncStatus(bioDAO.id, 'discord'))[0];
+    const cursors: DiscordSyncCursors = {
+      channels: { ...(syncStatus?.last_sync_data?.channels || {}) }
+    };
+    const syncErrors: any[] = [];
+    let stored = 0;
+    let serverError: unknown;
+
+    try {
+      console.log(`Syncing Discord data for ${bioDAO.name} (server ${serverId})`);
+      const channels = await this.getChannels(account);
+
+      for (const channel of channels) {
+        try {
+          const result = await this.syncChannel(bioDAO, serverId, channel, cursors.channels[channel.id], initialLimit);
+          if (result.cursor) {
+            cursors.channels[channel.id] = result.cursor;
+          }
+          stored += result.stored;
+
+          if (result.stored > 0) {
+            console.log(`   #${channel.name || channel.id}: ${result.stored} new messages`);
+          }
+        } catch (error) {
+          // One unreadable channel (e.g. missing permissions) shouldn't stop the server
+          console.error(`Error syncing Discord channel ${channel.id} for ${bioDAO.name}:`, error);
+          syncErrors.push({
+            timestamp: new Date().toISOString(),
+            error: error instanceof Error ? error.message : String(error),
+            account: serverId,
+            channel: channel.id
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Error syncing Discord for ${bioDAO.name} (server ${serverId}):`, error);
+      serverError = error;
+      syncErrors.push({
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+        account: serverId
+      });
+    }
+
+    await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'discord', serverId, syncStatus, {
+      ...syncStatus?.last_sync_data,
+      channels: cursors.channels,
+      messages_count: stored
+    }, syncErrors);
+
+    if (serverError) throw serverError;
+    return { stored, errors: syncErrors.length };
+  }
+
+  async syncBioDAODiscordData(bioDAO: BioDAO): Promise<void> {
+    try {
+      // Get Discord servers for this BioDAO
+      const discordAccounts = await this.biodaoService.getSocialAccounts(bioDAO.id, 'discord');
+
+      if (discordAccounts.length === 0) {
+        console.log(`No Discord servers found for ${bioDAO.name}`);
+        return;
+      }
+
+      let totalStored = 0;
+      for (const account of discordAccounts) {
+        try {
+          totalStored += (await this.syncAccount(bioDAO, account)).stored;
+        } catch {
+          // Already logged and recorded in the sync status; carry on with the next server
+        }
+      }
+
+      console.log(`✅ Synced ${totalStored} Discord messages for ${bioDAO.name}`);
+    } catch (error) {
+      console.error(`Error in Discord sync for ${bioDAO.name}:`, error);
+      throw error;
+    }
+  }
+
+  async syncAllBioDAOs(): Promise<void> {
+    try {
+      const bioDAOs = await this.biodaoService.getAllBioDAOs();
+      console.log(`🔄 Starting Discord sync for ${bioDAOs.length} BioDAOs`);
+
+      for (const bioDAO of bioDAOs) {
+        await this.syncBioDAODiscordData(bioDAO);
+      }
+
+      console.log('✅ Completed Discord sync for all BioDAOs');
+    } catch (error) {
+      console.error('❌ Error in Discord sync:', error);
+      throw error;
+    }
+  }
+
+  private compareIds(a: string, b: string): number {
+    const difference = BigInt(a) - BigInt(b);
+    return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+  }
+
+  private newestId(messages: DiscordMessage[]): string {
+    return messages.reduce((newest, message) => this.compareIds(message.id, newest) > 0 ? message.id : newest, messages[0]!.id);
+  }
+
+  private oldestId(messages: DiscordMessage[]): string {
+    return messages.reduce((oldest, message) => this.compareIds(message.id, oldest) < 0 ? message.id : oldest, messages[0]!.id);
+  }
+}
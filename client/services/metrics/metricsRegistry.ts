@@ -0,0 +1,100 @@
+export type MetricType = 'counter' | 'gauge';
+export type MetricLabels = Record<string, string>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Map<string, { labels: MetricLabels; value: number }>;
+}
+
+/**
+ * Minimal in-process metrics store rendered in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private families = new Map<string, MetricFamily>();
+
+  constructor(private prefix: string = 'dao_tracker_') {}
+
+  /**
+   * Register a metric family; registering the same name twice is a no-op
+   */
+  define(name: string, type: MetricType, help: string): void {
+    const fullName = this.prefix + name;
+    if (this.families.has(fullName)) return;
+    this.families.set(fullName, { name: fullName, help, type, samples: new Map() });
+  }
+
+  /**
+   * Increase a counter
+   */
+  inc(name: string, labels: MetricLabels, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${name} cannot be decreased`);
+    }
+    const sample = this.getSample(name, 'counter', labels);
+    sample.value += value;
+  }
+
+  /**
+   * Set a gauge to an absolute value
+   */
+  set(name: string, labels: MetricLabels, value: number): void {
+    const sample = this.getSample(name, 'gauge', labels);
+    sample.value = value;
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format (version 0.0.4)
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    for (const family of this.families.values()) {
+      lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+
+      for (const { labels, value } of family.samples.values()) {
+        lines.push(`${family.name}${this.formatLabels(labels)} ${this.formatValue(value)}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private getSample(name: string, type: MetricType, labels: MetricLabels) {
+    const family = this.families.get(this.prefix + name);
+    if (!family) {
+      throw new Error(`Metric ${name} is not defined`);
+    }
+    if (family.type !== type) {
+      throw new Error(`Metric ${name} is a ${family.type}, not a ${type}`);
+    }
+
+    const key = this.formatLabels(labels);
+    let sample = family.samples.get(key);
+    if (!sample) {
+      sample = { labels: { ...labels }, value: 0 };
+      family.samples.set(key, sample);
+    }
+    return sample;
+  }
+
+  private formatLabels(labels: MetricLabels): string {
+    const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+    if (entries.length === 0) return '';
+
+    const formatted = entries.map(([key, value]) => {
+      const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+      return `${key}="${escaped}"`;
+    });
+    return `{${formatted.join(',')}}`;
+  }
+
+  private formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+  }
+}
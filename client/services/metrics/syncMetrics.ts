@@ -0,0 +1,107 @@
+import { MetricsRegistry } from './metricsRegistry';
+import { RateLimitConfig, RateLimitStatus } from '../twitter/rateLimitManager';
+
+// Label value used for series that are not tied to a single account
+export const ALL_ACCOUNTS = 'all';
+
+export const metricsRegistry = new MetricsRegistry('dao_tracker_');
+
+metricsRegistry.define('tweets_added_total', 'counter', 'Tweets added to the database');
+metricsRegistry.define('tweets_updated_total', 'counter', 'Tweets whose engagement metrics were refreshed');
+metricsRegistry.define('api_requests_total', 'counter', 'X API requests made');
+metricsRegistry.define('sync_runs_total', 'counter', 'Completed sync runs');
+metricsRegistry.define('sync_errors_total', 'counter', 'Errors raised during sync runs');
+metricsRegistry.define('sync_duration_seconds_total', 'counter', 'Total time spent syncing');
+metricsRegistry.define('sync_last_duration_seconds', 'gauge', 'Duration of the most recent sync run');
+metricsRegistry.define('follower_count', 'gauge', 'Most recently synced follower count');
+metricsRegistry.define('follower_sync_last_success_timestamp_seconds', 'gauge', 'Unix time of the last successful follower sync');
+metricsRegistry.define('rate_limit_window_requests', 'gauge', 'Requests made in the current 15-minute window');
+metricsRegistry.define('rate_limit_window_capacity', 'gauge', 'Requests allowed per 15-minute window');
+metricsRegistry.define('rate_limit_window_reset_seconds', 'gauge', 'Seconds until the 15-minute window frees up');
+metricsRegistry.define('monthly_requests_used', 'gauge', 'X API requests used this month');
+metricsRegistry.define('monthly_requests_limit', 'gauge', 'X API request budget for the month');
+metricsRegistry.define('monthly_posts_used', 'gauge', 'Posts retrieved this month');
+metricsRegistry.define('monthly_posts_limit', 'gauge', 'Post retrieval budget for the month');
+metricsRegistry.define('sync_jobs_total', 'counter', 'Queued sync job attempts by outcome');
+metricsRegistry.define('sync_jobs_queued', 'gauge', 'Sync jobs in the queue by status');
+
+export interface AccountSyncMetrics {
+  tweetsAdded?: number;
+  tweetsUpdated?: number;
+  apiRequestsUsed?: number;
+  syncDuration?: number;
+  errorCount?: number;
+}
+
+/**
+ * Record the outcome of one account's engagement sync
+ */
+export function recordAccountSync(service: string, account: string, stats: AccountSyncMetrics): void {
+  const labels = { service, account };
+  metricsRegistry.inc('tweets_added_total', labels, stats.tweetsAdded || 0);
+  metricsRegistry.inc('tweets_updated_total', labels, stats.tweetsUpdated || 0);
+  metricsRegistry.inc('api_requests_total', labels, stats.apiRequestsUsed || 0);
+  metricsRegistry.inc('sync_errors_total', labels, stats.errorCount || 0);
+  metricsRegistry.inc('sync_runs_total', labels);
+
+  const durationSeconds = (stats.syncDuration || 0) / 1000;
+  metricsRegistry.inc('sync_duration_seconds_total', labels, durationSeconds);
+  metricsRegistry.set('sync_last_duration_seconds', labels, durationSeconds);
+}
+
+/**
+ * Record a follower count update for an account
+ */
+export function recordFollowerSync(service: string, account: string, followerCount: number | null): void {
+  const labels = { service, account };
+  metricsRegistry.inc('sync_runs_total', labels);
+
+  if (followerCount === null) {
+    metricsRegistry.inc('sync_errors_total', labels);
+    return;
+  }
+
+  metricsRegistry.set('follower_count', labels, followerCount);
+  metricsRegistry.set('follower_sync_last_success_timestamp_seconds', labels, Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Mark a follower sync run across all accounts as successful
+ */
+export function recordFollowerSyncSuccess(service: string): void {
+  metricsRegistry.set(
+    'follower_sync_last_success_timestamp_seconds',
+    { service, account: ALL_ACCOUNTS },
+    Math.floor(Date.now() / 1000)
+  );
+}
+
+/**
+ * Snapshot rate limit usage into gauges, called right before rendering
+ */
+export function recordRateLimitUsage(service: string, status: RateLimitStatus, limits: RateLimitConfig): void {
+  const labels = { service, account: ALL_ACCOUNTS };
+  metricsRegistry.set('rate_limit_window_requests', labels, status.requestsUsedLast15Min);
+  metricsRegistry.set('rate_limit_window_capacity', labels, limits.requestsPer15Min);
+  metricsRegistry.set('rate_limit_window_reset_seconds', labels, Math.ceil(status.timeUntilReset / 1000));
+  metricsRegistry.set('monthly_requests_used', labels, status.requestsUsedThisMonth);
+  metricsRegistry.set('monthly_requests_limit', labels, limits.requestsPerMonth);
+  metricsRegistry.set('monthly_posts_used', labels, status.postsRetrievedThisMonth);
+  metricsRegistry.set('monthly_posts_limit', labels, limits.postsPerMonth);
+}
+
+/**
+ * Count one attempt of a queued sync job ('completed', 'retried', 'deferred' or 'dead')
+ */
+export function recordSyncJobOutcome(jobType: string, outcome: string): void {
+  metricsRegistry.inc('sync_jobs_total', { job_type: jobType, outcome });
+}
+
+/**
+ * Snapshot the number of queued jobs per status into gauges
+ */
+export function recordSyncJobQueueDepth(counts: Record<string, number>): void {
+  Object.entries(counts).forEach(([status, count]) => {
+    metricsRegistry.set('sync_jobs_queued', { status }, count);
+  });
+}
@@ -0,0 +1,278 @@
+import axios, { AxiosInstance } from 'axios';
+import { RedditRateLimiter } from './redditRateLimiter';
+
+// Overridable so the client can be pointed at the local mock (npm run mock:reddit)
+export const REDDIT_API_BASE_URL = process.env.REDDIT_API_BASE_URL || 'https://oauth.reddit.com';
+export const REDDIT_AUTH_URL = process.env.REDDIT_AUTH_URL || 'https://www.reddit.com/api/v1/access_token';
+
+// Reddit returns at most 100 items per listing request
+export const REDDIT_LISTING_PAGE_SIZE = 100;
+
+export interface RedditCredentials {
+  clientId: string;
+  clientSecret: string;
+  userAgent: string; // Reddit throttles generic user agents; use "<app>/<version> by <username>"
+}
+
+export interface RedditSubreddit {
+  id: string;
+  name: string; // Fullname, e.g. t5_2qh1i
+  display_name: string;
+  title: string;
+  public_description?: string;
+  subscribers: number;
+  active_user_count?: number | null;
+  accounts_active?: number | null;
+  subreddit_type: string;
+  over18?: boolean;
+  created_utc: number;
+}
+
+export interface RedditPost {
+  id: string;
+  name: string; // Fullname, e.g. t3_1f6abcd
+  subreddit: string;
+  title: string;
+  selftext?: string;
+  author: string;
+  author_fullname?: string;
+  created_utc: number;
+  edited?: number | false;
+  score: number;
+  upvote_ratio: number;
+  num_comments: number;
+  permalink: string;
+  url?: string;
+  is_self: boolean;
+  link_flair_text?: string | null;
+  stickied?: boolean;
+  over_18?: boolean;
+  total_awards_received?: number;
+}
+
+export interface RedditComment {
+  id: string;
+  name: string; // Fullname, e.g. t1_lkq2x9a
+  subreddit: string;
+  body: string;
+  author: string;
+  author_fullname?: string;
+  created_utc: number;
+  edited?: number | false;
+  score: number;
+  link_id: string;
+  link_title?: string;
+  parent_id: string;
+  permalink: string;
+  stickied?: boolean;
+  is_submitter?: boolean;
+}
+
+export interface RedditListing<T> {
+  items: T[];
+  after: string | null; // Fullname to pass as `after` for the next (older) page
+}
+
+export interface RedditListingQuery {
+  after?: string;
+  limit?: number;
+}
+
+export interface RedditApiClientOptions {
+  baseUrl?: string;
+  authUrl?: string;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  rateLimiter?: RedditRateLimiter;
+}
+
+interface RawListing<T> {
+  kind: 'Listing';
+  data: {
+    after: string | null;
+    before: string | null;
+    children: Array<{ kind: string; data: T }>;
+  };
+}
+
+/**
+ * Error raised by RedditApiClient; `reason` is Reddit's error reason (e.g. private, banned) when present
+ */
+export class RedditApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly status?: number,
+    public readonly reason?: string
+  ) {
+    super(message);
+    this.name = 'RedditApiError';
+  }
+
+  /**
+   * Network failures, rate limits and 5xx responses are worth retrying
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Minimal read-only client for the Reddit endpoints used by the BioDAO sync (application-only OAuth)
+ */
+export class RedditApiClient {
+  private http: AxiosInstance;
+  private credentials: RedditCredentials;
+  private authUrl: string;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private rateLimiter: RedditRateLimiter;
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(credentials: RedditCredentials, options: RedditApiClientOptions = {}) {
+    this.credentials = credentials;
+    this.http = axios.create({
+      baseURL: options.baseUrl || REDDIT_API_BASE_URL,
+      headers: {
+        'User-Agent': credentials.userAgent,
+      }
+    });
+    this.authUrl = options.authUrl || REDDIT_AUTH_URL;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.rateLimiter = options.rateLimiter || new RedditRateLimiter();
+  }
+
+  getRateLimiter(): RedditRateLimiter {
+    return this.rateLimiter;
+  }
+
+  /**
+   * Subscriber and active user counts of a subreddit
+   */
+  async getSubreddit(subreddit: string): Promise<RedditSubreddit> {
+    const response = await this.request<{ kind: string; data: RedditSubreddit }>(`/r/${subreddit}/about`);
+    return response.data;
+  }
+
+  /**
+   * One page of a subreddit's posts, newest first
+   */
+  async getNewPosts(subreddit: string, query: RedditListingQuery = {}): Promise<RedditListing<RedditPost>> {
+    return this.getListing<RedditPost>(`/r/${subreddit}/new`, query);
+  }
+
+  /**
+   * One page of the comments across a subreddit, newest first
+   */
+  async getNewComments(subreddit: string, query: RedditListingQuery = {}): Promise<RedditListing<RedditComment>> {
+    return this.getListing<RedditComment>(`/r/${subreddit}/comments`, query);
+  }
+
+  private async getListing<T>(path: string, query: RedditListingQuery): Promise<RedditListing<T>> {
+    const listing = await this.request<RawListing<T>>(path, {
+      limit: Math.min(query.limit ?? REDDIT_LISTING_PAGE_SIZE, REDDIT_LISTING_PAGE_SIZE),
+      raw_json: 1, // Don't HTML-escape text fields
+      ...(query.after && { after: query.after })
+    });
+
+    return {
+      items: listing.data.children.map(child => child.data),
+      after: listing.data.after
+    };
+  }
+
+  /**
+   * Application-only bearer token, refreshed shortly before it expires
+   */
+  private async getAccessToken(forceRefresh: boolean = false): Promise<string> {
+    if (!forceRefresh && this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    try {
+      const response = await axios.post<{ access_token: string; expires_in: number }>(
+        this.authUrl,
+        'grant_type=client_credentials',
+        {
+          auth: { username: this.credentials.clientId, password: this.credentials.clientSecret },
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'User-Agent': this.credentials.userAgent
+          }
+        }
+      );
+
+      this.token = {
+        value: response.data.access_token,
+        expiresAt: Date.now() + (response.data.expires_in - 60) * 1000
+      };
+      return this.token.value;
+    } catch (error) {
+      throw this.toApiError(error, 'access_token');
+    }
+  }
+
+  /**
+   * Run a GET request within the rate budget, refreshing the token once on 401
+   * and retrying transient failures with backoff
+   */
+  private async request<T>(path: string, params: Record<string, any> = {}): Promise<T> {
+    let refreshedToken = false;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.waitForCapacity();
+
+      try {
+        const token = await this.getAccessToken();
+        const response = await this.http.get<T>(path, {
+          params,
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        this.rateLimiter.updateFromHeaders(response.headers);
+        return response.data;
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          this.rateLimiter.updateFromHeaders(error.response?.headers);
+        }
+
+        const apiError = error instanceof RedditApiError ? error : this.toApiError(error, path);
+
+        // Tokens can be revoked before they expire
+        if (apiError.status === 401 && !refreshedToken) {
+          refreshedToken = true;
+          this.token = null;
+          continue;
+        }
+
+        if (!apiError.retryable || attempt >= this.maxRetries) {
+          throw apiError;
+        }
+
+        let delay = this.retryBaseDelayMs * Math.pow(2, attempt);
+        if (apiError.status === 429) {
+          if (this.rateLimiter.getWaitTime() === 0) {
+            this.rateLimiter.markExhausted();
+          }
+          delay = 0; // waitForCapacity sleeps until the reset
+        }
+
+        console.warn(`Reddit ${path} failed (${apiError.message}), retrying (${attempt + 1}/${this.maxRetries})`);
+        if (delay > 0) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+  }
+
+  private toApiError(error: unknown, endpoint: string): RedditApiError {
+    if (!axios.isAxiosError(error) || !error.response) {
+      const message = error instanceof Error ? error.message : String(error);
+      return new RedditApiError(`Request to ${endpoint} failed: ${message}`, endpoint);
+    }
+
+    const { status, data } = error.response;
+    const detail = data?.message || data?.error || error.message;
+    return new RedditApiError(`Request to ${endpoint} failed with ${status}: ${detail}`, endpoint, status, data?.reason);
+  }
+}
@@ -0,0 +1,98 @@
+export interface RedditRateBudget {
+  used: number;
+  remaining: number;
+  resetAt: Date;
+  updatedAt: Date;
+}
+
+// Reddit allows 100 requests per minute per OAuth client, averaged over 10 minutes
+const DEFAULT_REQUESTS_PER_WINDOW = 100;
+const DEFAULT_WINDOW_MS = 60 * 1000;
+
+// Small margin so we don't call Reddit again a moment before the window resets
+const RESET_MARGIN_MS = 1000;
+
+/**
+ * Tracks the Reddit API budget from the x-ratelimit-used / x-ratelimit-remaining /
+ * x-ratelimit-reset response headers. Kept separate from the X API budgets:
+ * Reddit meters the whole OAuth client rather than individual endpoints.
+ */
+export class RedditRateLimiter {
+  private budget: RedditRateBudget | null = null;
+
+  constructor(
+    private requestsPerWindow: number = DEFAULT_REQUESTS_PER_WINDOW,
+    private windowMs: number = DEFAULT_WINDOW_MS
+  ) {}
+
+  /**
+   * Record the budget reported by a response; returns false if the headers are missing
+   */
+  updateFromHeaders(headers: Record<string, any> | undefined): boolean {
+    const used = parseFloat(headers?.['x-ratelimit-used']);
+    const remaining = parseFloat(headers?.['x-ratelimit-remaining']);
+    const resetSeconds = parseFloat(headers?.['x-ratelimit-reset']);
+
+    if ([used, remaining, resetSeconds].some(value => Number.isNaN(value))) {
+      return false;
+    }
+
+    // Unlike X, Reddit reports seconds until the reset rather than a timestamp
+    this.budget = {
+      used,
+      remaining: Math.floor(remaining),
+      resetAt: new Date(Date.now() + resetSeconds * 1000),
+      updatedAt: new Date()
+    };
+    return true;
+  }
+
+  /**
+   * Mark the budget as used up after a 429
+   */
+  markExhausted(resetAt: Date = new Date(Date.now() + this.windowMs)): void {
+    this.budget = {
+      used: this.budget?.used ?? this.requestsPerWindow,
+      remaining: 0,
+      resetAt,
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Milliseconds to wait before Reddit can be called again (0 if it can be called now)
+   */
+  getWaitTime(): number {
+    if (!this.budget || this.budget.remaining > 0) return 0;
+    return Math.max(0, this.budget.resetAt.getTime() + RESET_MARGIN_MS - Date.now());
+  }
+
+  /**
+   * Wait until the budget resets if it is used up, then spend one request
+   */
+  async waitForCapacity(): Promise<void> {
+    const waitTime = this.getWaitTime();
+    if (waitTime > 0) {
+      console.log(`Reddit rate limit used up. Waiting ${Math.ceil(waitTime / 1000)} seconds until reset...`);
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+
+    // Optimistically spend one request so concurrent callers queue up behind the reset
+    if (this.budget) {
+      if (this.budget.resetAt.getTime() <= Date.now()) {
+        this.budget.remaining = this.requestsPerWindow;
+        this.budget.used = 0;
+        this.budget.resetAt = new Date(Date.now() + this.windowMs);
+      }
+      this.budget.remaining = Math.max(0, this.budget.remaining - 1);
+      this.budget.used++;
+    }
+  }
+
+  /**
+   * Current budget, if any response has reported it
+   */
+  getBudget(): RedditRateBudget | undefined {
+    return this.budget ? { ...this.budget } : undefined;
+  }
+}
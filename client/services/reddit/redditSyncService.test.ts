@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolve } from 'path';
+import { RedditMockServer } from '../../mock/redditMockServer';
+import { MemoryBioDAOService, testBioDAO, testSocialAccount } from '../../test/memoryBioDAOService';
+import { RedditPostData } from '../types/biodao';
+import { RedditApiClient } from './redditApiClient';
+import { RedditSyncService } from './redditSyncService';
+
+const FIXTURES = resolve(process.cwd(), 'client/mock/fixtures/reddit.json');
+
+// r/VitaDAO in the fixtures: 24 posts, 5 comments, 8421 subscribers and 37 active users
+const NEWEST_POST_UTC = 1725558636;
+
+describe('RedditSyncService against the canned listings', () => {
+  let server: RedditMockServer;
+  let biodaoService: MemoryBioDAOService;
+  let syncService: RedditSyncService;
+
+  beforeEach(async () => {
+    server = RedditMockServer.fromFile(FIXTURES);
+    const baseUrl = await server.start();
+    const credentials = { clientId: 'test-client', clientSecret: 'test-secret', userAgent: 'dao-social-tracker-tests/1.0' };
+    const apiClient = new RedditApiClient(credentials, { baseUrl, authUrl: `${baseUrl}/api/v1/access_token`, retryBaseDelayMs: 10 });
+    biodaoService = new MemoryBioDAOService();
+    syncService = new RedditSyncService(credentials, apiClient, biodaoService);
+  });
+
+  afterEach(() => server.stop());
+
+  test('stores posts and comments and records the audience on the first sync', async () => {
+    const result = await syncService.syncAccount(testBioDAO(), testSocialAccount('reddit', 'r/VitaDAO'));
+
+    // Nothing in the fixtures was posted today, so nothing counts as new activity yet
+    assert.deepEqual(result, { stored: 29, newItems: 0 });
+
+    const stored = biodaoService.stored('reddit') as RedditPostData[];
+    assert.equal(stored.filter(data => data.post_type === 'post').length, 24);
+    assert.equal(stored.filter(data => data.post_type === 'comment').length, 5);
+    const newest = stored.find(data => data.post_id === 't3_1bmofb');
+    assert.equal(newest?.platform_data.subreddit, 'VitaDAO');
+    assert.equal(newest?.posted_at, new Date(NEWEST_POST_UTC * 1000).toISOString());
+
+    assert.deepEqual(biodaoService.audienceSnapshots, [{
+      biodaoId: 'biodao-1',
+      platform: 'reddit',
+      accountIdentifier: 'VitaDAO',
+      memberCount: 8421,
+      messageCount: 0,
+      activeCount: 37
+    }]);
+
+    const [status] = await biodaoService.getSyncStatus('biodao-1', 'reddit');
+    assert.equal(status?.last_sync_data.subreddits.VitaDAO.posts, NEWEST_POST_UTC);
+    assert.equal(status?.last_sync_data.subscriber_counts.VitaDAO, 8421);
+  });
+
+  test('limits the first sync to initial_post_limit and can skip comments', async () => {
+    const account = testSocialAccount('reddit', 'VitaDAO', { initial_post_limit: 10, sync_comments: false });
+
+    const result = await syncService.syncAccount(testBioDAO(), account);
+
+    assert.equal(result.stored, 10);
+    assert.ok(biodaoService.stored('reddit').every(data => data.post_type === 'post'));
+  });
+
+  test('refreshes recent items and counts only new ones on later syncs', async () => {
+    const account = testSocialAccount('reddit', 'VitaDAO');
+    await syncService.syncAccount(testBioDAO(), account);
+
+    // Posts from the 48 hours before the cursor are fetched again to update their scores
+    const refresh = await syncService.syncAccount(testBioDAO(), account);
+    assert.equal(refresh.newItems, 0);
+    assert.ok(refresh.stored > 0 && refresh.stored < 29);
+
+    server.addPost({
+      id: '1bmofc',
+      name: 't3_1bmofc',
+      subreddit: 'VitaDAO',
+      title: 'Longevity funding round recap',
+      author: 'vitadao_mod',
+      created_utc: NEWEST_POST_UTC + 3600,
+      score: 12,
+      upvote_ratio: 0.95,
+      num_comments: 0,
+      permalink: '/r/VitaDAO/comments/1bmofc/longevity_funding_round_recap/',
+      is_self: true
+    });
+    server.updateSubreddit('VitaDAO', { subscribers: 8500 });
+
+    const next = await syncService.syncAccount(testBioDAO(), account);
+    assert.equal(next.newItems, 1);
+    assert.equal(biodaoService.audienceSnapshots.at(-1)?.memberCount, 8500);
+    assert.equal(biodaoService.audienceSnapshots.at(-1)?.messageCount, 1);
+
+    const [status] = await biodaoService.getSyncStatus('biodao-1', 'reddit');
+    assert.equal(status?.last_sync_data.subreddits.VitaDAO.posts, NEWEST_POST_UTC + 3600);
+  });
+
+  test('retries a transient server error', async () => {
+    server.injectFault(503);
+
+    const result = await syncService.syncAccount(testBioDAO(), testSocialAccount('reddit', 'VitaDAO'));
+
+    assert.equal(result.stored, 29);
+  });
+
+  test('throws and records the error for a private subreddit', async () => {
+    await assert.rejects(syncService.syncAccount(testBioDAO(), testSocialAccount('reddit', 'r/MycoDAO')));
+
+    const [status] = await biodaoService.getSyncStatus('biodao-1', 'reddit');
+    assert.equal(status?.sync_errors.length, 1);
+    assert.equal(status?.sync_errors[0].account, 'MycoDAO');
+    assert.equal(biodaoService.stored('reddit').length, 0);
+  });
+});
@@ -0,0 +1,277 @@
+import { BioDAOService } from '../biodao/biodaoService';
+import { BioDAO, BioDAOSocialAccount, RedditAccountData, RedditPostData } from '../types/biodao';
+import {
+  RedditApiClient,
+  RedditComment,
+  RedditCredentials,
+  RedditListing,
+  RedditPost,
+  REDDIT_LISTING_PAGE_SIZE
+} from './redditApiClient';
+
+// Upper bound on pages fetched per listing in one sync; older items are picked up next time
+const MAX_PAGES_PER_LISTING = 10;
+
+// Items this much older than the cursor are fetched again so their scores keep updating
+const REFRESH_WINDOW_SECONDS = 48 * 60 * 60;
+
+const DEFAULT_INITIAL_POST_LIMIT = 100;
+
+interface RedditSubredditCursor {
+  posts?: number; // created_utc of the newest synced post
+  comments?: number; // created_utc of the newest synced comment
+}
+
+export class RedditSyncService {
+  private apiClient: RedditApiClient;
+  private biodaoService: BioDAOService;
+
+  constructor(
+    credentials: RedditCredentials,
+    apiClient: RedditApiClient = new RedditApiClient(credentials),
+    biodaoService: BioDAOService = new BioDAOService()
+  ) {
+    this.apiClient = apiClient;
+    this.biodaoService = biodaoService;
+  }
+
+  /**
+   * Accept "VitaDAO", "r/VitaDAO" or "/r/VitaDAO/" as the account identifier
+   */
+  static normalizeSubreddit(identifier: string): string {
+    return identifier.trim().replace(/^\/?r\//i, '').replace(/\/+$/, '');
+  }
+
+  /**
+   * Page through a newest-first listing. With a cursor, stops once items fall outside the
+   * refresh window; without one, stops after `initialLimit` items.
+   */
+  async fetchRecent<T extends { created_utc: number }>(
+    fetchPage: (after?: string) => Promise<RedditListing<T>>,
+    since?: number,
+    initialLimit: number = DEFAULT_INITIAL_POST_LIMIT
+  ): Promise<T[]> {
+    const refreshFrom = since !== undefined ? since - REFRESH_WINDOW_SECONDS : undefined;
+    const items: T[] = [];
+    let after: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES_PER_LISTING; page++) {
+      const listing = await fetchPage(after);
+      const inWindow = refreshFrom !== undefined
+        ? listing.items.filter(item => item.created_utc >= refreshFrom)
+        : listing.items;
+      items.push(...inWindow);
+
+      if (!listing.after || inWindow.length < listing.items.length) break;
+      if (refreshFrom === undefined && items.length >= initialLimit) break;
+      after = listing.after;
+    }
+
+    return refreshFrom === undefined ? items.slice(0, initialLimit) : items;
+  }
+
+  private transformRedditPostToBioDAOFormat(post: RedditPost): Omit<RedditPostData, 'id' | 'synced_at' | 'created_at'> {
+    return {
+      platform: 'reddit',
+      post_id: post.name,
+      post_type: 'post',
+      content: post.selftext ? `${post.title}\n\n${post.selftext}` : post.title,
+      author_info: {
+        username: post.author,
+        user_id: post.author_fullname
+      },
+      engagement_metrics: {
+        score: post.score,
+        upvote_ratio: post.upvote_ratio,
+        comments: post.num_comments,
+        awards: post.total_awards_received
+      },
+      platform_data: {
+        subreddit: post.subreddit,
+        permalink: `https://www.reddit.com${post.permalink}`,
+        title: post.title,
+        url: post.is_self ? undefined : post.url,
+        flair: post.link_flair_text || undefined,
+        is_self: post.is_self,
+        stickied: post.stickied,
+        edited_at: post.edited ? new Date(post.edited * 1000).toISOString() : undefined
+      },
+      posted_at: new Date(post.created_utc * 1000).toISOString()
+    };
+  }
+
+  private transformRedditCommentToBioDAOFormat(comment: RedditComment): Omit<RedditPostData, 'id' | 'synced_at' | 'created_at'> {
+    return {
+      platform: 'reddit',
+      post_id: comment.name,
+      post_type: 'comment',
+      content: comment.body,
+      author_info: {
+        username: comment.author,
+        user_id: comment.author_fullname
+      },
+      engagement_metrics: {
+        score: comment.score
+      },
+      platform_data: {
+        subreddit: comment.subreddit,
+        permalink: `https://www.reddit.com${comment.permalink}`,
+        title: comment.link_title,
+        stickied: comment.stickied,
+        link_id: comment.link_id,
+        parent_id: comment.parent_id,
+        edited_at: comment.edited ? new Date(comment.edited * 1000).toISOString() : undefined
+      },
+      posted_at: new Date(comment.created_utc * 1000).toISOString()
+    };
+  }
+
+  /**
+   * Sync one subreddit: store posts and comments and record subscriber/active user counts
+   */
+  private async syncSubreddit(
+    bioDAO: BioDAO,
+    subreddit: string,
+    cursor: RedditSubredditCursor,
+    accountData: RedditAccountData
+  ): Promise<{ cursor: RedditSubredditCursor; posts: number; comments: number; newItems: number; subscribers: number }> {
+    const about = await this.apiClient.getSubreddit(subreddit);
+    const initialLimit = accountData.initial_post_limit ?? DEFAULT_INITIAL_POST_LIMIT;
+
+    const posts = await this.fetchRecent(
+      after => this.apiClient.getNewPosts(subreddit, { after, limit: REDDIT_LISTING_PAGE_SIZE }),
+      cursor.posts,
+      initialLimit
+    );
+    const comments = accountData.sync_comments === false ? [] : await this.fetchRecent(
+      after => this.apiClient.getNewComments(subreddit, { after, limit: REDDIT_LISTING_PAGE_SIZE }),
+      cursor.comments,
+      initialLimit
+    );
+
+    for (const post of posts) {
+      await this.biodaoService.storeSocialData(bioDAO.slug, this.transformRedditPostToBioDAOFormat(post));
+    }
+    for (const comment of comments) {
+      await this.biodaoService.storeSocialData(bioDAO.slug, this.transformRedditCommentToBioDAOFormat(comment));
+    }
+
+    // Refreshed items were counted by an earlier sync; on the first sync only today's activity counts
+    const startOfToday = new Date();
+    startOfToday.setUTCHours(0, 0, 0, 0);
+    const isNew = (createdUtc: number, since?: number) => since !== undefined
+      ? createdUtc > since
+      : createdUtc * 1000 >= startOfToday.getTime();
+    const newItems = posts.filter(post => isNew(post.created_utc, cursor.posts)).length
+      + comments.filter(comment => isNew(comment.created_utc, cursor.comments)).length;
+
+    const activeUsers = about.active_user_count ?? about.accounts_active ?? null;
+    await this.biodaoService.recordAudienceSnapshot(bioDAO.id, 'reddit', subreddit, about.subscribers, newItems, activeUsers);
+
+    const newest = (items: Array<{ created_utc: number }>, previous?: number) =>
+      items.reduce((max, item) => Math.max(max, item.created_utc), previous ?? 0) || previous;
+
+    return {
+      cursor: {
+        posts: newest(posts, cursor.posts),
+        comments: newest(comments, cursor.comments)
+      },
+      posts: posts.length,
+      comments: comments.length,
+      newItems,
+      subscribers: about.subscribers
+    };
+  }
+
+  /**
+   * Sync one subreddit and merge its cursor into the BioDAO's reddit sync status
+   */
+  async syncAccount(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<{ stored: number; newItems: number }> {
+    const subreddit = RedditSyncService.normalizeSubreddit(account.account_identifier);
+
+    // Cursors for every subreddit share the BioDAO's reddit sync status row
+    const syncStatus = (await this.biodaoService.getSyncStatus(bioDAO.id, 'reddit'))[0];
+    const cursors: Record<string, RedditSubredditCursor> = { ...(syncStatus?.last_sync_data?.subreddits || {}) };
+    const subscriberCounts: Record<string, number> = { ...(syncStatus?.last_sync_data?.subscriber_counts || {}) };
+
+    try {
+      console.log(`Syncing Reddit data for ${bioDAO.name} (r/${subreddit})`);
+      const result = await this.syncSubreddit(
+        bioDAO,
+        subreddit,
+        cursors[subreddit] || {},
+        (account.account_data || {}) as RedditAccountData
+      );
+
+      cursors[subreddit] = result.cursor;
+      subscriberCounts[subreddit] = result.subscribers;
+
+      await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'reddit', subreddit, syncStatus, {
+        ...syncStatus?.last_sync_data,
+        subreddits: cursors,
+        subscriber_counts: subscriberCounts,
+        items_stored: result.posts + result.comments,
+        new_items: result.newItems,
+        rate_limit: this.apiClient.getRateLimiter().getBudget()
+      }, []);
+
+      console.log(`   r/${subreddit}: ${result.subscribers} subscribers, ${result.posts} posts and ${result.comments} comments stored (${result.newItems} new)`);
+      return { stored: result.posts + result.comments, newItems: result.newItems };
+    } catch (error) {
+      console.error(`Error syncing Reddit for ${bioDAO.name} (r/${subreddit}):`, error);
+      await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'reddit', subreddit, syncStatus, {
+        ...syncStatus?.last_sync_data
+      }, [{
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+        account: subreddit
+      }]);
+      throw error;
+    }
+  }
+
+  async syncBioDAORedditData(bioDAO: BioDAO): Promise<void> {
+    try {
+      // Get subreddits for this BioDAO
+      const redditAccounts = await this.biodaoService.getSocialAccounts(bioDAO.id, 'reddit');
+
+      if (redditAccounts.length === 0) {
+        console.log(`No subreddits found for ${bioDAO.name}`);
+        return;
+      }
+
+      let totalStored = 0;
+      let totalNew = 0;
+      for (const account of redditAccounts) {
+        try {
+          const result = await this.syncAccount(bioDAO, account);
+          totalStored += result.stored;
+          totalNew += result.newItems;
+        } catch {
+          // Already logged and recorded in the sync status; carry on with the next subreddit
+        }
+      }
+
+      console.log(`✅ Synced Reddit for ${bioDAO.name}: ${totalStored} posts and comments stored, ${totalNew} new`);
+    } catch (error) {
+      console.error(`Error in Reddit sync for ${bioDAO.name}:`, error);
+      throw error;
+    }
+  }
+
+  async syncAllBioDAOs(): Promise<void> {
+    try {
+      const bioDAOs = await this.biodaoService.getAllBioDAOs();
+      console.log(`🔄 Starting Reddit sync for ${bioDAOs.length} BioDAOs`);
+
+      for (const bioDAO of bioDAOs) {
+        await this.syncBioDAORedditData(bioDAO);
+      }
+
+      console.log('✅ Completed Reddit sync for all BioDAOs');
+    } catch (error) {
+      console.error('❌ Error in Reddit sync:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { BioDAO, BioDAOSocialAccount } from '../../types/biodao';
+import { DiscordSyncService } from '../../discord/discordSyncService';
+import { PlatformAdapter, PlatformCapabilities, PlatformHealth, PlatformRateBudget, PlatformSyncResult } from '../platformAdapter';
+
+export class DiscordPlatformAdapter implements PlatformAdapter {
+  readonly platform = 'discord' as const;
+  readonly name = 'Discord';
+  readonly icon = '💬';
+  readonly capabilities: PlatformCapabilities = { posts: true, comments: true, audience: false, metricsRefresh: false };
+
+  private syncService: DiscordSyncService;
+
+  constructor(botToken: string, syncService: DiscordSyncService = new DiscordSyncService(botToken)) {
+    this.syncService = syncService;
+  }
+
+  async sync(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<PlatformSyncResult> {
+    const result = await this.syncService.syncAccount(bioDAO, account);
+    return { itemsStored: result.stored };
+  }
+
+  rateBudget(): PlatformRateBudget {
+    // Discord's per-route buckets are waited out on 429 (retry_after) rather than tracked up front
+    return { description: '50 requests/second per bot; 429s are retried after retry_after', exhausted: false };
+  }
+
+  async health(): Promise<PlatformHealth> {
+    return { status: 'ok' };
+  }
+}
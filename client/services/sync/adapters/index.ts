@@ -0,0 +1,45 @@
+import { ENV_CONFIG } from '../../../config/environment';
+import { TelegramApiClient } from '../../telegram/telegramApiClient';
+import { PlatformAdapter } from '../platformAdapter';
+import { TwitterPlatformAdapter } from './twitterAdapter';
+import { DiscordPlatformAdapter } from './discordAdapter';
+import { TelegramPlatformAdapter } from './telegramAdapter';
+import { RedditPlatformAdapter } from './redditAdapter';
+import { YouTubePlatformAdapter } from './youtubeAdapter';
+
+export { TwitterPlatformAdapter, DiscordPlatformAdapter, TelegramPlatformAdapter, RedditPlatformAdapter, YouTubePlatformAdapter };
+
+/**
+ * Adapters for every platform whose credentials are configured
+ */
+export function createConfiguredAdapters(config: typeof ENV_CONFIG = ENV_CONFIG): PlatformAdapter[] {
+  const adapters: PlatformAdapter[] = [];
+
+  if (config.TWITTER_BEARER_TOKEN) {
+    adapters.push(new TwitterPlatformAdapter(config.TWITTER_BEARER_TOKEN));
+  }
+
+  if (config.DISCORD_BOT_TOKEN) {
+    adapters.push(new DiscordPlatformAdapter(config.DISCORD_BOT_TOKEN));
+  }
+
+  if (config.TELEGRAM_API_ID && config.TELEGRAM_API_HASH && config.TELEGRAM_SESSION) {
+    adapters.push(new TelegramPlatformAdapter(
+      new TelegramApiClient(config.TELEGRAM_API_ID, config.TELEGRAM_API_HASH, config.TELEGRAM_SESSION)
+    ));
+  }
+
+  if (config.REDDIT_CLIENT_ID && config.REDDIT_CLIENT_SECRET) {
+    adapters.push(new RedditPlatformAdapter({
+      clientId: config.REDDIT_CLIENT_ID,
+      clientSecret: config.REDDIT_CLIENT_SECRET,
+      userAgent: config.REDDIT_USER_AGENT
+    }));
+  }
+
+  if (config.YOUTUBE_API_KEY) {
+    adapters.push(new YouTubePlatformAdapter(config.YOUTUBE_API_KEY));
+  }
+
+  return adapters;
+}
@@ -0,0 +1,44 @@
+import { BioDAO, BioDAOSocialAccount } from '../../types/biodao';
+import { RedditSyncService } from '../../reddit/redditSyncService';
+import { RedditApiClient, RedditCredentials } from '../../reddit/redditApiClient';
+import { PlatformAdapter, PlatformCapabilities, PlatformHealth, PlatformRateBudget, PlatformSyncResult } from '../platformAdapter';
+
+export class RedditPlatformAdapter implements PlatformAdapter {
+  readonly platform = 'reddit' as const;
+  readonly name = 'Reddit';
+  readonly icon = '👽';
+  readonly capabilities: PlatformCapabilities = { posts: true, comments: true, audience: true, metricsRefresh: true };
+
+  private apiClient: RedditApiClient;
+  private syncService: RedditSyncService;
+
+  constructor(credentials: RedditCredentials, apiClient: RedditApiClient = new RedditApiClient(credentials)) {
+    this.apiClient = apiClient;
+    this.syncService = new RedditSyncService(credentials, apiClient);
+  }
+
+  async sync(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<PlatformSyncResult> {
+    const result = await this.syncService.syncAccount(bioDAO, account);
+    return { itemsStored: result.stored };
+  }
+
+  rateBudget(): PlatformRateBudget {
+    const budget = this.apiClient.getRateLimiter().getBudget();
+    const current = budget && budget.resetAt.getTime() > Date.now() ? budget : undefined;
+
+    return {
+      description: '100 requests/minute per OAuth client (x-ratelimit-* headers)',
+      remaining: current?.remaining,
+      limit: current ? current.used + current.remaining : undefined,
+      resetAt: current?.resetAt.toISOString(),
+      exhausted: current?.remaining === 0
+    };
+  }
+
+  async health(): Promise<PlatformHealth> {
+    const budget = this.rateBudget();
+    return budget.exhausted
+      ? { status: 'degraded', message: `Rate limited until ${budget.resetAt}` }
+      : { status: 'ok' };
+  }
+}
@@ -0,0 +1,31 @@
+import { BioDAO, BioDAOSocialAccount } from '../../types/biodao';
+import { TelegramSyncService } from '../../telegram/telegramSyncService';
+import { TelegramApiClient } from '../../telegram/telegramApiClient';
+import { PlatformAdapter, PlatformCapabilities, PlatformHealth, PlatformRateBudget, PlatformSyncResult } from '../platformAdapter';
+
+export class TelegramPlatformAdapter implements PlatformAdapter {
+  readonly platform = 'telegram' as const;
+  readonly name = 'Telegram';
+  readonly icon = '✈️ ';
+  readonly capabilities: PlatformCapabilities = { posts: true, comments: false, audience: true, metricsRefresh: true };
+
+  private syncService: TelegramSyncService;
+
+  constructor(apiClient: TelegramApiClient, syncService: TelegramSyncService = new TelegramSyncService(apiClient)) {
+    this.syncService = syncService;
+  }
+
+  async sync(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<PlatformSyncResult> {
+    const result = await this.syncService.syncAccount(bioDAO, account);
+    return { itemsStored: result.stored };
+  }
+
+  rateBudget(): PlatformRateBudget {
+    // Telegram doesn't publish limits; FLOOD_WAIT errors say how long to back off
+    return { description: 'Unpublished; FLOOD_WAIT errors up to 120s are slept through', exhausted: false };
+  }
+
+  async health(): Promise<PlatformHealth> {
+    return { status: 'ok' };
+  }
+}
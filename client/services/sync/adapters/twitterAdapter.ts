@@ -0,0 +1,48 @@
+import { BioDAO, BioDAOSocialAccount } from '../../types/biodao';
+import { TwitterSyncService } from '../../twitter/twitterSyncService';
+import { XApiClient } from '../../twitter/xApiClient';
+import { BearerTokenSource } from '../../twitter/bearerTokenPool';
+import { PlatformAdapter, PlatformCapabilities, PlatformHealth, PlatformRateBudget, PlatformSyncResult } from '../platformAdapter';
+
+export class TwitterPlatformAdapter implements PlatformAdapter {
+  readonly platform = 'twitter' as const;
+  readonly name = 'Twitter';
+  readonly icon = '🐦';
+  readonly capabilities: PlatformCapabilities = { posts: true, comments: false, audience: false, metricsRefresh: false };
+
+  private apiClient: XApiClient;
+  private syncService: TwitterSyncService;
+
+  constructor(bearerToken: BearerTokenSource, apiClient: XApiClient = new XApiClient(bearerToken)) {
+    this.apiClient = apiClient;
+    this.syncService = new TwitterSyncService(bearerToken, apiClient);
+  }
+
+  async sync(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<PlatformSyncResult> {
+    return { itemsStored: await this.syncService.syncAccount(bioDAO, account) };
+  }
+
+  /**
+   * The most constrained endpoint seen so far
+   */
+  rateBudget(): PlatformRateBudget {
+    const now = Date.now();
+    const active = this.apiClient.getRateLimitBudgets().filter(budget => budget.resetAt.getTime() > now);
+    const tightest = active.sort((a, b) => a.remaining - b.remaining)[0];
+
+    return {
+      description: 'Per-endpoint X API limits from the x-rate-limit-* headers',
+      remaining: tightest?.remaining,
+      limit: tightest?.limit,
+      resetAt: tightest?.resetAt.toISOString(),
+      exhausted: tightest?.remaining === 0
+    };
+  }
+
+  async health(): Promise<PlatformHealth> {
+    const budget = this.rateBudget();
+    return budget.exhausted
+      ? { status: 'degraded', message: `Rate limited until ${budget.resetAt}` }
+      : { status: 'ok' };
+  }
+}
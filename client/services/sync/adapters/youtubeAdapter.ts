@@ -0,0 +1,40 @@
+import { BioDAO, BioDAOSocialAccount } from '../../types/biodao';
+import { YouTubeSyncService } from '../../youtube/youtubeSyncService';
+import { YouTubeApiClient } from '../../youtube/youtubeApiClient';
+import { PlatformAdapter, PlatformCapabilities, PlatformHealth, PlatformRateBudget, PlatformSyncResult } from '../platformAdapter';
+
+export class YouTubePlatformAdapter implements PlatformAdapter {
+  readonly platform = 'youtube' as const;
+  readonly name = 'YouTube';
+  readonly icon = '📺';
+  readonly capabilities: PlatformCapabilities = { posts: true, comments: false, audience: true, metricsRefresh: true };
+
+  private apiClient: YouTubeApiClient;
+  private syncService: YouTubeSyncService;
+
+  constructor(apiKey: string, apiClient: YouTubeApiClient = new YouTubeApiClient(apiKey)) {
+    this.apiClient = apiClient;
+    this.syncService = new YouTubeSyncService(apiKey, apiClient);
+  }
+
+  async sync(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<PlatformSyncResult> {
+    const result = await this.syncService.syncAccount(bioDAO, account);
+    return { itemsStored: result.added + result.refreshed };
+  }
+
+  rateBudget(): PlatformRateBudget {
+    const quota = this.apiClient.getQuotaStatus();
+    return {
+      description: `${quota.limit} quota units/day, reset at midnight Pacific time`,
+      remaining: Math.max(0, quota.limit - quota.used),
+      limit: quota.limit,
+      exhausted: quota.exhausted
+    };
+  }
+
+  async health(): Promise<PlatformHealth> {
+    return this.apiClient.getQuotaStatus().exhausted
+      ? { status: 'down', message: 'Daily quota exceeded; resumes after midnight Pacific time' }
+      : { status: 'ok' };
+  }
+}
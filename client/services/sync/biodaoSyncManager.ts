@@ -1,21 +1,90 @@
-import { TwitterSyncService } from '../twitter/twitterSyncService';
 import { BioDAOService } from '../biodao/biodaoService';
-import { ENV_CONFIG } from '../../config/environment';
+import { BioDAO, BioDAOSocialAccount, SocialPlatform } from '../types/biodao';
 import { TWITTER_CONFIG } from '../twitter/config';
+import { PlatformAdapter } from './platformAdapter';
+import { PlatformAdapterRegistry } from './platformAdapterRegistry';
+import { createConfiguredAdapters } from './adapters';
+
+// What the manager remembers about each adapter's recent runs, for getSystemStatus
+interface AdapterRunState {
+  lastRunAt?: string;
+  lastSuccessAt?: string;
+  lastError?: { message: string; at: string; biodao: string; account: string };
+  // Totals since startup, over full and single-BioDAO runs alike
+  accountsSynced: number;
+  accountsFailed: number;
+  itemsStored: number;
+}
 
 export class BioDAOSyncManager {
-  private twitterSyncService: TwitterSyncService | null = null;
+  private registry: PlatformAdapterRegistry;
+  private runStates = new Map<SocialPlatform, AdapterRunState>();
   private biodaoService: BioDAOService;
   private syncInterval: NodeJS.Timeout | null = null;
+  private nextRunAt: Date | null = null;
   private isRunning: boolean = false;
 
-  constructor() {
-    this.biodaoService = new BioDAOService();
-    
-    // Initialize Twitter sync if token is available
-    if (ENV_CONFIG.TWITTER_BEARER_TOKEN) {
-      this.twitterSyncService = new TwitterSyncService(ENV_CONFIG.TWITTER_BEARER_TOKEN);
+  constructor(adapters: PlatformAdapter[] = createConfiguredAdapters(), biodaoService: BioDAOService = new BioDAOService()) {
+    this.biodaoService = biodaoService;
+    this.registry = new PlatformAdapterRegistry(adapters);
+  }
+
+  /**
+   * Add a platform adapter; it takes part from the next sync onwards
+   */
+  registerAdapter(adapter: PlatformAdapter): void {
+    this.registry.register(adapter);
+  }
+
+  private getRunState(platform: SocialPlatform): AdapterRunState {
+    let state = this.runStates.get(platform);
+    if (!state) {
+      state = { accountsSynced: 0, accountsFailed: 0, itemsStored: 0 };
+      this.runStates.set(platform, state);
     }
+    return state;
+  }
+
+  /**
+   * Sync every account of one platform for the given BioDAOs; account failures are logged and recorded, not thrown
+   */
+  private async runAdapter(
+    adapter: PlatformAdapter,
+    targets: Array<{ bioDAO: BioDAO; accounts: BioDAOSocialAccount[] }>
+  ): Promise<void> {
+    const state = this.getRunState(adapter.platform);
+    const runStartedAt = new Date().toISOString();
+    let synced = 0;
+    let failed = 0;
+    let stored = 0;
+
+    for (const { bioDAO, accounts } of targets) {
+      for (const account of accounts.filter(acc => acc.platform === adapter.platform)) {
+        try {
+          const result = await adapter.sync(bioDAO, account);
+          synced++;
+          stored += result.itemsStored;
+        } catch (error) {
+          failed++;
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`❌ ${adapter.name} sync failed for ${bioDAO.slug} (${account.account_identifier}): ${message}`);
+          state.lastError = {
+            message,
+            at: new Date().toISOString(),
+            biodao: bioDAO.slug,
+            account: account.account_identifier
+          };
+        }
+      }
+    }
+
+    state.lastRunAt = runStartedAt;
+    if (failed === 0) state.lastSuccessAt = new Date().toISOString();
+    state.accountsSynced += synced;
+    state.accountsFailed += failed;
+    state.itemsStored += stored;
+
+    console.log(`${adapter.icon} ${adapter.name}: ${synced} accounts synced, ${failed} failed, ${stored} items stored`);
   }
 
   async syncAllPlatforms(): Promise<void> {
@@ -39,19 +108,28 @@ export class BioDAOSyncManager {
         return;
       }
 
-      // Sync Twitter data if service is available
-      if (this.twitterSyncService) {
-        console.log('🐦 Starting Twitter sync...');
-        await this.twitterSyncService.syncAllBioDAOs();
-      } else {
-        console.log('⚠️  Twitter sync disabled (no bearer token)');
+      const targets = [];
+      for (const bioDAO of bioDAOs) {
+        targets.push({ bioDAO, accounts: await this.biodaoService.getSocialAccounts(bioDAO.id) });
+      }
+
+      const adapters = this.registry.list();
+      if (adapters.length === 0) {
+        console.log('⚠️  No platform adapters configured; check the platform credentials in .env');
       }
 
-      // TODO: Add other platform syncs here
-      // if (this.discordSyncService) {
-      //   console.log('💬 Starting Discord sync...');
-      //   await this.discordSyncService.syncAllBioDAOs();
-      // }
+      for (const adapter of adapters) {
+        console.log(`${adapter.icon} Starting ${adapter.name} sync...`);
+        await this.runAdapter(adapter, targets);
+      }
+
+      // Accounts on platforms without an adapter are skipped (usually missing credentials)
+      const unsupported = new Set(
+        targets.flatMap(target => target.accounts.map(acc => acc.platform)).filter(platform => !this.registry.has(platform))
+      );
+      if (unsupported.size > 0) {
+        console.log(`⚠️  No adapter for ${Array.from(unsupported).join(', ')}; those accounts were skipped`);
+      }
 
       const duration = Math.round((Date.now() - startTime) / 1000);
       console.log(`✅ Completed BioDAO sync in ${duration}s`);
@@ -73,13 +151,13 @@ export class BioDAOSyncManager {
 
       console.log(`🔄 Syncing ${bioDAO.name}...`);
 
-      // Sync Twitter if requested and available
-      if ((!platforms || platforms.includes('twitter')) && this.twitterSyncService) {
-        console.log(`🐦 Syncing Twitter for ${bioDAO.name}...`);
-        await this.twitterSyncService.syncBioDAOTwitterData(bioDAO);
-      }
+      const accounts = await this.biodaoService.getSocialAccounts(bioDAO.id);
+      const adapters = this.registry.list().filter(adapter => !platforms || platforms.includes(adapter.platform));
 
-      // TODO: Add other platform syncs here based on platforms array
+      for (const adapter of adapters) {
+        console.log(`${adapter.icon} Syncing ${adapter.name} for ${bioDAO.name}...`);
+        await this.runAdapter(adapter, [{ bioDAO, accounts }]);
+      }
 
       console.log(`✅ Completed sync for ${bioDAO.name}`);
     } catch (error) {
@@ -100,8 +178,10 @@ export class BioDAOSyncManager {
     });
 
     // Set up periodic sync
+    this.nextRunAt = new Date(Date.now() + TWITTER_CONFIG.FETCH_INTERVAL);
     this.syncInterval = setInterval(
       () => {
+        this.nextRunAt = new Date(Date.now() + TWITTER_CONFIG.FETCH_INTERVAL);
         this.syncAllPlatforms().catch(error => {
           console.error('❌ Error in periodic sync:', error);
         });
@@ -116,6 +196,7 @@ export class BioDAOSyncManager {
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
+      this.nextRunAt = null;
       console.log('🛑 Periodic sync stopped');
     }
   }
@@ -123,15 +204,19 @@ export class BioDAOSyncManager {
   async getSystemStatus(): Promise<any> {
     try {
       const bioDAOs = await this.biodaoService.getAllBioDAOs();
+      const adapters = this.registry.list();
+      const nextRun = this.nextRunAt?.toISOString() ?? null;
+
       const status = {
         total_biodaos: bioDAOs.length,
         sync_running: this.isRunning,
         periodic_sync_active: !!this.syncInterval,
-        platforms: {
-          twitter: !!this.twitterSyncService,
-          discord: false, // TODO: Add when Discord service is ready
-          telegram: false, // TODO: Add when Telegram service is ready
-        },
+        next_run: nextRun,
+        platforms: adapters.reduce((acc, adapter) => {
+          acc[adapter.platform] = true;
+          return acc;
+        }, {} as Record<string, boolean>),
+        adapters: [] as Array<Record<string, any>>,
         biodaos: [] as Array<{
           name: string;
           slug: string;
@@ -141,6 +226,24 @@ export class BioDAOSyncManager {
         }>
       };
 
+      for (const adapter of adapters) {
+        const state = this.getRunState(adapter.platform);
+        status.adapters.push({
+          platform: adapter.platform,
+          name: adapter.name,
+          capabilities: adapter.capabilities,
+          health: await adapter.health(),
+          rate_budget: adapter.rateBudget(),
+          last_run: state.lastRunAt ?? null,
+          last_success: state.lastSuccessAt ?? null,
+          last_error: state.lastError ?? null,
+          accounts_synced: state.accountsSynced,
+          accounts_failed: state.accountsFailed,
+          items_stored: state.itemsStored,
+          next_run: nextRun
+        });
+      }
+
       // Get sync status for each BioDAO
       for (const bioDAO of bioDAOs) {
         const syncStatuses = await this.biodaoService.getSyncStatus(bioDAO.id);
@@ -0,0 +1,196 @@
+// Standard 5-field cron (minute hour day-of-month month day-of-week), always evaluated in UTC
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number; // Value of the first name (jan = 1, sun = 0)
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 }
+];
+
+// Give up looking for a match after this many years (e.g. "0 0 30 2 *" never fires)
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+export class CronExpression {
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  // With both day fields restricted, cron fires when either one matches
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  private constructor(readonly source: string, fields: Set<number>[], restricted: boolean[]) {
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] = fields as [
+      Set<number>, Set<number>, Set<number>, Set<number>, Set<number>
+    ];
+    this.dayOfMonthRestricted = restricted[2]!;
+    this.dayOfWeekRestricted = restricted[4]!;
+  }
+
+  /**
+   * Parse an expression such as "15 0 * * *", "30 6 * * mon-fri" or "@daily"; throws on invalid input
+   */
+  static parse(expression: string): CronExpression {
+    const source = expression.trim();
+    const expanded = ALIASES[source.toLowerCase()] || source;
+    const parts = expanded.split(/\s+/);
+
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression '${expression}': expected 5 fields, got ${parts.length}`);
+    }
+
+    const fields = parts.map((part, index) => CronExpression.parseField(part, FIELDS[index]!, expression));
+    const restricted = parts.map(part => part !== '*' && part !== '?');
+
+    // 7 is an alias for Sunday
+    if (fields[4]!.delete(7)) fields[4]!.add(0);
+
+    const cron = new CronExpression(source, fields, restricted);
+    // Rejects expressions that can never fire, like "0 0 30 2 *"
+    cron.next(new Date());
+    return cron;
+  }
+
+  /**
+   * Whether an expression parses
+   */
+  static isValid(expression: string): boolean {
+    try {
+      CronExpression.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+    const values = new Set<number>();
+    const fail = (reason: string): never => {
+      throw new Error(`Invalid cron expression '${expression}': ${spec.name} ${reason}`);
+    };
+
+    const parseValue = (raw: string): number => {
+      const nameIndex = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+      if (nameIndex >= 0) return nameIndex + (spec.namesOffset ?? 0);
+
+      if (!/^\d+$/.test(raw)) fail(`'${raw}' is not a number`);
+      const value = parseInt(raw, 10);
+      if (value < spec.min || value > spec.max) fail(`${value} is outside ${spec.min}-${spec.max}`);
+      return value;
+    };
+
+    for (const item of field.split(',')) {
+      const [range = '', stepRaw] = item.split('/');
+      const step = stepRaw === undefined ? 1 : parseInt(stepRaw, 10);
+      if (stepRaw !== undefined && (!/^\d+$/.test(stepRaw) || step < 1)) fail(`step '${stepRaw}' must be a positive integer`);
+
+      let start: number;
+      let end: number;
+      if (range === '*' || range === '?') {
+        start = spec.min;
+        end = spec.name === 'day of week' ? 6 : spec.max;
+      } else if (range.includes('-')) {
+        const [from = '', to = ''] = range.split('-');
+        start = parseValue(from);
+        end = parseValue(to);
+        if (start > end) fail(`range ${range} is reversed`);
+      } else {
+        start = parseValue(range);
+        // "5/15" means every 15 starting at 5
+        end = stepRaw === undefined ? start : spec.max;
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  /**
+   * First time strictly after `after` that matches the expression
+   */
+  next(after: Date): Date {
+    const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+    const date = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+    while (date.getTime() <= limit) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setTime(date.getTime() + MINUTE_MS);
+        continue;
+      }
+      return date;
+    }
+
+    throw new Error(`Cron expression '${this.source}' has no run time within ${MAX_SEARCH_YEARS} years`);
+  }
+
+  /**
+   * Latest run time in (after, until], or null if the expression doesn't fire in that span
+   */
+  latestBetween(after: Date, until: Date): Date | null {
+    let latest: Date | null = null;
+    let candidate = this.next(after);
+
+    while (candidate.getTime() <= until.getTime()) {
+      latest = candidate;
+      candidate = this.next(candidate);
+    }
+
+    return latest;
+  }
+
+  toString(): string {
+    return this.source;
+  }
+}
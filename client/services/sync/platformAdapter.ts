@@ -0,0 +1,50 @@
+import { BioDAO, BioDAOSocialAccount, SocialPlatform } from '../types/biodao';
+
+// What a platform adapter collects, so callers can tell platforms apart without knowing them
+export interface PlatformCapabilities {
+  posts: boolean; // Stores posts/messages in the DAO's social data table
+  comments: boolean; // Stores replies and comments
+  audience: boolean; // Records follower/member counts over time
+  metricsRefresh: boolean; // Re-fetches engagement of recent items on each sync
+}
+
+// The adapter's view of its API budget; fields it can't know are left out
+export interface PlatformRateBudget {
+  description: string; // e.g. "100 requests/minute per OAuth client"
+  remaining?: number;
+  limit?: number;
+  resetAt?: string;
+  exhausted: boolean; // No requests can be made before resetAt
+}
+
+export interface PlatformHealth {
+  status: 'ok' | 'degraded' | 'down';
+  message?: string;
+}
+
+export interface PlatformSyncResult {
+  itemsStored: number;
+}
+
+/**
+ * A social platform the BioDAO sync can collect from. Register an implementation with
+ * BioDAOSyncManager (or add it to createConfiguredAdapters) to add a platform.
+ */
+export interface PlatformAdapter {
+  readonly platform: SocialPlatform;
+  readonly name: string;
+  readonly icon: string; // Emoji used in sync logs
+  readonly capabilities: PlatformCapabilities;
+
+  /**
+   * Sync one social account of a BioDAO; throws if the account couldn't be synced
+   */
+  sync(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<PlatformSyncResult>;
+
+  rateBudget(): PlatformRateBudget;
+
+  /**
+   * Whether the adapter can currently reach its platform (from local state; no API calls)
+   */
+  health(): Promise<PlatformHealth>;
+}
@@ -0,0 +1,39 @@
+import { SocialPlatform } from '../types/biodao';
+import { PlatformAdapter } from './platformAdapter';
+
+/**
+ * The platform adapters available to the sync, at most one per platform
+ */
+export class PlatformAdapterRegistry {
+  private adapters = new Map<SocialPlatform, PlatformAdapter>();
+
+  constructor(adapters: PlatformAdapter[] = []) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  register(adapter: PlatformAdapter): void {
+    if (this.adapters.has(adapter.platform)) {
+      throw new Error(`A ${adapter.platform} adapter is already registered`);
+    }
+    this.adapters.set(adapter.platform, adapter);
+  }
+
+  unregister(platform: SocialPlatform): boolean {
+    return this.adapters.delete(platform);
+  }
+
+  get(platform: SocialPlatform): PlatformAdapter | undefined {
+    return this.adapters.get(platform);
+  }
+
+  has(platform: string): boolean {
+    return this.adapters.has(platform as SocialPlatform);
+  }
+
+  /**
+   * Registered adapters in registration order
+   */
+  list(): PlatformAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
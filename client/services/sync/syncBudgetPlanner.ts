@@ -0,0 +1,434 @@
+import { supabase } from '../supabase/client';
+import { AccountService } from '../dao/daoService';
+import { RateLimitManager } from '../twitter/rateLimitManager';
+import { SyncLogger } from '../twitter/syncLogger';
+import { CronExpression } from './cronExpression';
+import { SyncScheduleStore } from './syncScheduleStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SyncBudgetPlannerOptions {
+  lookbackDays?: number; // Lookback used when the budget allows it (default 5)
+  minLookbackDays?: number; // Lookback is never cut below this (default 1)
+  defaultIntervalHours?: number; // Engagement refresh interval when no schedule store is given (default 2)
+  maxIntervalHours?: number; // Refreshes are never stretched further apart than this (default 1 week)
+  reserveRatio?: number; // Share of the monthly cap kept back for backfills and manual syncs (default 0.1)
+  historyDays?: number; // Days of stored tweets used to estimate activity (default 30)
+  refreshIntervalMs?: number; // How often the plan is recomputed (default 1 hour)
+}
+
+export interface AccountBudgetInput {
+  accountId: string;
+  slug: string;
+  priority: number;
+  tweetsPerDay: number;
+  runsPerDay: number; // Engagement refreshes per day its schedule asks for; 0 when disabled
+}
+
+export interface AccountBudgetPlan {
+  account_id: string;
+  slug: string;
+  priority: number;
+  tweets_per_day: number;
+  lookback_days: number;
+  min_interval_hours: number;
+  daily_post_budget: number;
+  projected_daily_posts: number;
+  constrained: boolean;
+}
+
+export interface BudgetPlan {
+  generated_at: string;
+  month_ends_at: string;
+  days_left: number;
+  posts_cap: number;
+  posts_used: number;
+  posts_reserved: number;
+  daily_post_budget: number;
+  // Month-end usage if every account syncs at its configured lookback and schedule
+  unconstrained_projection: number;
+  // Month-end usage following this plan
+  projected_month_end_usage: number;
+  // Month-end usage at the month's average burn rate so far (includes backfills and manual syncs)
+  burn_rate_projection: number;
+  constrained: boolean;
+  accounts: AccountBudgetPlan[];
+}
+
+export interface BudgetPlanInput {
+  now: Date;
+  postsCap: number;
+  postsUsed: number;
+  monthStart: Date;
+  monthEnd: Date;
+  accounts: AccountBudgetInput[];
+  lookbackDays: number;
+  minLookbackDays: number;
+  maxIntervalHours: number;
+  reserveRatio: number;
+}
+
+/**
+ * Posts one engagement run costs: the tweets inside the lookback window are re-fetched,
+ * plus the new tweets since the previous run
+ */
+function postsPerRun(tweetsPerDay: number, lookbackDays: number, intervalHours: number): number {
+  return Math.max(1, tweetsPerDay * lookbackDays + tweetsPerDay * intervalHours / 24);
+}
+
+function dailyCost(tweetsPerDay: number, lookbackDays: number, intervalHours: number): number {
+  return postsPerRun(tweetsPerDay, lookbackDays, intervalHours) * 24 / intervalHours;
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Share the daily post budget between accounts and work out how far each account has to
+ * cut back. Budget goes to accounts in proportion to priority x unconstrained cost, and an
+ * account that needs less than its share passes the rest on. An account short of budget
+ * first loses lookback days (down to minLookbackDays), then refreshes less often.
+ */
+export function computeBudgetPlan(input: BudgetPlanInput): BudgetPlan {
+  const daysLeft = Math.max((input.monthEnd.getTime() - input.now.getTime()) / DAY_MS, 1 / 24);
+  const daysElapsed = Math.max((input.now.getTime() - input.monthStart.getTime()) / DAY_MS, 1 / 24);
+  const reserved = input.postsCap * input.reserveRatio;
+  const available = Math.max(0, input.postsCap - reserved - input.postsUsed);
+  const dailyBudget = available / daysLeft;
+
+  const accounts = input.accounts.map(account => {
+    const intervalHours = account.runsPerDay > 0 ? 24 / account.runsPerDay : 0;
+    return {
+      ...account,
+      intervalHours,
+      baseCost: intervalHours > 0 ? dailyCost(account.tweetsPerDay, input.lookbackDays, intervalHours) : 0,
+      allocation: 0
+    };
+  });
+
+  const totalBaseCost = accounts.reduce((sum, account) => sum + account.baseCost, 0);
+  const constrained = totalBaseCost > dailyBudget;
+
+  if (constrained) {
+    // Water-filling: hand out the remaining budget by weight, capping accounts at what they need
+    let remaining = dailyBudget;
+    let open = accounts.filter(account => account.baseCost > 0);
+    while (open.length > 0 && remaining > 1e-9) {
+      const totalWeight = open.reduce((sum, account) => sum + Math.max(1, account.priority) * account.baseCost, 0);
+      const capped = open.filter(account =>
+        account.allocation + remaining * Math.max(1, account.priority) * account.baseCost / totalWeight >= account.baseCost
+      );
+
+      if (capped.length === 0) {
+        open.forEach(account => {
+          account.allocation += remaining * Math.max(1, account.priority) * account.baseCost / totalWeight;
+        });
+        remaining = 0;
+        break;
+      }
+
+      capped.forEach(account => {
+        remaining -= account.baseCost - account.allocation;
+        account.allocation = account.baseCost;
+      });
+      open = open.filter(account => !capped.includes(account));
+    }
+  } else {
+    accounts.forEach(account => {
+      account.allocation = account.baseCost;
+    });
+  }
+
+  const plans: AccountBudgetPlan[] = accounts.map(account => {
+    let lookbackDays = input.lookbackDays;
+    let intervalHours = account.intervalHours;
+
+    if (account.baseCost > 0 && account.allocation < account.baseCost) {
+      // Fewer lookback days first: refreshing recent tweets matters more than old ones
+      while (lookbackDays > input.minLookbackDays && dailyCost(account.tweetsPerDay, lookbackDays, intervalHours) > account.allocation) {
+        lookbackDays--;
+      }
+
+      // Then stretch the interval until one run per interval fits the allocation
+      if (dailyCost(account.tweetsPerDay, lookbackDays, intervalHours) > account.allocation) {
+        intervalHours = account.allocation > 0
+          ? Math.ceil(24 * postsPerRun(account.tweetsPerDay, lookbackDays, intervalHours) / account.allocation)
+          : input.maxIntervalHours;
+        intervalHours = Math.min(Math.max(intervalHours, account.intervalHours), input.maxIntervalHours);
+        // New tweets per run grow with the interval, so the estimate above can fall just short
+        while (intervalHours < input.maxIntervalHours && dailyCost(account.tweetsPerDay, lookbackDays, intervalHours) > account.allocation) {
+          intervalHours++;
+        }
+      }
+    }
+
+    const projected = intervalHours > 0 ? dailyCost(account.tweetsPerDay, lookbackDays, intervalHours) : 0;
+    return {
+      account_id: account.accountId,
+      slug: account.slug,
+      priority: account.priority,
+      tweets_per_day: round(account.tweetsPerDay),
+      lookback_days: lookbackDays,
+      min_interval_hours: round(intervalHours),
+      daily_post_budget: round(account.allocation),
+      projected_daily_posts: round(projected),
+      constrained: lookbackDays < input.lookbackDays || intervalHours > account.intervalHours
+    };
+  });
+
+  const plannedDaily = plans.reduce((sum, plan) => sum + plan.projected_daily_posts, 0);
+
+  return {
+    generated_at: input.now.toISOString(),
+    month_ends_at: input.monthEnd.toISOString(),
+    days_left: round(daysLeft),
+    posts_cap: input.postsCap,
+    posts_used: input.postsUsed,
+    posts_reserved: Math.round(reserved),
+    daily_post_budget: round(dailyBudget),
+    unconstrained_projection: Math.round(input.postsUsed + totalBaseCost * daysLeft),
+    projected_month_end_usage: Math.round(input.postsUsed + plannedDaily * daysLeft),
+    burn_rate_projection: Math.round(input.postsUsed + input.postsUsed / daysElapsed * daysLeft),
+    constrained,
+    accounts: plans
+  };
+}
+
+/**
+ * Keeps the engagement sync inside the monthly post cap. The plan is recomputed from tweet
+ * activity, schedules and the month's usage so far; the sync asks it for each account's
+ * lookback and whether a refresh is due, instead of spending the budget in account order.
+ */
+export class SyncBudgetPlanner {
+  private options: Required<SyncBudgetPlannerOptions>;
+  private logger: SyncLogger;
+  private plan: BudgetPlan | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  // Last engagement run and posts spent today per account (in memory; reset on restart)
+  private lastRuns = new Map<string, number>();
+  private postsToday = new Map<string, number>();
+  private postsDay: string = new Date().toISOString().slice(0, 10);
+
+  constructor(
+    private rateLimitManager: RateLimitManager,
+    private accountService: AccountService,
+    private scheduleStore: SyncScheduleStore | null = null,
+    options: SyncBudgetPlannerOptions = {}
+  ) {
+    this.options = {
+      lookbackDays: options.lookbackDays ?? 5,
+      minLookbackDays: options.minLookbackDays ?? 1,
+      defaultIntervalHours: options.defaultIntervalHours ?? 2,
+      maxIntervalHours: options.maxIntervalHours ?? 7 * 24,
+      reserveRatio: options.reserveRatio ?? 0.1,
+      historyDays: options.historyDays ?? 30,
+      refreshIntervalMs: options.refreshIntervalMs ?? HOUR_MS
+    };
+    this.logger = new SyncLogger('SyncBudgetPlanner');
+  }
+
+  /**
+   * Recompute the plan from current usage, activity and schedules
+   */
+  async refresh(now: Date = new Date()): Promise<BudgetPlan> {
+    const [accounts, activity, runsPerDay] = await Promise.all([
+      this.accountService.getAllAccounts(),
+      this.loadActivity(),
+      this.loadRunsPerDay(now)
+    ]);
+
+    const status = this.rateLimitManager.getStatus();
+    const monthEnd = status.monthlyResetDate;
+    const monthStart = new Date(monthEnd);
+    monthStart.setMonth(monthStart.getMonth() - 1);
+
+    const plan = computeBudgetPlan({
+      now,
+      postsCap: this.rateLimitManager.getLimits().postsPerMonth,
+      postsUsed: status.postsRetrievedThisMonth,
+      monthStart,
+      monthEnd,
+      accounts: accounts
+        .filter(account => account.twitter_handle)
+        .map(account => ({
+          accountId: account.id,
+          slug: account.slug,
+          priority: account.sync_priority ?? 1,
+          tweetsPerDay: (activity.get(account.id) || 0) / this.options.historyDays,
+          runsPerDay: runsPerDay(account.id)
+        })),
+      lookbackDays: this.options.lookbackDays,
+      minLookbackDays: this.options.minLookbackDays,
+      maxIntervalHours: this.options.maxIntervalHours,
+      reserveRatio: this.options.reserveRatio
+    });
+
+    if (plan.constrained && !this.plan?.constrained) {
+      this.logger.warn(`Post budget is tight: ${plan.unconstrained_projection} of ${plan.posts_cap} posts projected by month end; cutting lookback and refresh frequency (plan: ${plan.projected_month_end_usage})`);
+    } else if (!plan.constrained && this.plan?.constrained) {
+      this.logger.info('Post budget back within the cap; accounts sync at their configured lookback and schedule');
+    }
+
+    this.plan = plan;
+    return plan;
+  }
+
+  private async loadActivity(): Promise<Map<string, number>> {
+    const { data, error } = await supabase.rpc('get_account_tweet_activity', {
+      p_days: this.options.historyDays
+    });
+
+    if (error) {
+      throw new Error(`Failed to load tweet activity: ${error.message}`);
+    }
+
+    const activity = new Map<string, number>();
+    for (const row of (data || []) as Array<{ account_id: string; tweet_count: number | string }>) {
+      activity.set(row.account_id, Number(row.tweet_count));
+    }
+    return activity;
+  }
+
+  /**
+   * Engagement runs per day for each account: its own active schedule, else the default one
+   */
+  private async loadRunsPerDay(now: Date): Promise<(accountId: string) => number> {
+    const fallback = 24 / this.options.defaultIntervalHours;
+    if (!this.scheduleStore) {
+      return () => fallback;
+    }
+
+    const schedules = (await this.scheduleStore.list()).filter(schedule => schedule.job_type === 'engagement');
+    const weekEnd = new Date(now.getTime() + 7 * DAY_MS);
+    const slotsPerDay = (expression: string): number => {
+      try {
+        const cron = CronExpression.parse(expression);
+        let slots = 0;
+        for (let slot = cron.next(now); slot.getTime() <= weekEnd.getTime(); slot = cron.next(slot)) {
+          slots++;
+        }
+        return slots / 7;
+      } catch {
+        return 0;
+      }
+    };
+
+    const defaultSchedule = schedules.find(schedule => schedule.account_id === null);
+    const defaultRuns = defaultSchedule ? (defaultSchedule.is_active ? slotsPerDay(defaultSchedule.cron_expression) : 0) : fallback;
+    // An inactive override hands the account back to the default schedule
+    const overrides = new Map(schedules
+      .filter(schedule => schedule.account_id && schedule.is_active)
+      .map(schedule => [schedule.account_id as string, slotsPerDay(schedule.cron_expression)]));
+
+    return accountId => overrides.get(accountId) ?? defaultRuns;
+  }
+
+  getPlan(): BudgetPlan | null {
+    return this.plan;
+  }
+
+  getAccountPlan(accountId: string): AccountBudgetPlan | null {
+    return this.plan?.accounts.find(account => account.account_id === accountId) || null;
+  }
+
+  /**
+   * Lookback for an account's engagement refresh; the configured one until a plan exists
+   */
+  getLookbackDays(accountId: string): number {
+    return this.getAccountPlan(accountId)?.lookback_days ?? this.options.lookbackDays;
+  }
+
+  /**
+   * Whether an account may refresh now: its planned interval has passed and, while the
+   * budget is tight, it hasn't spent today's share
+   */
+  isRefreshDue(accountId: string, now: Date = new Date()): boolean {
+    const accountPlan = this.getAccountPlan(accountId);
+    if (!accountPlan || !accountPlan.constrained) return true;
+
+    const lastRun = this.lastRuns.get(accountId);
+    // Small tolerance so a run scheduled exactly one interval later isn't skipped for being a few seconds early
+    if (lastRun !== undefined && now.getTime() - lastRun < accountPlan.min_interval_hours * HOUR_MS - 5 * 60 * 1000) {
+      return false;
+    }
+
+    this.rollPostsDay(now);
+    return (this.postsToday.get(accountId) || 0) < accountPlan.daily_post_budget;
+  }
+
+  /**
+   * Run an engagement refresh and charge the posts it used to the account
+   */
+  async trackRun<T>(accountId: string, run: () => Promise<T>): Promise<T> {
+    const postsBefore = this.rateLimitManager.getStatus().postsRetrievedThisMonth;
+    try {
+      return await run();
+    } finally {
+      const postsUsed = Math.max(0, this.rateLimitManager.getStatus().postsRetrievedThisMonth - postsBefore);
+      this.recordRun(accountId, postsUsed);
+    }
+  }
+
+  /**
+   * Record an engagement refresh and the posts it used
+   */
+  recordRun(accountId: string, postsUsed: number, now: Date = new Date()): void {
+    this.rollPostsDay(now);
+    this.lastRuns.set(accountId, now.getTime());
+    this.postsToday.set(accountId, (this.postsToday.get(accountId) || 0) + postsUsed);
+  }
+
+  private rollPostsDay(now: Date): void {
+    const day = now.toISOString().slice(0, 10);
+    if (day !== this.postsDay) {
+      this.postsDay = day;
+      this.postsToday.clear();
+    }
+  }
+
+  /**
+   * Recompute the plan every refreshIntervalMs until stop() is called
+   */
+  start(): void {
+    if (this.refreshTimer) {
+      this.logger.warn('Sync budget planner already started');
+      return;
+    }
+
+    const refresh = () => {
+      this.refresh().catch(error => {
+        this.logger.error('Failed to refresh the post budget plan', error);
+      });
+    };
+
+    this.refreshTimer = setInterval(refresh, this.options.refreshIntervalMs);
+    refresh();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  getStatus() {
+    const plan = this.plan;
+    return {
+      plan: plan && {
+        ...plan,
+        accounts: plan.accounts.map(account => ({
+          ...account,
+          posts_today: this.postsToday.get(account.account_id) || 0,
+          last_run_at: this.lastRuns.has(account.account_id)
+            ? new Date(this.lastRuns.get(account.account_id)!).toISOString()
+            : null
+        }))
+      },
+      options: this.options
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { randomUUID } from 'crypto';
+import { SyncStats } from '../twitter/engagementSyncService';
+import { FollowerSyncResult } from '../twitter/twitterFollowerService';
+import { SyncAlreadyRunningError } from '../twitter/syncErrors';
+
+export type SyncJobType = 'engagement' | 'followers' | 'account';
+export type SyncJobStatus = 'running' | 'completed' | 'failed';
+
+export interface SyncJobProgress {
+  total: number;
+  completed: number;
+  current?: string;
+  phase?: string;
+}
+
+export interface SyncJob {
+  id: string;
+  type: SyncJobType;
+  target?: string;
+  status: SyncJobStatus;
+  createdAt: string;
+  finishedAt?: string;
+  progress: SyncJobProgress;
+  stats?: SyncStats;
+  followerResult?: FollowerSyncResult;
+  errors: string[];
+}
+
+export interface SyncJobContext {
+  reportProgress: (progress: Partial<SyncJobProgress>) => void;
+}
+
+export type SyncJobRunner = (
+  context: SyncJobContext
+) => Promise<Pick<SyncJob, 'stats' | 'followerResult'>>;
+
+export interface StartSyncJobOptions {
+  type: SyncJobType;
+  target?: string;
+  // Names of the sync guards this job needs, e.g. 'engagement' and 'followers'
+  locks: string[];
+  // Returns true when the underlying service is already busy (its isRunning guard)
+  isBusy: () => boolean;
+  run: SyncJobRunner;
+}
+
+/**
+ * Tracks manually triggered sync runs so their progress can be polled over the API
+ */
+export class SyncJobManager {
+  private jobs = new Map<string, SyncJob>();
+  private activeLocks = new Set<string>();
+
+  constructor(private maxRetainedJobs: number = 100) {}
+
+  /**
+   * Start a job in the background and return it immediately
+   */
+  start(options: StartSyncJobOptions): SyncJob {
+    const busyLock = options.locks.find(lock => this.activeLocks.has(lock));
+    if (busyLock) {
+      throw new SyncAlreadyRunningError(busyLock);
+    }
+    if (options.isBusy()) {
+      throw new SyncAlreadyRunningError(options.locks.join(', '));
+    }
+
+    const job: SyncJob = {
+      id: randomUUID(),
+      type: options.type,
+      target: options.target,
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      progress: { total: 0, completed: 0 },
+      errors: []
+    };
+
+    this.jobs.set(job.id, job);
+    this.pruneFinishedJobs();
+    options.locks.forEach(lock => this.activeLocks.add(lock));
+
+    const context: SyncJobContext = {
+      reportProgress: progress => {
+        job.progress = { ...job.progress, ...progress };
+      }
+    };
+
+    options.run(context)
+      .then(result => {
+        job.stats = result.stats;
+        job.followerResult = result.followerResult;
+        job.errors.push(...(result.stats?.errors || []), ...(result.followerResult?.errorMessages || []));
+        job.status = 'completed';
+      })
+      .catch(error => {
+        job.errors.push(error instanceof Error ? error.message : String(error));
+        job.status = 'failed';
+      })
+      .finally(() => {
+        job.finishedAt = new Date().toISOString();
+        options.locks.forEach(lock => this.activeLocks.delete(lock));
+      });
+
+    return job;
+  }
+
+  getJob(id: string): SyncJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  /**
+   * Most recent jobs first
+   */
+  listJobs(limit: number = 20): SyncJob[] {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  private pruneFinishedJobs(): void {
+    if (this.jobs.size <= this.maxRetainedJobs) return;
+
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.status !== 'running')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of finished) {
+      if (this.jobs.size <= this.maxRetainedJobs) break;
+      this.jobs.delete(job.id);
+    }
+  }
+}
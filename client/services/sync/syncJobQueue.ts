@@ -0,0 +1,253 @@
+import { SyncLogger } from '../twitter/syncLogger';
+import { PermanentSyncError, SyncAlreadyRunningError } from '../twitter/syncErrors';
+import { recordSyncJobOutcome, recordSyncJobQueueDepth } from '../metrics/syncMetrics';
+import { ListJobsFilter, QueuedJobStatus, QueuedJobType, QueuedSyncJob, SyncJobStore } from './syncJobStore';
+
+/**
+ * Does the work of one queued job; throw to fail the attempt (PermanentSyncError skips the retries)
+ */
+export type SyncJobHandler = (job: QueuedSyncJob) => Promise<Record<string, any>>;
+
+export interface SyncJobQueueOptions {
+  maxAttempts?: number; // Attempts before a job is dead-lettered (default 5)
+  retryBaseDelayMs?: number; // Delay before the first retry, doubled for each further attempt (default 1 minute)
+  retryMaxDelayMs?: number; // Upper bound on the retry delay (default 6 hours)
+  busyRetryDelayMs?: number; // Delay when the service is busy with a manual sync; doesn't use up an attempt (default 5 minutes)
+  pollIntervalMs?: number; // How often the worker looks for due jobs (default 30 seconds)
+  batchSize?: number; // Jobs claimed per round trip (default 10)
+  staleAfterMs?: number; // Running jobs older than this are assumed abandoned (default 1 hour)
+}
+
+export interface EnqueueOptions {
+  payload?: Record<string, any>;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export interface QueueRunSummary {
+  claimed: number;
+  completed: number;
+  retried: number;
+  deferred: number;
+  dead: number;
+}
+
+/**
+ * Persistent per-account sync work: one job per account and job type, retried with
+ * exponential backoff and dead-lettered after maxAttempts. Jobs run one at a time, and a
+ * failing job is rescheduled rather than retried inline, so it never holds up the others.
+ */
+export class SyncJobQueue {
+  private handlers = new Map<QueuedJobType, SyncJobHandler>();
+  private options: Required<SyncJobQueueOptions>;
+  private logger: SyncLogger;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+  private canRun: () => boolean = () => true;
+  private lastRun: (QueueRunSummary & { finishedAt: string }) | null = null;
+
+  constructor(private store: SyncJobStore, options: SyncJobQueueOptions = {}) {
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 5,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? 60 * 1000,
+      retryMaxDelayMs: options.retryMaxDelayMs ?? 6 * 60 * 60 * 1000,
+      busyRetryDelayMs: options.busyRetryDelayMs ?? 5 * 60 * 1000,
+      pollIntervalMs: options.pollIntervalMs ?? 30 * 1000,
+      batchSize: options.batchSize ?? 10,
+      staleAfterMs: options.staleAfterMs ?? 60 * 60 * 1000
+    };
+    this.logger = new SyncLogger('SyncJobQueue');
+  }
+
+  registerHandler(jobType: QueuedJobType, handler: SyncJobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  /**
+   * Queue a job for an account. If one of the same type is already pending or running,
+   * that job is returned instead of creating a duplicate.
+   */
+  async enqueue(jobType: QueuedJobType, accountId: string, options: EnqueueOptions = {}): Promise<QueuedSyncJob> {
+    return this.store.enqueue({
+      jobType,
+      accountId,
+      payload: options.payload,
+      maxAttempts: options.maxAttempts ?? this.options.maxAttempts,
+      runAt: options.runAt
+    });
+  }
+
+  /**
+   * Queue the same job type for many accounts; returns how many jobs are now queued
+   */
+  async enqueueMany(jobType: QueuedJobType, accountIds: string[], options: EnqueueOptions = {}): Promise<number> {
+    let queued = 0;
+
+    for (const accountId of accountIds) {
+      try {
+        await this.enqueue(jobType, accountId, options);
+        queued++;
+      } catch (error) {
+        this.logger.error(`Failed to enqueue ${jobType} job for account ${accountId}`, error);
+      }
+    }
+
+    return queued;
+  }
+
+  /**
+   * Delay before the next attempt after `attempts` failed ones
+   */
+  getRetryDelay(attempts: number): number {
+    const delay = this.options.retryBaseDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+    return Math.min(delay, this.options.retryMaxDelayMs);
+  }
+
+  /**
+   * Run every job that is due, one at a time, until none are left
+   */
+  async processDueJobs(): Promise<QueueRunSummary> {
+    const summary: QueueRunSummary = { claimed: 0, completed: 0, retried: 0, deferred: 0, dead: 0 };
+
+    if (this.isProcessing) {
+      return summary;
+    }
+
+    this.isProcessing = true;
+    try {
+      for (;;) {
+        const jobs = await this.store.claim(this.options.batchSize, this.options.staleAfterMs);
+        summary.claimed += jobs.length;
+
+        for (const job of jobs) {
+          const outcome = await this.runJob(job);
+          summary[outcome]++;
+        }
+
+        // Stop claiming once another replica has taken over the worker
+        if (jobs.length < this.options.batchSize || !this.canRun()) break;
+      }
+
+      if (summary.claimed > 0) {
+        this.logger.info(`Processed ${summary.claimed} sync jobs: ${summary.completed} completed, ${summary.retried} to retry, ${summary.deferred} deferred, ${summary.dead} dead`);
+      }
+      this.lastRun = { ...summary, finishedAt: new Date().toISOString() };
+      return summary;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async runJob(job: QueuedSyncJob): Promise<'completed' | 'retried' | 'deferred' | 'dead'> {
+    const label = `${job.job_type} job ${job.id} (account ${job.account_id}, attempt ${job.attempts}/${job.max_attempts})`;
+    const handler = this.handlers.get(job.job_type);
+
+    try {
+      if (!handler) {
+        throw new PermanentSyncError(`No handler registered for ${job.job_type} jobs`);
+      }
+
+      const result = await handler(job);
+      await this.store.complete(job.id, result);
+      recordSyncJobOutcome(job.job_type, 'completed');
+      this.logger.debug(`Completed ${label}`);
+      return 'completed';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      try {
+        // A manual sync holds the service's guard; try again later without spending an attempt
+        if (error instanceof SyncAlreadyRunningError) {
+          await this.store.reschedule(job.id, new Date(Date.now() + this.options.busyRetryDelayMs), job.attempts - 1, job.last_error);
+          recordSyncJobOutcome(job.job_type, 'deferred');
+          this.logger.info(`Deferred ${label}: ${message}`);
+          return 'deferred';
+        }
+
+        if (error instanceof PermanentSyncError || job.attempts >= job.max_attempts) {
+          await this.store.markDead(job.id, message);
+          recordSyncJobOutcome(job.job_type, 'dead');
+          this.logger.error(`Dead-lettered ${label}: ${message}`);
+          return 'dead';
+        }
+
+        const delay = this.getRetryDelay(job.attempts);
+        await this.store.reschedule(job.id, new Date(Date.now() + delay), job.attempts, message);
+        recordSyncJobOutcome(job.job_type, 'retried');
+        this.logger.warn(`Failed ${label}, retrying in ${Math.round(delay / 1000)}s: ${message}`);
+        return 'retried';
+      } catch (storeError) {
+        // The job stays 'running' and is reclaimed once it goes stale
+        this.logger.error(`Failed to record the outcome of ${label}`, storeError);
+        return 'retried';
+      }
+    }
+  }
+
+  /**
+   * Poll for due jobs until stop() is called; polls are skipped while canRun returns false
+   * (e.g. another replica holds the worker lease)
+   */
+  start(canRun: () => boolean = () => true): void {
+    if (this.pollTimer) {
+      this.logger.warn('Sync job worker already started');
+      return;
+    }
+
+    this.canRun = canRun;
+    const tick = () => {
+      if (!this.canRun()) return;
+      this.processDueJobs().catch(error => {
+        this.logger.error('Sync job worker failed to process the queue', error);
+      });
+    };
+
+    this.pollTimer = setInterval(tick, this.options.pollIntervalMs);
+    tick();
+
+    this.logger.info(`Sync job worker started (polling every ${Math.round(this.options.pollIntervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Sync job worker stopped');
+    }
+  }
+
+  /**
+   * Give a dead job another full set of attempts; null if the job isn't dead or the
+   * account already has an active job of the same type
+   */
+  async retryDeadJob(id: string): Promise<QueuedSyncJob | null> {
+    return this.store.revive(id);
+  }
+
+  async getJob(id: string): Promise<QueuedSyncJob | null> {
+    return this.store.get(id);
+  }
+
+  async listJobs(filter: ListJobsFilter): Promise<QueuedSyncJob[]> {
+    return this.store.list(filter);
+  }
+
+  async getStatus(): Promise<{
+    worker_running: boolean;
+    processing: boolean;
+    counts: Record<QueuedJobStatus, number>;
+    last_run: (QueueRunSummary & { finishedAt: string }) | null;
+    options: Required<SyncJobQueueOptions>;
+  }> {
+    const counts = await this.store.countByStatus();
+    recordSyncJobQueueDepth(counts);
+
+    return {
+      worker_running: !!this.pollTimer,
+      processing: this.isProcessing,
+      counts,
+      last_run: this.lastRun,
+      options: this.options
+    };
+  }
+}
@@ -0,0 +1,350 @@
+import { randomUUID } from 'crypto';
+import { supabase } from '../supabase/client';
+
+export type QueuedJobType = 'engagement' | 'followers' | 'backfill';
+export type QueuedJobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export const QUEUED_JOB_TYPES: QueuedJobType[] = ['engagement', 'followers', 'backfill'];
+export const QUEUED_JOB_STATUSES: QueuedJobStatus[] = ['pending', 'running', 'completed', 'dead'];
+
+// One row of the sync_jobs table
+export interface QueuedSyncJob {
+  id: string;
+  job_type: QueuedJobType;
+  account_id: string;
+  status: QueuedJobStatus;
+  payload: Record<string, any>;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  result: Record<string, any> | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+export interface EnqueueJobInput {
+  jobType: QueuedJobType;
+  accountId: string;
+  payload?: Record<string, any>;
+  maxAttempts: number;
+  runAt?: Date;
+}
+
+export interface ListJobsFilter {
+  status?: QueuedJobStatus;
+  jobType?: QueuedJobType;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Where SyncJobQueue keeps its jobs
+ */
+export interface SyncJobStore {
+  /**
+   * Queue a job unless one of the same type is already pending or running for the account;
+   * returns whichever job is active
+   */
+  enqueue(input: EnqueueJobInput): Promise<QueuedSyncJob>;
+
+  /**
+   * Mark up to `limit` due jobs as running and count the attempt. Jobs running for longer
+   * than `staleAfterMs` are assumed abandoned and claimed again.
+   */
+  claim(limit: number, staleAfterMs: number): Promise<QueuedSyncJob[]>;
+
+  complete(id: string, result: Record<string, any>): Promise<void>;
+
+  /**
+   * Put a job back to pending, to run again at `runAt`
+   */
+  reschedule(id: string, runAt: Date, attempts: number, lastError: string | null): Promise<void>;
+
+  markDead(id: string, lastError: string): Promise<void>;
+
+  /**
+   * Move a dead job back to pending with its attempts reset; null if it isn't dead or
+   * another job for the same account and type is already active
+   */
+  revive(id: string): Promise<QueuedSyncJob | null>;
+
+  get(id: string): Promise<QueuedSyncJob | null>;
+
+  /**
+   * Most recently updated first
+   */
+  list(filter: ListJobsFilter): Promise<QueuedSyncJob[]>;
+
+  countByStatus(): Promise<Record<QueuedJobStatus, number>>;
+}
+
+const emptyCounts = (): Record<QueuedJobStatus, number> => ({ pending: 0, running: 0, completed: 0, dead: 0 });
+
+/**
+ * Keeps jobs for the lifetime of the process only (local development and one-off scripts)
+ */
+export class MemorySyncJobStore implements SyncJobStore {
+  private jobs = new Map<string, QueuedSyncJob>();
+
+  async enqueue(input: EnqueueJobInput): Promise<QueuedSyncJob> {
+    const active = this.findActive(input.jobType, input.accountId);
+    if (active) return { ...active };
+
+    const now = new Date().toISOString();
+    const job: QueuedSyncJob = {
+      id: randomUUID(),
+      job_type: input.jobType,
+      account_id: input.accountId,
+      status: 'pending',
+      payload: input.payload || {},
+      attempts: 0,
+      max_attempts: input.maxAttempts,
+      run_at: (input.runAt || new Date()).toISOString(),
+      locked_at: null,
+      last_error: null,
+      result: null,
+      created_at: now,
+      updated_at: now,
+      finished_at: null
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async claim(limit: number, staleAfterMs: number): Promise<QueuedSyncJob[]> {
+    const now = Date.now();
+    const due = Array.from(this.jobs.values())
+      .filter(job =>
+        (job.status === 'pending' && new Date(job.run_at).getTime() <= now) ||
+        (job.status === 'running' && job.locked_at !== null && new Date(job.locked_at).getTime() < now - staleAfterMs)
+      )
+      .sort((a, b) => new Date(a.run_at).getTime() - new Date(b.run_at).getTime())
+      .slice(0, limit);
+
+    const lockedAt = new Date(now).toISOString();
+    return due.map(job => {
+      Object.assign(job, { status: 'running', attempts: job.attempts + 1, locked_at: lockedAt, updated_at: lockedAt });
+      return { ...job };
+    });
+  }
+
+  async complete(id: string, result: Record<string, any>): Promise<void> {
+    const now = new Date().toISOString();
+    this.update(id, { status: 'completed', result, last_error: null, locked_at: null, updated_at: now, finished_at: now });
+  }
+
+  async reschedule(id: string, runAt: Date, attempts: number, lastError: string | null): Promise<void> {
+    this.update(id, {
+      status: 'pending',
+      run_at: runAt.toISOString(),
+      attempts,
+      last_error: lastError,
+      locked_at: null,
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  async markDead(id: string, lastError: string): Promise<void> {
+    const now = new Date().toISOString();
+    this.update(id, { status: 'dead', last_error: lastError, locked_at: null, updated_at: now, finished_at: now });
+  }
+
+  async revive(id: string): Promise<QueuedSyncJob | null> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'dead') return null;
+    // Another job for the same account and type is already queued
+    if (this.findActive(job.job_type, job.account_id)) return null;
+
+    const now = new Date().toISOString();
+    Object.assign(job, { status: 'pending', attempts: 0, run_at: now, updated_at: now, finished_at: null });
+    return { ...job };
+  }
+
+  async get(id: string): Promise<QueuedSyncJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(filter: ListJobsFilter): Promise<QueuedSyncJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => (!filter.status || job.status === filter.status) && (!filter.jobType || job.job_type === filter.jobType))
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .slice(filter.offset, filter.offset + filter.limit)
+      .map(job => ({ ...job }));
+  }
+
+  async countByStatus(): Promise<Record<QueuedJobStatus, number>> {
+    const counts = emptyCounts();
+    this.jobs.forEach(job => counts[job.status]++);
+    return counts;
+  }
+
+  private findActive(jobType: QueuedJobType, accountId: string): QueuedSyncJob | undefined {
+    return Array.from(this.jobs.values()).find(job =>
+      job.job_type === jobType &&
+      job.account_id === accountId &&
+      (job.status === 'pending' || job.status === 'running')
+    );
+  }
+
+  private update(id: string, changes: Partial<QueuedSyncJob>): void {
+    const job = this.jobs.get(id);
+    if (job) Object.assign(job, changes);
+  }
+}
+
+/**
+ * Stores jobs in the sync_jobs table (production)
+ */
+export class SupabaseSyncJobStore implements SyncJobStore {
+  async enqueue(input: EnqueueJobInput): Promise<QueuedSyncJob> {
+    const { data, error } = await supabase.rpc('enqueue_sync_job', {
+      p_job_type: input.jobType,
+      p_account_id: input.accountId,
+      p_payload: input.payload || {},
+      p_max_attempts: input.maxAttempts,
+      p_run_at: (input.runAt || new Date()).toISOString()
+    });
+
+    if (error) {
+      throw new Error(`Failed to enqueue ${input.jobType} job for account ${input.accountId}: ${error.message}`);
+    }
+
+    const job = (data as QueuedSyncJob[] | null)?.[0];
+    if (!job) {
+      throw new Error(`enqueue_sync_job returned no job for account ${input.accountId}`);
+    }
+    return job;
+  }
+
+  async claim(limit: number, staleAfterMs: number): Promise<QueuedSyncJob[]> {
+    const { data, error } = await supabase.rpc('claim_sync_jobs', {
+      p_limit: limit,
+      p_stale_after_seconds: Math.ceil(staleAfterMs / 1000)
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim sync jobs: ${error.message}`);
+    }
+    return (data || []) as QueuedSyncJob[];
+  }
+
+  async complete(id: string, result: Record<string, any>): Promise<void> {
+    const now = new Date().toISOString();
+    await this.update(id, { status: 'completed', result, last_error: null, locked_at: null, updated_at: now, finished_at: now });
+  }
+
+  async reschedule(id: string, runAt: Date, attempts: number, lastError: string | null): Promise<void> {
+    await this.update(id, {
+      status: 'pending',
+      run_at: runAt.toISOString(),
+      attempts,
+      last_error: lastError,
+      locked_at: null,
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  async markDead(id: string, lastError: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.update(id, { status: 'dead', last_error: lastError, locked_at: null, updated_at: now, finished_at: now });
+  }
+
+  async revive(id: string): Promise<QueuedSyncJob | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('sync_jobs')
+      .update({ status: 'pending', attempts: 0, run_at: now, updated_at: now, finished_at: null })
+      .eq('id', id)
+      .eq('status', 'dead')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      // Unique violation: another job for the same account and type is already queued
+      if (error.code === '23505') return null;
+      throw new Error(`Failed to retry sync job ${id}: ${error.message}`);
+    }
+    return data as QueuedSyncJob | null;
+  }
+
+  async get(id: string): Promise<QueuedSyncJob | null> {
+    const { data, error } = await supabase
+      .from('sync_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load sync job ${id}: ${error.message}`);
+    }
+    return data as QueuedSyncJob | null;
+  }
+
+  async list(filter: ListJobsFilter): Promise<QueuedSyncJob[]> {
+    let query = supabase
+      .from('sync_jobs')
+      .select('*')
+      .order('updated_at', { ascending: false })
+      .range(filter.offset, filter.offset + filter.limit - 1);
+
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+    if (filter.jobType) {
+      query = query.eq('job_type', filter.jobType);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list sync jobs: ${error.message}`);
+    }
+    return (data || []) as QueuedSyncJob[];
+  }
+
+  async countByStatus(): Promise<Record<QueuedJobStatus, number>> {
+    const counts = emptyCounts();
+
+    for (const status of QUEUED_JOB_STATUSES) {
+      const { count, error } = await supabase
+        .from('sync_jobs')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+
+      if (error) {
+        throw new Error(`Failed to count ${status} sync jobs: ${error.message}`);
+      }
+      counts[status] = count || 0;
+    }
+
+    return counts;
+  }
+
+  private async update(id: string, changes: Partial<QueuedSyncJob>): Promise<void> {
+    const { error } = await supabase
+      .from('sync_jobs')
+      .update(changes)
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update sync job ${id}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Pick a store from SYNC_JOB_STORE ('supabase' or 'memory')
+ */
+export function createSyncJobStore(kind: string = process.env.SYNC_JOB_STORE || 'supabase'): SyncJobStore {
+  switch (kind.toLowerCase()) {
+    case 'memory':
+      return new MemorySyncJobStore();
+    case 'supabase':
+      return new SupabaseSyncJobStore();
+    default:
+      throw new Error(`Unknown SYNC_JOB_STORE '${kind}' - expected supabase or memory`);
+  }
+}
@@ -0,0 +1,183 @@
+import { hostname } from 'os';
+import { SyncLogger } from '../twitter/syncLogger';
+import { SyncLease, SyncLeaseStore } from './syncLeaseStore';
+
+// Leases for the tasks every replica would otherwise run on its own
+export const SYNC_LEASE_NAMES = {
+  scheduler: 'sync-scheduler',
+  queueWorker: 'sync-queue-worker',
+  anomalyAlerts: 'anomaly-alerts'
+} as const;
+
+export interface SyncLeaseManagerOptions {
+  ttlMs?: number; // A lease without a heartbeat for this long can be taken over (default 90 seconds)
+  heartbeatIntervalMs?: number; // How often held leases are renewed and free ones contested (default 30 seconds)
+}
+
+export interface LeaseAcquireResult {
+  acquired: boolean;
+  lease: SyncLease;
+}
+
+export interface SyncLeaseStatus extends SyncLease {
+  active: boolean;
+  held_by_this_instance: boolean;
+}
+
+/**
+ * Id of this replica in the lease table: Railway's replica id when deployed, otherwise host and pid
+ */
+export function defaultInstanceId(): string {
+  return process.env.SYNC_INSTANCE_ID || process.env.RAILWAY_REPLICA_ID || `${hostname()}-${process.pid}`;
+}
+
+/**
+ * Leader election between server replicas through expiring leases. Standing leases
+ * (campaign) are contested on every heartbeat, so a standby takes over within one TTL
+ * after the holder dies; one-off leases (acquire) are renewed until they are released.
+ */
+export class SyncLeaseManager {
+  private options: Required<SyncLeaseManagerOptions>;
+  private logger: SyncLogger;
+  private campaigns = new Set<string>();
+  // Leases this instance holds, with the local time they expire if not renewed
+  private held = new Map<string, number>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private isBeating: boolean = false;
+
+  constructor(
+    private store: SyncLeaseStore,
+    readonly instanceId: string = defaultInstanceId(),
+    options: SyncLeaseManagerOptions = {}
+  ) {
+    this.options = {
+      ttlMs: options.ttlMs ?? 90 * 1000,
+      heartbeatIntervalMs: options.heartbeatIntervalMs ?? 30 * 1000
+    };
+
+    if (this.options.heartbeatIntervalMs >= this.options.ttlMs) {
+      throw new Error('Lease heartbeat interval must be shorter than the lease TTL');
+    }
+    this.logger = new SyncLogger('SyncLeaseManager');
+  }
+
+  /**
+   * Keep trying to hold a lease for as long as the manager runs
+   */
+  campaign(name: string): void {
+    this.campaigns.add(name);
+  }
+
+  /**
+   * Whether this instance holds the lease right now; false once a missed renewal lets it lapse
+   */
+  isHolder(name: string): boolean {
+    const expiresAt = this.held.get(name);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  /**
+   * Try to take a lease once; while held it is renewed with the standing leases until release()
+   */
+  async acquire(name: string): Promise<LeaseAcquireResult> {
+    const startedAt = Date.now();
+    const lease = await this.store.acquire(name, this.instanceId, this.options.ttlMs);
+    const acquired = lease.holder_id === this.instanceId;
+
+    if (acquired) {
+      // Measured from before the request, so our view of the lease never outlives the stored one
+      this.held.set(name, startedAt + this.options.ttlMs);
+    } else {
+      this.held.delete(name);
+    }
+    return { acquired, lease };
+  }
+
+  async release(name: string): Promise<void> {
+    const wasHeld = this.held.delete(name);
+    if (wasHeld) {
+      await this.store.release(name, this.instanceId);
+    }
+  }
+
+  /**
+   * Renew held leases and contest the standing ones that are free
+   */
+  async heartbeat(): Promise<void> {
+    if (this.isBeating) return;
+
+    this.isBeating = true;
+    try {
+      const names = new Set([...this.campaigns, ...this.held.keys()]);
+      for (const name of names) {
+        const wasHolder = this.isHolder(name);
+        try {
+          const { acquired, lease } = await this.acquire(name);
+          if (acquired && !wasHolder) {
+            this.logger.info(`Acquired lease '${name}' (instance ${this.instanceId})`);
+          } else if (!acquired && wasHolder) {
+            this.logger.warn(`Lost lease '${name}' to instance ${lease.holder_id}`);
+          }
+        } catch (error) {
+          // Keep the local expiry: the lease lapses by itself if renewals keep failing
+          this.logger.warn(`Failed to renew lease '${name}'`, error);
+        }
+      }
+    } finally {
+      this.isBeating = false;
+    }
+  }
+
+  /**
+   * Renew and contest leases every heartbeatIntervalMs until stop() is called
+   */
+  start(): void {
+    if (this.heartbeatTimer) {
+      this.logger.warn('Sync lease manager already started');
+      return;
+    }
+
+    const beat = () => {
+      this.heartbeat().catch(error => {
+        this.logger.error('Sync lease heartbeat failed', error);
+      });
+    };
+
+    this.heartbeatTimer = setInterval(beat, this.options.heartbeatIntervalMs);
+    beat();
+
+    this.logger.info(`Sync lease manager started as instance ${this.instanceId} (TTL ${Math.round(this.options.ttlMs / 1000)}s)`);
+  }
+
+  /**
+   * Stop renewing and hand every held lease back so a standby can take over right away
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const name of Array.from(this.held.keys())) {
+      try {
+        await this.release(name);
+      } catch (error) {
+        this.logger.warn(`Failed to release lease '${name}'`, error);
+      }
+    }
+  }
+
+  async getStatus(): Promise<{ instance_id: string; leases: SyncLeaseStatus[] }> {
+    const now = Date.now();
+    const leases = await this.store.list();
+
+    return {
+      instance_id: this.instanceId,
+      leases: leases.map(lease => ({
+        ...lease,
+        active: new Date(lease.expires_at).getTime() > now,
+        held_by_this_instance: lease.holder_id === this.instanceId && this.isHolder(lease.name)
+      }))
+    };
+  }
+}
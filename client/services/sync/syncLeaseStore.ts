@@ -0,0 +1,126 @@
+import { supabase } from '../supabase/client';
+
+// One row of the sync_leases table
+export interface SyncLease {
+  name: string;
+  holder_id: string;
+  acquired_at: string;
+  heartbeat_at: string;
+  expires_at: string;
+}
+
+/**
+ * Where replicas agree on who runs which scheduled task
+ */
+export interface SyncLeaseStore {
+  /**
+   * Take the lease if it is free, expired or already ours (renewing it). Returns the
+   * current lease either way; we hold it when holder_id is our own id.
+   */
+  acquire(name: string, holderId: string, ttlMs: number): Promise<SyncLease>;
+
+  /**
+   * Give the lease up early; a no-op unless holderId holds it
+   */
+  release(name: string, holderId: string): Promise<void>;
+
+  list(): Promise<SyncLease[]>;
+}
+
+/**
+ * Keeps leases for the lifetime of the process only (a single replica or local development)
+ */
+export class MemorySyncLeaseStore implements SyncLeaseStore {
+  private leases = new Map<string, SyncLease>();
+
+  async acquire(name: string, holderId: string, ttlMs: number): Promise<SyncLease> {
+    const now = new Date();
+    const current = this.leases.get(name);
+    const expired = !current || new Date(current.expires_at).getTime() <= now.getTime();
+
+    if (current && !expired && current.holder_id !== holderId) {
+      return { ...current };
+    }
+
+    const lease: SyncLease = {
+      name,
+      holder_id: holderId,
+      acquired_at: current && !expired ? current.acquired_at : now.toISOString(),
+      heartbeat_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttlMs).toISOString()
+    };
+    this.leases.set(name, lease);
+    return { ...lease };
+  }
+
+  async release(name: string, holderId: string): Promise<void> {
+    const lease = this.leases.get(name);
+    if (lease && lease.holder_id === holderId) {
+      lease.expires_at = new Date().toISOString();
+    }
+  }
+
+  async list(): Promise<SyncLease[]> {
+    return Array.from(this.leases.values()).map(lease => ({ ...lease }));
+  }
+}
+
+/**
+ * Stores leases in the sync_leases table so every replica sees the same holder (production)
+ */
+export class SupabaseSyncLeaseStore implements SyncLeaseStore {
+  async acquire(name: string, holderId: string, ttlMs: number): Promise<SyncLease> {
+    const { data, error } = await supabase.rpc('acquire_sync_lease', {
+      p_name: name,
+      p_holder_id: holderId,
+      p_ttl_seconds: Math.ceil(ttlMs / 1000)
+    });
+
+    if (error) {
+      throw new Error(`Failed to acquire sync lease '${name}': ${error.message}`);
+    }
+
+    const lease = (data as SyncLease[] | null)?.[0];
+    if (!lease) {
+      throw new Error(`acquire_sync_lease returned no lease for '${name}'`);
+    }
+    return lease;
+  }
+
+  async release(name: string, holderId: string): Promise<void> {
+    const { error } = await supabase.rpc('release_sync_lease', {
+      p_name: name,
+      p_holder_id: holderId
+    });
+
+    if (error) {
+      throw new Error(`Failed to release sync lease '${name}': ${error.message}`);
+    }
+  }
+
+  async list(): Promise<SyncLease[]> {
+    const { data, error } = await supabase
+      .from('sync_leases')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      throw new Error(`Failed to load sync leases: ${error.message}`);
+    }
+    return (data || []) as SyncLease[];
+  }
+}
+
+/**
+ * Pick a store from SYNC_JOB_STORE ('supabase' or 'memory'), matching the job queue
+ */
+export function createSyncLeaseStore(kind: string = process.env.SYNC_JOB_STORE || 'supabase'): SyncLeaseStore {
+  switch (kind.toLowerCase()) {
+    case 'memory':
+      return new MemorySyncLeaseStore();
+    case 'supabase':
+      return new SupabaseSyncLeaseStore();
+    default:
+      throw new Error(`Unknown SYNC_JOB_STORE '${kind}' - expected supabase or memory`);
+  }
+}
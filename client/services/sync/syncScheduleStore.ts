@@ -0,0 +1,183 @@
+import { randomUUID } from 'crypto';
+import { supabase } from '../supabase/client';
+import { QueuedJobType } from './syncJobStore';
+
+export type MissedRunPolicy = 'catch_up' | 'skip';
+
+// One row of the sync_schedules table; account_id is null for a job type's default schedule
+export interface SyncSchedule {
+  id: string;
+  account_id: string | null;
+  job_type: QueuedJobType;
+  cron_expression: string;
+  missed_run_policy: MissedRunPolicy;
+  is_active: boolean;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduleInput {
+  accountId: string | null;
+  jobType: QueuedJobType;
+  cronExpression: string;
+  missedRunPolicy?: MissedRunPolicy;
+  isActive?: boolean;
+}
+
+/**
+ * Where SyncScheduler keeps its schedules and their last run
+ */
+export interface SyncScheduleStore {
+  list(): Promise<SyncSchedule[]>;
+
+  /**
+   * Create or replace the schedule for (accountId, jobType); the last run is kept
+   */
+  upsert(input: ScheduleInput): Promise<SyncSchedule>;
+
+  remove(id: string): Promise<boolean>;
+
+  markRun(id: string, lastRunAt: Date, nextRunAt: Date | null): Promise<void>;
+}
+
+/**
+ * Keeps schedules for the lifetime of the process only (local development and one-off scripts)
+ */
+export class MemorySyncScheduleStore implements SyncScheduleStore {
+  private schedules = new Map<string, SyncSchedule>();
+
+  async list(): Promise<SyncSchedule[]> {
+    return Array.from(this.schedules.values()).map(schedule => ({ ...schedule }));
+  }
+
+  async upsert(input: ScheduleInput): Promise<SyncSchedule> {
+    const now = new Date().toISOString();
+    const existing = Array.from(this.schedules.values()).find(schedule =>
+      schedule.account_id === input.accountId && schedule.job_type === input.jobType
+    );
+
+    const schedule: SyncSchedule = {
+      id: existing?.id || randomUUID(),
+      account_id: input.accountId,
+      job_type: input.jobType,
+      cron_expression: input.cronExpression,
+      missed_run_policy: input.missedRunPolicy ?? existing?.missed_run_policy ?? 'catch_up',
+      is_active: input.isActive ?? existing?.is_active ?? true,
+      last_run_at: existing?.last_run_at ?? null,
+      next_run_at: existing?.cron_expression === input.cronExpression ? existing.next_run_at : null,
+      created_at: existing?.created_at || now,
+      updated_at: now
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    return { ...schedule };
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async markRun(id: string, lastRunAt: Date, nextRunAt: Date | null): Promise<void> {
+    const schedule = this.schedules.get(id);
+    if (schedule) {
+      Object.assign(schedule, {
+        last_run_at: lastRunAt.toISOString(),
+        next_run_at: nextRunAt ? nextRunAt.toISOString() : null,
+        updated_at: new Date().toISOString()
+      });
+    }
+  }
+}
+
+/**
+ * Stores schedules in the sync_schedules table (production)
+ */
+export class SupabaseSyncScheduleStore implements SyncScheduleStore {
+  async list(): Promise<SyncSchedule[]> {
+    const { data, error } = await supabase
+      .from('sync_schedules')
+      .select('*')
+      .order('created_at');
+
+    if (error) {
+      throw new Error(`Failed to load sync schedules: ${error.message}`);
+    }
+    return (data || []) as SyncSchedule[];
+  }
+
+  async upsert(input: ScheduleInput): Promise<SyncSchedule> {
+    // The unique indexes are partial (account_id may be NULL), so look the row up instead of ON CONFLICT
+    let lookup = supabase
+      .from('sync_schedules')
+      .select('*')
+      .eq('job_type', input.jobType);
+    lookup = input.accountId ? lookup.eq('account_id', input.accountId) : lookup.is('account_id', null);
+
+    const { data: existing, error: lookupError } = await lookup.maybeSingle();
+    if (lookupError) {
+      throw new Error(`Failed to load ${input.jobType} schedule: ${lookupError.message}`);
+    }
+
+    const changes = {
+      cron_expression: input.cronExpression,
+      ...(input.missedRunPolicy && { missed_run_policy: input.missedRunPolicy }),
+      ...(input.isActive !== undefined && { is_active: input.isActive }),
+      // Recomputed by the scheduler on its next tick
+      ...(existing?.cron_expression !== input.cronExpression && { next_run_at: null }),
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = existing
+      ? await supabase.from('sync_schedules').update(changes).eq('id', existing.id).select().single()
+      : await supabase.from('sync_schedules').insert({ account_id: input.accountId, job_type: input.jobType, ...changes }).select().single();
+
+    if (error) {
+      throw new Error(`Failed to save ${input.jobType} schedule: ${error.message}`);
+    }
+    return data as SyncSchedule;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('sync_schedules')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete sync schedule ${id}: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  }
+
+  async markRun(id: string, lastRunAt: Date, nextRunAt: Date | null): Promise<void> {
+    const { error } = await supabase
+      .from('sync_schedules')
+      .update({
+        last_run_at: lastRunAt.toISOString(),
+        next_run_at: nextRunAt ? nextRunAt.toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update sync schedule ${id}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Pick a store from SYNC_JOB_STORE ('supabase' or 'memory'), matching the job queue
+ */
+export function createSyncScheduleStore(kind: string = process.env.SYNC_JOB_STORE || 'supabase'): SyncScheduleStore {
+  switch (kind.toLowerCase()) {
+    case 'memory':
+      return new MemorySyncScheduleStore();
+    case 'supabase':
+      return new SupabaseSyncScheduleStore();
+    default:
+      throw new Error(`Unknown SYNC_JOB_STORE '${kind}' - expected supabase or memory`);
+  }
+}
@@ -0,0 +1,237 @@
+import { AccountService } from '../dao/daoService';
+import { SyncLogger } from '../twitter/syncLogger';
+import { CronExpression } from './cronExpression';
+import { SyncJobQueue } from './syncJobQueue';
+import { QueuedJobType } from './syncJobStore';
+import { MissedRunPolicy, SyncSchedule, SyncScheduleStore } from './syncScheduleStore';
+
+export interface SyncSchedulerOptions {
+  // Default schedule per job type, seeded only when the store has none (edits made through the API are kept)
+  defaults?: Partial<Record<QueuedJobType, string>>;
+  defaultMissedRunPolicy?: MissedRunPolicy;
+  pollIntervalMs?: number; // How often schedules are checked (default 1 minute)
+  skipGraceMs?: number; // With the 'skip' policy, slots later than this are skipped (default 5 minutes)
+  onFire?: (schedule: SyncSchedule, jobsQueued: number) => Promise<void> | void;
+}
+
+export interface ScheduleTickSummary {
+  fired: number;
+  skipped: number;
+  jobsQueued: number;
+}
+
+/**
+ * Queues sync jobs from cron schedules (UTC). Each job type has a default schedule that
+ * covers every account with a Twitter handle, and accounts can override it with their own.
+ * Slots are aligned to the cron expression, not to process uptime, and the last slot is
+ * stored so missed slots after downtime are either run once (catch_up) or skipped.
+ */
+export class SyncScheduler {
+  private options: Required<Omit<SyncSchedulerOptions, 'defaults' | 'onFire'>> & Pick<SyncSchedulerOptions, 'defaults' | 'onFire'>;
+  private logger: SyncLogger;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isTicking: boolean = false;
+
+  constructor(
+    private store: SyncScheduleStore,
+    private queue: SyncJobQueue,
+    private accountService: AccountService,
+    options: SyncSchedulerOptions = {}
+  ) {
+    this.options = {
+      defaults: options.defaults,
+      defaultMissedRunPolicy: options.defaultMissedRunPolicy ?? 'catch_up',
+      pollIntervalMs: options.pollIntervalMs ?? 60 * 1000,
+      skipGraceMs: options.skipGraceMs ?? 5 * 60 * 1000,
+      onFire: options.onFire
+    };
+    this.logger = new SyncLogger('SyncScheduler');
+  }
+
+  /**
+   * Seed the configured default schedules the store doesn't have yet
+   */
+  async applyDefaults(): Promise<void> {
+    const defaults = Object.entries(this.options.defaults || {}) as Array<[QueuedJobType, string]>;
+    if (defaults.length === 0) return;
+
+    const schedules = await this.store.list();
+    for (const [jobType, cronExpression] of defaults) {
+      CronExpression.parse(cronExpression);
+
+      const existing = schedules.find(schedule => schedule.account_id === null && schedule.job_type === jobType);
+      if (existing) {
+        if (existing.cron_expression !== cronExpression) {
+          this.logger.info(`Keeping stored default ${jobType} schedule '${existing.cron_expression}' over configured '${cronExpression}'`);
+        }
+        continue;
+      }
+
+      await this.store.upsert({
+        accountId: null,
+        jobType,
+        cronExpression,
+        missedRunPolicy: this.options.defaultMissedRunPolicy
+      });
+      this.logger.info(`Default ${jobType} schedule set to '${cronExpression}' (UTC)`);
+    }
+  }
+
+  /**
+   * Create or replace a schedule; accountId null sets the job type's default
+   */
+  async setSchedule(
+    jobType: QueuedJobType,
+    accountId: string | null,
+    cronExpression: string,
+    options: { missedRunPolicy?: MissedRunPolicy; isActive?: boolean } = {}
+  ): Promise<SyncSchedule> {
+    CronExpression.parse(cronExpression);
+    return this.store.upsert({ accountId, jobType, cronExpression, ...options });
+  }
+
+  async removeSchedule(id: string): Promise<boolean> {
+    return this.store.remove(id);
+  }
+
+  /**
+   * Schedules with their next run time filled in
+   */
+  async listSchedules(now: Date = new Date()): Promise<SyncSchedule[]> {
+    const schedules = await this.store.list();
+    return schedules.map(schedule => ({
+      ...schedule,
+      next_run_at: schedule.is_active ? this.nextRunAt(schedule, now)?.toISOString() ?? null : null
+    }));
+  }
+
+  private nextRunAt(schedule: SyncSchedule, now: Date): Date | null {
+    try {
+      const cron = CronExpression.parse(schedule.cron_expression);
+      const due = cron.next(new Date(schedule.last_run_at || schedule.created_at));
+      return due.getTime() <= now.getTime() ? now : due;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fire every schedule whose next slot has passed; several missed slots count as one
+   */
+  async tick(now: Date = new Date()): Promise<ScheduleTickSummary> {
+    const summary: ScheduleTickSummary = { fired: 0, skipped: 0, jobsQueued: 0 };
+    if (this.isTicking) return summary;
+
+    this.isTicking = true;
+    try {
+      const schedules = await this.store.list();
+      let accountIds: string[] | null = null;
+
+      for (const schedule of schedules.filter(s => s.is_active)) {
+        let cron: CronExpression;
+        try {
+          cron = CronExpression.parse(schedule.cron_expression);
+        } catch (error) {
+          this.logger.error(`Ignoring ${this.describe(schedule)}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+
+        // A new schedule waits for its first slot rather than firing on creation
+        const anchor = new Date(schedule.last_run_at || schedule.created_at);
+        const slot = cron.latestBetween(anchor, now);
+        if (!slot) continue;
+
+        const nextRun = cron.next(now);
+        const lateBy = now.getTime() - slot.getTime();
+
+        if (schedule.missed_run_policy === 'skip' && lateBy > this.options.skipGraceMs) {
+          await this.store.markRun(schedule.id, slot, nextRun);
+          summary.skipped++;
+          this.logger.warn(`Skipped ${this.describe(schedule)} slot ${slot.toISOString()} (missed by ${Math.round(lateBy / 60000)} min); next run ${nextRun.toISOString()}`);
+          continue;
+        }
+
+        if (accountIds === null) {
+          const accounts = await this.accountService.getAllAccounts();
+          accountIds = accounts.filter(account => account.twitter_handle).map(account => account.id);
+        }
+
+        const targets = this.targetAccounts(schedule, schedules, accountIds);
+        const queued = await this.queue.enqueueMany(schedule.job_type, targets);
+        await this.store.markRun(schedule.id, slot, nextRun);
+
+        summary.fired++;
+        summary.jobsQueued += queued;
+        this.logger.info(`Queued ${schedule.job_type} jobs for ${queued} accounts (${this.describe(schedule)}, slot ${slot.toISOString()}${lateBy > this.options.pollIntervalMs ? ', caught up' : ''})`);
+
+        if (this.options.onFire) {
+          await Promise.resolve(this.options.onFire(schedule, queued)).catch(error => {
+            this.logger.warn(`onFire hook failed for ${this.describe(schedule)}`, error);
+          });
+        }
+      }
+
+      return summary;
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Accounts a schedule queues work for: its own account, or for a default every account without an active override
+   */
+  private targetAccounts(schedule: SyncSchedule, schedules: SyncSchedule[], accountIds: string[]): string[] {
+    if (schedule.account_id) {
+      return accountIds.includes(schedule.account_id) ? [schedule.account_id] : [];
+    }
+
+    const overridden = new Set(
+      schedules
+        .filter(s => s.is_active && s.job_type === schedule.job_type && s.account_id)
+        .map(s => s.account_id as string)
+    );
+    return accountIds.filter(id => !overridden.has(id));
+  }
+
+  private describe(schedule: SyncSchedule): string {
+    const scope = schedule.account_id ? `account ${schedule.account_id}` : 'default';
+    return `${schedule.job_type} schedule '${schedule.cron_expression}' (${scope})`;
+  }
+
+  /**
+   * Check schedules every pollIntervalMs until stop() is called; checks are skipped while
+   * canRun returns false (e.g. another replica holds the scheduler lease)
+   */
+  start(canRun: () => boolean = () => true): void {
+    if (this.pollTimer) {
+      this.logger.warn('Sync scheduler already started');
+      return;
+    }
+
+    const tick = () => {
+      if (!canRun()) return;
+      this.tick().catch(error => {
+        this.logger.error('Sync scheduler tick failed', error);
+      });
+    };
+
+    this.pollTimer = setInterval(tick, this.options.pollIntervalMs);
+    this.applyDefaults()
+      .catch(error => this.logger.error('Failed to apply default sync schedules', error))
+      .finally(tick);
+
+    this.logger.info(`Sync scheduler started (checking every ${Math.round(this.options.pollIntervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      this.logger.info('Sync scheduler stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return !!this.pollTimer;
+  }
+}
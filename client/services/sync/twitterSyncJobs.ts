@@ -0,0 +1,134 @@
+import { AccountService } from '../dao/daoService';
+import { Account } from '../types/dao';
+import { EngagementSyncService } from '../twitter/engagementSyncService';
+import TwitterFollowerService from '../twitter/twitterFollowerService';
+import { TwitterBackfillService } from '../twitter/twitterBackfillService';
+import { PermanentSyncError } from '../twitter/syncErrors';
+import { SyncLogger } from '../twitter/syncLogger';
+import { SyncBudgetPlanner } from './syncBudgetPlanner';
+import { SyncJobQueue } from './syncJobQueue';
+import { QueuedSyncJob } from './syncJobStore';
+
+export interface TwitterSyncJobServices {
+  accountService: AccountService;
+  syncService: EngagementSyncService;
+  followerService: TwitterFollowerService;
+  backfillService?: TwitterBackfillService;
+  budgetPlanner?: SyncBudgetPlanner;
+}
+
+// Payload of a backfill job; mirrors the backfill-tweets script options
+export interface BackfillJobPayload {
+  since?: string;
+  maxTweets?: number;
+  restart?: boolean;
+}
+
+/**
+ * What's wrong with a backfill payload, or null if it can be run
+ */
+export function validateBackfillPayload(payload: BackfillJobPayload): string | null {
+  if (payload.since !== undefined && (typeof payload.since !== 'string' || isNaN(Date.parse(payload.since)))) {
+    return `'since' must be a date, got '${payload.since}'`;
+  }
+  if (payload.maxTweets !== undefined && (!Number.isInteger(payload.maxTweets) || payload.maxTweets <= 0)) {
+    return `'maxTweets' must be a positive integer, got '${payload.maxTweets}'`;
+  }
+  return null;
+}
+
+/**
+ * Load the job's account; a deleted account or one without a handle won't come back by retrying
+ */
+async function requireTwitterAccount(accountService: AccountService, job: QueuedSyncJob): Promise<Account & { twitter_handle: string }> {
+  const account = await accountService.getAccountById(job.account_id);
+  if (!account) {
+    throw new PermanentSyncError(`Account ${job.account_id} no longer exists`);
+  }
+  if (!account.twitter_handle) {
+    throw new PermanentSyncError(`Account '${account.slug}' has no Twitter handle`);
+  }
+  return account as Account & { twitter_handle: string };
+}
+
+/**
+ * Register the engagement, followers and (when a backfill service is given) backfill job handlers
+ */
+export function registerTwitterSyncJobHandlers(queue: SyncJobQueue, services: TwitterSyncJobServices): void {
+  const { accountService, syncService, followerService, backfillService, budgetPlanner } = services;
+
+  queue.registerHandler('engagement', async job => {
+    const account = await requireTwitterAccount(accountService, job);
+
+    // While the post budget is tight, refreshes beyond the account's planned frequency are skipped
+    if (budgetPlanner && !budgetPlanner.isRefreshDue(account.id)) {
+      return { skipped: true, reason: 'post budget plan', plan: budgetPlanner.getAccountPlan(account.id) };
+    }
+
+    const stats = budgetPlanner
+      ? await budgetPlanner.trackRun(account.id, () => syncService.runAccountSync(account.slug))
+      : await syncService.runAccountSync(account.slug);
+
+    // A suspended or deleted account fails the job for good instead of burning its retries
+    if (stats.unavailableHandles && stats.unavailableHandles.length > 0) {
+      throw new PermanentSyncError(stats.errors.join('; '));
+    }
+    if (stats.errors.length > 0) {
+      throw new Error(stats.errors.join('; '));
+    }
+    return { ...stats };
+  });
+
+  queue.registerHandler('followers', async job => {
+    const account = await requireTwitterAccount(accountService, job);
+    const result = await followerService.updateSingleAccountFollowerCount(account);
+
+    if (result.errors > 0) {
+      throw new Error(result.errorMessages.join('; '));
+    }
+    return { ...result };
+  });
+
+  if (backfillService) {
+    // New tweets an engagement sync couldn't page through are fetched by a backfill down to
+    // the last tweet stored before it. It restarts any unfinished backfill of the account.
+    const logger = new SyncLogger('TwitterSyncJobs');
+    syncService.setTimelineGapHandler({
+      onTimelineGap: async (account, since) => {
+        const payload: BackfillJobPayload = { since: since.toISOString(), restart: true };
+        const job = await queue.enqueue('backfill', account.id, { payload });
+
+        const queuedSince = (job.payload as BackfillJobPayload).since;
+        if (queuedSince && Date.parse(queuedSince) > since.getTime()) {
+          logger.warn(`A backfill for ${account.slug} is already queued since ${queuedSince}; run another with --since ${since.toISOString().split('T')[0]} once it finishes`);
+        } else {
+          logger.info(`Queued backfill job ${job.id} for the unfetched new tweets of ${account.slug}`);
+        }
+      }
+    });
+
+    queue.registerHandler('backfill', async job => {
+      const account = await requireTwitterAccount(accountService, job);
+      const payload = job.payload as BackfillJobPayload;
+      // A bad payload fails the same way on every attempt
+      const invalid = validateBackfillPayload(payload);
+      if (invalid) {
+        throw new PermanentSyncError(`Invalid backfill payload: ${invalid}`);
+      }
+
+      const result = await backfillService.backfillAccount(account, {
+        since: payload.since ? new Date(payload.since) : undefined,
+        maxTweets: payload.maxTweets,
+        // Only the first attempt restarts; retries resume from the checkpoint
+        restart: payload.restart && job.attempts === 1
+      });
+
+      // Paused runs (rate limit or post budget) resume from their checkpoint on the next attempt
+      if (result.status === 'failed' || result.status === 'paused') {
+        throw new Error(`Backfill ${result.status}: ${result.error || 'monthly post budget exhausted'}`);
+      }
+      return { ...result };
+    });
+  }
+}
+
@@ -0,0 +1,187 @@
+import { Api, TelegramClient } from 'telegram';
+import { StringSession } from 'telegram/sessions';
+import { LogLevel } from 'telegram/extensions/Logger';
+
+// Telegram returns at most 100 messages per history request
+export const TELEGRAM_MESSAGES_PER_PAGE = 100;
+
+export interface TelegramChatInfo {
+  id: string;
+  title: string;
+  username?: string;
+  type: 'channel' | 'group';
+  memberCount: number;
+}
+
+export interface TelegramMessage {
+  id: number;
+  date: string;
+  text: string;
+  isPost: boolean; // Broadcast channel post rather than a group message
+  senderId?: string;
+  views?: number;
+  forwards?: number;
+  replies?: number;
+  reactions: Record<string, number>;
+  mediaType?: string;
+  groupedId?: string;
+  forwardedFrom?: string;
+  replyToId?: number;
+  editedAt?: string;
+}
+
+export interface TelegramApiClientOptions {
+  floodSleepThreshold?: number; // Sleep through FLOOD_WAIT errors up to this many seconds
+}
+
+/**
+ * Error raised by TelegramApiClient; `code` is Telegram's RPC error message (e.g. CHANNEL_PRIVATE)
+ */
+export class TelegramApiError extends Error {
+  constructor(message: string, public readonly chat: string, public readonly code?: string) {
+    super(message);
+    this.name = 'TelegramApiError';
+  }
+}
+
+/**
+ * Read-only wrapper around an MTProto user session. The Bot API does not expose
+ * channel history, view or forward counts, so a logged-in session is required
+ * (create one with `npm run telegram:login`).
+ */
+export class TelegramApiClient {
+  private client: TelegramClient;
+  private connected: Promise<void> | null = null;
+
+  constructor(apiId: number, apiHash: string, session: string, options: TelegramApiClientOptions = {}) {
+    this.client = new TelegramClient(new StringSession(session), apiId, apiHash, {
+      connectionRetries: 5,
+      floodSleepThreshold: options.floodSleepThreshold ?? 120
+    });
+    this.client.setLogLevel(LogLevel.ERROR);
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.connected) return;
+    this.connected = null;
+    await this.client.disconnect();
+  }
+
+  /**
+   * Title, type and current member/subscriber count of a channel or group
+   */
+  async getChatInfo(chat: string): Promise<TelegramChatInfo> {
+    return this.call(chat, async () => {
+      const entity = await this.client.getEntity(chat);
+
+      if (entity instanceof Api.Channel) {
+        const full = await this.client.invoke(new Api.channels.GetFullChannel({ channel: entity }));
+        const fullChat = full.fullChat as Api.ChannelFull;
+        return {
+          id: entity.id.toString(),
+          title: entity.title,
+          username: entity.username || undefined,
+          type: entity.broadcast ? 'channel' : 'group',
+          memberCount: fullChat.participantsCount ?? entity.participantsCount ?? 0
+        };
+      }
+
+      if (entity instanceof Api.Chat) {
+        return {
+          id: entity.id.toString(),
+          title: entity.title,
+          type: 'group',
+          memberCount: entity.participantsCount
+        };
+      }
+
+      throw new TelegramApiError(`${chat} is not a channel or group`, chat);
+    });
+  }
+
+  /**
+   * Messages with an id greater than minId, oldest first
+   */
+  async getMessagesAfter(chat: string, minId: number, limit: number = TELEGRAM_MESSAGES_PER_PAGE): Promise<TelegramMessage[]> {
+    return this.call(chat, async () => {
+      const messages = await this.client.getMessages(chat, { minId, limit, reverse: true });
+      return this.mapMessages(messages);
+    });
+  }
+
+  /**
+   * The most recent messages, newest first
+   */
+  async getLatestMessages(chat: string, limit: number = TELEGRAM_MESSAGES_PER_PAGE): Promise<TelegramMessage[]> {
+    return this.call(chat, async () => {
+      const messages = await this.client.getMessages(chat, { limit });
+      return this.mapMessages(messages);
+    });
+  }
+
+  private mapMessages(messages: Api.Message[]): TelegramMessage[] {
+    // Service messages (joins, pins, title changes) carry no content
+    return messages
+      .filter(message => message instanceof Api.Message && message.className === 'Message')
+      .map(message => this.mapMessage(message));
+  }
+
+  private mapMessage(message: Api.Message): TelegramMessage {
+    const reactions: Record<string, number> = {};
+    for (const result of message.reactions?.results || []) {
+      const reaction = result.reaction;
+      const key = reaction instanceof Api.ReactionEmoji
+        ? reaction.emoticon
+        : reaction instanceof Api.ReactionCustomEmoji
+          ? `custom:${reaction.documentId.toString()}`
+          : 'paid';
+      reactions[key] = (reactions[key] || 0) + result.count;
+    }
+
+    const fromId = message.fromId;
+    const senderId = fromId instanceof Api.PeerUser
+      ? fromId.userId.toString()
+      : fromId instanceof Api.PeerChannel
+        ? fromId.channelId.toString()
+        : undefined;
+
+    return {
+      id: message.id,
+      date: new Date(message.date * 1000).toISOString(),
+      text: message.message || '',
+      isPost: Boolean(message.post),
+      senderId,
+      views: message.views,
+      forwards: message.forwards,
+      replies: message.replies?.replies,
+      reactions,
+      mediaType: message.media ? message.media.className.replace(/^MessageMedia/, '').toLowerCase() : undefined,
+      groupedId: message.groupedId ? message.groupedId.toString() : undefined,
+      forwardedFrom: message.fwdFrom?.fromName || undefined,
+      replyToId: message.replyTo?.replyToMsgId,
+      editedAt: message.editDate ? new Date(message.editDate * 1000).toISOString() : undefined
+    };
+  }
+
+  /**
+   * Connect on first use and turn RPC errors into TelegramApiError
+   */
+  private async call<T>(chat: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.connected) {
+      this.connected = this.client.connect().then(() => undefined, error => {
+        // Let the next call try to connect again
+        this.connected = null;
+        throw error;
+      });
+    }
+
+    try {
+      await this.connected;
+      return await fn();
+    } catch (error: any) {
+      if (error instanceof TelegramApiError) throw error;
+      const code = typeof error?.errorMessage === 'string' ? error.errorMessage : undefined;
+      throw new TelegramApiError(`Telegram request for ${chat} failed: ${error?.message || String(error)}`, chat, code);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { BioDAOService } from '../biodao/biodaoService';
+import { BioDAO, BioDAOSocialAccount, TelegramAccountData, TelegramMessageData } from '../types/biodao';
+import { TelegramApiClient, TelegramChatInfo, TelegramMessage, TELEGRAM_MESSAGES_PER_PAGE } from './telegramApiClient';
+
+// Upper bound on pages fetched per chat in one sync; the cursor picks up the rest next time
+const MAX_PAGES_PER_CHAT = 10;
+
+// Recent channel posts re-fetched every sync so their view/forward counts keep updating
+const REFRESH_RECENT_POSTS = 20;
+
+const DEFAULT_INITIAL_MESSAGE_LIMIT = 100;
+
+interface TelegramSyncCursors {
+  chats: Record<string, number>; // account identifier -> newest synced message id
+}
+
+export class TelegramSyncService {
+  private apiClient: TelegramApiClient;
+  private biodaoService: BioDAOService;
+
+  constructor(apiClient: TelegramApiClient, biodaoService: BioDAOService = new BioDAOService()) {
+    this.apiClient = apiClient;
+    this.biodaoService = biodaoService;
+  }
+
+  /**
+   * Messages newer than the cursor, oldest first. Without a cursor only the latest `initialLimit` are fetched.
+   */
+  async fetchNewMessages(chat: string, afterId?: number, initialLimit: number = DEFAULT_INITIAL_MESSAGE_LIMIT): Promise<TelegramMessage[]> {
+    if (afterId === undefined) {
+      const latest = await this.apiClient.getLatestMessages(chat, initialLimit);
+      return latest.reverse();
+    }
+
+    const messages: TelegramMessage[] = [];
+    let cursor = afterId;
+    for (let page = 0; page < MAX_PAGES_PER_CHAT; page++) {
+      const batch = await this.apiClient.getMessagesAfter(chat, cursor, TELEGRAM_MESSAGES_PER_PAGE);
+      if (batch.length === 0) break;
+
+      messages.push(...batch);
+      cursor = Math.max(...batch.map(message => message.id));
+      if (batch.length < TELEGRAM_MESSAGES_PER_PAGE) break;
+    }
+    return messages;
+  }
+
+  private transformTelegramMessageToBioDAOFormat(
+    message: TelegramMessage,
+    chat: TelegramChatInfo
+  ): Omit<TelegramMessageData, 'id' | 'synced_at' | 'created_at'> {
+    return {
+      platform: 'telegram',
+      post_id: `${chat.id}:${message.id}`, // Message ids are only unique within a chat
+      post_type: message.replyToId ? 'comment' : 'post',
+      content: message.text,
+      author_info: {
+        user_id: message.senderId,
+        username: message.isPost ? chat.username : undefined,
+        display_name: message.isPost ? chat.title : undefined
+      },
+      engagement_metrics: {
+        views: message.views,
+        forwards: message.forwards,
+        replies: message.replies,
+        reactions: message.reactions
+      },
+      platform_data: {
+        chat_id: chat.id,
+        chat_username: chat.username,
+        chat_title: chat.title,
+        chat_type: chat.type,
+        media_type: message.mediaType,
+        grouped_id: message.groupedId,
+        forwarded_from: message.forwardedFrom,
+        edited_at: message.editedAt
+      },
+      posted_at: message.date
+    };
+  }
+
+  /**
+   * Sync one channel or group: store channel posts, count group messages and record the member count
+   */
+  private async syncChat(
+    bioDAO: BioDAO,
+    identifier: string,
+    cursor: number | undefined,
+    initialLimit: number
+  ): Promise<{ cursor: number | undefined; stored: number; messageCount: number; memberCount: number }> {
+    const chat = await this.apiClient.getChatInfo(identifier);
+    const messages = await this.fetchNewMessages(identifier, cursor, initialLimit);
+    let stored = 0;
+
+    // Only channel posts are stored; group conversations are tracked as volume
+    if (chat.type === 'channel') {
+      const posts = new Map(messages.map(message => [message.id, message]));
+
+      if (cursor !== undefined) {
+        for (const message of await this.apiClient.getLatestMessages(identifier, REFRESH_RECENT_POSTS)) {
+          if (!posts.has(message.id)) posts.set(message.id, message);
+        }
+      }
+
+      for (const message of posts.values()) {
+        const telegramData = this.transformTelegramMessageToBioDAOFormat(message, chat);
+        await this.biodaoService.storeSocialData(bioDAO.slug, telegramData);
+        stored++;
+      }
+    }
+
+    // On the first sync the backlog isn't today's volume, so only today's messages count
+    const startOfToday = new Date();
+    startOfToday.setUTCHours(0, 0, 0, 0);
+    const messageCount = cursor !== undefined
+      ? messages.length
+      : messages.filter(message => new Date(message.date) >= startOfToday).length;
+
+    await this.biodaoService.recordAudienceSnapshot(bioDAO.id, 'telegram', identifier, chat.memberCount, messageCount);
+
+    const newest = messages.length > 0 ? Math.max(...messages.map(message => message.id)) : undefined;
+    return {
+      cursor: newest !== undefined && (cursor === undefined || newest > cursor) ? newest : cursor,
+      stored,
+      messageCount,
+      memberCount: chat.memberCount
+    };
+  }
+
+  /**
+   * Sync one channel or group and merge its cursor into the BioDAO's telegram sync status
+   */
+  async syncAccount(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<{ stored: number; messageCount: number }> {
+    const identifier = account.account_identifier;
+    const initialLimit = (account.account_data as TelegramAccountData)?.initial_message_limit ?? DEFAULT_INITIAL_MESSAGE_LIMIT;
+
+    // Cursors for every chat share the BioDAO's telegram sync status row
+    const syncStatus = (await this.biodaoService.getSyncStatus(bioDAO.id, 'telegram'))[0];
+    const cursors: TelegramSyncCursors = {
+      chats: { ...(syncStatus?.last_sync_data?.chats || {}) }
+    };
+    const memberCounts: Record<string, number> = { ...(syncStatus?.last_sync_data?.member_counts || {}) };
+
+    try {
+      console.log(`Syncing Telegram data for ${bioDAO.name} (${identifier})`);
+      const result = await this.syncChat(bioDAO, identifier, cursors.chats[identifier], initialLimit);
+
+      if (result.cursor !== undefined) {
+        cursors.chats[identifier] = result.cursor;
+      }
+      memberCounts[identifier] = result.memberCount;
+
+      await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'telegram', identifier, syncStatus, {
+        ...syncStatus?.last_sync_data,
+        chats: cursors.chats,
+        member_counts: memberCounts,
+        messages_count: result.messageCount,
+        posts_stored: result.stored
+      }, []);
+
+      console.log(`   ${identifier}: ${result.memberCount} members, ${result.messageCount} new messages, ${result.stored} posts stored`);
+      return { stored: result.stored, messageCount: result.messageCount };
+    } catch (error) {
+      console.error(`Error syncing Telegram for ${bioDAO.name} (${identifier}):`, error);
+      await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'telegram', identifier, syncStatus, {
+        ...syncStatus?.last_sync_data
+      }, [{
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+        account: identifier
+      }]);
+      throw error;
+    }
+  }
+
+  async syncBioDAOTelegramData(bioDAO: BioDAO): Promise<void> {
+    try {
+      // Get Telegram channels and groups for this BioDAO
+      const telegramAccounts = await this.biodaoService.getSocialAccounts(bioDAO.id, 'telegram');
+
+      if (telegramAccounts.length === 0) {
+        console.log(`No Telegram chats found for ${bioDAO.name}`);
+        return;
+      }
+
+      let totalStored = 0;
+      let totalMessages = 0;
+      for (const account of telegramAccounts) {
+        try {
+          const result = await this.syncAccount(bioDAO, account);
+          totalStored += result.stored;
+          totalMessages += result.messageCount;
+        } catch {
+          // Already logged and recorded in the sync status; carry on with the next chat
+        }
+      }
+
+      console.log(`✅ Synced Telegram for ${bioDAO.name}: ${totalStored} posts stored, ${totalMessages} new messages`);
+    } catch (error) {
+      console.error(`Error in Telegram sync for ${bioDAO.name}:`, error);
+      throw error;
+    }
+  }
+
+  async syncAllBioDAOs(): Promise<void> {
+    try {
+      const bioDAOs = await this.biodaoService.getAllBioDAOs();
+      console.log(`🔄 Starting Telegram sync for ${bioDAOs.length} BioDAOs`);
+
+      for (const bioDAO of bioDAOs) {
+        await this.syncBioDAOTelegramData(bioDAO);
+      }
+
+      console.log('✅ Completed Telegram sync for all BioDAOs');
+    } catch (error) {
+      console.error('❌ Error in Telegram sync:', error);
+      throw error;
+    }
+  }
+}
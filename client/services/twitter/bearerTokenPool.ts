@@ -0,0 +1,233 @@
+import axios, { AxiosInstance } from 'axios';
+import { TWITTER_CONFIG } from './config';
+import { EndpointBudget, EndpointRateLimiter } from './endpointRateLimiter';
+import { XApiAuthError, XApiError } from './xApiErrors';
+
+export type TokenSelectionStrategy = 'round-robin' | 'least-used';
+
+// Anything the X API services accept as credentials: one token, a comma-separated list, an array or a pool
+export type BearerTokenSource = string | string[] | BearerTokenPool;
+
+export interface BearerTokenPoolOptions {
+  baseUrl?: string;
+  strategy?: TokenSelectionStrategy;
+  quarantineMs?: number; // How long a token is left out after a 401/403 (default 6 hours)
+  rateLimiter?: EndpointRateLimiter; // Only used with a single token, to share budgets with an existing limiter
+}
+
+/**
+ * One app token with its own HTTP client, per-endpoint budgets and usage counters
+ */
+export interface PooledToken {
+  id: string;
+  http: AxiosInstance;
+  rateLimiter: EndpointRateLimiter;
+  requests: number;
+  posts: number;
+  authFailures: number;
+  lastUsedAt: Date | null;
+  quarantinedUntil: Date | null;
+  quarantineReason: string | null;
+}
+
+export interface PooledTokenStatus {
+  id: string;
+  active: boolean;
+  requests: number;
+  posts: number;
+  auth_failures: number;
+  last_used_at: string | null;
+  quarantined_until: string | null;
+  quarantine_reason: string | null;
+  endpoint_budgets: EndpointBudget[];
+}
+
+/**
+ * Split TWITTER_BEARER_TOKEN into tokens; several may be given separated by commas or newlines
+ */
+export function parseBearerTokens(value: string | undefined): string[] {
+  return (value || '')
+    .split(/[,\n]/)
+    .map(token => token.trim())
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Spreads X API requests over several app tokens. Each token tracks its own per-endpoint
+ * rate limits; tokens that can call the endpoint right away are preferred, picked round-robin
+ * or by fewest requests. A token answered with 401/403 is quarantined and skipped until the
+ * quarantine ends, so one revoked app doesn't stop the sync.
+ */
+export class BearerTokenPool {
+  private tokens: PooledToken[];
+  private strategy: TokenSelectionStrategy;
+  private quarantineMs: number;
+  private nextIndex: number = 0;
+
+  constructor(bearerTokens: string[], options: BearerTokenPoolOptions = {}) {
+    if (bearerTokens.length === 0) {
+      throw new Error('BearerTokenPool needs at least one bearer token');
+    }
+
+    this.strategy = options.strategy ?? 'round-robin';
+    this.quarantineMs = options.quarantineMs ?? 6 * 60 * 60 * 1000;
+    this.tokens = bearerTokens.map((bearerToken, index) => {
+      const http = axios.create({
+        baseURL: options.baseUrl || TWITTER_CONFIG.BASE_URL,
+        headers: {
+          'Authorization': `Bearer ${bearerToken}`,
+        }
+      });
+
+      const rateLimiter = (bearerTokens.length === 1 && options.rateLimiter) || new EndpointRateLimiter();
+      // With several tokens XApiClient moves on to another token after a 429 instead of waiting
+      rateLimiter.attach(http, bearerTokens.length === 1);
+
+      return {
+        // Never expose the token itself; the last characters are enough to tell them apart
+        id: `token-${index + 1} (…${bearerToken.slice(-4)})`,
+        http,
+        rateLimiter,
+        requests: 0,
+        posts: 0,
+        authFailures: 0,
+        lastUsedAt: null,
+        quarantinedUntil: null,
+        quarantineReason: null
+      };
+    });
+  }
+
+  /**
+   * Build a pool from whatever the caller has; an existing pool is returned as is
+   */
+  static from(source: BearerTokenSource, options: BearerTokenPoolOptions = {}): BearerTokenPool {
+    if (source instanceof BearerTokenPool) return source;
+    const tokens = Array.isArray(source) ? source : parseBearerTokens(source);
+    // Keep an empty string working as before (requests fail with 401) rather than throwing here
+    return new BearerTokenPool(tokens.length > 0 ? tokens : [''], options);
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  private isActive(token: PooledToken, now: number = Date.now()): boolean {
+    return !token.quarantinedUntil || token.quarantinedUntil.getTime() <= now;
+  }
+
+  /**
+   * Pick the token for the next request to an endpoint
+   */
+  select(endpoint: string): PooledToken {
+    const now = Date.now();
+    const active = this.tokens.filter(token => this.isActive(token, now));
+
+    if (active.length === 0) {
+      const nextRelease = Math.min(...this.tokens.map(token => token.quarantinedUntil!.getTime()));
+      throw new XApiAuthError(
+        `All ${this.tokens.length} bearer tokens are quarantined after auth failures (next retry at ${new Date(nextRelease).toISOString()})`,
+        endpoint
+      );
+    }
+
+    // Lift quarantines that have run out
+    for (const token of active) {
+      if (token.quarantinedUntil) {
+        console.log(`🔑 Bearer ${token.id} back in the pool after quarantine`);
+        token.quarantinedUntil = null;
+        token.quarantineReason = null;
+      }
+    }
+
+    const ready = active.filter(token => token.rateLimiter.getWaitTime(endpoint) === 0);
+    if (ready.length === 0) {
+      // Every token is rate limited on this endpoint: take the one that resets first
+      return active.reduce((best, token) =>
+        token.rateLimiter.getWaitTime(endpoint) < best.rateLimiter.getWaitTime(endpoint) ? token : best
+      );
+    }
+
+    if (this.strategy === 'least-used') {
+      return ready.reduce((best, token) => token.requests < best.requests ? token : best);
+    }
+
+    // Round-robin over all tokens, skipping the ones that aren't ready
+    for (let offset = 0; offset < this.tokens.length; offset++) {
+      const token = this.tokens[(this.nextIndex + offset) % this.tokens.length]!;
+      if (ready.includes(token)) {
+        this.nextIndex = (this.tokens.indexOf(token) + 1) % this.tokens.length;
+        return token;
+      }
+    }
+    return ready[0]!;
+  }
+
+  /**
+   * Whether some active token can call the endpoint without waiting
+   */
+  hasCapacity(endpoint: string): boolean {
+    const now = Date.now();
+    return this.tokens.some(token => this.isActive(token, now) && token.rateLimiter.getWaitTime(endpoint) === 0);
+  }
+
+  recordRequest(token: PooledToken, posts: number = 0): void {
+    token.requests++;
+    token.posts += posts;
+    token.lastUsedAt = new Date();
+  }
+
+  /**
+   * Leave a token out after a 401/403; returns whether another token can take over
+   */
+  recordAuthFailure(token: PooledToken, error: XApiError): boolean {
+    token.authFailures++;
+    token.quarantinedUntil = new Date(Date.now() + this.quarantineMs);
+    token.quarantineReason = error.message;
+    console.warn(`🔒 Bearer ${token.id} quarantined until ${token.quarantinedUntil.toISOString()}: ${error.message}`);
+
+    return this.tokens.some(other => this.isActive(other));
+  }
+
+  /**
+   * Per-endpoint budgets summed over the active tokens
+   */
+  getBudgets(): EndpointBudget[] {
+    const now = Date.now();
+    const combined = new Map<string, EndpointBudget>();
+
+    for (const token of this.tokens.filter(candidate => this.isActive(candidate, now))) {
+      for (const budget of token.rateLimiter.getBudgets()) {
+        // A window that has reset counts as its full limit again
+        const remaining = budget.resetAt.getTime() <= now ? budget.limit : budget.remaining;
+        const existing = combined.get(budget.endpoint);
+        combined.set(budget.endpoint, existing
+          ? {
+            endpoint: budget.endpoint,
+            limit: existing.limit + budget.limit,
+            remaining: existing.remaining + remaining,
+            resetAt: budget.resetAt < existing.resetAt ? budget.resetAt : existing.resetAt,
+            updatedAt: budget.updatedAt > existing.updatedAt ? budget.updatedAt : existing.updatedAt
+          }
+          : { ...budget, remaining });
+      }
+    }
+
+    return Array.from(combined.values());
+  }
+
+  getStatus(): PooledTokenStatus[] {
+    const now = Date.now();
+    return this.tokens.map(token => ({
+      id: token.id,
+      active: this.isActive(token, now),
+      requests: token.requests,
+      posts: token.posts,
+      auth_failures: token.authFailures,
+      last_used_at: token.lastUsedAt ? token.lastUsedAt.toISOString() : null,
+      quarantined_until: token.quarantinedUntil && token.quarantinedUntil.getTime() > now ? token.quarantinedUntil.toISOString() : null,
+      quarantine_reason: token.quarantinedUntil && token.quarantinedUntil.getTime() > now ? token.quarantineReason : null,
+      endpoint_budgets: token.rateLimiter.getBudgets()
+    }));
+  }
+}
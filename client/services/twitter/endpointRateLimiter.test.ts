@@ -0,0 +1,98 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import axios, { AxiosInstance } from 'axios';
+import { MockXApiServer } from '../../mock/xApiMockServer';
+import { EndpointRateLimiter } from './endpointRateLimiter';
+
+const LOOKUP = 'GET /users/by/username/:username';
+
+describe('EndpointRateLimiter against the mock X API', () => {
+  let server: MockXApiServer;
+  let baseURL: string;
+
+  before(async () => {
+    // Two lookups per one-second window, so resets come quickly
+    server = new MockXApiServer({
+      users: [{ id: '1001', username: 'vitadao', name: 'VitaDAO', followers_count: 1200 }],
+      rateLimits: { [LOOKUP]: 2 }
+    }, { rateLimitWindowSeconds: 1 });
+    baseURL = await server.start();
+  });
+
+  after(() => server.stop());
+
+  beforeEach(() => server.reset());
+
+  function createClient(limiter: EndpointRateLimiter, retryAfterLimit: boolean = true): AxiosInstance {
+    const client = axios.create({ baseURL, headers: { Authorization: 'Bearer test-token' } });
+    limiter.attach(client, retryAfterLimit);
+    return client;
+  }
+
+  test('records the budget reported in the response headers', async () => {
+    const limiter = new EndpointRateLimiter();
+    await createClient(limiter).get('/users/by/username/vitadao');
+
+    const budget = limiter.getBudget(LOOKUP);
+    assert.ok(budget);
+    assert.equal(budget.limit, 2);
+    assert.equal(budget.remaining, 1);
+    assert.ok(budget.resetAt.getTime() > Date.now() - 1000);
+  });
+
+  test('waits for the reset once the budget is used up', async () => {
+    const limiter = new EndpointRateLimiter();
+    const client = createClient(limiter);
+    await client.get('/users/by/username/vitadao');
+    await client.get('/users/by/username/vitadao');
+    assert.ok(limiter.getWaitTime(LOOKUP) > 0);
+
+    const startedAt = Date.now();
+    const response = await client.get('/users/by/username/vitadao');
+
+    assert.equal(response.status, 200);
+    assert.ok(Date.now() - startedAt >= 900, 'the third request should wait for the window to reset');
+    assert.equal(limiter.getBudget(LOOKUP)?.remaining, 1);
+  });
+
+  test('retries a 429 once after the reset it reports', async () => {
+    const limiter = new EndpointRateLimiter();
+    server.injectFault(429, 1, LOOKUP);
+
+    const startedAt = Date.now();
+    const response = await createClient(limiter).get('/users/by/username/vitadao');
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data.data.username, 'vitadao');
+    assert.ok(Date.now() - startedAt >= 900, 'the retry should wait for the reported reset');
+  });
+
+  test('gives up when the retry is rate limited too', async () => {
+    const limiter = new EndpointRateLimiter();
+    server.injectFault(429, 2, LOOKUP);
+
+    await assert.rejects(
+      createClient(limiter).get('/users/by/username/vitadao'),
+      (error: unknown) => axios.isAxiosError(error) && error.response?.status === 429
+    );
+  });
+
+  test('leaves the endpoint exhausted when retries are off', async () => {
+    const limiter = new EndpointRateLimiter();
+    server.injectFault(429, 1, LOOKUP);
+
+    await assert.rejects(createClient(limiter, false).get('/users/by/username/vitadao'));
+
+    assert.equal(limiter.getBudget(LOOKUP)?.remaining, 0);
+    assert.ok(limiter.getWaitTime(LOOKUP) > 0);
+  });
+
+  test('falls back to a one minute wait for a 429 without headers', () => {
+    const limiter = new EndpointRateLimiter();
+    assert.equal(limiter.updateFromHeaders(LOOKUP, {}), false);
+
+    limiter.markExhausted(LOOKUP);
+    const waitTime = limiter.getWaitTime(LOOKUP);
+    assert.ok(waitTime > 59 * 1000 && waitTime <= 61 * 1000);
+  });
+});
@@ -0,0 +1,165 @@
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export interface EndpointBudget {
+  endpoint: string;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  updatedAt: Date;
+}
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _rateLimitRetried?: boolean;
+}
+
+// Fallback when a 429 arrives without a usable x-rate-limit-reset header
+const DEFAULT_RESET_WAIT_MS = 60 * 1000;
+
+// Small margin so we don't hit the endpoint again a moment before X resets it
+const RESET_MARGIN_MS = 1000;
+
+/**
+ * Tracks the X API rate limit budget for each endpoint from the
+ * x-rate-limit-limit / x-rate-limit-remaining / x-rate-limit-reset response headers
+ */
+export class EndpointRateLimiter {
+  private budgets = new Map<string, EndpointBudget>();
+
+  /**
+   * Group request paths by endpoint, e.g. /users/123/tweets -> /users/:id/tweets
+   */
+  static endpointKey(method: string | undefined, url: string | undefined): string {
+    const path = (url || '').split('?')[0] || '';
+    const segments = path.split('/').map((segment, index, all) => {
+      if (all[index - 1] === 'username') return ':username';
+      if (/^\d+$/.test(segment)) return ':id';
+      return segment;
+    });
+    return `${(method || 'get').toUpperCase()} ${segments.join('/')}`;
+  }
+
+  /**
+   * Record the budget reported by a response; returns false if the headers are missing
+   */
+  updateFromHeaders(endpoint: string, headers: Record<string, any> | undefined): boolean {
+    const limit = parseInt(headers?.['x-rate-limit-limit'], 10);
+    const remaining = parseInt(headers?.['x-rate-limit-remaining'], 10);
+    const reset = parseInt(headers?.['x-rate-limit-reset'], 10);
+
+    if ([limit, remaining, reset].some(value => Number.isNaN(value))) {
+      return false;
+    }
+
+    this.budgets.set(endpoint, {
+      endpoint,
+      limit,
+      remaining,
+      resetAt: new Date(reset * 1000),
+      updatedAt: new Date()
+    });
+    return true;
+  }
+
+  /**
+   * Mark an endpoint as exhausted after a 429 without usable headers
+   */
+  markExhausted(endpoint: string, resetAt: Date = new Date(Date.now() + DEFAULT_RESET_WAIT_MS)): void {
+    const existing = this.budgets.get(endpoint);
+    this.budgets.set(endpoint, {
+      endpoint,
+      limit: existing?.limit ?? 0,
+      remaining: 0,
+      resetAt,
+      updatedAt: new Date()
+    });
+  }
+
+  /**
+   * Milliseconds to wait before the endpoint can be called again (0 if it can be called now)
+   */
+  getWaitTime(endpoint: string): number {
+    const budget = this.budgets.get(endpoint);
+    if (!budget || budget.remaining > 0) return 0;
+    return Math.max(0, budget.resetAt.getTime() + RESET_MARGIN_MS - Date.now());
+  }
+
+  /**
+   * Wait until the endpoint's budget resets if it is used up
+   */
+  async waitForCapacity(endpoint: string): Promise<void> {
+    const waitTime = this.getWaitTime(endpoint);
+    if (waitTime > 0) {
+      console.log(`Rate limit for ${endpoint} used up. Waiting ${Math.ceil(waitTime / 1000)} seconds until reset...`);
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+
+    // Optimistically spend one request so concurrent callers queue up behind the reset
+    const budget = this.budgets.get(endpoint);
+    if (budget) {
+      if (budget.resetAt.getTime() <= Date.now()) {
+        budget.remaining = budget.limit;
+      }
+      budget.remaining = Math.max(0, budget.remaining - 1);
+    }
+  }
+
+  /**
+   * Current budget for one endpoint, if any response has reported it
+   */
+  getBudget(endpoint: string): EndpointBudget | undefined {
+    const budget = this.budgets.get(endpoint);
+    return budget ? { ...budget } : undefined;
+  }
+
+  /**
+   * Current budgets for every endpoint seen so far
+   */
+  getBudgets(): EndpointBudget[] {
+    return Array.from(this.budgets.values()).map(budget => ({ ...budget }));
+  }
+
+  /**
+   * Wait before requests, read headers from responses and (unless retryAfterLimit is false)
+   * retry once after a 429
+   */
+  attach(client: AxiosInstance, retryAfterLimit: boolean = true): void {
+    client.interceptors.request.use(async config => {
+      await this.waitForCapacity(EndpointRateLimiter.endpointKey(config.method, config.url));
+      return config;
+    });
+
+    client.interceptors.response.use(
+      (response: AxiosResponse) => {
+        this.updateFromHeaders(EndpointRateLimiter.endpointKey(response.config.method, response.config.url), response.headers);
+        return response;
+      },
+      async error => {
+        if (!axios.isAxiosError(error) || !error.config || !error.response) {
+          throw error;
+        }
+
+        const config = error.config as RetryableRequestConfig;
+        const endpoint = EndpointRateLimiter.endpointKey(config.method, config.url);
+        const hasHeaders = this.updateFromHeaders(endpoint, error.response.headers);
+
+        if (error.response.status !== 429) {
+          throw error;
+        }
+
+        if (!hasHeaders) {
+          this.markExhausted(endpoint);
+        } else {
+          // Some 429s still report remaining > 0 (e.g. app-wide limits); treat the endpoint as exhausted
+          this.markExhausted(endpoint, this.budgets.get(endpoint)!.resetAt);
+        }
+
+        if (!retryAfterLimit || config._rateLimitRetried) {
+          throw error;
+        }
+
+        config._rateLimitRetried = true;
+        return client.request(config);
+      }
+    );
+  }
+}
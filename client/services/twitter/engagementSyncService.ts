@@ -1,15 +1,25 @@
 import { supabase } from '../supabase/client.js';
-import TwitterService from './twitterService.js';
+import { XApiClient } from './xApiClient.js';
+import { BearerTokenSource } from './bearerTokenPool.js';
+import { XApiNotFoundError, XApiProtectedError, XApiRateLimitedError, XApiSuspendedError } from './xApiErrors.js';
 import { TwitterPost } from './types.js';
+import { ACCOUNT_TWEETS_TABLE } from '../dao/daoTwitterService.js';
+import { validateTweetData, recordMetricsSnapshots } from './tweetStorage.js';
 import { RateLimitManager } from './rateLimitManager.js';
 import { SyncLogger } from './syncLogger.js';
+import { SyncAlreadyRunningError } from './syncErrors.js';
+import { recordAccountSync } from '../metrics/syncMetrics.js';
 
 export interface EngagementSyncOptions {
   daysToLookBack: number;
   syncIntervalHours: number;
   maxRequestsPerBatch: number;
+  maxTimelinePages?: number; // Timeline pages to follow per sync when an account has many new tweets
 }
 
+// Enough to catch up after a missed sync without draining the monthly post budget
+const DEFAULT_MAX_TIMELINE_PAGES = 5;
+
 export interface SyncStats {
   totalTweetsProcessed: number;
   tweetsUpdated: number;
@@ -17,149 +27,76 @@ export interface SyncStats {
   apiRequestsUsed: number;
   syncDuration: number;
   errors: string[];
+  unavailableHandles?: string[]; // Handles the X API reports as suspended or deleted
+}
+
+export interface SyncProgress {
+  accountsTotal: number;
+  accountsProcessed: number;
+  currentAccount?: string;
+}
+
+export type SyncProgressCallback = (progress: SyncProgress) => void;
+
+// Decides how many days of tweets an account refreshes (e.g. SyncBudgetPlanner when posts run short)
+export interface LookbackPolicy {
+  getLookbackDays(accountId: string): number;
+}
+
+// Takes over the new tweets a sync left unfetched at the page limit (e.g. by queueing a backfill).
+// `since` is the creation time of the newest tweet stored before the sync.
+export interface TimelineGapHandler {
+  onTimelineGap(account: { id: string; slug: string }, since: Date): Promise<void>;
 }
 
 export class EngagementSyncService {
-  private twitterService: TwitterService;
+  private apiClient: XApiClient;
   private rateLimitManager: RateLimitManager;
   private logger: SyncLogger;
   private syncInterval: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
-  private lastApiErrorTime: number = 0;
-
-  /**
-   * Safely convert Twitter date to PostgreSQL timestamp format
-   */
-  private formatTwitterDate(dateString: string): string {
-    try {
-      const date = new Date(dateString);
-      if (isNaN(date.getTime())) {
-        throw new Error('Invalid date');
-      }
-      return date.toISOString();
-    } catch (error) {
-      this.logger.warn(`Invalid date format: ${dateString}, using current timestamp`);
-      return new Date().toISOString();
-    }
-  }
-
-  /**
-   * Validate and sanitize tweet data before database insertion
-   */
-  private validateTweetData(tweet: any, account: any): { isValid: boolean; data?: any; error?: string } {
-    try {
-      // Check required fields
-      if (!tweet.id || typeof tweet.id !== 'string') {
-        return { isValid: false, error: 'Missing or invalid tweet ID' };
-      }
-
-      if (!tweet.text || typeof tweet.text !== 'string') {
-        return { isValid: false, error: 'Missing or invalid tweet text' };
-      }
-
-      if (!tweet.created_at || typeof tweet.created_at !== 'string') {
-        return { isValid: false, error: 'Missing or invalid tweet created_at' };
-      }
-
-      // Ensure text is not too long (PostgreSQL text limit)
-      const truncatedText = tweet.text.length > 5000 ? tweet.text.substring(0, 5000) + '...' : tweet.text;
-
-      // Format and validate date
-      const formattedDate = this.formatTwitterDate(tweet.created_at);
-
-      // Sanitize metrics
-      const metrics = tweet.public_metrics || {};
-      const safeMetrics = {
-        retweet_count: Math.max(0, parseInt(metrics.retweet_count) || 0),
-        reply_count: Math.max(0, parseInt(metrics.reply_count) || 0),
-        like_count: Math.max(0, parseInt(metrics.like_count) || 0),
-        quote_count: Math.max(0, parseInt(metrics.quote_count) || 0),
-        view_count: Math.max(0, parseInt(metrics.impression_count) || 0)
-      };
-
-      const tweetData = {
-        id: tweet.id,
-        type: 'tweet',
-        url: `https://x.com/${account.twitter_handle}/status/${tweet.id}`,
-        twitter_url: `https://twitter.com/${account.twitter_handle}/status/${tweet.id}`,
-        text: truncatedText,
-        source: (tweet.source || '').toString().substring(0, 255), // Limit source length
-        retweet_count: safeMetrics.retweet_count,
-        reply_count: safeMetrics.reply_count,
-        like_count: safeMetrics.like_count,
-        quote_count: safeMetrics.quote_count,
-        view_count: safeMetrics.view_count,
-        bookmark_count: 0, // Not available in Twitter API v2
-        created_at: formattedDate,
-        lang: ((tweet.lang || 'en').toString().substring(0, 10)), // Limit language code length
-        is_reply: Boolean(tweet.in_reply_to_user_id),
-        in_reply_to_id: tweet.in_reply_to_status_id || null,
-        conversation_id: tweet.conversation_id || tweet.id,
-        in_reply_to_user_id: tweet.in_reply_to_user_id || null,
-        in_reply_to_username: null,
-        author_username: account.twitter_handle,
-        author_name: account.name,
-        author_id: tweet.author_id || null,
-        mentions: Array.isArray(tweet.entities?.mentions) ? tweet.entities.mentions : [],
-        hashtags: Array.isArray(tweet.entities?.hashtags) ? tweet.entities.hashtags : [],
-        urls: Array.isArray(tweet.entities?.urls) ? tweet.entities.urls : [],
-        media: Array.isArray(tweet.attachments?.media_keys) ? tweet.attachments.media_keys : [],
-        raw_data: tweet,
-        synced_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-
-      return { isValid: true, data: tweetData };
-    } catch (error) {
-      return { isValid: false, error: `Data validation failed: ${error instanceof Error ? error.message : String(error)}` };
-    }
-  }
+  private lookbackPolicy: LookbackPolicy | null = null;
+  private timelineGapHandler: TimelineGapHandler | null = null;
 
   constructor(
-    bearerToken: string,
+    bearerToken: BearerTokenSource,
     private options: EngagementSyncOptions = {
       daysToLookBack: 5,
       syncIntervalHours: 2,
       maxRequestsPerBatch: 5  // Conservative batch size for 15 req/15min limit
-    }
+    },
+    rateLimitManager: RateLimitManager = new RateLimitManager(),
+    apiClient: XApiClient = new XApiClient(bearerToken, { rateLimitManager })
   ) {
-    this.twitterService = new TwitterService(bearerToken);
-    this.rateLimitManager = new RateLimitManager();
+    // The client does the request/post accounting against rateLimitManager
+    this.apiClient = apiClient;
+    this.rateLimitManager = rateLimitManager;
     this.logger = new SyncLogger('EngagementSync');
   }
 
   /**
-   * Wait for 15 minutes after API error before retrying
+   * Use a per-account lookback instead of options.daysToLookBack
    */
-  private async waitForApiErrorCooldown(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastError = now - this.lastApiErrorTime;
-    const waitTime = 15 * 60 * 1000; // 15 minutes in milliseconds
-    
-    if (timeSinceLastError < waitTime) {
-      const remainingWait = waitTime - timeSinceLastError;
-      this.logger.warn(`API error cooldown: waiting ${Math.round(remainingWait / 1000 / 60)} minutes before retry`);
-      await new Promise(resolve => setTimeout(resolve, remainingWait));
-    }
+  setLookbackPolicy(policy: LookbackPolicy | null): void {
+    this.lookbackPolicy = policy;
   }
 
   /**
-   * Handle API errors with automatic retry after 15 minutes
+   * Hand tweets beyond maxTimelinePages to `handler`; without one they are only logged
    */
-  private async handleApiError(error: any, context: string): Promise<void> {
-    this.lastApiErrorTime = Date.now();
+  setTimelineGapHandler(handler: TimelineGapHandler | null): void {
+    this.timelineGapHandler = handler;
+  }
+
+  /**
+   * Log API errors; rate limited requests are already retried after the endpoint's reset time
+   */
+  private handleApiError(error: any, context: string): void {
     this.logger.error(`API error in ${context}: ${error.message || error}`, error);
-    
-    // Check if it's a rate limit or API error that should trigger cooldown
-    const errorMessage = (error.message || error.toString()).toLowerCase();
-    const shouldWait = errorMessage.includes('rate limit') || 
-                      errorMessage.includes('too many requests') ||
-                      errorMessage.includes('429') ||
-                      errorMessage.includes('service unavailable') ||
-                      errorMessage.includes('503');
-    
-    if (shouldWait) {
-      this.logger.warn('API error detected - will wait 15 minutes before next retry');
+
+    if (error instanceof XApiRateLimitedError) {
+      const resetAt = error.resetAt ? error.resetAt.toISOString() : 'unknown';
+      this.logger.warn(`Rate limited on ${error.endpoint} - next request waits for the reset at ${resetAt}`);
     }
   }
 
@@ -190,35 +127,39 @@ export class EngagementSyncService {
    */
   private async getTwitterUserId(username: string): Promise<string | null> {
     try {
-      await this.waitForApiErrorCooldown();
-      await this.rateLimitManager.checkRateLimit();
-      const user = await this.twitterService.getUserByUsername(username);
-      this.rateLimitManager.incrementRequestCount();
-      return user ? user.id : null;
+      const user = await this.apiClient.getUserByUsername(username, 'id,username,public_metrics');
+      return user.id;
     } catch (error) {
-      await this.handleApiError(error, `getTwitterUserId(@${username})`);
+      // Suspended and deleted accounts won't come back by retrying; the caller reports them
+      if (error instanceof XApiNotFoundError || error instanceof XApiSuspendedError) {
+        throw error;
+      }
+      if (error instanceof XApiProtectedError) {
+        this.logger.warn(`@${username} is unavailable: ${error.message}`);
+      } else {
+        this.handleApiError(error, `getTwitterUserId(@${username})`);
+      }
       return null;
     }
   }
 
   /**
-   * Get the last synced tweet ID for an account to avoid duplicates  
+   * Get the last synced tweet for an account to avoid duplicates
    */
-  private async getLastSyncedTweetId(accountSlug: string): Promise<string | null> {
-    const tableName = `account_${accountSlug}_tweets`;
-    
+  private async getLastSyncedTweet(account: any): Promise<{ id: string; created_at: string } | null> {
     const { data, error } = await supabase
-      .from(tableName)
-      .select('id')
+      .from(ACCOUNT_TWEETS_TABLE)
+      .select('id, created_at')
+      .eq('account_id', account.id)
       .order('created_at', { ascending: false })
       .limit(1);
 
     if (error) {
-      this.logger.error(`Failed to get last synced tweet for ${accountSlug}`, error);
+      this.logger.error(`Failed to get last synced tweet for ${account.slug}`, error);
       return null;
     }
 
-    return data && data.length > 0 && data[0] ? data[0].id : null;
+    return data && data.length > 0 && data[0] ? data[0] : null;
   }
 
   /**
@@ -234,38 +175,60 @@ export class EngagementSyncService {
       }
 
       // Get last synced tweet ID to avoid duplicates
-      const lastTweetId = await this.getLastSyncedTweetId(account.slug);
-      
+      const lastTweet = await this.getLastSyncedTweet(account);
+      const lastTweetId = lastTweet?.id;
+
       this.logger.info(`Fetching new tweets for ${account.name} since ${lastTweetId || 'beginning'}`);
 
-      // Fetch new tweets from timeline
-      await this.waitForApiErrorCooldown();
-      await this.rateLimitManager.checkRateLimit();
-      const newTweets = await this.twitterService.fetchUserTweets(userId, lastTweetId || undefined);
-      this.rateLimitManager.incrementRequestCount();
+      // Fetch new tweets from timeline, following pagination until we reach lastTweetId
+      const { tweets: newTweets, nextToken } = await this.apiClient.getUserTimeline(userId, {
+        sinceId: lastTweetId || undefined,
+        maxPages: this.options.maxTimelinePages ?? DEFAULT_MAX_TIMELINE_PAGES
+      });
 
       this.logger.info(`Found ${newTweets.length} new tweets for ${account.name}`);
+      // The next sync starts after the newest of these, so older new tweets would be skipped for good
+      if (nextToken && lastTweet) {
+        await this.handleTimelineGap(account, new Date(lastTweet.created_at));
+      }
       return newTweets;
 
     } catch (error) {
-      await this.handleApiError(error, `fetchNewTweetsFromTimeline(${account.name})`);
+      if (error instanceof XApiNotFoundError || error instanceof XApiSuspendedError) {
+        throw error;
+      }
+      this.handleApiError(error, `fetchNewTweetsFromTimeline(${account.name})`);
       return [];
     }
   }
 
+  private async handleTimelineGap(account: any, since: Date): Promise<void> {
+    if (!this.timelineGapHandler) {
+      this.logger.warn(`More new tweets remain for ${account.name} than the page limit allows - run a backfill with --since ${since.toISOString().split('T')[0]} to fetch the rest`);
+      return;
+    }
+
+    try {
+      await this.timelineGapHandler.onTimelineGap(account, since);
+    } catch (error) {
+      this.logger.error(`Failed to hand over the unfetched tweets of ${account.name} since ${since.toISOString()}`, error);
+    }
+  }
+
   /**
    * Store new tweets in the database
    */
   private async storeNewTweets(account: any, tweets: TwitterPost[]): Promise<number> {
     if (tweets.length === 0) return 0;
 
-    const tableName = `account_${account.slug}_tweets`;
+    const tableName = ACCOUNT_TWEETS_TABLE;
+    const snapshots: any[] = [];
     let stored = 0;
 
     for (const tweet of tweets) {
       try {
         // Validate and sanitize tweet data
-        const validation = this.validateTweetData(tweet, account);
+        const validation = validateTweetData(tweet, account);
         if (!validation.isValid) {
           this.logger.error(`Invalid tweet data for ${tweet.id || 'unknown'}: ${validation.error}`, {
             tweetId: tweet.id,
@@ -297,6 +260,7 @@ export class EngagementSyncService {
           }
         } else {
           stored++;
+          snapshots.push(validation.data);
           this.logger.debug(`Stored new tweet ${tweet.id}`);
         }
       } catch (error) {
@@ -310,26 +274,31 @@ export class EngagementSyncService {
       }
     }
 
+    try {
+      await recordMetricsSnapshots(account.id, snapshots);
+    } catch (snapshotError) {
+      // History is best-effort; the latest counts are already stored on the tweet
+      this.logger.warn(`Failed to record metrics history for ${account.slug}`, snapshotError);
+    }
     return stored;
   }
 
   /**
    * Get tweets from the last N days for a specific account
    */
-  private async getRecentTweets(accountSlug: string, days: number = 5) {
+  private async getRecentTweets(account: any, days: number = 5) {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
 
-    const tableName = `account_${accountSlug}_tweets`;
-    
     const { data, error } = await supabase
-      .from(tableName)
+      .from(ACCOUNT_TWEETS_TABLE)
       .select('*')
+      .eq('account_id', account.id)
       .gte('created_at', cutoffDate.toISOString())
       .order('created_at', { ascending: false });
 
     if (error) {
-      this.logger.error(`Failed to fetch recent tweets for ${accountSlug}`, error);
+      this.logger.error(`Failed to fetch recent tweets for ${account.slug}`, error);
       return [];
     }
 
@@ -341,15 +310,10 @@ export class EngagementSyncService {
    */
   private async fetchEngagementData(tweetIds: string[]): Promise<TwitterPost[]> {
     try {
-      await this.waitForApiErrorCooldown();
-      await this.rateLimitManager.checkRateLimit();
-      
       // Use Twitter API v2 to get tweet details by IDs
-      const response = await this.twitterService.getTweetsByIds(tweetIds);
-      this.rateLimitManager.incrementRequestCount();
-      return response;
+      return await this.apiClient.getTweetsByIds(tweetIds);
     } catch (error) {
-      await this.handleApiError(error, `fetchEngagementData(${tweetIds.length} tweets)`);
+      this.handleApiError(error, `fetchEngagementData(${tweetIds.length} tweets)`);
       throw error;
     }
   }
@@ -358,20 +322,19 @@ export class EngagementSyncService {
    * Update engagement metrics in Supabase
    */
   private async updateEngagementMetrics(
-    accountSlug: string,
+    account: any,
     tweets: TwitterPost[]
   ): Promise<{ updated: number; added: number }> {
-    const tableName = `account_${accountSlug}_tweets`;
+    const accountSlug = account.slug;
+    const tableName = ACCOUNT_TWEETS_TABLE;
+    const snapshots: any[] = [];
     let updated = 0;
     let added = 0;
 
     for (const tweet of tweets) {
       try {
-        // Find the account info for validation
-        const account = { slug: accountSlug, twitter_handle: 'unknown', name: 'unknown' };
-        
         // Validate and sanitize tweet data
-        const validation = this.validateTweetData(tweet, account);
+        const validation = validateTweetData(tweet, account);
         if (!validation.isValid) {
           this.logger.error(`Invalid tweet data for ${tweet.id || 'unknown'}: ${validation.error}`, {
             tweetId: tweet.id,
@@ -384,8 +347,9 @@ export class EngagementSyncService {
         const { data: existingTweet } = await supabase
           .from(tableName)
           .select('id, like_count, retweet_count, reply_count, quote_count')
+          .eq('account_id', account.id)
           .eq('id', tweet.id)
-          .single();
+          .maybeSingle();
 
         // For updates, we only need engagement metrics and timestamps
         const updateData = {
@@ -406,6 +370,7 @@ export class EngagementSyncService {
           const { error } = await supabase
             .from(tableName)
             .update(updateData)
+            .eq('account_id', account.id)
             .eq('id', tweet.id);
 
           if (error) {
@@ -421,6 +386,7 @@ export class EngagementSyncService {
             });
           } else {
             updated++;
+            snapshots.push(updateData);
             this.logger.debug(`Updated engagement for tweet ${tweet.id}`);
           }
         } else {
@@ -442,6 +408,7 @@ export class EngagementSyncService {
             });
           } else {
             added++;
+            snapshots.push(validation.data);
             this.logger.debug(`Added new tweet ${tweet.id}`);
           }
         }
@@ -456,6 +423,12 @@ export class EngagementSyncService {
       }
     }
 
+    try {
+      await recordMetricsSnapshots(account.id, snapshots);
+    } catch (snapshotError) {
+      // History is best-effort; the latest counts are already stored on the tweet
+      this.logger.warn(`Failed to record metrics history for ${account.slug}`, snapshotError);
+    }
     return { updated, added };
   }
 
@@ -477,7 +450,18 @@ export class EngagementSyncService {
 
       // Step 1: Fetch and store new tweets from Twitter timeline
       this.logger.info(`Fetching new tweets from timeline for ${account.name}`);
-      const newTweets = await this.fetchNewTweetsFromTimeline(account);
+      let newTweets: TwitterPost[];
+      try {
+        newTweets = await this.fetchNewTweetsFromTimeline(account);
+      } catch (error) {
+        if (!(error instanceof XApiNotFoundError || error instanceof XApiSuspendedError)) throw error;
+
+        // Refreshing the stored tweets of a suspended or deleted account would fail too
+        this.logger.warn(`@${account.twitter_handle} is unavailable: ${error.message}`);
+        stats.unavailableHandles = [account.twitter_handle];
+        stats.errors?.push(`@${account.twitter_handle} is unavailable: ${error.message}`);
+        return stats;
+      }
       const newTweetsStored = await this.storeNewTweets(account, newTweets);
       
       stats.tweetsAdded = newTweetsStored;
@@ -486,7 +470,8 @@ export class EngagementSyncService {
       this.logger.info(`Stored ${newTweetsStored} new tweets for ${account.name}`);
 
       // Step 2: Get recent tweets from our database (including newly added ones)
-      const recentTweets = await this.getRecentTweets(account.slug, this.options.daysToLookBack);
+      const lookbackDays = this.lookbackPolicy?.getLookbackDays(account.id) ?? this.options.daysToLookBack;
+      const recentTweets = await this.getRecentTweets(account, lookbackDays);
       
       if (recentTweets.length === 0) {
         this.logger.info(`No recent tweets found for ${account.name}`);
@@ -514,7 +499,7 @@ export class EngagementSyncService {
           stats.apiRequestsUsed = (stats.apiRequestsUsed || 0) + 1;
 
           // Update engagement metrics
-          const { updated, added } = await this.updateEngagementMetrics(account.slug, freshTweets);
+          const { updated, added } = await this.updateEngagementMetrics(account, freshTweets);
           
           stats.tweetsUpdated = (stats.tweetsUpdated || 0) + updated;
           stats.tweetsAdded = (stats.tweetsAdded || 0) + added;
@@ -543,13 +528,68 @@ export class EngagementSyncService {
     return stats;
   }
 
+  /**
+   * Get a single account with a Twitter handle by slug
+   */
+  private async getDAOTwitterAccountBySlug(slug: string) {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select(`
+        id,
+        slug,
+        twitter_handle,
+        name
+      `)
+      .eq('slug', slug)
+      .not('twitter_handle', 'is', null)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to fetch account ${slug}`, error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Whether a sync cycle is currently in progress
+   */
+  isSyncRunning(): boolean {
+    return this.isRunning;
+  }
+
   /**
    * Run engagement sync for all accounts
    */
-  async runEngagementSync(): Promise<SyncStats> {
+  async runEngagementSync(onProgress?: SyncProgressCallback): Promise<SyncStats> {
+    return this.runSyncCycle('Twitter engagement sync cycle', () => this.getDAOTwitterAccounts(), onProgress);
+  }
+
+  /**
+   * Run engagement sync for a single account
+   */
+  async runAccountSync(accountSlug: string, onProgress?: SyncProgressCallback): Promise<SyncStats> {
+    return this.runSyncCycle(`engagement sync for ${accountSlug}`, async () => {
+      const account = await this.getDAOTwitterAccountBySlug(accountSlug);
+      if (!account) {
+        throw new Error(`Account ${accountSlug} not found or has no Twitter handle`);
+      }
+      return [account];
+    }, onProgress);
+  }
+
+  /**
+   * Sync the given accounts one by one, guarded against overlapping runs
+   */
+  private async runSyncCycle(
+    label: string,
+    loadAccounts: () => Promise<any[]>,
+    onProgress?: SyncProgressCallback
+  ): Promise<SyncStats> {
     if (this.isRunning) {
       this.logger.warn('Engagement sync already running, skipping...');
-      throw new Error('Sync already in progress');
+      throw new SyncAlreadyRunningError('engagement');
     }
 
     this.isRunning = true;
@@ -561,16 +601,22 @@ export class EngagementSyncService {
       tweetsAdded: 0,
       apiRequestsUsed: 0,
       syncDuration: 0,
-      errors: []
+      errors: [],
+      unavailableHandles: []
     };
 
     try {
-      this.logger.info('Starting Twitter engagement sync cycle');
+      this.logger.info(`Starting ${label}`);
 
-      const accounts = await this.getDAOTwitterAccounts();
+      const accounts = await loadAccounts();
       this.logger.info(`Found ${accounts.length} accounts with Twitter handles`);
 
+      let accountsProcessed = 0;
+      onProgress?.({ accountsTotal: accounts.length, accountsProcessed });
+
       for (const account of accounts) {
+        onProgress?.({ accountsTotal: accounts.length, accountsProcessed, currentAccount: account.slug });
+
         try {
           const accountStats = await this.syncDAOEngagement(account);
           
@@ -580,12 +626,22 @@ export class EngagementSyncService {
           aggregateStats.tweetsAdded += accountStats.tweetsAdded || 0;
           aggregateStats.apiRequestsUsed += accountStats.apiRequestsUsed || 0;
           aggregateStats.errors.push(...(accountStats.errors || []));
+          aggregateStats.unavailableHandles!.push(...(accountStats.unavailableHandles || []));
+
+          recordAccountSync('EngagementSync', account.slug, {
+            ...accountStats,
+            errorCount: accountStats.errors?.length || 0
+          });
 
         } catch (error) {
           const errorMsg = `Failed to sync account ${account.name}: ${error}`;
           aggregateStats.errors.push(errorMsg);
           this.logger.error(errorMsg, error);
+          recordAccountSync('EngagementSync', account.slug, { errorCount: 1 });
         }
+
+        accountsProcessed++;
+        onProgress?.({ accountsTotal: accounts.length, accountsProcessed });
       }
 
       aggregateStats.syncDuration = Date.now() - overallStartTime;
@@ -615,7 +671,6 @@ export class EngagementSyncService {
     }
 
     this.logger.info(`Starting automatic engagement sync every ${this.options.syncIntervalHours} hours`);
-    this.logger.info('📋 Note: API errors will trigger 15-minute cooldown periods');
 
     // Run initial sync
     this.runEngagementSync().catch(error => {
@@ -625,10 +680,8 @@ export class EngagementSyncService {
     // Set up interval
     this.syncInterval = setInterval(
       () => {
-        // Check if we're in API error cooldown before running sync
-        const timeSinceLastError = Date.now() - this.lastApiErrorTime;
-        if (timeSinceLastError < 15 * 60 * 1000) {
-          this.logger.info('Skipping scheduled sync - still in API error cooldown period');
+        if (this.isRunning) {
+          this.logger.info('Skipping scheduled sync - a sync is already in progress');
           return;
         }
         
@@ -662,6 +715,8 @@ export class EngagementSyncService {
       isAutomatic: !!this.syncInterval,
       rateLimitStatus: this.rateLimitManager.getStatus(),
       rateLimitUsage: this.rateLimitManager.getUsageStats(),
+      rateLimitConfig: this.rateLimitManager.getLimits(),
+      endpointRateLimits: this.apiClient.getRateLimitBudgets(),
       options: this.options
     };
   }
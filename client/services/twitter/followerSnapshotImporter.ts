@@ -0,0 +1,248 @@
+import { supabase, supabaseAdmin } from '../supabase/client';
+import { Account } from '../types/dao';
+import TwitterFollowerService from './twitterFollowerService';
+
+export type SnapshotImportSource = 'csv' | 'legacy_history';
+
+// One row of an import file; `account` is a slug, Twitter handle or account id
+export interface CsvFollowerCount {
+  line: number;
+  account: string | null;
+  date: string;
+  follower_count: number;
+}
+
+export interface SnapshotImportOptions {
+  overwrite?: boolean; // Replace snapshots the sync already recorded (default: only fill missing or interpolated dates)
+  dryRun?: boolean;
+  maxGapDays?: number; // Gaps up to this long are interpolated after the import (default 31)
+}
+
+export interface SnapshotImportResult {
+  account_id: string;
+  slug: string;
+  source: SnapshotImportSource;
+  days_read: number;
+  inserted: number;
+  replaced_interpolated: number;
+  replaced_observed: number;
+  skipped_existing: number;
+  interpolated: number; // Interpolated rows rebuilt after the import
+  first_date: string | null;
+  last_date: string | null;
+}
+
+const UPSERT_CHUNK_SIZE = 500;
+const PAGE_SIZE = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+function splitCsvLine(line: string): string[] {
+  return line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+}
+
+/**
+ * Parse a CSV export with a header row containing `date` and `follower_count` (or
+ * `followers`) and optionally `account`. Dates may be full timestamps; only the day is kept.
+ */
+export function parseFollowerCountsCsv(text: string): { rows: CsvFollowerCount[]; errors: string[] } {
+  const lines = text.split(/\r?\n/);
+  const header = splitCsvLine(lines[0] || '').map(cell => cell.toLowerCase());
+  const dateColumn = header.indexOf('date');
+  const countColumn = header.findIndex(cell => cell === 'follower_count' || cell === 'followers');
+  const accountColumn = header.indexOf('account');
+
+  if (dateColumn < 0 || countColumn < 0) {
+    return { rows: [], errors: ['Header must contain a date column and a follower_count (or followers) column'] };
+  }
+
+  const rows: CsvFollowerCount[] = [];
+  const errors: string[] = [];
+
+  lines.slice(1).forEach((raw, index) => {
+    const line = index + 2;
+    if (!raw.trim()) return;
+
+    const cells = splitCsvLine(raw);
+    const date = cells[dateColumn] || '';
+    const count = Number(cells[countColumn]);
+
+    if (!DATE_PATTERN.test(date) || isNaN(Date.parse(date.slice(0, 10)))) {
+      errors.push(`Line ${line}: invalid date '${date}'`);
+    } else if (!Number.isInteger(count) || count < 0) {
+      errors.push(`Line ${line}: invalid follower count '${cells[countColumn] ?? ''}'`);
+    } else {
+      rows.push({
+        line,
+        account: accountColumn >= 0 ? cells[accountColumn] || null : null,
+        date: date.slice(0, 10),
+        follower_count: count
+      });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Imports historic follower counts into follower_daily_snapshots, then interpolates the
+ * gaps between the imported and existing days
+ */
+export class FollowerSnapshotImporter {
+  constructor(private followerService: TwitterFollowerService) {}
+
+  /**
+   * Import CSV rows; rows without an account column go to `defaultAccount`
+   */
+  async importCsvRows(
+    rows: CsvFollowerCount[],
+    accounts: Account[],
+    defaultAccount: Account | null,
+    options: SnapshotImportOptions = {}
+  ): Promise<{ results: SnapshotImportResult[]; errors: string[] }> {
+    const byAccount = new Map<string, { account: Account; counts: Map<string, number> }>();
+    const errors: string[] = [];
+
+    for (const row of rows) {
+      const account = row.account ? this.resolveAccount(accounts, row.account) : defaultAccount;
+      if (!account) {
+        errors.push(`Line ${row.line}: ${row.account ? `unknown account '${row.account}'` : 'no account column and no --account given'}`);
+        continue;
+      }
+
+      const entry = byAccount.get(account.id) ?? { account, counts: new Map<string, number>() };
+      entry.counts.set(row.date, row.follower_count); // The last row for a date wins
+      byAccount.set(account.id, entry);
+    }
+
+    const results: SnapshotImportResult[] = [];
+    for (const { account, counts } of byAccount.values()) {
+      results.push(await this.importDailyCounts(account, counts, 'csv', options));
+    }
+    return { results, errors };
+  }
+
+  /**
+   * Import an account's account_follower_history rows, keeping the last count recorded each (UTC) day
+   */
+  async importLegacyHistory(account: Account, options: SnapshotImportOptions = {}): Promise<SnapshotImportResult> {
+    const counts = new Map<string, number>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('account_follower_history')
+        .select('follower_count, recorded_at')
+        .eq('account_id', account.id)
+        .order('recorded_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to read follower history for ${account.slug}: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        counts.set(new Date(row.recorded_at).toISOString().split('T')[0]!, row.follower_count);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return this.importDailyCounts(account, counts, 'legacy_history', options);
+  }
+
+  private resolveAccount(accounts: Account[], key: string): Account | null {
+    const normalized = key.replace(/^@/, '').toLowerCase();
+    return accounts.find(account =>
+      account.id === key ||
+      account.slug.toLowerCase() === normalized ||
+      account.twitter_handle?.toLowerCase() === normalized
+    ) ?? null;
+  }
+
+  private async importDailyCounts(
+    account: Account,
+    counts: Map<string, number>,
+    source: SnapshotImportSource,
+    options: SnapshotImportOptions
+  ): Promise<SnapshotImportResult> {
+    const dates = Array.from(counts.keys()).sort();
+    const result: SnapshotImportResult = {
+      account_id: account.id,
+      slug: account.slug,
+      source,
+      days_read: dates.length,
+      inserted: 0,
+      replaced_interpolated: 0,
+      replaced_observed: 0,
+      skipped_existing: 0,
+      interpolated: 0,
+      first_date: dates[0] ?? null,
+      last_date: dates[dates.length - 1] ?? null
+    };
+    if (dates.length === 0) return result;
+
+    const existing = await this.loadExisting(account.id, dates[0]!, dates[dates.length - 1]!);
+    const rows: Array<{ account_id: string; date: string; follower_count: number; is_interpolated: boolean; source: SnapshotImportSource }> = [];
+
+    for (const date of dates) {
+      const current = existing.get(date);
+      if (current && !current.is_interpolated && !options.overwrite) {
+        result.skipped_existing++;
+        continue;
+      }
+
+      if (!current) result.inserted++;
+      else if (current.is_interpolated) result.replaced_interpolated++;
+      else result.replaced_observed++;
+
+      rows.push({ account_id: account.id, date, follower_count: counts.get(date)!, is_interpolated: false, source });
+    }
+
+    if (options.dryRun || rows.length === 0) return result;
+
+    // Rebuilding the interpolated rows afterwards needs the service role, so check before
+    // writing anything rather than leave observed rows next to stale interpolations
+    if (!supabaseAdmin) {
+      throw new Error('Importing follower snapshots requires SUPABASE_SERVICE_ROLE_KEY');
+    }
+
+    for (let index = 0; index < rows.length; index += UPSERT_CHUNK_SIZE) {
+      const { error } = await supabaseAdmin
+        .from('follower_daily_snapshots')
+        .upsert(rows.slice(index, index + UPSERT_CHUNK_SIZE), { onConflict: 'account_id,date' });
+
+      if (error) {
+        throw new Error(`Failed to import follower snapshots for ${account.slug}: ${error.message}`);
+      }
+    }
+
+    // Re-interpolate the account's gaps (the one before the first imported day included)
+    // and recompute the day-over-day changes
+    result.interpolated = await this.followerService.fillSnapshotGaps(account.id, undefined, options.maxGapDays);
+    return result;
+  }
+
+  private async loadExisting(accountId: string, from: string, to: string): Promise<Map<string, { is_interpolated: boolean }>> {
+    const existing = new Map<string, { is_interpolated: boolean }>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('follower_daily_snapshots')
+        .select('date, is_interpolated')
+        .eq('account_id', accountId)
+        .gte('date', from)
+        .lte('date', to)
+        .order('date', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load existing follower snapshots: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        existing.set(row.date, { is_interpolated: row.is_interpolated });
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return existing;
+  }
+}
@@ -27,8 +27,25 @@ export { TwitterSyncService } from './twitterSyncService';
 export { EngagementSyncService } from './engagementSyncService';
 export type { EngagementSyncOptions, SyncStats } from './engagementSyncService';
 
+export { TwitterBackfillService, MAX_TIMELINE_TWEETS } from './twitterBackfillService';
+export type { BackfillOptions, BackfillResult, BackfillCheckpoint, BackfillStatus } from './twitterBackfillService';
+
 export { RateLimitManager } from './rateLimitManager';
 export type { RateLimitStatus, RateLimitConfig } from './rateLimitManager';
+export { XApiClient, DEFAULT_TWEET_FIELDS, DEFAULT_USER_FIELDS } from './xApiClient';
+export type { XUser, XTweet, XTweetPage, XUserLookupResult, XTimelineOptions, XApiClientOptions } from './xApiClient';
+export {
+  XApiError,
+  XApiNotFoundError,
+  XApiSuspendedError,
+  XApiProtectedError,
+  XApiRateLimitedError,
+  XApiAuthError
+} from './xApiErrors';
+export { EndpointRateLimiter } from './endpointRateLimiter';
+export type { EndpointBudget } from './endpointRateLimiter';
+export { MemoryRateLimitStore, FileRateLimitStore, SupabaseRateLimitStore, createRateLimitStore } from './rateLimitStore';
+export type { RateLimitStore, RateLimitState } from './rateLimitStore';
 
 export { SyncLogger, LogLevel } from './syncLogger';
 export type { SyncLogEntry } from './syncLogger';
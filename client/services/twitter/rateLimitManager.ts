@@ -1,3 +1,8 @@
+import { RateLimitStore, RateLimitState, RateLimitUsage, MemoryRateLimitStore } from './rateLimitStore';
+
+// Usage is written to the store at most this often
+const PERSIST_DELAY_MS = 2000;
+
 export interface RateLimitStatus {
   requestsUsedLast15Min: number;
   requestsUsedThisMonth: number;
@@ -22,7 +27,12 @@ export class RateLimitManager {
   private monthStartDate: Date;
   private lastRequestTime: number = 0;
 
-  constructor(config?: Partial<RateLimitConfig>) {
+  private loaded: Promise<void>;
+  private pendingSave: Promise<void>;
+  private unsavedUsage: RateLimitUsage | null = null; // Counted locally, not yet recorded in the store
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(config?: Partial<RateLimitConfig>, private store: RateLimitStore = new MemoryRateLimitStore()) {
     this.config = {
       requestsPer15Min: 15, // User specified: 15 requests per 15 mins
       requestsPerMonth: 50000, // User specified: 50k requests per month
@@ -36,46 +46,148 @@ export class RateLimitManager {
     this.monthStartDate.setDate(1);
     this.monthStartDate.setHours(0, 0, 0, 0);
 
-    // Load persisted stats if available
-    this.loadPersistedStats();
+    // Load persisted stats; saves queue up behind the load so they never overwrite it
+    this.loaded = this.loadPersistedStats();
+    this.pendingSave = this.loaded;
+  }
+
+  /**
+   * Wait until persisted state has been loaded from the store
+   */
+  async initialize(): Promise<void> {
+    await this.loaded;
   }
 
   /**
-   * Load persisted rate limit stats from localStorage or similar
+   * Wait for queued writes to reach the store (call before shutdown)
    */
-  private loadPersistedStats(): void {
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      this.recordUsage();
+    }
+    await this.pendingSave;
+  }
+
+  /**
+   * Load persisted rate limit stats from the store
+   */
+  private async loadPersistedStats(): Promise<void> {
     try {
-      const stats = JSON.parse(process.env.RATE_LIMIT_STATS || '{}');
-      if (stats.monthStartDate && new Date(stats.monthStartDate).getMonth() === new Date().getMonth()) {
-        this.monthlyRequestCount = stats.monthlyRequestCount || 0;
-        this.monthlyPostCount = stats.monthlyPostCount || 0;
-        this.monthStartDate = new Date(stats.monthStartDate);
+      const stats = await this.store.load();
+      if (!stats) return;
+
+      // Requests made before the load finished are added on top of the stored counts
+      if (stats.monthStartDate && new Date(stats.monthStartDate) >= this.monthStartDate) {
+        this.monthlyRequestCount += stats.monthlyRequestCount || 0;
+        this.monthlyPostCount += stats.monthlyPostCount || 0;
       }
+      this.requestWindow = [...(stats.requestTimestamps || []), ...this.requestWindow];
+      this.lastRequestTime = Math.max(this.lastRequestTime, stats.lastRequestTime || 0);
+      this.cleanupRequestWindow();
     } catch (error) {
       console.warn('Failed to load persisted rate limit stats:', error);
     }
   }
 
+  private toState(): RateLimitState {
+    return {
+      requestTimestamps: [...this.requestWindow],
+      monthlyRequestCount: this.monthlyRequestCount,
+      monthlyPostCount: this.monthlyPostCount,
+      monthStartDate: this.monthStartDate.toISOString(),
+      lastRequestTime: this.lastRequestTime,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
   /**
-   * Persist rate limit stats
+   * Replace the stored state with ours (resets); writes are serialized so the latest state always wins
    */
   private persistStats(): void {
-    try {
-      const stats = {
-        monthlyRequestCount: this.monthlyRequestCount,
-        monthlyPostCount: this.monthlyPostCount,
-        monthStartDate: this.monthStartDate.toISOString(),
-        lastUpdated: new Date().toISOString()
-      };
-      
-      // In a real implementation, you'd use a proper storage mechanism
-      // For now, we'll just set it as an environment variable concept
-      process.env.RATE_LIMIT_STATS = JSON.stringify(stats);
-    } catch (error) {
-      console.warn('Failed to persist rate limit stats:', error);
+    this.unsavedUsage = null;
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+
+    this.pendingSave = this.pendingSave
+      .then(() => this.store.save(this.toState()))
+      .catch(error => {
+        console.warn('Failed to persist rate limit stats:', error);
+      });
+  }
+
+  /**
+   * Count usage towards the next store write, batching writes that follow in quick succession
+   */
+  private addUsage(requests: number, posts: number, timestamp?: number): void {
+    const usage = this.unsavedUsage ??= {
+      monthStartDate: this.monthStartDate.toISOString(),
+      requests: 0,
+      posts: 0,
+      requestTimestamps: [],
+      lastRequestTime: 0
+    };
+    usage.requests += requests;
+    usage.posts += posts;
+    if (timestamp !== undefined) {
+      usage.requestTimestamps.push(timestamp);
+      usage.lastRequestTime = Math.max(usage.lastRequestTime, timestamp);
+    }
+
+    if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => {
+        this.persistTimer = null;
+        this.recordUsage();
+      }, PERSIST_DELAY_MS);
+      this.persistTimer.unref?.();
     }
   }
 
+  /**
+   * Add the unsaved usage to the store and adopt the combined counters, which include
+   * what other processes sharing the store have used
+   */
+  private recordUsage(): void {
+    this.pendingSave = this.pendingSave
+      .then(async () => {
+        const usage = this.unsavedUsage;
+        if (!usage) return;
+        this.unsavedUsage = null;
+
+        try {
+          this.applyStoredState(await this.store.record(usage));
+        } catch (error) {
+          // Keep the usage for the next write, ahead of anything counted since
+          const newer = this.unsavedUsage as RateLimitUsage | null;
+          this.unsavedUsage = newer
+            ? {
+              ...usage,
+              requests: usage.requests + newer.requests,
+              posts: usage.posts + newer.posts,
+              requestTimestamps: [...usage.requestTimestamps, ...newer.requestTimestamps],
+              lastRequestTime: Math.max(usage.lastRequestTime, newer.lastRequestTime)
+            }
+            : usage;
+          console.warn('Failed to persist rate limit stats:', error);
+        }
+      });
+  }
+
+  private applyStoredState(state: RateLimitState): void {
+    if (new Date(state.monthStartDate) < this.monthStartDate) return;
+
+    // Usage counted while the write was in flight is still on top of the stored counters
+    const unsaved = this.unsavedUsage;
+    this.monthlyRequestCount = state.monthlyRequestCount + (unsaved?.requests ?? 0);
+    this.monthlyPostCount = state.monthlyPostCount + (unsaved?.posts ?? 0);
+    this.requestWindow = [...state.requestTimestamps, ...(unsaved?.requestTimestamps ?? [])];
+    this.lastRequestTime = Math.max(this.lastRequestTime, state.lastRequestTime);
+    this.cleanupRequestWindow();
+  }
+
   /**
    * Clean up old requests from the 15-minute window
    */
@@ -95,7 +207,8 @@ export class RateLimitManager {
       this.monthlyRequestCount = 0;
       this.monthlyPostCount = 0;
       this.monthStartDate = currentMonthStart;
-      this.persistStats();
+      // Usage not yet written belonged to the previous month
+      this.unsavedUsage = null;
     }
   }
 
@@ -111,10 +224,13 @@ export class RateLimitManager {
       return false;
     }
 
-    // Check monthly request limit
+    // Check monthly request and post limits
     if (this.monthlyRequestCount >= this.config.requestsPerMonth) {
       return false;
     }
+    if (this.monthlyPostCount >= this.config.postsPerMonth) {
+      return false;
+    }
 
     // Check if enough time has passed since last request
     const timeSinceLastRequest = Date.now() - this.lastRequestTime;
@@ -129,6 +245,7 @@ export class RateLimitManager {
    * Check rate limits and wait if necessary
    */
   async checkRateLimit(): Promise<void> {
+    await this.loaded;
     this.cleanupRequestWindow();
     this.checkMonthlyReset();
 
@@ -153,6 +270,9 @@ export class RateLimitManager {
     if (this.monthlyRequestCount >= this.config.requestsPerMonth) {
       throw new Error('Monthly request limit exceeded');
     }
+    if (this.monthlyPostCount >= this.config.postsPerMonth) {
+      throw new Error('Monthly post limit exceeded');
+    }
   }
 
   /**
@@ -180,7 +300,7 @@ export class RateLimitManager {
     this.requestWindow.push(now);
     this.monthlyRequestCount++;
     this.lastRequestTime = now;
-    this.persistStats();
+    this.addUsage(1, 0, now);
   }
 
   /**
@@ -188,7 +308,7 @@ export class RateLimitManager {
    */
   incrementPostCount(postCount: number = 1): void {
     this.monthlyPostCount += postCount;
-    this.persistStats();
+    this.addUsage(0, postCount);
   }
 
   /**
@@ -238,6 +358,21 @@ export class RateLimitManager {
     };
   }
 
+  /**
+   * Posts that can still be retrieved this month
+   */
+  getRemainingPostBudget(): number {
+    this.checkMonthlyReset();
+    return Math.max(0, this.config.postsPerMonth - this.monthlyPostCount);
+  }
+
+  /**
+   * Get the configured limits
+   */
+  getLimits(): RateLimitConfig {
+    return { ...this.config };
+  }
+
   /**
    * Reset all counters (useful for testing)
    */
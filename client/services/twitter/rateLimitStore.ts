@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { supabase } from '../supabase/client';
+
+export interface RateLimitState {
+  requestTimestamps: number[]; // Requests made in the current 15-minute window
+  monthlyRequestCount: number;
+  monthlyPostCount: number;
+  monthStartDate: string;
+  lastRequestTime: number;
+  updatedAt?: string;
+}
+
+// Usage recorded by one process since its last write
+export interface RateLimitUsage {
+  monthStartDate: string;
+  requests: number;
+  posts: number;
+  requestTimestamps: number[];
+  lastRequestTime: number;
+}
+
+/**
+ * Where RateLimitManager keeps its counters between restarts. Usage is recorded as
+ * increments so several processes sharing a store add up instead of overwriting each other.
+ */
+export interface RateLimitStore {
+  load(): Promise<RateLimitState | null>;
+  // Add usage to the stored counters and return the combined state
+  record(usage: RateLimitUsage): Promise<RateLimitState>;
+  // Replace the stored state (resets)
+  save(state: RateLimitState): Promise<void>;
+}
+
+const WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Add usage on top of a stored state; counters from an earlier month start over
+ */
+export function mergeRateLimitUsage(state: RateLimitState | null, usage: RateLimitUsage, now: number = Date.now()): RateLimitState {
+  const sameMonth = state !== null && new Date(state.monthStartDate) >= new Date(usage.monthStartDate);
+
+  return {
+    requestTimestamps: [...(state?.requestTimestamps || []), ...usage.requestTimestamps]
+      .filter(timestamp => timestamp > now - WINDOW_MS)
+      .sort((a, b) => a - b),
+    monthlyRequestCount: (sameMonth ? state!.monthlyRequestCount || 0 : 0) + usage.requests,
+    monthlyPostCount: (sameMonth ? state!.monthlyPostCount || 0 : 0) + usage.posts,
+    monthStartDate: sameMonth ? state!.monthStartDate : usage.monthStartDate,
+    lastRequestTime: Math.max(state?.lastRequestTime || 0, usage.lastRequestTime),
+    updatedAt: new Date(now).toISOString()
+  };
+}
+
+/**
+ * Keeps state for the lifetime of the process only (tests and one-off scripts)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private state: RateLimitState | null = null;
+
+  constructor(initialState?: RateLimitState) {
+    this.state = initialState ? { ...initialState } : null;
+  }
+
+  async load(): Promise<RateLimitState | null> {
+    return this.state ? { ...this.state, requestTimestamps: [...this.state.requestTimestamps] } : null;
+  }
+
+  async record(usage: RateLimitUsage): Promise<RateLimitState> {
+    this.state = mergeRateLimitUsage(this.state, usage);
+    return this.load() as Promise<RateLimitState>;
+  }
+
+  async save(state: RateLimitState): Promise<void> {
+    this.state = { ...state, requestTimestamps: [...state.requestTimestamps] };
+  }
+}
+
+/**
+ * Stores state in a local JSON file (local development)
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<RateLimitState | null> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content) as RateLimitState;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async record(usage: RateLimitUsage): Promise<RateLimitState> {
+    const state = mergeRateLimitUsage(await this.load(), usage);
+    await this.save(state);
+    return state;
+  }
+
+  async save(state: RateLimitState): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves half a JSON document behind
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(state, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Stores state in the rate_limit_state table (production). record() adds usage with the
+ * record_rate_limit_usage RPC, which locks the row, so replicas never lose each other's counts.
+ */
+export class SupabaseRateLimitStore implements RateLimitStore {
+  constructor(private key: string = 'x_api') {}
+
+  async load(): Promise<RateLimitState | null> {
+    const { data, error } = await supabase
+      .from('rate_limit_state')
+      .select('state')
+      .eq('key', this.key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load rate limit state '${this.key}': ${error.message}`);
+    }
+
+    return data ? data.state as RateLimitState : null;
+  }
+
+  async record(usage: RateLimitUsage): Promise<RateLimitState> {
+    const { data, error } = await supabase.rpc('record_rate_limit_usage', {
+      p_key: this.key,
+      p_month_start_date: usage.monthStartDate,
+      p_requests: usage.requests,
+      p_posts: usage.posts,
+      p_request_timestamps: usage.requestTimestamps,
+      p_last_request_time: usage.lastRequestTime
+    });
+
+    if (error) {
+      throw new Error(`Failed to record rate limit usage '${this.key}': ${error.message}`);
+    }
+    return data as RateLimitState;
+  }
+
+  async save(state: RateLimitState): Promise<void> {
+    const { error } = await supabase
+      .from('rate_limit_state')
+      .upsert({
+        key: this.key,
+        state,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'key' });
+
+    if (error) {
+      throw new Error(`Failed to save rate limit state '${this.key}': ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Pick a store from RATE_LIMIT_STORE ('supabase', 'file' or 'memory')
+ */
+export function createRateLimitStore(kind: string = process.env.RATE_LIMIT_STORE || 'supabase'): RateLimitStore {
+  switch (kind.toLowerCase()) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'file':
+      return new FileRateLimitStore(process.env.RATE_LIMIT_STATE_FILE || '.rate-limit-state.json');
+    case 'supabase':
+      return new SupabaseRateLimitStore(process.env.RATE_LIMIT_STATE_KEY || 'x_api');
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE '${kind}' - expected supabase, file or memory`);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Thrown when a sync is requested while another run of the same kind is in progress
+ */
+export class SyncAlreadyRunningError extends Error {
+  constructor(public readonly syncType: string) {
+    super(`Sync already in progress (${syncType})`);
+    this.name = 'SyncAlreadyRunningError';
+  }
+}
+
+/**
+ * Thrown by a sync job when retrying cannot help (e.g. the account no longer exists)
+ */
+export class PermanentSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentSyncError';
+  }
+}
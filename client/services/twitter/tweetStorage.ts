@@ -0,0 +1,128 @@
+import { supabase } from '../supabase/client.js';
+import { TWEET_METRICS_HISTORY_TABLE } from '../dao/daoTwitterService.js';
+
+// Minimal account fields needed to build an account_tweets row
+export interface TweetAccount {
+  id: string;
+  slug: string;
+  name: string;
+  twitter_handle: string;
+}
+
+export interface TweetValidationResult {
+  isValid: boolean;
+  data?: any;
+  error?: string;
+}
+
+/**
+ * Safely convert Twitter date to PostgreSQL timestamp format
+ */
+export function formatTwitterDate(dateString: string): string {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) {
+    console.warn(`⚠️ Invalid date format: ${dateString}, using current timestamp`);
+    return new Date().toISOString();
+  }
+  return date.toISOString();
+}
+
+/**
+ * Validate and sanitize tweet data before database insertion
+ */
+export function validateTweetData(tweet: any, account: TweetAccount): TweetValidationResult {
+  try {
+    // Check required fields
+    if (!tweet.id || typeof tweet.id !== 'string') {
+      return { isValid: false, error: 'Missing or invalid tweet ID' };
+    }
+
+    if (!tweet.text || typeof tweet.text !== 'string') {
+      return { isValid: false, error: 'Missing or invalid tweet text' };
+    }
+
+    if (!tweet.created_at || typeof tweet.created_at !== 'string') {
+      return { isValid: false, error: 'Missing or invalid tweet created_at' };
+    }
+
+    // Ensure text is not too long (PostgreSQL text limit)
+    const truncatedText = tweet.text.length > 5000 ? tweet.text.substring(0, 5000) + '...' : tweet.text;
+
+    // Format and validate date
+    const formattedDate = formatTwitterDate(tweet.created_at);
+
+    // Sanitize metrics
+    const metrics = tweet.public_metrics || {};
+    const safeMetrics = {
+      retweet_count: Math.max(0, parseInt(metrics.retweet_count) || 0),
+      reply_count: Math.max(0, parseInt(metrics.reply_count) || 0),
+      like_count: Math.max(0, parseInt(metrics.like_count) || 0),
+      quote_count: Math.max(0, parseInt(metrics.quote_count) || 0),
+      view_count: Math.max(0, parseInt(metrics.impression_count) || 0)
+    };
+
+    const tweetData = {
+      account_id: account.id,
+      id: tweet.id,
+      type: 'tweet',
+      url: `https://x.com/${account.twitter_handle}/status/${tweet.id}`,
+      twitter_url: `https://twitter.com/${account.twitter_handle}/status/${tweet.id}`,
+      text: truncatedText,
+      source: (tweet.source || '').toString().substring(0, 255), // Limit source length
+      retweet_count: safeMetrics.retweet_count,
+      reply_count: safeMetrics.reply_count,
+      like_count: safeMetrics.like_count,
+      quote_count: safeMetrics.quote_count,
+      view_count: safeMetrics.view_count,
+      bookmark_count: 0, // Not available in Twitter API v2
+      created_at: formattedDate,
+      lang: ((tweet.lang || 'en').toString().substring(0, 10)), // Limit language code length
+      is_reply: Boolean(tweet.in_reply_to_user_id),
+      in_reply_to_id: tweet.in_reply_to_status_id || null,
+      conversation_id: tweet.conversation_id || tweet.id,
+      in_reply_to_user_id: tweet.in_reply_to_user_id || null,
+      in_reply_to_username: null,
+      author_username: account.twitter_handle,
+      author_name: account.name,
+      author_id: tweet.author_id || null,
+      mentions: Array.isArray(tweet.entities?.mentions) ? tweet.entities.mentions : [],
+      hashtags: Array.isArray(tweet.entities?.hashtags) ? tweet.entities.hashtags : [],
+      urls: Array.isArray(tweet.entities?.urls) ? tweet.entities.urls : [],
+      media: Array.isArray(tweet.attachments?.media_keys) ? tweet.attachments.media_keys : [],
+      raw_data: tweet,
+      synced_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    return { isValid: true, data: tweetData };
+  } catch (error) {
+    return { isValid: false, error: `Data validation failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Append one engagement snapshot per stored tweet row to tweet_metrics_history
+ */
+export async function recordMetricsSnapshots(accountId: string, tweets: any[]): Promise<void> {
+  if (tweets.length === 0) return;
+
+  const recordedAt = new Date().toISOString();
+  const rows = tweets.map(tweet => ({
+    account_id: accountId,
+    tweet_id: tweet.id,
+    like_count: tweet.like_count,
+    retweet_count: tweet.retweet_count,
+    reply_count: tweet.reply_count,
+    quote_count: tweet.quote_count,
+    view_count: tweet.view_count,
+    recorded_at: recordedAt
+  }));
+
+  const { error } = await supabase
+    .from(TWEET_METRICS_HISTORY_TABLE)
+    .insert(rows);
+
+  if (error) {
+    throw new Error(`Failed to record metrics history: ${error.message}`);
+  }
+}
@@ -0,0 +1,260 @@
+import { supabase } from '../supabase/client.js';
+import { XApiClient } from './xApiClient.js';
+import { XApiRateLimitedError } from './xApiErrors.js';
+import { RateLimitManager } from './rateLimitManager.js';
+import { ACCOUNT_TWEETS_TABLE } from '../dao/daoTwitterService.js';
+import { TweetAccount, validateTweetData, recordMetricsSnapshots } from './tweetStorage.js';
+import { SyncLogger } from './syncLogger.js';
+
+export const BACKFILL_CHECKPOINTS_TABLE = 'tweet_backfill_checkpoints';
+
+// The user timeline endpoint only reaches back ~3200 tweets
+export const MAX_TIMELINE_TWEETS = 3200;
+
+export type BackfillStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+export interface BackfillCheckpoint {
+  account_id: string;
+  since_date: string | null;
+  pagination_token: string | null;
+  newest_tweet_id: string | null;
+  oldest_tweet_id: string | null;
+  tweets_fetched: number;
+  pages_fetched: number;
+  status: BackfillStatus;
+  last_error: string | null;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface BackfillOptions {
+  since?: Date; // Oldest tweet date to fetch (default: as far back as the API allows)
+  maxTweets?: number; // Stop after this many tweets (default 3200)
+  pageSize?: number; // Tweets per timeline page, 5-100 (default 100)
+  restart?: boolean; // Ignore an existing checkpoint and start from the newest tweet
+  onProgress?: (checkpoint: BackfillCheckpoint) => void;
+}
+
+export interface BackfillResult {
+  accountSlug: string;
+  status: BackfillStatus;
+  tweetsFetched: number;
+  tweetsStored: number;
+  pagesFetched: number;
+  resumed: boolean;
+  error?: string;
+}
+
+/**
+ * Walks an account's timeline backwards page by page into account_tweets.
+ * Progress is checkpointed after every page so interrupted runs resume where they stopped.
+ */
+export class TwitterBackfillService {
+  private logger: SyncLogger;
+
+  constructor(
+    private apiClient: XApiClient,
+    private rateLimitManager: RateLimitManager
+  ) {
+    this.logger = new SyncLogger('TwitterBackfill');
+  }
+
+  /**
+   * Accounts with a Twitter handle, optionally limited to one slug
+   */
+  async getAccounts(slug?: string): Promise<TweetAccount[]> {
+    let query = supabase
+      .from('accounts')
+      .select('id, slug, twitter_handle, name')
+      .not('twitter_handle', 'is', null);
+
+    if (slug) {
+      query = query.eq('slug', slug);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to fetch accounts: ${error.message}`);
+    }
+
+    return (data || []) as TweetAccount[];
+  }
+
+  async getCheckpoint(accountId: string): Promise<BackfillCheckpoint | null> {
+    const { data, error } = await supabase
+      .from(BACKFILL_CHECKPOINTS_TABLE)
+      .select('*')
+      .eq('account_id', accountId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load backfill checkpoint: ${error.message}`);
+    }
+
+    return data as BackfillCheckpoint | null;
+  }
+
+  /**
+   * Backfill one account, resuming from its checkpoint unless it completed or restart is set
+   */
+  async backfillAccount(account: TweetAccount, options: BackfillOptions = {}): Promise<BackfillResult> {
+    const maxTweets = Math.min(options.maxTweets ?? MAX_TIMELINE_TWEETS, MAX_TIMELINE_TWEETS);
+    const pageSize = Math.max(5, Math.min(options.pageSize ?? 100, 100));
+
+    const existing = options.restart ? null : await this.getCheckpoint(account.id);
+    const resumed = Boolean(existing && existing.status !== 'completed' && existing.pagination_token);
+    const now = new Date().toISOString();
+
+    const checkpoint: BackfillCheckpoint = resumed
+      ? { ...existing!, status: 'running', last_error: null }
+      : {
+          account_id: account.id,
+          since_date: options.since ? options.since.toISOString() : null,
+          pagination_token: null,
+          newest_tweet_id: null,
+          oldest_tweet_id: null,
+          tweets_fetched: 0,
+          pages_fetched: 0,
+          status: 'running',
+          last_error: null,
+          started_at: now,
+          updated_at: now,
+          completed_at: null
+        };
+
+    // A resumed run keeps its original start date so the pagination token stays valid
+    if (resumed && options.since && checkpoint.since_date !== options.since.toISOString()) {
+      this.logger.warn(`Resuming ${account.slug} with its original since date ${checkpoint.since_date || 'none'} - pass --restart to change it`);
+    }
+
+    const result: BackfillResult = {
+      accountSlug: account.slug,
+      status: 'running',
+      tweetsFetched: 0,
+      tweetsStored: 0,
+      pagesFetched: 0,
+      resumed
+    };
+
+    this.logger.info(`${resumed ? 'Resuming' : 'Starting'} backfill for ${account.name} (@${account.twitter_handle})`, {
+      since: checkpoint.since_date,
+      tweetsFetched: checkpoint.tweets_fetched
+    });
+
+    try {
+      const user = await this.apiClient.getUserByUsername(account.twitter_handle, 'id,username');
+
+      while (checkpoint.tweets_fetched < maxTweets) {
+        // Stop before a page would push the monthly post budget over its limit
+        const remaining = this.rateLimitManager.getRemainingPostBudget();
+        if (remaining < pageSize) {
+          checkpoint.status = 'paused';
+          checkpoint.last_error = `Monthly post budget exhausted (${remaining} posts left)`;
+          this.logger.warn(`Pausing backfill for ${account.slug}: ${checkpoint.last_error}`);
+          break;
+        }
+
+        const page = await this.apiClient.getUserTimeline(user.id, {
+          paginationToken: checkpoint.pagination_token || undefined,
+          startTime: checkpoint.since_date || undefined,
+          maxResults: pageSize,
+          maxPages: 1
+        });
+
+        result.tweetsStored += await this.storeTweets(account, page.tweets);
+        result.tweetsFetched += page.tweets.length;
+        result.pagesFetched++;
+
+        checkpoint.tweets_fetched += page.tweets.length;
+        checkpoint.pages_fetched++;
+        checkpoint.newest_tweet_id = checkpoint.newest_tweet_id || page.newestId || null;
+        checkpoint.oldest_tweet_id = page.oldestId || checkpoint.oldest_tweet_id;
+        checkpoint.pagination_token = page.nextToken || null;
+
+        if (!page.nextToken) {
+          checkpoint.status = 'completed';
+          break;
+        }
+
+        await this.saveCheckpoint(checkpoint);
+        options.onProgress?.({ ...checkpoint });
+      }
+
+      if (checkpoint.status === 'running') {
+        // maxTweets reached
+        checkpoint.status = 'completed';
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Rate limits clear on their own, so the next run can pick up from the checkpoint
+      checkpoint.status = error instanceof XApiRateLimitedError ? 'paused' : 'failed';
+      checkpoint.last_error = message;
+      result.error = message;
+      this.logger.error(`Backfill for ${account.slug} ${checkpoint.status}: ${message}`, error);
+    }
+
+    if (checkpoint.status === 'completed') {
+      checkpoint.pagination_token = null;
+      checkpoint.completed_at = new Date().toISOString();
+    }
+
+    await this.saveCheckpoint(checkpoint);
+    options.onProgress?.({ ...checkpoint });
+
+    result.status = checkpoint.status;
+    this.logger.info(`Backfill for ${account.slug} ${checkpoint.status}: ${result.tweetsFetched} tweets in ${result.pagesFetched} pages this run`, {
+      totalTweetsFetched: checkpoint.tweets_fetched,
+      oldestTweetId: checkpoint.oldest_tweet_id
+    });
+
+    return result;
+  }
+
+  /**
+   * Upsert a page of tweets and snapshot their current engagement
+   */
+  private async storeTweets(account: TweetAccount, tweets: any[]): Promise<number> {
+    const rows: any[] = [];
+
+    for (const tweet of tweets) {
+      const validation = validateTweetData(tweet, account);
+      if (!validation.isValid) {
+        this.logger.warn(`Skipping invalid tweet ${tweet.id || 'unknown'}: ${validation.error}`);
+        continue;
+      }
+      rows.push(validation.data);
+    }
+
+    if (rows.length === 0) return 0;
+
+    const { error } = await supabase
+      .from(ACCOUNT_TWEETS_TABLE)
+      .upsert(rows, { onConflict: 'account_id,id' });
+
+    if (error) {
+      throw new Error(`Failed to store tweets for ${account.slug}: ${error.message}`);
+    }
+
+    try {
+      await recordMetricsSnapshots(account.id, rows);
+    } catch (snapshotError) {
+      // History is best-effort; the tweets themselves are stored
+      this.logger.warn(`Failed to record metrics history for ${account.slug}`, snapshotError);
+    }
+
+    return rows.length;
+  }
+
+  private async saveCheckpoint(checkpoint: BackfillCheckpoint): Promise<void> {
+    checkpoint.updated_at = new Date().toISOString();
+
+    const { error } = await supabase
+      .from(BACKFILL_CHECKPOINTS_TABLE)
+      .upsert(checkpoint, { onConflict: 'account_id' });
+
+    if (error) {
+      throw new Error(`Failed to save backfill checkpoint: ${error.message}`);
+    }
+  }
+}
@@ -1,7 +1,11 @@
-import axios, { AxiosInstance } from 'axios';
-import { supabase } from '../supabase/client';
+import { supabase, supabaseAdmin } from '../supabase/client';
 import { Account, FollowerHistory, FollowerTrend } from '../types/dao';
-import { TWITTER_CONFIG, RATE_LIMITS } from './config';
+import { RateLimitManager } from './rateLimitManager';
+import { XApiClient } from './xApiClient';
+import { BearerTokenSource } from './bearerTokenPool';
+import { XApiNotFoundError, XApiProtectedError, XApiSuspendedError } from './xApiErrors';
+import { SyncAlreadyRunningError } from './syncErrors';
+import { recordFollowerSync, recordFollowerSyncSuccess } from '../metrics/syncMetrics';
 
 export interface TwitterUserInfo {
   id: string;
@@ -56,37 +60,48 @@ export interface TopGrowingAccount {
   current_followers: number;
 }
 
-export class TwitterFollowerService {
-  private apiClient: AxiosInstance;
-  private rateLimitCounter: number = 0;
-  private lastResetTime: number = Date.now();
-
-  constructor(bearerToken: string) {
-    this.apiClient = axios.create({
-      baseURL: TWITTER_CONFIG.BASE_URL,
-      headers: {
-        'Authorization': `Bearer ${bearerToken}`,
-      }
-    });
+// A run of dates without an observed snapshot (see get_follower_snapshot_gaps)
+export interface FollowerSnapshotGap {
+  account_id: string;
+  gap_start: string;
+  gap_end: string;
+  missing_days: number;
+  before_count: number;
+  after_count: number | null; // null while the sync hasn't recorded anything since
+  filled: boolean; // Every missing date has an interpolated snapshot
+}
 
-    // Reset rate limit counter every 15 minutes
-    setInterval(() => {
-      this.rateLimitCounter = 0;
-      this.lastResetTime = Date.now();
-    }, 15 * 60 * 1000);
-  }
+export interface PeriodFollowerGrowth {
+  period_start: string;
+  period_end: string;
+  start_followers: number;
+  end_followers: number;
+  total_change: number;
+  percentage_change: number;
+  observed_days: number;
+  interpolated_days: number;
+}
 
-  private async checkRateLimit(): Promise<void> {
-    if (this.rateLimitCounter >= RATE_LIMITS.TWEETS_PER_15_MIN) {
-      const waitTime = (15 * 60 * 1000) - (Date.now() - this.lastResetTime);
-      if (waitTime > 0) {
-        console.log(`Rate limit reached. Waiting ${Math.ceil(waitTime / 1000)} seconds...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
-      this.rateLimitCounter = 0;
-    }
-    await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.DELAY_BETWEEN_REQUESTS));
-    this.rateLimitCounter++;
+export interface FollowerSyncResult {
+  success: number;
+  errors: number;
+  errorMessages: string[];
+}
+
+export interface FollowerSyncProgress {
+  accountsTotal: number;
+  accountsProcessed: number;
+}
+
+export class TwitterFollowerService {
+  private apiClient: XApiClient;
+  private isRunning: boolean = false;
+
+  constructor(
+    bearerToken: BearerTokenSource,
+    apiClient: XApiClient = new XApiClient(bearerToken, { rateLimitManager: new RateLimitManager() })
+  ) {
+    this.apiClient = apiClient;
   }
 
   /**
@@ -94,17 +109,13 @@ export class TwitterFollowerService {
    */
   async getUserInfo(username: string): Promise<TwitterUserInfo | null> {
     try {
-      await this.checkRateLimit();
-      
-      const response = await this.apiClient.get(`/users/by/username/${username}`, {
-        params: {
-          'user.fields': 'public_metrics,verified,created_at'
-        }
-      });
-
-      return response.data.data as TwitterUserInfo;
-    } catch (error: any) {
-      console.error(`Error fetching user info for ${username}:`, error.response?.data || error.message);
+      return await this.apiClient.getUserByUsername(username, 'public_metrics,verified,created_at');
+    } catch (error) {
+      if (error instanceof XApiNotFoundError || error instanceof XApiSuspendedError || error instanceof XApiProtectedError) {
+        console.warn(`⚠️  @${username} is unavailable: ${error.message}`);
+      } else {
+        console.error(`Error fetching user info for ${username}:`, error instanceof Error ? error.message : error);
+      }
       return null;
     }
   }
@@ -114,21 +125,12 @@ export class TwitterFollowerService {
    */
   async getMultipleUsersInfo(usernames: string[]): Promise<TwitterUserInfo[]> {
     try {
-      await this.checkRateLimit();
-      
-      // Twitter API allows up to 100 usernames per request
-      const usernameParam = usernames.slice(0, 100).join(',');
-      
-      const response = await this.apiClient.get('/users/by', {
-        params: {
-          usernames: usernameParam,
-          'user.fields': 'public_metrics,verified,created_at'
-        }
-      });
+      const { users, errors } = await this.apiClient.getUsersByUsernames(usernames, 'public_metrics,verified,created_at');
 
-      return response.data.data || [];
-    } catch (error: any) {
-      console.error('Error fetching multiple users info:', error.response?.data || error.message);
+      errors.forEach(error => console.warn(`⚠️  ${error.name}: ${error.message}`));
+      return users;
+    } catch (error) {
+      console.error('Error fetching multiple users info:', error instanceof Error ? error.message : error);
       return [];
     }
   }
@@ -194,17 +196,50 @@ export class TwitterFollowerService {
     }
   }
 
+  /**
+   * Whether a follower sync is currently in progress
+   */
+  isSyncRunning(): boolean {
+    return this.isRunning;
+  }
+
   /**
    * Update follower counts for all accounts
    */
-  async updateAllFollowerCounts(): Promise<{ success: number; errors: number }> {
+  async updateAllFollowerCounts(
+    onProgress?: (progress: FollowerSyncProgress) => void
+  ): Promise<FollowerSyncResult> {
+    return this.runExclusive(() => this.runFollowerCountUpdate(onProgress));
+  }
+
+  /**
+   * Run a follower sync under the isRunning guard shared by every entry point
+   */
+  private async runExclusive<T>(run: () => Promise<T>): Promise<T> {
+    if (this.isRunning) {
+      throw new SyncAlreadyRunningError('followers');
+    }
+
+    this.isRunning = true;
+    try {
+      return await run();
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async runFollowerCountUpdate(
+    onProgress?: (progress: FollowerSyncProgress) => void
+  ): Promise<FollowerSyncResult> {
     console.log('🚀 Starting follower count update for all accounts...');
     
     const accounts = await this.getAccountsWithTwitterHandles();
     let success = 0;
     let errors = 0;
+    const errorMessages: string[] = [];
 
     console.log(`📊 Found ${accounts.length} accounts with Twitter handles`);
+    onProgress?.({ accountsTotal: accounts.length, accountsProcessed: 0 });
 
     // Process accounts in batches to respect rate limits
     const batchSize = 50; // Conservative batch size
@@ -233,13 +268,18 @@ export class TwitterFollowerService {
           if (userInfo) {
             try {
               await this.updateAccountFollowerCount(account.id, userInfo.public_metrics.followers_count);
+              recordFollowerSync('FollowerSync', account.slug, userInfo.public_metrics.followers_count);
               success++;
             } catch (error) {
               console.error(`❌ Failed to update ${account.name} (${account.twitter_handle}):`, error);
+              recordFollowerSync('FollowerSync', account.slug, null);
+              errorMessages.push(`Failed to update ${account.name} (@${account.twitter_handle}): ${error instanceof Error ? error.message : String(error)}`);
               errors++;
             }
           } else {
             console.warn(`⚠️ User info not found for ${account.name} (${account.twitter_handle})`);
+            recordFollowerSync('FollowerSync', account.slug, null);
+            errorMessages.push(`User info not found for ${account.name} (@${account.twitter_handle})`);
             errors++;
           }
         }
@@ -251,14 +291,51 @@ export class TwitterFollowerService {
         }
       } catch (error) {
         console.error(`❌ Error processing batch starting at index ${i}:`, error);
+        errorMessages.push(`Batch starting at index ${i} failed: ${error instanceof Error ? error.message : String(error)}`);
         errors += batch.length;
       }
+
+      onProgress?.({ accountsTotal: accounts.length, accountsProcessed: Math.min(i + batchSize, accounts.length) });
+    }
+
+    if (success > 0) {
+      recordFollowerSyncSuccess('FollowerSync');
     }
 
     console.log(`✅ Follower count update completed! Success: ${success}, Errors: ${errors}`);
     console.log('📈 Daily snapshots recorded with automatic growth calculation');
     
-    return { success, errors };
+    return { success, errors, errorMessages };
+  }
+
+  /**
+   * Update the follower count for a single account
+   */
+  async updateSingleAccountFollowerCount(account: Account): Promise<FollowerSyncResult> {
+    return this.runExclusive(async () => {
+      if (!account.twitter_handle) {
+        return { success: 0, errors: 1, errorMessages: [`${account.name} has no Twitter handle`] };
+      }
+
+      try {
+        const userInfo = await this.getUserInfo(account.twitter_handle);
+        if (!userInfo) {
+          recordFollowerSync('FollowerSync', account.slug, null);
+          return { success: 0, errors: 1, errorMessages: [`User info not found for ${account.name} (@${account.twitter_handle})`] };
+        }
+
+        await this.updateAccountFollowerCount(account.id, userInfo.public_metrics.followers_count);
+        recordFollowerSync('FollowerSync', account.slug, userInfo.public_metrics.followers_count);
+        return { success: 1, errors: 0, errorMessages: [] };
+      } catch (error) {
+        recordFollowerSync('FollowerSync', account.slug, null);
+        return {
+          success: 0,
+          errors: 1,
+          errorMessages: [`Failed to update ${account.name} (@${account.twitter_handle}): ${error instanceof Error ? error.message : String(error)}`]
+        };
+      }
+    });
   }
 
   /**
@@ -646,6 +723,62 @@ export class TwitterFollowerService {
     }
   }
 
+  /**
+   * Growth per calendar week or month, measured between the follower counts at the period boundaries
+   */
+  async getAccountGrowthByPeriod(
+    accountId: string,
+    period: 'week' | 'month' = 'week',
+    periods: number = 12
+  ): Promise<PeriodFollowerGrowth[]> {
+    const { data, error } = await supabase.rpc('get_account_growth_by_period', {
+      p_account_id: accountId,
+      p_period: period,
+      p_periods: periods
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch ${period}ly growth: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Runs of missing snapshot dates over the last N days, for one account or all of them
+   */
+  async getSnapshotGaps(accountId: string | null, days: number = 90): Promise<FollowerSnapshotGap[]> {
+    const { data, error } = await supabase.rpc('get_follower_snapshot_gaps', {
+      p_account_id: accountId,
+      p_days: days
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch follower snapshot gaps: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Rebuild the interpolated snapshots from `since` on; returns how many were inserted.
+   * The database only lets the service role run this, as it deletes interpolated rows.
+   */
+  async fillSnapshotGaps(accountId: string | null, since?: string, maxGapDays: number = 31): Promise<number> {
+    if (!supabaseAdmin) {
+      throw new Error('Filling follower snapshot gaps requires SUPABASE_SERVICE_ROLE_KEY');
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('fill_follower_snapshot_gaps', {
+      p_account_id: accountId,
+      p_since: since ?? null,
+      p_max_gap_days: maxGapDays
+    });
+
+    if (error) {
+      throw new Error(`Failed to fill follower snapshot gaps: ${error.message}`);
+    }
+    return data ?? 0;
+  }
+
   /**
    * Get latest snapshots for all accounts (NEW SYSTEM)
    */
@@ -1,75 +1,41 @@
-import axios, { AxiosInstance } from 'axios';
-import { TwitterPost, AccountTwitterAccount } from './types';
-import { TWITTER_CONFIG, RATE_LIMITS, ENDPOINTS } from './config';
+import { TwitterPost } from './types';
+import { XApiClient } from './xApiClient';
+import { BearerTokenSource } from './bearerTokenPool';
+import { XApiNotFoundError, XApiProtectedError, XApiSuspendedError } from './xApiErrors';
+import { EndpointBudget } from './endpointRateLimiter';
 import { supabase } from '../supabase/client';
 
 class TwitterService {
-  private apiClient: AxiosInstance;
-  private rateLimitCounter: number = 0;
-  private lastResetTime: number = Date.now();
+  private apiClient: XApiClient;
 
-  constructor(bearerToken: string) {
-    this.apiClient = axios.create({
-      baseURL: TWITTER_CONFIG.BASE_URL,
-      headers: {
-        'Authorization': `Bearer ${bearerToken}`,
-      }
-    });
-
-    // Reset rate limit counter every 15 minutes
-    setInterval(() => {
-      this.rateLimitCounter = 0;
-      this.lastResetTime = Date.now();
-    }, 15 * 60 * 1000);
+  constructor(bearerToken: BearerTokenSource, apiClient: XApiClient = new XApiClient(bearerToken)) {
+    this.apiClient = apiClient;
   }
 
-  private async checkRateLimit(): Promise<void> {
-    if (this.rateLimitCounter >= RATE_LIMITS.TWEETS_PER_15_MIN) {
-      const waitTime = (15 * 60 * 1000) - (Date.now() - this.lastResetTime);
-      if (waitTime > 0) {
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
-      this.rateLimitCounter = 0;
-    }
-    await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.DELAY_BETWEEN_REQUESTS));
-    this.rateLimitCounter++;
+  getRateLimitBudgets(): EndpointBudget[] {
+    return this.apiClient.getRateLimitBudgets();
   }
 
   async getUserByUsername(username: string) {
     try {
-      await this.checkRateLimit();
-      const response = await this.apiClient.get(
-        ENDPOINTS.USER_BY_USERNAME(username),
-        {
-          params: {
-            'user.fields': 'id,username,public_metrics'
-          }
-        }
-      );
-      return response.data.data;
+      return await this.apiClient.getUserByUsername(username, 'id,username,public_metrics');
     } catch (error) {
-      console.error(`Error fetching user by username ${username}:`, error);
+      if (error instanceof XApiNotFoundError || error instanceof XApiSuspendedError || error instanceof XApiProtectedError) {
+        console.warn(`User @${username} is unavailable: ${error.message}`);
+      } else {
+        console.error(`Error fetching user by username ${username}:`, error);
+      }
       return null;
     }
   }
 
   async fetchUserTweets(userId: string, lastTweetId?: string): Promise<TwitterPost[]> {
     try {
-      await this.checkRateLimit();
-      const params: any = {
-        'tweet.fields': 'created_at,public_metrics,author_id'
-      };
-      
-      if (lastTweetId) {
-        params.since_id = lastTweetId;
-      }
-
-      const response = await this.apiClient.get(
-        ENDPOINTS.USER_TWEETS(userId),
-        { params }
-      );
-
-      return response.data.data || [];
+      const page = await this.apiClient.getUserTimeline(userId, {
+        sinceId: lastTweetId,
+        tweetFields: 'created_at,public_metrics,author_id'
+      });
+      return page.tweets;
     } catch (error) {
       console.error(`Error fetching tweets for user ${userId}:`, error);
       return [];
@@ -120,19 +86,7 @@ class TwitterService {
 
   async getTweetsByIds(tweetIds: string[]): Promise<TwitterPost[]> {
     try {
-      await this.checkRateLimit();
-      
-      // Twitter API v2 allows up to 100 tweet IDs per request
-      const idsParam = tweetIds.slice(0, 100).join(',');
-      
-      const response = await this.apiClient.get('/tweets', {
-        params: {
-          ids: idsParam,
-          'tweet.fields': 'created_at,public_metrics,author_id'
-        }
-      });
-
-      return response.data.data || [];
+      return await this.apiClient.getTweetsByIds(tweetIds, 'created_at,public_metrics,author_id');
     } catch (error) {
       console.error(`Error fetching tweets by IDs:`, error);
       throw error;
@@ -1,78 +1,37 @@
-import axios, { AxiosInstance } from 'axios';
 import { BioDAOService } from '../biodao/biodaoService';
 import { TwitterPostData, BioDAO, BioDAOSocialAccount } from '../types/biodao';
-import { TWITTER_CONFIG, RATE_LIMITS, ENDPOINTS } from './config';
+import { XApiClient } from './xApiClient';
+import { BearerTokenSource } from './bearerTokenPool';
 
 export class TwitterSyncService {
-  private apiClient: AxiosInstance;
+  private apiClient: XApiClient;
   private biodaoService: BioDAOService;
-  private rateLimitCounter: number = 0;
-  private lastResetTime: number = Date.now();
-
-  constructor(bearerToken: string) {
-    this.apiClient = axios.create({
-      baseURL: TWITTER_CONFIG.BASE_URL,
-      headers: {
-        'Authorization': `Bearer ${bearerToken}`,
-      }
-    });
 
+  constructor(bearerToken: BearerTokenSource, apiClient: XApiClient = new XApiClient(bearerToken)) {
+    this.apiClient = apiClient;
     this.biodaoService = new BioDAOService();
-
-    // Reset rate limit counter every 15 minutes
-    setInterval(() => {
-      this.rateLimitCounter = 0;
-      this.lastResetTime = Date.now();
-    }, 15 * 60 * 1000);
-  }
-
-  private async checkRateLimit(): Promise<void> {
-    if (this.rateLimitCounter >= RATE_LIMITS.TWEETS_PER_15_MIN) {
-      const waitTime = (15 * 60 * 1000) - (Date.now() - this.lastResetTime);
-      if (waitTime > 0) {
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      }
-      this.rateLimitCounter = 0;
-    }
-    await new Promise(resolve => setTimeout(resolve, RATE_LIMITS.DELAY_BETWEEN_REQUESTS));
-    this.rateLimitCounter++;
   }
 
   async getUserByUsername(username: string) {
     try {
-      await this.checkRateLimit();
-      const response = await this.apiClient.get(
-        ENDPOINTS.USER_BY_USERNAME(username),
-        {
-          params: {
-            'user.fields': 'id,username,name,public_metrics,verified'
-          }
-        }
-      );
-      return response.data.data;
+      return await this.apiClient.getUserByUsername(username, 'id,username,name,public_metrics,verified');
     } catch (error) {
       console.error(`Error fetching user ${username}:`, error);
       throw error;
     }
   }
 
-  async fetchUserTweets(userId: string, sinceId?: string): Promise<any[]> {
+  async fetchUserTweets(userId: string, sinceId?: string, maxPages: number = sinceId ? 5 : 1): Promise<any[]> {
     try {
-      await this.checkRateLimit();
-      const params = {
-        'tweet.fields': 'created_at,public_metrics,context_annotations,entities,referenced_tweets',
-        'user.fields': 'id,username,name,verified,public_metrics',
-        'expansions': 'author_id,referenced_tweets.id',
-        'max_results': TWITTER_CONFIG.MAX_TWEETS_PER_REQUEST,
-        ...(sinceId && { since_id: sinceId })
-      };
-
-      const response = await this.apiClient.get(
-        ENDPOINTS.USER_TWEETS(userId),
-        { params }
-      );
-
-      return response.data.data || [];
+      // With a sinceId, keep paging so a backlog of new tweets isn't cut off at 100
+      const page = await this.apiClient.getUserTimeline(userId, {
+        sinceId,
+        maxPages,
+        tweetFields: 'created_at,public_metrics,context_annotations,entities,referenced_tweets',
+        userFields: 'id,username,name,verified,public_metrics',
+        expansions: 'author_id,referenced_tweets.id'
+      });
+      return page.tweets;
     } catch (error) {
       console.error(`Error fetching tweets for user ${userId}:`, error);
       return [];
@@ -119,6 +78,70 @@ export class TwitterSyncService {
     return 'original';
   }
 
+  /**
+   * Sync one Twitter account of a BioDAO; errors are recorded in the sync status and rethrown
+   */
+  async syncAccount(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<number> {
+    // Get last sync data
+    const syncStatus = (await this.biodaoService.getSyncStatus(bioDAO.id, 'twitter'))[0];
+
+    try {
+      console.log(`Syncing Twitter data for ${bioDAO.name} (@${account.account_identifier})`);
+      
+      // Get user details
+      const userInfo = await this.getUserByUsername(account.account_identifier);
+      if (!userInfo) {
+        throw new Error(`User not found: @${account.account_identifier}`);
+      }
+
+      const lastTweetId = syncStatus?.last_sync_data?.last_tweet_id;
+
+      // Fetch new tweets
+      const tweets = await this.fetchUserTweets(userInfo.id, lastTweetId);
+      
+      if (tweets.length > 0) {
+        // Transform and store tweets
+        for (const tweet of tweets) {
+          const twitterData = this.transformTwitterDataToBioDAOFormat(tweet, userInfo);
+          await this.biodaoService.storeSocialData(bioDAO.slug, twitterData);
+        }
+
+        // Update sync status
+        await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'twitter', account.account_identifier, syncStatus, {
+          last_tweet_id: tweets[0].id,
+          tweets_count: tweets.length,
+          user_info: {
+            username: userInfo.username,
+            followers: userInfo.public_metrics?.followers_count
+          }
+        }, []);
+
+        console.log(`✅ Synced ${tweets.length} tweets for ${bioDAO.name} (@${account.account_identifier})`);
+      } else {
+        console.log(`No new tweets for ${bioDAO.name} (@${account.account_identifier})`);
+        
+        // Update sync status even if no new tweets
+        await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'twitter', account.account_identifier, syncStatus, {
+          ...syncStatus?.last_sync_data
+        }, []);
+      }
+
+      return tweets.length;
+    } catch (error) {
+      console.error(`Error syncing Twitter for ${bioDAO.name} (@${account.account_identifier}):`, error);
+      
+      // Update sync status with error
+      await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'twitter', account.account_identifier, syncStatus, {
+        ...syncStatus?.last_sync_data
+      }, [{ 
+        timestamp: new Date().toISOString(), 
+        error: error instanceof Error ? error.message : String(error),
+        account: account.account_identifier
+      }]);
+      throw error;
+    }
+  }
+
   async syncBioDAOTwitterData(bioDAO: BioDAO): Promise<void> {
     try {
       // Get Twitter accounts for this BioDAO
@@ -131,68 +154,9 @@ export class TwitterSyncService {
 
       for (const account of twitterAccounts) {
         try {
-          console.log(`Syncing Twitter data for ${bioDAO.name} (@${account.account_identifier})`);
-          
-          // Get user details
-          const userInfo = await this.getUserByUsername(account.account_identifier);
-          if (!userInfo) {
-            console.error(`User not found: @${account.account_identifier}`);
-            continue;
-          }
-
-          // Get last sync data
-          const syncStatus = await this.biodaoService.getSyncStatus(bioDAO.id, 'twitter');
-          const lastTweetId = syncStatus[0]?.last_sync_data?.last_tweet_id;
-
-          // Fetch new tweets
-          const tweets = await this.fetchUserTweets(userInfo.id, lastTweetId);
-          
-          if (tweets.length > 0) {
-            // Transform and store tweets
-            for (const tweet of tweets) {
-              const twitterData = this.transformTwitterDataToBioDAOFormat(tweet, userInfo);
-              await this.biodaoService.storeSocialData(bioDAO.slug, twitterData);
-            }
-
-            // Update sync status
-            await this.biodaoService.updateSyncStatus(bioDAO.id, 'twitter', {
-              last_sync_time: new Date().toISOString(),
-              last_sync_data: {
-                last_tweet_id: tweets[0].id,
-                tweets_count: tweets.length,
-                user_info: {
-                  username: userInfo.username,
-                  followers: userInfo.public_metrics?.followers_count
-                }
-              },
-              sync_errors: [],
-              is_syncing: false
-            });
-
-            console.log(`✅ Synced ${tweets.length} tweets for ${bioDAO.name} (@${account.account_identifier})`);
-          } else {
-            console.log(`No new tweets for ${bioDAO.name} (@${account.account_identifier})`);
-            
-            // Update sync status even if no new tweets
-            await this.biodaoService.updateSyncStatus(bioDAO.id, 'twitter', {
-              last_sync_time: new Date().toISOString(),
-              is_syncing: false
-            });
-          }
-
-        } catch (error) {
-          console.error(`Error syncing Twitter for ${bioDAO.name} (@${account.account_identifier}):`, error);
-          
-          // Update sync status with error
-          await this.biodaoService.updateSyncStatus(bioDAO.id, 'twitter', {
-            last_sync_time: new Date().toISOString(),
-            sync_errors: [{ 
-              timestamp: new Date().toISOString(), 
-              error: error instanceof Error ? error.message : String(error),
-              account: account.account_identifier
-            }],
-            is_syncing: false
-          });
+          await this.syncAccount(bioDAO, account);
+        } catch {
+          // Already logged and recorded in the sync status; carry on with the next account
         }
       }
 
@@ -0,0 +1,319 @@
+import { TwitterPost } from './types';
+import { TWITTER_CONFIG, ENDPOINTS } from './config';
+import { EndpointRateLimiter, EndpointBudget } from './endpointRateLimiter';
+import { RateLimitManager } from './rateLimitManager';
+import { BearerTokenPool, BearerTokenSource, PooledTokenStatus } from './bearerTokenPool';
+import { XApiAuthError, XApiError, XApiProblem, XApiRateLimitedError, errorFromProblem, toXApiError } from './xApiErrors';
+
+export const DEFAULT_USER_FIELDS = 'id,username,name,public_metrics,verified,protected,created_at';
+export const DEFAULT_TWEET_FIELDS = 'created_at,public_metrics,author_id,conversation_id,in_reply_to_user_id,referenced_tweets,entities,lang';
+
+// X accepts at most 100 usernames or tweet ids per lookup
+const LOOKUP_BATCH_SIZE = 100;
+
+export interface XUser {
+  id: string;
+  username: string;
+  name: string;
+  verified?: boolean;
+  protected?: boolean;
+  created_at?: string;
+  public_metrics: {
+    followers_count: number;
+    following_count: number;
+    tweet_count: number;
+    listed_count: number;
+  };
+}
+
+export interface XTweet extends TwitterPost {
+  conversation_id?: string;
+  in_reply_to_user_id?: string;
+  lang?: string;
+  referenced_tweets?: Array<{ type: 'retweeted' | 'quoted' | 'replied_to'; id: string }>;
+  entities?: any;
+  context_annotations?: any[];
+}
+
+export interface XUserLookupResult {
+  users: XUser[];
+  errors: XApiError[];
+}
+
+export interface XTweetPage {
+  tweets: XTweet[];
+  users: XUser[];
+  nextToken?: string;
+  newestId?: string;
+  oldestId?: string;
+}
+
+export interface XTimelineOptions {
+  sinceId?: string;
+  untilId?: string;
+  startTime?: string;
+  endTime?: string;
+  paginationToken?: string;
+  maxResults?: number; // Per page, 5-100
+  maxPages?: number; // Stop after this many pages (default 1)
+  tweetFields?: string;
+  expansions?: string;
+  userFields?: string;
+}
+
+interface XApiResponse<T> {
+  data?: T;
+  includes?: { users?: XUser[]; tweets?: XTweet[] };
+  errors?: XApiProblem[];
+  meta?: {
+    result_count?: number;
+    next_token?: string;
+    newest_id?: string;
+    oldest_id?: string;
+  };
+}
+
+export interface XApiClientOptions {
+  baseUrl?: string;
+  rateLimiter?: EndpointRateLimiter; // Ignored when several tokens are given; each token has its own
+  rateLimitManager?: RateLimitManager; // Monthly request/post budget, shared across services
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+/**
+ * Typed client for the X API v2 endpoints used by the sync services.
+ * Handles per-endpoint rate limits, monthly budgets, retries with backoff and typed errors.
+ * Requests are spread over the tokens of a BearerTokenPool when more than one token is given.
+ */
+export class XApiClient {
+  private tokenPool: BearerTokenPool;
+  private rateLimitManager?: RateLimitManager;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+
+  constructor(bearerToken: BearerTokenSource, options: XApiClientOptions = {}) {
+    // Each token waits on and updates its own per-endpoint budgets from the x-rate-limit-* headers
+    this.tokenPool = BearerTokenPool.from(bearerToken, {
+      baseUrl: options.baseUrl,
+      rateLimiter: options.rateLimiter
+    });
+
+    this.rateLimitManager = options.rateLimitManager;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+  }
+
+  /**
+   * Per-endpoint budgets, summed over the pool's active tokens
+   */
+  getRateLimitBudgets(): EndpointBudget[] {
+    return this.tokenPool.getBudgets();
+  }
+
+  getTokenPool(): BearerTokenPool {
+    return this.tokenPool;
+  }
+
+  getTokenStatus(): PooledTokenStatus[] {
+    return this.tokenPool.getStatus();
+  }
+
+  getRateLimitManager(): RateLimitManager | undefined {
+    return this.rateLimitManager;
+  }
+
+  /**
+   * Look up a single user by username
+   */
+  async getUserByUsername(username: string, userFields: string = DEFAULT_USER_FIELDS): Promise<XUser> {
+    const response = await this.request<XUser>(ENDPOINTS.USER_BY_USERNAME(username), {
+      'user.fields': userFields
+    });
+    return response.data!;
+  }
+
+  /**
+   * Look up many users by username, batching 100 per request.
+   * Unknown, suspended or protected users are returned as errors instead of failing the batch.
+   */
+  async getUsersByUsernames(usernames: string[], userFields: string = DEFAULT_USER_FIELDS): Promise<XUserLookupResult> {
+    const result: XUserLookupResult = { users: [], errors: [] };
+
+    for (let i = 0; i < usernames.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = usernames.slice(i, i + LOOKUP_BATCH_SIZE);
+      const response = await this.request<XUser[]>('/users/by', {
+        usernames: batch.join(','),
+        'user.fields': userFields
+      }, { allowPartial: true });
+
+      result.users.push(...(response.data || []));
+      result.errors.push(...(response.errors || []).map(problem => errorFromProblem(problem, '/users/by')));
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch a user's timeline, following pagination tokens for up to maxPages pages
+   */
+  async getUserTimeline(userId: string, options: XTimelineOptions = {}): Promise<XTweetPage> {
+    const maxPages = options.maxPages ?? 1;
+    const page: XTweetPage = { tweets: [], users: [] };
+    let paginationToken = options.paginationToken;
+
+    for (let pageNumber = 0; pageNumber < maxPages; pageNumber++) {
+      const response = await this.request<XTweet[]>(ENDPOINTS.USER_TWEETS(userId), {
+        'tweet.fields': options.tweetFields || DEFAULT_TWEET_FIELDS,
+        'max_results': options.maxResults ?? TWITTER_CONFIG.MAX_TWEETS_PER_REQUEST,
+        ...(options.expansions && { expansions: options.expansions }),
+        ...(options.userFields && { 'user.fields': options.userFields }),
+        ...(options.sinceId && { since_id: options.sinceId }),
+        ...(options.untilId && { until_id: options.untilId }),
+        ...(options.startTime && { start_time: options.startTime }),
+        ...(options.endTime && { end_time: options.endTime }),
+        ...(paginationToken && { pagination_token: paginationToken })
+      });
+
+      this.mergePage(page, response);
+      paginationToken = response.meta?.next_token;
+      if (!paginationToken) break;
+    }
+
+    page.nextToken = paginationToken;
+    return page;
+  }
+
+  /**
+   * Look up tweets by id, batching 100 per request. Deleted or hidden tweets are skipped.
+   */
+  async getTweetsByIds(tweetIds: string[], tweetFields: string = DEFAULT_TWEET_FIELDS): Promise<XTweet[]> {
+    const tweets: XTweet[] = [];
+
+    for (let i = 0; i < tweetIds.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = tweetIds.slice(i, i + LOOKUP_BATCH_SIZE);
+      const response = await this.request<XTweet[]>('/tweets', {
+        ids: batch.join(','),
+        'tweet.fields': tweetFields
+      }, { allowPartial: true });
+
+      tweets.push(...(response.data || []));
+    }
+
+    return tweets;
+  }
+
+  /**
+   * Search tweets from the last 7 days, following pagination tokens for up to maxPages pages
+   */
+  async searchRecent(query: string, options: Omit<XTimelineOptions, 'paginationToken'> & { nextToken?: string } = {}): Promise<XTweetPage> {
+    const maxPages = options.maxPages ?? 1;
+    const page: XTweetPage = { tweets: [], users: [] };
+    let nextToken = options.nextToken;
+
+    for (let pageNumber = 0; pageNumber < maxPages; pageNumber++) {
+      const response = await this.request<XTweet[]>('/tweets/search/recent', {
+        query,
+        'tweet.fields': options.tweetFields || DEFAULT_TWEET_FIELDS,
+        'max_results': options.maxResults ?? TWITTER_CONFIG.MAX_TWEETS_PER_REQUEST,
+        ...(options.expansions && { expansions: options.expansions }),
+        ...(options.userFields && { 'user.fields': options.userFields }),
+        ...(options.sinceId && { since_id: options.sinceId }),
+        ...(options.untilId && { until_id: options.untilId }),
+        ...(options.startTime && { start_time: options.startTime }),
+        ...(options.endTime && { end_time: options.endTime }),
+        ...(nextToken && { next_token: nextToken })
+      });
+
+      this.mergePage(page, response);
+      nextToken = response.meta?.next_token;
+      if (!nextToken) break;
+    }
+
+    page.nextToken = nextToken;
+    return page;
+  }
+
+  private mergePage(page: XTweetPage, response: XApiResponse<XTweet[]>): void {
+    page.tweets.push(...(response.data || []));
+    page.users.push(...(response.includes?.users || []));
+    if (!page.newestId && response.meta?.newest_id) {
+      page.newestId = response.meta.newest_id;
+    }
+    if (response.meta?.oldest_id) {
+      page.oldestId = response.meta.oldest_id;
+    }
+  }
+
+  /**
+   * Run a GET request with budget accounting, retries for transient failures and typed errors
+   */
+  private async request<T>(
+    path: string,
+    params: Record<string, any>,
+    options: { allowPartial?: boolean } = {}
+  ): Promise<XApiResponse<T>> {
+    const endpoint = EndpointRateLimiter.endpointKey('get', path);
+    let waitedForReset = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = this.tokenPool.select(endpoint);
+
+      if (this.rateLimitManager) {
+        await this.rateLimitManager.checkRateLimit();
+        this.rateLimitManager.incrementRequestCount();
+      }
+
+      let recorded = false;
+      try {
+        const response = await token.http.get<XApiResponse<T>>(path, { params });
+        const body = response.data;
+        this.tokenPool.recordRequest(token, Array.isArray(body.data) && path.includes('/tweets') ? body.data.length : 0);
+        recorded = true;
+
+        // Lookups answer 200 with only an `errors` array for unknown, suspended or protected resources
+        if (!options.allowPartial && body.data === undefined && body.errors?.length) {
+          throw errorFromProblem(body.errors[0]!, endpoint, response.status);
+        }
+
+        // Only tweets count towards the monthly post budget
+        if (this.rateLimitManager && Array.isArray(body.data) && path.includes('/tweets')) {
+          this.rateLimitManager.incrementPostCount(body.data.length);
+        }
+        return body;
+      } catch (error) {
+        const apiError = toXApiError(error, endpoint, token.rateLimiter.getBudget(endpoint)?.resetAt);
+        // A 200 with only an `errors` array was already counted above
+        if (!recorded) this.tokenPool.recordRequest(token);
+
+        // A revoked or suspended app token: move on to another token without spending a retry
+        if (apiError instanceof XApiAuthError && this.tokenPool.size > 1) {
+          if (this.tokenPool.recordAuthFailure(token, apiError)) {
+            attempt--;
+            continue;
+          }
+          throw apiError;
+        }
+
+        // Switch to a token with budget left on this endpoint, or wait once for the earliest reset
+        if (apiError instanceof XApiRateLimitedError && this.tokenPool.size > 1) {
+          if (this.tokenPool.hasCapacity(endpoint) || !waitedForReset) {
+            waitedForReset = waitedForReset || !this.tokenPool.hasCapacity(endpoint);
+            attempt--;
+            continue;
+          }
+          throw apiError;
+        }
+
+        // Rate limits were already waited out once by the limiter
+        if (apiError instanceof XApiRateLimitedError || !apiError.retryable || attempt >= this.maxRetries) {
+          throw apiError;
+        }
+
+        const delay = this.retryBaseDelayMs * Math.pow(2, attempt) + Math.floor(Math.random() * 250);
+        console.warn(`X API ${endpoint} failed (${apiError.message}), retrying in ${delay}ms (${attempt + 1}/${this.maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import axios from 'axios';
+
+// Problem object returned in the `errors` array of X API v2 responses
+export interface XApiProblem {
+  title?: string;
+  detail?: string;
+  type?: string;
+  value?: string;
+  resource_id?: string;
+  resource_type?: string;
+  parameter?: string;
+}
+
+/**
+ * Base class for every error raised by XApiClient
+ */
+export class XApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly status?: number,
+    public readonly problem?: XApiProblem
+  ) {
+    super(message);
+    this.name = 'XApiError';
+  }
+
+  /**
+   * Network failures and 5xx responses are worth retrying
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+}
+
+/**
+ * The requested user or tweet does not exist
+ */
+export class XApiNotFoundError extends XApiError {
+  constructor(message: string, endpoint: string, status?: number, problem?: XApiProblem) {
+    super(message, endpoint, status, problem);
+    this.name = 'XApiNotFoundError';
+  }
+}
+
+/**
+ * The requested user has been suspended
+ */
+export class XApiSuspendedError extends XApiError {
+  constructor(message: string, endpoint: string, status?: number, problem?: XApiProblem) {
+    super(message, endpoint, status, problem);
+    this.name = 'XApiSuspendedError';
+  }
+}
+
+/**
+ * The requested user's tweets are protected
+ */
+export class XApiProtectedError extends XApiError {
+  constructor(message: string, endpoint: string, status?: number, problem?: XApiProblem) {
+    super(message, endpoint, status, problem);
+    this.name = 'XApiProtectedError';
+  }
+}
+
+/**
+ * The endpoint's rate limit is used up even after waiting for its reset
+ */
+export class XApiRateLimitedError extends XApiError {
+  constructor(message: string, endpoint: string, public readonly resetAt?: Date, status: number = 429) {
+    super(message, endpoint, status);
+    this.name = 'XApiRateLimitedError';
+  }
+}
+
+/**
+ * The bearer token is missing, invalid or lacks access to the endpoint
+ */
+export class XApiAuthError extends XApiError {
+  constructor(message: string, endpoint: string, status?: number, problem?: XApiProblem) {
+    super(message, endpoint, status, problem);
+    this.name = 'XApiAuthError';
+  }
+}
+
+/**
+ * Map a problem object from a 200 response (e.g. unknown username) to a typed error
+ */
+export function errorFromProblem(problem: XApiProblem, endpoint: string, status?: number): XApiError {
+  const detail = problem.detail || problem.title || 'Unknown X API error';
+  const type = problem.type || '';
+
+  if (/suspended/i.test(detail)) {
+    return new XApiSuspendedError(detail, endpoint, status, problem);
+  }
+  if (type.endsWith('/not-authorized-for-resource') || /protected/i.test(detail)) {
+    return new XApiProtectedError(detail, endpoint, status, problem);
+  }
+  if (type.endsWith('/resource-not-found') || /could not find/i.test(detail)) {
+    return new XApiNotFoundError(detail, endpoint, status, problem);
+  }
+  return new XApiError(detail, endpoint, status, problem);
+}
+
+/**
+ * Convert anything thrown by axios into a typed XApiError
+ */
+export function toXApiError(error: unknown, endpoint: string, resetAt?: Date): XApiError {
+  if (error instanceof XApiError) return error;
+
+  if (!axios.isAxiosError(error) || !error.response) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new XApiError(`Request to ${endpoint} failed: ${message}`, endpoint);
+  }
+
+  const { status, data } = error.response;
+  const problem: XApiProblem | undefined = data?.errors?.[0] ?? (data?.title ? data : undefined);
+  const detail = problem?.detail || problem?.title || error.message;
+
+  switch (status) {
+    case 401:
+      return new XApiAuthError(`Authentication failed for ${endpoint}: ${detail}`, endpoint, status, problem);
+    case 403:
+      // X answers 403 both for suspended accounts and for tokens without access to the endpoint
+      if (problem && /suspended/i.test(detail)) {
+        return new XApiSuspendedError(detail, endpoint, status, problem);
+      }
+      return new XApiAuthError(`Access denied for ${endpoint}: ${detail}`, endpoint, status, problem);
+    case 404:
+      return new XApiNotFoundError(detail, endpoint, status, problem);
+    case 429:
+      return new XApiRateLimitedError(`Rate limit exceeded for ${endpoint}`, endpoint, resetAt, status);
+    default:
+      return new XApiError(`Request to ${endpoint} failed with ${status}: ${detail}`, endpoint, status, problem);
+  }
+}
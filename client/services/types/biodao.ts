@@ -111,6 +111,110 @@ export interface DiscordMessageData extends Omit<BioDAOSocialData, 'platform' |
   };
 }
 
+// Telegram-specific types
+export interface TelegramMessageData extends Omit<BioDAOSocialData, 'platform' | 'engagement_metrics'> {
+  platform: 'telegram';
+  engagement_metrics: {
+    views?: number;
+    forwards?: number;
+    replies?: number;
+    reactions?: Record<string, number>;
+  };
+  platform_data: {
+    chat_id: string;
+    chat_username?: string;
+    chat_title: string;
+    chat_type: 'channel' | 'group';
+    media_type?: string;
+    grouped_id?: string; // Shared by the messages of one album
+    forwarded_from?: string;
+    edited_at?: string;
+  };
+}
+
+// Reddit-specific types (posts and comments share the shape; post_type tells them apart)
+export interface RedditPostData extends Omit<BioDAOSocialData, 'platform' | 'engagement_metrics'> {
+  platform: 'reddit';
+  engagement_metrics: {
+    score: number;
+    upvote_ratio?: number; // Posts only
+    comments?: number; // Posts only
+    awards?: number;
+  };
+  platform_data: {
+    subreddit: string;
+    permalink: string;
+    title?: string; // Post title, or the parent post's title for comments
+    url?: string;
+    flair?: string;
+    is_self?: boolean;
+    stickied?: boolean;
+    link_id?: string; // Comments: fullname of the post
+    parent_id?: string; // Comments: fullname of the post or parent comment
+    edited_at?: string;
+  };
+}
+
+// YouTube-specific types (one entry per upload; metrics are refreshed while the video is recent)
+export interface YouTubeVideoData extends Omit<BioDAOSocialData, 'platform' | 'engagement_metrics'> {
+  platform: 'youtube';
+  engagement_metrics: {
+    views?: number;
+    likes?: number;
+    comments?: number;
+  };
+  platform_data: {
+    channel_id: string;
+    channel_title: string;
+    title: string;
+    url: string;
+    duration_seconds?: number;
+    thumbnail_url?: string;
+    tags?: string[];
+    live_broadcast_content?: 'none' | 'live' | 'upcoming';
+    live_started_at?: string;
+    metrics_updated_at: string;
+  };
+}
+
+// Daily member/subscriber count for a non-Twitter social account
+export interface BioDAOAudienceSnapshot {
+  id: string;
+  biodao_id: string;
+  platform: SocialPlatform;
+  account_identifier: string;
+  date: string;
+  member_count: number;
+  active_count?: number | null; // Users online at snapshot time, where the platform reports it
+  change_from_previous: number;
+  change_percentage: number;
+  message_count: number;
+  recorded_at: string;
+}
+
+// account_data for a Discord social account (account_identifier is the server/guild id)
+export interface DiscordAccountData {
+  channel_ids?: string[]; // Channels to sync; all readable text channels when omitted
+  initial_message_limit?: number; // Messages to fetch per channel on the first sync (default 100)
+}
+
+// account_data for a Telegram social account (account_identifier is the public @username or numeric chat id)
+export interface TelegramAccountData {
+  initial_message_limit?: number; // Messages to fetch on the first sync (default 100)
+}
+
+// account_data for a Reddit social account (account_identifier is the subreddit name without r/)
+export interface RedditAccountData {
+  initial_post_limit?: number; // Posts to fetch on the first sync (default 100)
+  sync_comments?: boolean; // Default true
+}
+
+// account_data for a YouTube social account (account_identifier is the channel id or @handle)
+export interface YouTubeAccountData {
+  initial_video_limit?: number; // Uploads to fetch on the first sync (default 50)
+  refresh_days?: number; // Refresh metrics of videos published in the last N days (default 30)
+}
+
 // Helper types for API responses
 export interface BioDAOWithAccounts extends BioDAO {
   social_accounts: BioDAOSocialAccount[];
@@ -8,6 +8,8 @@ export interface Account {
   website_url?: string;
   follower_count?: number;
   follower_count_updated_at?: string;
+  sync_priority?: number; // 1-10, weight in the post budget plan
+  tags?: string[]; // Labels defining benchmark peer groups
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,251 @@
+import axios, { AxiosInstance } from 'axios';
+
+// Overridable so the client can be pointed at a local stub
+export const YOUTUBE_API_BASE_URL = process.env.YOUTUBE_API_BASE_URL || 'https://www.googleapis.com/youtube/v3';
+
+// videos.list and playlistItems.list accept at most 50 ids/results per request
+export const YOUTUBE_MAX_RESULTS = 50;
+
+// Default daily quota of a Google Cloud project; it resets at midnight Pacific time
+export const YOUTUBE_DAILY_QUOTA = 10000;
+
+export interface YouTubeChannel {
+  id: string;
+  title: string;
+  handle?: string;
+  uploadsPlaylistId: string;
+  subscriberCount: number;
+  hiddenSubscriberCount: boolean;
+  videoCount: number;
+  viewCount: number;
+}
+
+export interface YouTubeUpload {
+  videoId: string;
+  publishedAt: string;
+}
+
+export interface YouTubeVideo {
+  id: string;
+  channelId: string;
+  channelTitle: string;
+  title: string;
+  description: string;
+  publishedAt: string;
+  duration?: string; // ISO 8601, e.g. PT1H2M3S
+  thumbnailUrl?: string;
+  tags?: string[];
+  liveBroadcastContent: 'none' | 'live' | 'upcoming';
+  actualStartTime?: string;
+  viewCount?: number; // Missing while a premiere or stream is upcoming
+  likeCount?: number; // Missing when the channel hides likes
+  commentCount?: number; // Missing when comments are disabled
+}
+
+export interface YouTubeQuotaStatus {
+  day: string; // Pacific date the quota applies to (YYYY-MM-DD)
+  used: number; // Units spent by this client today
+  limit: number;
+  exhausted: boolean; // The API has answered quotaExceeded today
+}
+
+export interface YouTubeApiClientOptions {
+  baseUrl?: string;
+  dailyQuota?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+/**
+ * Error raised by YouTubeApiClient; `reason` is the API's error reason (e.g. quotaExceeded) when present
+ */
+export class YouTubeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly status?: number,
+    public readonly reason?: string
+  ) {
+    super(message);
+    this.name = 'YouTubeApiError';
+  }
+
+  /**
+   * Network failures and 5xx responses are worth retrying; the daily quota only resets at midnight Pacific time
+   */
+  get retryable(): boolean {
+    if (this.reason === 'quotaExceeded' || this.reason === 'dailyLimitExceeded') return false;
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Minimal client for the YouTube Data API v3 endpoints used by the BioDAO sync (API key auth).
+ * Every call here costs 1 quota unit out of the project's daily 10,000.
+ */
+export class YouTubeApiClient {
+  private http: AxiosInstance;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private quotaUnitsUsed: number = 0;
+  private dailyQuota: number;
+  private quota = { day: '', used: 0, exhausted: false };
+
+  constructor(apiKey: string, options: YouTubeApiClientOptions = {}) {
+    this.http = axios.create({
+      baseURL: options.baseUrl || YOUTUBE_API_BASE_URL,
+      params: { key: apiKey }
+    });
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.dailyQuota = options.dailyQuota ?? YOUTUBE_DAILY_QUOTA;
+  }
+
+  /**
+   * Quota units spent by this client since it was created
+   */
+  getQuotaUnitsUsed(): number {
+    return this.quotaUnitsUsed;
+  }
+
+  /**
+   * Today's quota usage as seen by this client (other clients on the same project also count)
+   */
+  getQuotaStatus(): YouTubeQuotaStatus {
+    this.rollQuotaDay();
+    return { day: this.quota.day, used: this.quota.used, limit: this.dailyQuota, exhausted: this.quota.exhausted };
+  }
+
+  private rollQuotaDay(): void {
+    const day = new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+    if (day !== this.quota.day) {
+      this.quota = { day, used: 0, exhausted: false };
+    }
+  }
+
+  /**
+   * Look up a channel by id (UC...) or @handle
+   */
+  async getChannel(identifier: string): Promise<YouTubeChannel> {
+    const lookup = identifier.startsWith('@') ? { forHandle: identifier } : { id: identifier };
+    const response = await this.request<any>('/channels', {
+      part: 'snippet,statistics,contentDetails',
+      ...lookup
+    });
+
+    const channel = response.items?.[0];
+    if (!channel) {
+      throw new YouTubeApiError(`YouTube channel ${identifier} not found`, '/channels', 404, 'channelNotFound');
+    }
+
+    return {
+      id: channel.id,
+      title: channel.snippet?.title || '',
+      handle: channel.snippet?.customUrl || undefined,
+      uploadsPlaylistId: channel.contentDetails?.relatedPlaylists?.uploads,
+      subscriberCount: parseInt(channel.statistics?.subscriberCount || '0', 10),
+      hiddenSubscriberCount: Boolean(channel.statistics?.hiddenSubscriberCount),
+      videoCount: parseInt(channel.statistics?.videoCount || '0', 10),
+      viewCount: parseInt(channel.statistics?.viewCount || '0', 10)
+    };
+  }
+
+  /**
+   * One page of a channel's uploads playlist, newest first
+   */
+  async getUploads(playlistId: string, pageToken?: string): Promise<{ uploads: YouTubeUpload[]; nextPageToken?: string }> {
+    const response = await this.request<any>('/playlistItems', {
+      part: 'contentDetails',
+      playlistId,
+      maxResults: YOUTUBE_MAX_RESULTS,
+      ...(pageToken && { pageToken })
+    });
+
+    return {
+      uploads: (response.items || []).map((item: any) => ({
+        videoId: item.contentDetails.videoId,
+        publishedAt: item.contentDetails.videoPublishedAt || item.snippet?.publishedAt
+      })),
+      nextPageToken: response.nextPageToken
+    };
+  }
+
+  /**
+   * Details and current statistics for up to 50 videos; deleted or private videos are left out
+   */
+  async getVideos(videoIds: string[]): Promise<YouTubeVideo[]> {
+    if (videoIds.length === 0) return [];
+    if (videoIds.length > YOUTUBE_MAX_RESULTS) {
+      throw new Error(`getVideos accepts at most ${YOUTUBE_MAX_RESULTS} ids (got ${videoIds.length})`);
+    }
+
+    const response = await this.request<any>('/videos', {
+      part: 'snippet,statistics,contentDetails,liveStreamingDetails',
+      id: videoIds.join(','),
+      maxResults: YOUTUBE_MAX_RESULTS
+    });
+
+    return (response.items || []).map((video: any) => this.mapVideo(video));
+  }
+
+  private mapVideo(video: any): YouTubeVideo {
+    const count = (value?: string) => value !== undefined ? parseInt(value, 10) : undefined;
+    const thumbnails = video.snippet?.thumbnails || {};
+
+    return {
+      id: video.id,
+      channelId: video.snippet?.channelId,
+      channelTitle: video.snippet?.channelTitle || '',
+      title: video.snippet?.title || '',
+      description: video.snippet?.description || '',
+      publishedAt: video.snippet?.publishedAt,
+      duration: video.contentDetails?.duration,
+      thumbnailUrl: (thumbnails.high || thumbnails.medium || thumbnails.default)?.url,
+      tags: video.snippet?.tags,
+      liveBroadcastContent: video.snippet?.liveBroadcastContent || 'none',
+      actualStartTime: video.liveStreamingDetails?.actualStartTime,
+      viewCount: count(video.statistics?.viewCount),
+      likeCount: count(video.statistics?.likeCount),
+      commentCount: count(video.statistics?.commentCount)
+    };
+  }
+
+  /**
+   * Run a GET request, retrying transient failures with backoff
+   */
+  private async request<T>(path: string, params: Record<string, any>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        this.rollQuotaDay();
+        this.quotaUnitsUsed++;
+        this.quota.used++;
+        const response = await this.http.get<T>(path, { params });
+        return response.data;
+      } catch (error) {
+        const apiError = this.toApiError(error, path);
+        if (apiError.reason === 'quotaExceeded' || apiError.reason === 'dailyLimitExceeded') {
+          this.quota.exhausted = true;
+        }
+        if (!apiError.retryable || attempt >= this.maxRetries) {
+          throw apiError;
+        }
+
+        const delay = this.retryBaseDelayMs * Math.pow(2, attempt);
+        console.warn(`YouTube ${path} failed (${apiError.message}), retrying in ${delay}ms (${attempt + 1}/${this.maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private toApiError(error: unknown, endpoint: string): YouTubeApiError {
+    if (!axios.isAxiosError(error) || !error.response) {
+      const message = error instanceof Error ? error.message : String(error);
+      return new YouTubeApiError(`Request to ${endpoint} failed: ${message}`, endpoint);
+    }
+
+    const { status, data } = error.response;
+    const detail = data?.error?.message || error.message;
+    const reason = data?.error?.errors?.[0]?.reason;
+    return new YouTubeApiError(`Request to ${endpoint} failed with ${status}: ${detail}`, endpoint, status, reason);
+  }
+}
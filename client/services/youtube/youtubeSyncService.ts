@@ -0,0 +1,262 @@
+import { BioDAOService } from '../biodao/biodaoService';
+import { BioDAO, BioDAOSocialAccount, YouTubeAccountData, YouTubeVideoData } from '../types/biodao';
+import { YouTubeApiClient, YouTubeChannel, YouTubeVideo, YOUTUBE_MAX_RESULTS } from './youtubeApiClient';
+
+// Upper bound on upload pages fetched per channel in one sync; the cursor picks up the rest next time
+const MAX_UPLOAD_PAGES = 5;
+
+const DEFAULT_INITIAL_VIDEO_LIMIT = 50;
+
+// Views on community calls keep coming in for weeks, unlike tweets
+const DEFAULT_REFRESH_DAYS = 30;
+
+interface YouTubeChannelCursor {
+  channel_id: string;
+  newest_published_at?: string; // publishedAt of the newest synced upload
+}
+
+/**
+ * Parse an ISO 8601 duration such as PT1H2M3S into seconds
+ */
+export function parseYouTubeDuration(duration?: string): number | undefined {
+  const match = duration?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+
+  const [, days, hours, minutes, seconds] = match.map(part => parseInt(part || '0', 10));
+  return (days || 0) * 86400 + (hours || 0) * 3600 + (minutes || 0) * 60 + (seconds || 0);
+}
+
+export class YouTubeSyncService {
+  private apiClient: YouTubeApiClient;
+  private biodaoService: BioDAOService;
+
+  constructor(
+    apiKey: string,
+    apiClient: YouTubeApiClient = new YouTubeApiClient(apiKey),
+    biodaoService: BioDAOService = new BioDAOService()
+  ) {
+    this.apiClient = apiClient;
+    this.biodaoService = biodaoService;
+  }
+
+  /**
+   * Ids of uploads newer than the cursor, newest first. Without a cursor only the latest `initialLimit` are fetched.
+   */
+  async fetchNewUploadIds(channel: YouTubeChannel, since?: string, initialLimit: number = DEFAULT_INITIAL_VIDEO_LIMIT): Promise<string[]> {
+    const sinceTime = since ? new Date(since).getTime() : undefined;
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
+
+    for (let page = 0; page < MAX_UPLOAD_PAGES; page++) {
+      const { uploads, nextPageToken } = await this.apiClient.getUploads(channel.uploadsPlaylistId, pageToken);
+      const newer = sinceTime !== undefined
+        ? uploads.filter(upload => new Date(upload.publishedAt).getTime() > sinceTime)
+        : uploads;
+      videoIds.push(...newer.map(upload => upload.videoId));
+
+      if (!nextPageToken || newer.length < uploads.length) break;
+      if (sinceTime === undefined && videoIds.length >= initialLimit) break;
+      pageToken = nextPageToken;
+    }
+
+    return sinceTime === undefined ? videoIds.slice(0, initialLimit) : videoIds;
+  }
+
+  /**
+   * Ids of this channel's stored videos published in the last `days` days
+   */
+  private async getRecentVideoIds(bioDAO: BioDAO, channelId: string, days: number): Promise<string[]> {
+    const recent = await this.biodaoService.getSocialData({
+      dao_slug: bioDAO.slug,
+      platform: 'youtube',
+      date_from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+      limit: 1000
+    });
+
+    return recent
+      .filter(video => video.platform_data?.channel_id === channelId)
+      .map(video => video.post_id);
+  }
+
+  private transformYouTubeVideoToBioDAOFormat(video: YouTubeVideo): Omit<YouTubeVideoData, 'id' | 'synced_at' | 'created_at'> {
+    return {
+      platform: 'youtube',
+      post_id: video.id,
+      post_type: 'post',
+      content: video.description ? `${video.title}\n\n${video.description}` : video.title,
+      author_info: {
+        user_id: video.channelId,
+        display_name: video.channelTitle
+      },
+      engagement_metrics: {
+        views: video.viewCount,
+        likes: video.likeCount,
+        comments: video.commentCount
+      },
+      platform_data: {
+        channel_id: video.channelId,
+        channel_title: video.channelTitle,
+        title: video.title,
+        url: `https://www.youtube.com/watch?v=${video.id}`,
+        duration_seconds: parseYouTubeDuration(video.duration),
+        thumbnail_url: video.thumbnailUrl,
+        tags: video.tags,
+        live_broadcast_content: video.liveBroadcastContent,
+        live_started_at: video.actualStartTime,
+        metrics_updated_at: new Date().toISOString()
+      },
+      posted_at: video.publishedAt
+    };
+  }
+
+  /**
+   * Sync one channel: store new uploads, refresh metrics of recent ones and record the subscriber count
+   */
+  private async syncChannel(
+    bioDAO: BioDAO,
+    identifier: string,
+    cursor: YouTubeChannelCursor | undefined,
+    accountData: YouTubeAccountData
+  ): Promise<{ cursor: YouTubeChannelCursor; added: number; refreshed: number; subscribers: number }> {
+    const channel = await this.apiClient.getChannel(identifier);
+
+    // Step 1: New uploads since the last sync
+    const newIds = await this.fetchNewUploadIds(
+      channel,
+      cursor?.newest_published_at,
+      accountData.initial_video_limit ?? DEFAULT_INITIAL_VIDEO_LIMIT
+    );
+
+    // Step 2: Recent videos already stored, whose counts are still moving
+    const recentIds = await this.getRecentVideoIds(bioDAO, channel.id, accountData.refresh_days ?? DEFAULT_REFRESH_DAYS);
+    const videoIds = Array.from(new Set([...newIds, ...recentIds]));
+
+    // Step 3: Fetch current statistics in batches and upsert them
+    const newIdSet = new Set(newIds);
+    let newest = cursor?.newest_published_at;
+    let stored = 0;
+    let refreshed = 0;
+    for (let i = 0; i < videoIds.length; i += YOUTUBE_MAX_RESULTS) {
+      const videos = await this.apiClient.getVideos(videoIds.slice(i, i + YOUTUBE_MAX_RESULTS));
+
+      for (const video of videos) {
+        await this.biodaoService.storeSocialData(bioDAO.slug, this.transformYouTubeVideoToBioDAOFormat(video));
+        stored++;
+        if (!newIdSet.has(video.id)) refreshed++;
+
+        if (!newest || new Date(video.publishedAt) > new Date(newest)) {
+          newest = video.publishedAt;
+        }
+      }
+    }
+
+    if (stored < videoIds.length) {
+      console.log(`   ${videoIds.length - stored} videos of ${channel.title} are no longer available (deleted or private)`);
+    }
+
+    // A hidden subscriber count reads as 0 and would look like everyone unsubscribed
+    if (channel.hiddenSubscriberCount) {
+      console.warn(`   ${channel.title} hides its subscriber count; skipping the audience snapshot`);
+    } else {
+      await this.biodaoService.recordAudienceSnapshot(bioDAO.id, 'youtube', identifier, channel.subscriberCount, newIds.length);
+    }
+
+    return {
+      cursor: { channel_id: channel.id, newest_published_at: newest },
+      added: newIds.length,
+      refreshed,
+      subscribers: channel.subscriberCount
+    };
+  }
+
+  /**
+   * Sync one channel and merge its cursor into the BioDAO's youtube sync status
+   */
+  async syncAccount(bioDAO: BioDAO, account: BioDAOSocialAccount): Promise<{ added: number; refreshed: number }> {
+    const identifier = account.account_identifier;
+
+    // Cursors for every channel share the BioDAO's youtube sync status row
+    const syncStatus = (await this.biodaoService.getSyncStatus(bioDAO.id, 'youtube'))[0];
+    const cursors: Record<string, YouTubeChannelCursor> = { ...(syncStatus?.last_sync_data?.channels || {}) };
+    const subscriberCounts: Record<string, number> = { ...(syncStatus?.last_sync_data?.subscriber_counts || {}) };
+
+    try {
+      console.log(`Syncing YouTube data for ${bioDAO.name} (${identifier})`);
+      const result = await this.syncChannel(
+        bioDAO,
+        identifier,
+        cursors[identifier],
+        (account.account_data || {}) as YouTubeAccountData
+      );
+
+      cursors[identifier] = result.cursor;
+      subscriberCounts[identifier] = result.subscribers;
+
+      await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'youtube', identifier, syncStatus, {
+        ...syncStatus?.last_sync_data,
+        channels: cursors,
+        subscriber_counts: subscriberCounts,
+        videos_added: result.added,
+        videos_refreshed: result.refreshed
+      }, []);
+
+      console.log(`   ${identifier}: ${result.subscribers} subscribers, ${result.added} new videos, ${result.refreshed} refreshed`);
+      return { added: result.added, refreshed: result.refreshed };
+    } catch (error) {
+      console.error(`Error syncing YouTube for ${bioDAO.name} (${identifier}):`, error);
+      await this.biodaoService.updateAccountSyncStatus(bioDAO.id, 'youtube', identifier, syncStatus, {
+        ...syncStatus?.last_sync_data
+      }, [{
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+        account: identifier
+      }]);
+      throw error;
+    }
+  }
+
+  async syncBioDAOYouTubeData(bioDAO: BioDAO): Promise<void> {
+    try {
+      // Get YouTube channels for this BioDAO
+      const youtubeAccounts = await this.biodaoService.getSocialAccounts(bioDAO.id, 'youtube');
+
+      if (youtubeAccounts.length === 0) {
+        console.log(`No YouTube channels found for ${bioDAO.name}`);
+        return;
+      }
+
+      let totalAdded = 0;
+      let totalRefreshed = 0;
+      for (const account of youtubeAccounts) {
+        try {
+          const result = await this.syncAccount(bioDAO, account);
+          totalAdded += result.added;
+          totalRefreshed += result.refreshed;
+        } catch {
+          // Already logged and recorded in the sync status; carry on with the next channel
+        }
+      }
+
+      console.log(`✅ Synced YouTube for ${bioDAO.name}: ${totalAdded} new videos, ${totalRefreshed} refreshed`);
+    } catch (error) {
+      console.error(`Error in YouTube sync for ${bioDAO.name}:`, error);
+      throw error;
+    }
+  }
+
+  async syncAllBioDAOs(): Promise<void> {
+    try {
+      const bioDAOs = await this.biodaoService.getAllBioDAOs();
+      console.log(`🔄 Starting YouTube sync for ${bioDAOs.length} BioDAOs`);
+
+      for (const bioDAO of bioDAOs) {
+        await this.syncBioDAOYouTubeData(bioDAO);
+      }
+
+      console.log(`✅ Completed YouTube sync for all BioDAOs (${this.apiClient.getQuotaUnitsUsed()} quota units used so far)`);
+    } catch (error) {
+      console.error('❌ Error in YouTube sync:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { BioDAOService } from '../services/biodao/biodaoService';
+import { BioDAO, BioDAOSocialAccount, BioDAOSocialData, BioDAOSyncStatus, SocialPlatform } from '../services/types/biodao';
+
+export type StoredSocialData = Omit<BioDAOSocialData, 'id' | 'synced_at' | 'created_at'>;
+
+export interface RecordedAudienceSnapshot {
+  biodaoId: string;
+  platform: SocialPlatform;
+  accountIdentifier: string;
+  memberCount: number;
+  messageCount: number;
+  activeCount: number | null;
+}
+
+/**
+ * BioDAOService that keeps social data, sync status and audience snapshots in memory, so
+ * the platform syncs can run against the mock servers without Supabase
+ */
+export class MemoryBioDAOService extends BioDAOService {
+  // Keyed by platform and post id, like the upsert in upsert_biodao_social_data
+  readonly socialData = new Map<string, StoredSocialData>();
+  readonly audienceSnapshots: RecordedAudienceSnapshot[] = [];
+  private syncStatuses = new Map<string, BioDAOSyncStatus>();
+
+  override async storeSocialData(_daoSlug: string, socialData: StoredSocialData): Promise<void> {
+    this.socialData.set(`${socialData.platform}:${socialData.post_id}`, socialData);
+  }
+
+  override async updateSyncStatus(biodaoId: string, platform: SocialPlatform, syncData: Partial<BioDAOSyncStatus>): Promise<void> {
+    const key = `${biodaoId}:${platform}`;
+    const now = new Date().toISOString();
+    const existing = this.syncStatuses.get(key);
+
+    this.syncStatuses.set(key, {
+      id: existing?.id ?? key,
+      biodao_id: biodaoId,
+      platform,
+      last_sync_data: {},
+      sync_errors: [],
+      is_syncing: false,
+      created_at: existing?.created_at ?? now,
+      ...existing,
+      ...syncData,
+      updated_at: now
+    });
+  }
+
+  override async getSyncStatus(biodaoId: string, platform?: SocialPlatform): Promise<BioDAOSyncStatus[]> {
+    return Array.from(this.syncStatuses.values())
+      .filter(status => status.biodao_id === biodaoId && (!platform || status.platform === platform))
+      .map(status => structuredClone(status));
+  }
+
+  override async recordAudienceSnapshot(
+    biodaoId: string,
+    platform: SocialPlatform,
+    accountIdentifier: string,
+    memberCount: number,
+    messageCount: number = 0,
+    activeCount?: number | null
+  ): Promise<void> {
+    this.audienceSnapshots.push({ biodaoId, platform, accountIdentifier, memberCount, messageCount, activeCount: activeCount ?? null });
+  }
+
+  stored(platform: SocialPlatform): StoredSocialData[] {
+    return Array.from(this.socialData.values()).filter(data => data.platform === platform);
+  }
+}
+
+export function testBioDAO(): BioDAO {
+  const now = new Date().toISOString();
+  return { id: 'biodao-1', name: 'VitaDAO', slug: 'vitadao', created_at: now, updated_at: now };
+}
+
+export function testSocialAccount(platform: SocialPlatform, accountIdentifier: string, accountData: Record<string, any> = {}): BioDAOSocialAccount {
+  const now = new Date().toISOString();
+  return {
+    id: `${platform}-${accountIdentifier}`,
+    biodao_id: 'biodao-1',
+    platform,
+    account_identifier: accountIdentifier,
+    account_data: accountData,
+    is_active: true,
+    created_at: now,
+    updated_at: now
+  };
+}
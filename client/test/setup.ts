@@ -0,0 +1,8 @@
+// Loaded before every test file (see the test script). Points the Supabase client at an
+// address nothing listens on, so a test can never read or write a real project even when
+// a .env file is present; dotenv doesn't override variables that are already set.
+process.env.SUPABASE_URL = 'http://127.0.0.1:1';
+process.env.SUPABASE_ANON_KEY = 'test-anon-key';
+process.env.NEXT_PUBLIC_SUPABASE_URL = process.env.SUPABASE_URL;
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY;
+process.env.SUPABASE_SERVICE_ROLE_KEY = '';
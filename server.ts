@@ -1,24 +1,81 @@
 import { EngagementSyncService } from './client/services/twitter/index';
-import { SyncLogger, LogLevel } from './client/services/twitter/index';
+import { SyncLogger, LogLevel, RateLimitManager, XApiClient } from './client/services/twitter/index';
+import { createRateLimitStore } from './client/services/twitter/rateLimitStore';
+import { BearerTokenPool, parseBearerTokens } from './client/services/twitter/bearerTokenPool';
 import TwitterFollowerService from './client/services/twitter/twitterFollowerService';
 import { AccountService } from './client/services/dao/daoService';
+import { AccountTwitterService } from './client/services/dao/daoTwitterService';
+import { ApiRouter } from './client/services/api/apiRouter';
+import { registerAccountRoutes } from './client/services/api/accountRoutes';
+import { AccountBenchmarkService } from './client/services/analytics/accountBenchmarkService';
+import { FollowerForecastService } from './client/services/analytics/followerForecast';
+import { registerSyncRoutes } from './client/services/api/syncRoutes';
+import { registerAlertRoutes } from './client/services/api/alertRoutes';
+import { AnomalyAlertService } from './client/services/analytics/anomalyAlertService';
+import { AlertSeverity, createAlertStore } from './client/services/analytics/alertStore';
+import { createAlertNotifiersFromEnv } from './client/services/analytics/alertNotifiers';
+import { SyncJobManager } from './client/services/sync/syncJobManager';
+import { SyncJobQueue } from './client/services/sync/syncJobQueue';
+import { createSyncJobStore } from './client/services/sync/syncJobStore';
+import { registerTwitterSyncJobHandlers } from './client/services/sync/twitterSyncJobs';
+import { SyncScheduler } from './client/services/sync/syncScheduler';
+import { createSyncScheduleStore } from './client/services/sync/syncScheduleStore';
+import { SYNC_LEASE_NAMES, SyncLeaseManager, defaultInstanceId } from './client/services/sync/syncLeaseManager';
+import { createSyncLeaseStore } from './client/services/sync/syncLeaseStore';
+import { SyncBudgetPlanner } from './client/services/sync/syncBudgetPlanner';
+import { TwitterBackfillService } from './client/services/twitter/twitterBackfillService';
+import { metricsRegistry, recordRateLimitUsage } from './client/services/metrics/syncMetrics';
+
+// Cron equivalent of "every N hours", aligned to midnight UTC rather than to process start
+function intervalHoursToCron(hours: number): string {
+  return hours >= 1 && hours < 24 ? `0 */${hours} * * *` : '0 0 * * *';
+}
+
+const SYNC_INTERVAL_HOURS = parseInt(process.env.SYNC_INTERVAL_HOURS || '2');
 
 // Production environment configuration
 const CONFIG = {
-  TWITTER_BEARER_TOKEN: process.env.TWITTER_BEARER_TOKEN,
-  SYNC_INTERVAL_HOURS: parseInt(process.env.SYNC_INTERVAL_HOURS || '2'),
-  FOLLOWER_SYNC_INTERVAL_HOURS: parseInt(process.env.FOLLOWER_SYNC_INTERVAL_HOURS || '24'), // Daily
+  // One or more app tokens, separated by commas
+  TWITTER_BEARER_TOKEN: parseBearerTokens(process.env.TWITTER_BEARER_TOKEN),
+  TWITTER_TOKEN_STRATEGY: process.env.TWITTER_TOKEN_STRATEGY === 'least-used' ? 'least-used' as const : 'round-robin' as const,
+  SYNC_INTERVAL_HOURS,
+  // Default schedules (UTC); accounts can override them through /api/v1/sync/schedules
+  ENGAGEMENT_SYNC_CRON: process.env.ENGAGEMENT_SYNC_CRON || intervalHoursToCron(SYNC_INTERVAL_HOURS),
+  FOLLOWER_SYNC_CRON: process.env.FOLLOWER_SYNC_CRON || '15 0 * * *', // Daily, shortly after the UTC day rolls over
   DAYS_TO_LOOK_BACK: parseInt(process.env.DAYS_TO_LOOK_BACK || '5'),
   MAX_REQUESTS_PER_BATCH: parseInt(process.env.MAX_REQUESTS_PER_BATCH || '5'),
   LOG_LEVEL: process.env.LOG_LEVEL || 'INFO',
+  API_AUTH_TOKEN: process.env.API_AUTH_TOKEN,
+  RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE || 'supabase',
+  SYNC_JOB_STORE: process.env.SYNC_JOB_STORE || 'supabase',
+  SYNC_JOB_MAX_ATTEMPTS: parseInt(process.env.SYNC_JOB_MAX_ATTEMPTS || '5'),
+  SYNC_JOB_POLL_SECONDS: parseInt(process.env.SYNC_JOB_POLL_SECONDS || '30'),
+  SYNC_INSTANCE_ID: defaultInstanceId(),
+  SYNC_LEASE_TTL_SECONDS: parseInt(process.env.SYNC_LEASE_TTL_SECONDS || '90'),
+  POST_BUDGET_RESERVE_RATIO: parseFloat(process.env.POST_BUDGET_RESERVE_RATIO || '0.1'),
+  SYNC_MISSED_RUN_POLICY: process.env.SYNC_MISSED_RUN_POLICY === 'skip' ? 'skip' as const : 'catch_up' as const,
+  ALERT_STORE: process.env.ALERT_STORE || process.env.SYNC_JOB_STORE || 'supabase',
+  ALERT_SCAN_INTERVAL_MINUTES: parseInt(process.env.ALERT_SCAN_INTERVAL_MINUTES || '60'),
+  ALERT_Z_THRESHOLD: parseFloat(process.env.ALERT_Z_THRESHOLD || '3'),
+  ALERT_MAX_DELIVERY_ATTEMPTS: parseInt(process.env.ALERT_MAX_DELIVERY_ATTEMPTS || '5'),
+  // Lowest severity sent to the notifiers: info, warning or critical
+  ALERT_MIN_SEVERITY: (['info', 'critical'].includes(process.env.ALERT_MIN_SEVERITY || '') ? process.env.ALERT_MIN_SEVERITY : 'warning') as AlertSeverity,
   PORT: process.env.PORT || 3000
 };
 
 class ProductionSyncServer {
   private syncService: EngagementSyncService | null = null;
   private followerService: TwitterFollowerService | null = null;
+  private rateLimitManager: RateLimitManager | null = null;
+  private tokenPool: BearerTokenPool | null = null;
   private accountService: AccountService | null = null;
-  private followerSyncInterval: NodeJS.Timeout | null = null;
+  private apiRouter: ApiRouter | null = null;
+  private syncJobManager = new SyncJobManager();
+  private syncJobQueue: SyncJobQueue | null = null;
+  private syncScheduler: SyncScheduler | null = null;
+  private leaseManager: SyncLeaseManager | null = null;
+  private budgetPlanner: SyncBudgetPlanner | null = null;
+  private alertService: AnomalyAlertService | null = null;
   private logger: SyncLogger;
   private isShuttingDown = false;
 
@@ -53,27 +110,46 @@ class ProductionSyncServer {
         // Don't exit - let health checks work
       }
       
+      // Initialize account service (always needed)
+      try {
+        this.accountService = new AccountService();
+      } catch (error) {
+        this.logger.error('❌ Failed to initialize account service:', error);
+      }
+
       // Initialize services only if Twitter token is available
-      if (CONFIG.TWITTER_BEARER_TOKEN) {
+      if (CONFIG.TWITTER_BEARER_TOKEN.length > 0) {
         try {
+          // Each app token gets its own per-endpoint budgets; a token rejected with 401/403 is quarantined
+          this.tokenPool = new BearerTokenPool(CONFIG.TWITTER_BEARER_TOKEN, { strategy: CONFIG.TWITTER_TOKEN_STRATEGY });
+
+          // One monthly budget shared by every service that calls the X API; the 15-minute window scales with the tokens
+          this.rateLimitManager = new RateLimitManager(
+            { requestsPer15Min: 15 * this.tokenPool.size },
+            createRateLimitStore(CONFIG.RATE_LIMIT_STORE)
+          );
+          await this.rateLimitManager.initialize();
+          this.logger.info(`🚦 Rate limit state loaded from ${CONFIG.RATE_LIMIT_STORE} store`);
+          this.logger.info(`🔑 ${this.tokenPool.size} bearer token(s), ${CONFIG.TWITTER_TOKEN_STRATEGY} selection`);
+
+          // One X API client so both services share per-endpoint budgets, retries and accounting
+          const xApiClient = new XApiClient(this.tokenPool, { rateLimitManager: this.rateLimitManager });
+
           // Initialize sync service
-          this.syncService = new EngagementSyncService(CONFIG.TWITTER_BEARER_TOKEN, {
+          this.syncService = new EngagementSyncService(this.tokenPool, {
             daysToLookBack: CONFIG.DAYS_TO_LOOK_BACK,
             syncIntervalHours: CONFIG.SYNC_INTERVAL_HOURS,
             maxRequestsPerBatch: CONFIG.MAX_REQUESTS_PER_BATCH
-          });
+          }, this.rateLimitManager, xApiClient);
 
           // Initialize follower sync service
-          this.followerService = new TwitterFollowerService(CONFIG.TWITTER_BEARER_TOKEN);
-
-          // Start automatic sync
-          this.syncService.startAutomaticSync();
-          
-          // Start follower sync (daily)
-          this.startFollowerSync();
-          
-          this.logger.info(`📊 Sync interval: ${CONFIG.SYNC_INTERVAL_HOURS} hours`);
-          this.logger.info(`👥 Follower sync interval: ${CONFIG.FOLLOWER_SYNC_INTERVAL_HOURS} hours`);
+          this.followerService = new TwitterFollowerService(this.tokenPool, xApiClient);
+
+          // Per-account sync work goes through the persistent job queue
+          this.startSyncQueue(new TwitterBackfillService(xApiClient, this.rateLimitManager));
+
+          this.logger.info(`📊 Engagement sync schedule: ${CONFIG.ENGAGEMENT_SYNC_CRON} (UTC)`);
+          this.logger.info(`👥 Follower sync schedule: ${CONFIG.FOLLOWER_SYNC_CRON} (UTC)`);
           this.logger.info(`🔍 Days to look back: ${CONFIG.DAYS_TO_LOOK_BACK}`);
           this.logger.info(`📦 Max requests per batch: ${CONFIG.MAX_REQUESTS_PER_BATCH}`);
         } catch (error) {
@@ -83,12 +159,11 @@ class ProductionSyncServer {
         this.logger.warn('⚠️ Twitter services disabled - no bearer token provided');
       }
       
-      // Initialize account service (always needed)
-      try {
-        this.accountService = new AccountService();
-      } catch (error) {
-        this.logger.error('❌ Failed to initialize account service:', error);
-      }
+      // Watch follower and engagement series for purges and viral spikes
+      this.startAnomalyAlerts();
+
+      // Register the read-only REST API
+      this.setupApiRoutes();
       
       // Setup graceful shutdown
       this.setupGracefulShutdown();
@@ -102,64 +177,133 @@ class ProductionSyncServer {
     }
   }
 
-  private startFollowerSync() {
-    // Run initial sync on startup
-    this.runFollowerSync();
-    
-    // Set up periodic sync
-    const intervalMs = CONFIG.FOLLOWER_SYNC_INTERVAL_HOURS * 60 * 60 * 1000;
-    this.followerSyncInterval = setInterval(() => {
-      this.runFollowerSync();
-    }, intervalMs);
-    
-    this.logger.info(`📊 Follower sync started - will run every ${CONFIG.FOLLOWER_SYNC_INTERVAL_HOURS} hours`);
+  private startSyncQueue(backfillService: TwitterBackfillService) {
+    if (!this.syncService || !this.followerService || !this.accountService || !this.rateLimitManager) return;
+
+    const scheduleStore = createSyncScheduleStore(CONFIG.SYNC_JOB_STORE);
+
+    // Spreads the monthly post cap over accounts instead of spending it in account order
+    this.budgetPlanner = new SyncBudgetPlanner(this.rateLimitManager, this.accountService, scheduleStore, {
+      lookbackDays: CONFIG.DAYS_TO_LOOK_BACK,
+      defaultIntervalHours: CONFIG.SYNC_INTERVAL_HOURS,
+      reserveRatio: CONFIG.POST_BUDGET_RESERVE_RATIO
+    });
+    this.syncService.setLookbackPolicy(this.budgetPlanner);
+    this.budgetPlanner.start();
+
+    const queue = new SyncJobQueue(createSyncJobStore(CONFIG.SYNC_JOB_STORE), {
+      maxAttempts: CONFIG.SYNC_JOB_MAX_ATTEMPTS,
+      pollIntervalMs: CONFIG.SYNC_JOB_POLL_SECONDS * 1000
+    });
+
+    registerTwitterSyncJobHandlers(queue, {
+      accountService: this.accountService,
+      syncService: this.syncService,
+      followerService: this.followerService,
+      backfillService,
+      budgetPlanner: this.budgetPlanner
+    });
+
+    // With several replicas only the lease holders run the worker and the scheduler; the others stand by
+    const leases = this.startLeaseManager([SYNC_LEASE_NAMES.queueWorker, SYNC_LEASE_NAMES.scheduler]);
+
+    this.syncJobQueue = queue;
+    queue.start(() => leases.isHolder(SYNC_LEASE_NAMES.queueWorker));
+    this.logger.info(`📬 Sync job queue started (${CONFIG.SYNC_JOB_STORE} store, ${CONFIG.SYNC_JOB_MAX_ATTEMPTS} attempts per job)`);
+
+    // Schedules only queue work; re-enqueueing an account that is still queued is a no-op
+    this.syncScheduler = new SyncScheduler(scheduleStore, queue, this.accountService, {
+      defaults: {
+        engagement: CONFIG.ENGAGEMENT_SYNC_CRON,
+        followers: CONFIG.FOLLOWER_SYNC_CRON
+      },
+      defaultMissedRunPolicy: CONFIG.SYNC_MISSED_RUN_POLICY,
+      onFire: async (schedule) => {
+        // Growth as of the previous follower sync, before this round of jobs updates it
+        if (schedule.job_type === 'followers' && schedule.account_id === null) {
+          await this.logFollowerGrowth();
+        }
+      }
+    });
+    this.syncScheduler.start(() => leases.isHolder(SYNC_LEASE_NAMES.scheduler));
   }
 
-  private async runFollowerSync() {
-    if (!this.followerService || this.isShuttingDown) return;
-    
+  /**
+   * Campaign for the given leases, starting the shared lease manager on first use
+   */
+  private startLeaseManager(names: string[]): SyncLeaseManager {
+    const existing = this.leaseManager;
+    if (existing) {
+      names.forEach(name => existing.campaign(name));
+      return existing;
+    }
+
+    const leases = new SyncLeaseManager(createSyncLeaseStore(CONFIG.SYNC_JOB_STORE), CONFIG.SYNC_INSTANCE_ID, {
+      ttlMs: CONFIG.SYNC_LEASE_TTL_SECONDS * 1000,
+      heartbeatIntervalMs: Math.floor(CONFIG.SYNC_LEASE_TTL_SECONDS * 1000 / 3)
+    });
+    // Campaigns must be in place before the first heartbeat
+    names.forEach(name => leases.campaign(name));
+    leases.start();
+    this.leaseManager = leases;
+    return leases;
+  }
+
+  private startAnomalyAlerts() {
+    if (!this.accountService) return;
+
     try {
-      this.logger.info('🔄 Starting daily follower sync with growth tracking...');
-      
-      const result = await this.followerService.updateAllFollowerCounts();
-      
-      this.logger.info(`✅ Follower sync completed - Success: ${result.success}, Errors: ${result.errors}`);
-      
-      if (result.success > 0) {
-        // Log top accounts for monitoring
-        const topAccounts = await this.followerService.getTopAccountsByFollowers(3);
-        this.logger.info(`🏆 Top accounts: ${topAccounts.map(a => `${a.name} (${a.follower_count?.toLocaleString()})`).join(', ')}`);
-        
-        // Log recent growth from new system
-        try {
-          const topDaily = await this.followerService.getTopGrowingAccountsOverDays(1, 3);
-          const topWeekly = await this.followerService.getTopGrowingAccountsOverDays(7, 3);
-          
-          if (topDaily.length > 0) {
-            const dailyGrowthStr = topDaily
-              .filter(g => g.growth_amount !== 0)
-              .map(g => `${g.account_name} (${g.growth_amount > 0 ? '+' : ''}${g.growth_amount})`)
-              .join(', ');
-            if (dailyGrowthStr) {
-              this.logger.info(`📈 Daily growth: ${dailyGrowthStr}`);
-            }
-          }
-          
-          if (topWeekly.length > 0) {
-            const weeklyGrowthStr = topWeekly
-              .filter(g => g.growth_amount !== 0)
-              .map(g => `${g.account_name} (${g.growth_amount > 0 ? '+' : ''}${g.growth_amount})`)
-              .join(', ');
-            if (weeklyGrowthStr) {
-              this.logger.info(`📊 Weekly growth: ${weeklyGrowthStr}`);
-            }
-          }
-        } catch (growthError) {
-          this.logger.warn('⚠️ Could not fetch growth metrics for logging:', growthError);
+      const notifiers = createAlertNotifiersFromEnv();
+      this.alertService = new AnomalyAlertService(this.accountService, createAlertStore(CONFIG.ALERT_STORE), notifiers, {
+        threshold: CONFIG.ALERT_Z_THRESHOLD,
+        minSeverity: CONFIG.ALERT_MIN_SEVERITY,
+        scanIntervalMs: CONFIG.ALERT_SCAN_INTERVAL_MINUTES * 60 * 1000,
+        maxDeliveryAttempts: CONFIG.ALERT_MAX_DELIVERY_ATTEMPTS
+      });
+
+      // Scans run on one replica so several don't send the same alerts. The lease is separate
+      // from the scheduler's, so a replica without the queue can't hold up scheduled syncs.
+      const leases = this.startLeaseManager([SYNC_LEASE_NAMES.anomalyAlerts]);
+      this.alertService.start(() => leases.isHolder(SYNC_LEASE_NAMES.anomalyAlerts));
+      this.logger.info(`🔔 Anomaly alerts every ${CONFIG.ALERT_SCAN_INTERVAL_MINUTES} minutes (notifiers: ${notifiers.map(n => n.name).join(', ') || 'none'})`);
+    } catch (error) {
+      this.logger.error('❌ Failed to start anomaly alerts:', error);
+    }
+  }
+
+  private async logFollowerGrowth() {
+    if (!this.followerService) return;
+
+    try {
+      // Log top accounts for monitoring
+      const topAccounts = await this.followerService.getTopAccountsByFollowers(3);
+      if (topAccounts.length === 0) return;
+      this.logger.info(`🏆 Top accounts: ${topAccounts.map(a => `${a.name} (${a.follower_count?.toLocaleString()})`).join(', ')}`);
+
+      const topDaily = await this.followerService.getTopGrowingAccountsOverDays(1, 3);
+      const topWeekly = await this.followerService.getTopGrowingAccountsOverDays(7, 3);
+
+      if (topDaily.length > 0) {
+        const dailyGrowthStr = topDaily
+          .filter(g => g.growth_amount !== 0)
+          .map(g => `${g.account_name} (${g.growth_amount > 0 ? '+' : ''}${g.growth_amount})`)
+          .join(', ');
+        if (dailyGrowthStr) {
+          this.logger.info(`📈 Daily growth: ${dailyGrowthStr}`);
         }
       }
-    } catch (error) {
-      this.logger.error('❌ Follower sync failed', error);
+
+      if (topWeekly.length > 0) {
+        const weeklyGrowthStr = topWeekly
+          .filter(g => g.growth_amount !== 0)
+          .map(g => `${g.account_name} (${g.growth_amount > 0 ? '+' : ''}${g.growth_amount})`)
+          .join(', ');
+        if (weeklyGrowthStr) {
+          this.logger.info(`📊 Weekly growth: ${weeklyGrowthStr}`);
+        }
+      }
+    } catch (growthError) {
+      this.logger.warn('⚠️ Could not fetch growth metrics for logging:', growthError);
     }
   }
 
@@ -176,13 +320,55 @@ class ProductionSyncServer {
     }
 
     // Warn about optional variables
-    if (!CONFIG.TWITTER_BEARER_TOKEN) {
+    if (CONFIG.TWITTER_BEARER_TOKEN.length === 0) {
       this.logger.warn('⚠️ TWITTER_BEARER_TOKEN not set - Twitter sync will be disabled');
     }
 
     this.logger.info('✅ Environment validation passed');
   }
 
+  private setupApiRoutes() {
+    if (!this.accountService) {
+      this.logger.warn('⚠️ REST API disabled - account service unavailable');
+      return;
+    }
+
+    const router = new ApiRouter('/api/v1');
+
+    registerAccountRoutes(router, {
+      accountService: this.accountService,
+      twitterService: new AccountTwitterService(),
+      // Growth queries only read from Supabase, so a token-less client is enough
+      followerService: this.followerService ?? new TwitterFollowerService(''),
+      benchmarkService: new AccountBenchmarkService(this.accountService),
+      forecastService: new FollowerForecastService(this.accountService)
+    });
+
+    registerAlertRoutes(router, {
+      accountService: this.accountService,
+      alertService: this.alertService,
+      authToken: CONFIG.API_AUTH_TOKEN
+    });
+
+    registerSyncRoutes(router, {
+      accountService: this.accountService,
+      syncService: this.syncService,
+      followerService: this.followerService,
+      jobManager: this.syncJobManager,
+      jobQueue: this.syncJobQueue,
+      scheduler: this.syncScheduler,
+      leaseManager: this.leaseManager,
+      authToken: CONFIG.API_AUTH_TOKEN
+    });
+
+    if (!CONFIG.API_AUTH_TOKEN) {
+      this.logger.warn('⚠️ API_AUTH_TOKEN not set - manual sync endpoints are disabled');
+    }
+
+    this.apiRouter = router;
+    this.logger.info('🌐 REST API available under /api/v1');
+  }
+
   private setupHealthCheck() {
     const http = require('http');
     
@@ -193,8 +379,8 @@ class ProductionSyncServer {
       
       // Add CORS headers for Railway health checks
       res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
       
       if (req.method === 'OPTIONS') {
         res.writeHead(200);
@@ -208,7 +394,19 @@ class ProductionSyncServer {
       } else if (req.url === '/status') {
         this.handleStatusCheck(res);
       } else if (req.url === '/metrics') {
+        this.handlePrometheusMetrics(res);
+      } else if (req.url === '/metrics/json') {
         this.handleMetrics(res);
+      } else if (req.url?.startsWith('/api/')) {
+        if (this.apiRouter?.matches(req.url)) {
+          this.apiRouter.handle(req, res);
+        } else {
+          res.writeHead(503, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            error: { code: 'service_unavailable', message: 'API is not available yet' },
+            timestamp: new Date().toISOString()
+          }));
+        }
       } else if (req.url === '/' || req.url === '') {
         // Root endpoint for Railway health check
         console.log('Handling root / request');
@@ -268,20 +466,33 @@ class ProductionSyncServer {
   private async handleStatusCheck(res: any) {
     try {
       const status = this.syncService?.getSyncStatus();
+      const queueStatus = this.syncJobQueue ? await this.syncJobQueue.getStatus() : null;
+      const schedules = this.syncScheduler ? await this.syncScheduler.listSchedules() : [];
+      const leaseStatus = this.leaseManager ? await this.leaseManager.getStatus() : null;
       
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
         ...status,
         timestamp: new Date().toISOString(),
-        followerSync: {
-          isRunning: this.followerSyncInterval !== null,
-          intervalHours: CONFIG.FOLLOWER_SYNC_INTERVAL_HOURS
+        scheduler: {
+          isRunning: this.syncScheduler?.isRunning() ?? false,
+          schedules
         },
+        jobQueue: queueStatus,
+        postBudget: this.budgetPlanner?.getStatus() ?? null,
+        bearerTokens: this.tokenPool?.getStatus() ?? [],
+        alerts: this.alertService?.getStatus() ?? null,
+        instanceId: CONFIG.SYNC_INSTANCE_ID,
+        leases: leaseStatus?.leases ?? [],
         config: {
           syncIntervalHours: CONFIG.SYNC_INTERVAL_HOURS,
-          followerSyncIntervalHours: CONFIG.FOLLOWER_SYNC_INTERVAL_HOURS,
+          engagementSyncCron: CONFIG.ENGAGEMENT_SYNC_CRON,
+          followerSyncCron: CONFIG.FOLLOWER_SYNC_CRON,
+          missedRunPolicy: CONFIG.SYNC_MISSED_RUN_POLICY,
           daysToLookBack: CONFIG.DAYS_TO_LOOK_BACK,
-          maxRequestsPerBatch: CONFIG.MAX_REQUESTS_PER_BATCH
+          maxRequestsPerBatch: CONFIG.MAX_REQUESTS_PER_BATCH,
+          syncJobStore: CONFIG.SYNC_JOB_STORE,
+          syncJobMaxAttempts: CONFIG.SYNC_JOB_MAX_ATTEMPTS
         }
       }));
     } catch (error) {
@@ -290,6 +501,24 @@ class ProductionSyncServer {
     }
   }
 
+  private async handlePrometheusMetrics(res: any) {
+    try {
+      const status = this.syncService?.getSyncStatus();
+      if (status) {
+        recordRateLimitUsage('EngagementSync', status.rateLimitStatus, status.rateLimitConfig);
+      }
+
+      // getStatus refreshes the queue depth gauges
+      await this.syncJobQueue?.getStatus();
+
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(metricsRegistry.render());
+    } catch (error) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end(`# error rendering metrics: ${String(error)}\n`);
+    }
+  }
+
   private async handleMetrics(res: any) {
     try {
       const aggregatedStats = await this.logger.getAggregatedStats(7);
@@ -334,21 +563,32 @@ class ProductionSyncServer {
     this.logger.info(`🛑 Shutting down server (reason: ${reason})`);
     
     try {
-      // Stop sync service
-      if (this.syncService) {
-        this.syncService.stopAutomaticSync();
-        this.logger.info('✅ Sync service stopped');
+      // Stop queueing and running sync jobs; a job cut short is reclaimed after restart
+      this.budgetPlanner?.stop();
+      this.alertService?.stop();
+      if (this.syncScheduler) {
+        this.syncScheduler.stop();
+        this.logger.info('✅ Sync scheduler stopped');
       }
-
-      // Stop follower sync
-      if (this.followerSyncInterval) {
-        clearInterval(this.followerSyncInterval);
-        this.followerSyncInterval = null;
-        this.logger.info('✅ Follower sync stopped');
+      if (this.syncJobQueue) {
+        this.syncJobQueue.stop();
+        this.logger.info('✅ Sync job queue stopped');
       }
 
       // Wait a bit for any ongoing operations
       await new Promise(resolve => setTimeout(resolve, 2000));
+
+      // Hand the leases to a standby replica without waiting for them to expire
+      if (this.leaseManager) {
+        await this.leaseManager.stop();
+        this.logger.info('✅ Sync leases released');
+      }
+
+      // Make sure the latest rate limit counters are stored
+      if (this.rateLimitManager) {
+        await this.rateLimitManager.flush();
+        this.logger.info('✅ Rate limit state saved');
+      }
       
       this.logger.info('👋 Server shutdown complete');
       process.exit(0);
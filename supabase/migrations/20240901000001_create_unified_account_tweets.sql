@@ -0,0 +1,189 @@
+-- Migration: Move tweets from per-account tables into one partitioned table
+-- Replaces the dynamic account_<slug>_tweets tables with public.account_tweets keyed by account_id.
+-- The legacy tables are left in place (read-only) so the backfill can be re-run and verified.
+
+-- =======================
+-- 1. Create the partitioned table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.account_tweets (
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  type TEXT DEFAULT 'tweet',
+  url TEXT,
+  twitter_url TEXT,
+  text TEXT,
+  source TEXT,
+  retweet_count INTEGER DEFAULT 0,
+  reply_count INTEGER DEFAULT 0,
+  like_count INTEGER DEFAULT 0,
+  quote_count INTEGER DEFAULT 0,
+  view_count INTEGER DEFAULT 0,
+  bookmark_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE,
+  lang TEXT,
+  is_reply BOOLEAN DEFAULT FALSE,
+  in_reply_to_id TEXT,
+  conversation_id TEXT,
+  in_reply_to_user_id TEXT,
+  in_reply_to_username TEXT,
+  author_username TEXT,
+  author_name TEXT,
+  author_id TEXT,
+  mentions JSONB DEFAULT '[]',
+  hashtags JSONB DEFAULT '[]',
+  urls JSONB DEFAULT '[]',
+  media JSONB DEFAULT '[]',
+  raw_data JSONB,
+  synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- The partition key must be part of the primary key
+  PRIMARY KEY (account_id, id)
+) PARTITION BY HASH (account_id);
+
+-- Hash partitions spread accounts evenly without needing DDL per account
+DO $$
+BEGIN
+  FOR i IN 0..7 LOOP
+    EXECUTE format(
+      'CREATE TABLE IF NOT EXISTS public.%I PARTITION OF public.account_tweets FOR VALUES WITH (MODULUS 8, REMAINDER %s)',
+      'account_tweets_p' || i, i
+    );
+  END LOOP;
+END $$;
+
+-- Indexes are created on every partition automatically
+CREATE INDEX IF NOT EXISTS idx_account_tweets_account_created ON public.account_tweets (account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_account_tweets_created_at ON public.account_tweets (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_account_tweets_like_count ON public.account_tweets (like_count DESC);
+CREATE INDEX IF NOT EXISTS idx_account_tweets_retweet_count ON public.account_tweets (retweet_count DESC);
+CREATE INDEX IF NOT EXISTS idx_account_tweets_view_count ON public.account_tweets (view_count DESC);
+CREATE INDEX IF NOT EXISTS idx_account_tweets_tweet_id ON public.account_tweets (id);
+CREATE INDEX IF NOT EXISTS idx_account_tweets_conversation_id ON public.account_tweets (conversation_id);
+
+-- =======================
+-- 2. Backfill from the per-account tables
+-- =======================
+CREATE OR REPLACE FUNCTION backfill_account_tweets_from_legacy_tables()
+RETURNS TABLE (
+  account_slug TEXT,
+  legacy_table TEXT,
+  rows_copied BIGINT
+) AS $$
+DECLARE
+  account_record RECORD;
+  v_table_name TEXT;
+  v_rows BIGINT;
+BEGIN
+  FOR account_record IN SELECT id, slug FROM public.accounts ORDER BY slug LOOP
+    v_table_name := get_account_twitter_table_name(account_record.slug);
+
+    -- %I quoting keeps slugs with unusual characters safe
+    IF to_regclass(format('public.%I', v_table_name)) IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    EXECUTE format('
+      INSERT INTO public.account_tweets (
+        account_id, id, type, url, twitter_url, text, source,
+        retweet_count, reply_count, like_count, quote_count, view_count, bookmark_count,
+        created_at, lang, is_reply, in_reply_to_id, conversation_id, in_reply_to_user_id,
+        in_reply_to_username, author_username, author_name, author_id,
+        mentions, hashtags, urls, media, raw_data, synced_at, updated_at
+      )
+      SELECT
+        $1, id, type, url, twitter_url, text, source,
+        retweet_count, reply_count, like_count, quote_count, view_count, bookmark_count,
+        created_at, lang, is_reply, in_reply_to_id, conversation_id, in_reply_to_user_id,
+        in_reply_to_username, author_username, author_name, author_id,
+        mentions, hashtags, urls, media, raw_data, synced_at, updated_at
+      FROM public.%I
+      ON CONFLICT (account_id, id) DO UPDATE SET
+        retweet_count = GREATEST(account_tweets.retweet_count, EXCLUDED.retweet_count),
+        reply_count = GREATEST(account_tweets.reply_count, EXCLUDED.reply_count),
+        like_count = GREATEST(account_tweets.like_count, EXCLUDED.like_count),
+        quote_count = GREATEST(account_tweets.quote_count, EXCLUDED.quote_count),
+        view_count = GREATEST(account_tweets.view_count, EXCLUDED.view_count)', v_table_name)
+    USING account_record.id;
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+    account_slug := account_record.slug;
+    legacy_table := v_table_name;
+    rows_copied := v_rows;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run the backfill once; it is idempotent and can be re-run after late writes
+SELECT * FROM backfill_account_tweets_from_legacy_tables();
+
+-- =======================
+-- 3. Stop creating per-account tables
+-- =======================
+DROP TRIGGER IF EXISTS create_account_twitter_table_trigger ON public.accounts;
+
+COMMENT ON FUNCTION create_account_twitter_table(TEXT) IS 'Deprecated: tweets are stored in public.account_tweets';
+
+-- =======================
+-- 4. Cross-account queries
+-- =======================
+CREATE OR REPLACE FUNCTION get_top_tweets_across_accounts(
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT NOW() - INTERVAL '7 days',
+  p_order_by TEXT DEFAULT 'like_count',
+  p_limit INTEGER DEFAULT 20
+) RETURNS TABLE (
+  account_id UUID,
+  account_name TEXT,
+  account_slug TEXT,
+  tweet_id TEXT,
+  text TEXT,
+  url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  like_count INTEGER,
+  retweet_count INTEGER,
+  reply_count INTEGER,
+  quote_count INTEGER,
+  view_count INTEGER
+) AS $$
+BEGIN
+  IF p_order_by NOT IN ('like_count', 'retweet_count', 'reply_count', 'quote_count', 'view_count') THEN
+    RAISE EXCEPTION 'Unsupported order column: %', p_order_by;
+  END IF;
+
+  RETURN QUERY EXECUTE format('
+    SELECT a.id, a.name, a.slug, t.id, t.text, t.url, t.created_at,
+           t.like_count, t.retweet_count, t.reply_count, t.quote_count, t.view_count
+    FROM public.account_tweets t
+    JOIN public.accounts a ON a.id = t.account_id
+    WHERE t.created_at >= $1
+    ORDER BY t.%I DESC NULLS LAST
+    LIMIT $2', p_order_by)
+  USING p_since, p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 5. RLS policies and grants
+-- =======================
+ALTER TABLE public.account_tweets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to account tweets" ON public.account_tweets
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to account tweets" ON public.account_tweets
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update access to account tweets" ON public.account_tweets
+  FOR UPDATE USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.account_tweets TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.account_tweets TO anon;
+
+GRANT EXECUTE ON FUNCTION get_top_tweets_across_accounts(TIMESTAMP WITH TIME ZONE, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_top_tweets_across_accounts(TIMESTAMP WITH TIME ZONE, TEXT, INTEGER) TO anon;
+
+COMMENT ON TABLE public.account_tweets IS 'Tweets for all accounts, hash-partitioned by account_id';
+COMMENT ON FUNCTION backfill_account_tweets_from_legacy_tables() IS 'Copies rows from the legacy account_<slug>_tweets tables into account_tweets';
+COMMENT ON FUNCTION get_top_tweets_across_accounts(TIMESTAMP WITH TIME ZONE, TEXT, INTEGER) IS 'Top tweets across all accounts since a timestamp';
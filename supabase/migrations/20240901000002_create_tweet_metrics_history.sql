@@ -0,0 +1,57 @@
+-- Migration: Keep a history of engagement metrics for every tweet
+-- account_tweets holds the latest counts; each sync refresh also appends a snapshot here
+-- so engagement curves and early velocity can be reconstructed later.
+
+-- =======================
+-- 1. Create the history table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.tweet_metrics_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL,
+  tweet_id TEXT NOT NULL,
+  like_count INTEGER NOT NULL DEFAULT 0,
+  retweet_count INTEGER NOT NULL DEFAULT 0,
+  reply_count INTEGER NOT NULL DEFAULT 0,
+  quote_count INTEGER NOT NULL DEFAULT 0,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  FOREIGN KEY (account_id, tweet_id) REFERENCES public.account_tweets(account_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tweet_metrics_history_tweet ON public.tweet_metrics_history (account_id, tweet_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_tweet_metrics_history_recorded_at ON public.tweet_metrics_history (recorded_at DESC);
+
+-- =======================
+-- 2. Seed one snapshot per existing tweet
+-- =======================
+-- The current counts are the only data point we have for tweets synced before this migration
+INSERT INTO public.tweet_metrics_history (
+  account_id, tweet_id, like_count, retweet_count, reply_count, quote_count, view_count, recorded_at
+)
+SELECT
+  account_id, id,
+  COALESCE(like_count, 0), COALESCE(retweet_count, 0), COALESCE(reply_count, 0),
+  COALESCE(quote_count, 0), COALESCE(view_count, 0),
+  COALESCE(updated_at, synced_at, NOW())
+FROM public.account_tweets
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.tweet_metrics_history h
+  WHERE h.account_id = account_tweets.account_id AND h.tweet_id = account_tweets.id
+);
+
+-- =======================
+-- 3. RLS policies and grants
+-- =======================
+ALTER TABLE public.tweet_metrics_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to tweet metrics history" ON public.tweet_metrics_history
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to tweet metrics history" ON public.tweet_metrics_history
+  FOR INSERT WITH CHECK (true);
+
+GRANT SELECT, INSERT ON public.tweet_metrics_history TO authenticated;
+GRANT SELECT, INSERT ON public.tweet_metrics_history TO anon;
+
+COMMENT ON TABLE public.tweet_metrics_history IS 'Timestamped engagement snapshots, one row per tweet per sync refresh';
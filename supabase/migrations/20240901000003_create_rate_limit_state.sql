@@ -0,0 +1,31 @@
+-- Migration: Persist X API rate limit counters across restarts
+-- RateLimitManager stores its 15-minute window and monthly request/post counts here
+-- so deploys and restarts no longer reset the monthly budget.
+
+-- =======================
+-- 1. Create the state table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.rate_limit_state (
+  key TEXT PRIMARY KEY,
+  state JSONB NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =======================
+-- 2. RLS policies and grants
+-- =======================
+ALTER TABLE public.rate_limit_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to rate limit state" ON public.rate_limit_state
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to rate limit state" ON public.rate_limit_state
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update access to rate limit state" ON public.rate_limit_state
+  FOR UPDATE USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.rate_limit_state TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.rate_limit_state TO anon;
+
+COMMENT ON TABLE public.rate_limit_state IS 'Persisted RateLimitManager counters, one row per API budget';
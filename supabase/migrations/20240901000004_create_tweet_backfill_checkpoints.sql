@@ -0,0 +1,44 @@
+-- Migration: Checkpoints for historical tweet backfills
+-- TwitterBackfillService saves its pagination token here after every timeline page
+-- so an interrupted backfill (rate limit, post budget, crash) resumes where it stopped.
+
+-- =======================
+-- 1. Create the checkpoint table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.tweet_backfill_checkpoints (
+  account_id UUID PRIMARY KEY REFERENCES public.accounts(id) ON DELETE CASCADE,
+  since_date TIMESTAMP WITH TIME ZONE,
+  pagination_token TEXT,
+  newest_tweet_id TEXT,
+  oldest_tweet_id TEXT,
+  tweets_fetched INTEGER NOT NULL DEFAULT 0,
+  pages_fetched INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused', 'completed', 'failed')),
+  last_error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tweet_backfill_checkpoints_status
+  ON public.tweet_backfill_checkpoints(status);
+
+-- =======================
+-- 2. RLS policies and grants
+-- =======================
+ALTER TABLE public.tweet_backfill_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to tweet backfill checkpoints" ON public.tweet_backfill_checkpoints
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to tweet backfill checkpoints" ON public.tweet_backfill_checkpoints
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update access to tweet backfill checkpoints" ON public.tweet_backfill_checkpoints
+  FOR UPDATE USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.tweet_backfill_checkpoints TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.tweet_backfill_checkpoints TO anon;
+
+COMMENT ON TABLE public.tweet_backfill_checkpoints IS 'Resume point of the historical tweet backfill, one row per account';
+COMMENT ON COLUMN public.tweet_backfill_checkpoints.pagination_token IS 'Timeline pagination_token for the next (older) page; NULL once completed';
@@ -0,0 +1,113 @@
+-- Migration: Daily audience snapshots for non-Twitter BioDAO platforms
+-- Records member/subscriber counts the same way follower_daily_snapshots does for Twitter:
+-- one row per account per day with the change from the previous snapshot.
+-- message_count accumulates the messages seen that day (e.g. Telegram group volume).
+
+-- =======================
+-- 1. Create the snapshot table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.biodao_audience_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  biodao_id UUID NOT NULL,
+  platform TEXT NOT NULL,
+  account_identifier TEXT NOT NULL,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  member_count INTEGER NOT NULL DEFAULT 0,
+  change_from_previous INTEGER DEFAULT 0,
+  change_percentage DECIMAL(7,2) DEFAULT 0.00,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Ensure one record per account per day
+  UNIQUE(biodao_id, platform, account_identifier, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audience_snapshots_biodao_date
+  ON public.biodao_audience_snapshots(biodao_id, platform, date DESC);
+
+-- =======================
+-- 2. Function to record a daily snapshot
+-- =======================
+CREATE OR REPLACE FUNCTION record_daily_audience_snapshot(
+  p_biodao_id UUID,
+  p_platform TEXT,
+  p_account_identifier TEXT,
+  p_member_count INTEGER,
+  p_message_count INTEGER DEFAULT 0,
+  p_date DATE DEFAULT CURRENT_DATE
+) RETURNS VOID AS $$
+DECLARE
+  v_previous_count INTEGER;
+  v_change_amount INTEGER := 0;
+  v_change_percentage DECIMAL(7,2) := 0.00;
+BEGIN
+  -- Get the previous day's member count
+  SELECT member_count INTO v_previous_count
+  FROM public.biodao_audience_snapshots
+  WHERE biodao_id = p_biodao_id
+    AND platform = p_platform
+    AND account_identifier = p_account_identifier
+    AND date < p_date
+  ORDER BY date DESC
+  LIMIT 1;
+
+  -- Calculate changes
+  v_previous_count := COALESCE(v_previous_count, p_member_count);
+  v_change_amount := p_member_count - v_previous_count;
+
+  IF v_previous_count > 0 THEN
+    v_change_percentage := ROUND((v_change_amount::DECIMAL / v_previous_count) * 100, 2);
+  END IF;
+
+  -- Insert or update today's snapshot; messages add up over the day's syncs
+  INSERT INTO public.biodao_audience_snapshots (
+    biodao_id,
+    platform,
+    account_identifier,
+    date,
+    member_count,
+    change_from_previous,
+    change_percentage,
+    message_count
+  ) VALUES (
+    p_biodao_id,
+    p_platform,
+    p_account_identifier,
+    p_date,
+    p_member_count,
+    v_change_amount,
+    v_change_percentage,
+    COALESCE(p_message_count, 0)
+  )
+  ON CONFLICT (biodao_id, platform, account_identifier, date)
+  DO UPDATE SET
+    member_count = EXCLUDED.member_count,
+    change_from_previous = EXCLUDED.change_from_previous,
+    change_percentage = EXCLUDED.change_percentage,
+    message_count = public.biodao_audience_snapshots.message_count + EXCLUDED.message_count,
+    recorded_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 3. RLS policies and grants
+-- =======================
+ALTER TABLE public.biodao_audience_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to audience snapshots" ON public.biodao_audience_snapshots
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to audience snapshots" ON public.biodao_audience_snapshots
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update access to audience snapshots" ON public.biodao_audience_snapshots
+  FOR UPDATE USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.biodao_audience_snapshots TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.biodao_audience_snapshots TO anon;
+
+GRANT EXECUTE ON FUNCTION record_daily_audience_snapshot(UUID, TEXT, TEXT, INTEGER, INTEGER, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_daily_audience_snapshot(UUID, TEXT, TEXT, INTEGER, INTEGER, DATE) TO anon;
+
+COMMENT ON TABLE public.biodao_audience_snapshots IS 'Daily member/subscriber counts and message volume per BioDAO social account';
+COMMENT ON FUNCTION record_daily_audience_snapshot(UUID, TEXT, TEXT, INTEGER, INTEGER, DATE) IS 'Records daily audience snapshot with growth calculation';
@@ -0,0 +1,89 @@
+-- Migration: Track active users alongside member counts in audience snapshots
+-- Reddit reports how many users are currently online in a subreddit; keeping it next to
+-- the subscriber count lets engagement be compared across communities of different sizes.
+
+-- =======================
+-- 1. Add the column
+-- =======================
+ALTER TABLE public.biodao_audience_snapshots
+ADD COLUMN IF NOT EXISTS active_count INTEGER;
+
+COMMENT ON COLUMN public.biodao_audience_snapshots.active_count IS 'Users online at the latest snapshot of the day (NULL where the platform does not report it)';
+
+-- =======================
+-- 2. Recreate the snapshot function with an active count parameter
+-- =======================
+DROP FUNCTION IF EXISTS record_daily_audience_snapshot(UUID, TEXT, TEXT, INTEGER, INTEGER, DATE);
+
+CREATE OR REPLACE FUNCTION record_daily_audience_snapshot(
+  p_biodao_id UUID,
+  p_platform TEXT,
+  p_account_identifier TEXT,
+  p_member_count INTEGER,
+  p_message_count INTEGER DEFAULT 0,
+  p_active_count INTEGER DEFAULT NULL,
+  p_date DATE DEFAULT CURRENT_DATE
+) RETURNS VOID AS $$
+DECLARE
+  v_previous_count INTEGER;
+  v_change_amount INTEGER := 0;
+  v_change_percentage DECIMAL(7,2) := 0.00;
+BEGIN
+  -- Get the previous day's member count
+  SELECT member_count INTO v_previous_count
+  FROM public.biodao_audience_snapshots
+  WHERE biodao_id = p_biodao_id
+    AND platform = p_platform
+    AND account_identifier = p_account_identifier
+    AND date < p_date
+  ORDER BY date DESC
+  LIMIT 1;
+
+  -- Calculate changes
+  v_previous_count := COALESCE(v_previous_count, p_member_count);
+  v_change_amount := p_member_count - v_previous_count;
+
+  IF v_previous_count > 0 THEN
+    v_change_percentage := ROUND((v_change_amount::DECIMAL / v_previous_count) * 100, 2);
+  END IF;
+
+  -- Insert or update today's snapshot; messages add up over the day's syncs
+  INSERT INTO public.biodao_audience_snapshots (
+    biodao_id,
+    platform,
+    account_identifier,
+    date,
+    member_count,
+    active_count,
+    change_from_previous,
+    change_percentage,
+    message_count
+  ) VALUES (
+    p_biodao_id,
+    p_platform,
+    p_account_identifier,
+    p_date,
+    p_member_count,
+    p_active_count,
+    v_change_amount,
+    v_change_percentage,
+    COALESCE(p_message_count, 0)
+  )
+  ON CONFLICT (biodao_id, platform, account_identifier, date)
+  DO UPDATE SET
+    member_count = EXCLUDED.member_count,
+    active_count = COALESCE(EXCLUDED.active_count, public.biodao_audience_snapshots.active_count),
+    change_from_previous = EXCLUDED.change_from_previous,
+    change_percentage = EXCLUDED.change_percentage,
+    message_count = public.biodao_audience_snapshots.message_count + EXCLUDED.message_count,
+    recorded_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 3. Grants
+-- =======================
+GRANT EXECUTE ON FUNCTION record_daily_audience_snapshot(UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_daily_audience_snapshot(UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, DATE) TO anon;
+
+COMMENT ON FUNCTION record_daily_audience_snapshot(UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, DATE) IS 'Records daily audience snapshot with growth calculation';
@@ -0,0 +1,124 @@
+-- Migration: Persistent queue for per-account sync work
+-- Each row is one unit of work (engagement, followers or backfill) for one account.
+-- Failed jobs are retried with exponential backoff; once max_attempts is reached they
+-- stay in the 'dead' state until they are retried manually.
+
+-- =======================
+-- 1. Create the queue table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type TEXT NOT NULL CHECK (job_type IN ('engagement', 'followers', 'backfill')),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one queued or running job per account and job type, so re-enqueueing is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_active
+  ON public.sync_jobs(job_type, account_id)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_due
+  ON public.sync_jobs(run_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status
+  ON public.sync_jobs(status, updated_at DESC);
+
+-- =======================
+-- 2. Enqueue (idempotent)
+-- =======================
+CREATE OR REPLACE FUNCTION enqueue_sync_job(
+  p_job_type TEXT,
+  p_account_id UUID,
+  p_payload JSONB DEFAULT '{}',
+  p_max_attempts INTEGER DEFAULT 5,
+  p_run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS SETOF public.sync_jobs AS $$
+DECLARE
+  v_job public.sync_jobs;
+BEGIN
+  INSERT INTO public.sync_jobs (job_type, account_id, payload, max_attempts, run_at)
+  VALUES (p_job_type, p_account_id, COALESCE(p_payload, '{}'), p_max_attempts, COALESCE(p_run_at, NOW()))
+  ON CONFLICT (job_type, account_id) WHERE status IN ('pending', 'running') DO NOTHING
+  RETURNING * INTO v_job;
+
+  -- Already queued: hand back the existing job instead of a duplicate
+  IF v_job.id IS NULL THEN
+    SELECT * INTO v_job
+    FROM public.sync_jobs
+    WHERE job_type = p_job_type
+      AND account_id = p_account_id
+      AND status IN ('pending', 'running');
+  END IF;
+
+  RETURN NEXT v_job;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 3. Claim due jobs
+-- =======================
+-- Marks up to p_limit due jobs as running and counts the attempt. Jobs left 'running' for
+-- longer than p_stale_after_seconds (the worker died mid-job) are claimed again.
+CREATE OR REPLACE FUNCTION claim_sync_jobs(
+  p_limit INTEGER DEFAULT 10,
+  p_stale_after_seconds INTEGER DEFAULT 3600
+)
+RETURNS SETOF public.sync_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.sync_jobs
+  SET status = 'running',
+      attempts = sync_jobs.attempts + 1,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE sync_jobs.id IN (
+    SELECT j.id
+    FROM public.sync_jobs j
+    WHERE (j.status = 'pending' AND j.run_at <= NOW())
+       OR (j.status = 'running' AND j.locked_at < NOW() - make_interval(secs => p_stale_after_seconds))
+    ORDER BY j.run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING sync_jobs.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 4. RLS policies and grants
+-- =======================
+ALTER TABLE public.sync_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to sync jobs" ON public.sync_jobs
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to sync jobs" ON public.sync_jobs
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update access to sync jobs" ON public.sync_jobs
+  FOR UPDATE USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.sync_jobs TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.sync_jobs TO anon;
+GRANT EXECUTE ON FUNCTION enqueue_sync_job(TEXT, UUID, JSONB, INTEGER, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_sync_job(TEXT, UUID, JSONB, INTEGER, TIMESTAMP WITH TIME ZONE) TO anon;
+GRANT EXECUTE ON FUNCTION claim_sync_jobs(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_sync_jobs(INTEGER, INTEGER) TO anon;
+
+COMMENT ON TABLE public.sync_jobs IS 'Queue of per-account sync work with retries and dead-lettering';
+COMMENT ON COLUMN public.sync_jobs.status IS 'pending (waiting for run_at), running, completed, or dead (gave up after max_attempts or a permanent error)';
+COMMENT ON COLUMN public.sync_jobs.run_at IS 'Earliest time the job may run; pushed back exponentially after each failed attempt';
+COMMENT ON COLUMN public.sync_jobs.attempts IS 'Attempts started so far, counted when a worker claims the job';
@@ -0,0 +1,55 @@
+-- Migration: Cron schedules for queued sync work
+-- A row without account_id is the default schedule of a job type; a row with one overrides
+-- that default for a single account (e.g. hourly engagement for a busy DAO, weekly for a
+-- dormant one). Cron expressions are evaluated in UTC by SyncScheduler.
+
+-- =======================
+-- 1. Create the schedule table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.sync_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL CHECK (job_type IN ('engagement', 'followers', 'backfill')),
+  cron_expression TEXT NOT NULL,
+  missed_run_policy TEXT NOT NULL DEFAULT 'catch_up' CHECK (missed_run_policy IN ('catch_up', 'skip')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One default per job type and one override per account and job type
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_schedules_default
+  ON public.sync_schedules(job_type)
+  WHERE account_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_schedules_account
+  ON public.sync_schedules(account_id, job_type)
+  WHERE account_id IS NOT NULL;
+
+-- =======================
+-- 2. RLS policies and grants
+-- =======================
+ALTER TABLE public.sync_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to sync schedules" ON public.sync_schedules
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to sync schedules" ON public.sync_schedules
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update access to sync schedules" ON public.sync_schedules
+  FOR UPDATE USING (true);
+
+CREATE POLICY "Allow delete access to sync schedules" ON public.sync_schedules
+  FOR DELETE USING (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.sync_schedules TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.sync_schedules TO anon;
+
+COMMENT ON TABLE public.sync_schedules IS 'Cron schedules (UTC) that queue sync jobs, per job type with optional per-account overrides';
+COMMENT ON COLUMN public.sync_schedules.account_id IS 'NULL for the default schedule of the job type';
+COMMENT ON COLUMN public.sync_schedules.missed_run_policy IS 'After downtime: catch_up runs the missed slot once on startup, skip waits for the next slot';
+COMMENT ON COLUMN public.sync_schedules.last_run_at IS 'Scheduled time of the last slot that was run or skipped (not the wall-clock time it ran)';
+COMMENT ON COLUMN public.sync_schedules.is_active IS 'An inactive account override is ignored, so the account falls back to the default schedule';
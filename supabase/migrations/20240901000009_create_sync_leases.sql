@@ -0,0 +1,90 @@
+-- Migration: Leases so only one server replica runs each scheduled sync task
+-- A replica holds a lease by renewing it (heartbeat) before it expires. When the holder
+-- dies its lease expires and a standby replica takes it over on its next heartbeat.
+
+-- =======================
+-- 1. Create the lease table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.sync_leases (
+  name TEXT PRIMARY KEY,
+  holder_id TEXT NOT NULL,
+  acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  heartbeat_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- =======================
+-- 2. Acquire or renew a lease
+-- =======================
+-- Takes the lease when it is free, expired or already held by p_holder_id (which renews it).
+-- Always returns the current lease row; the caller holds it if holder_id is its own id.
+CREATE OR REPLACE FUNCTION acquire_sync_lease(
+  p_name TEXT,
+  p_holder_id TEXT,
+  p_ttl_seconds INTEGER DEFAULT 90
+)
+RETURNS SETOF public.sync_leases AS $$
+BEGIN
+  INSERT INTO public.sync_leases (name, holder_id, acquired_at, heartbeat_at, expires_at)
+  VALUES (p_name, p_holder_id, NOW(), NOW(), NOW() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (name) DO UPDATE
+  SET holder_id = EXCLUDED.holder_id,
+      acquired_at = CASE
+        WHEN sync_leases.holder_id = EXCLUDED.holder_id AND sync_leases.expires_at > NOW() THEN sync_leases.acquired_at
+        ELSE NOW()
+      END,
+      heartbeat_at = NOW(),
+      expires_at = EXCLUDED.expires_at
+  WHERE sync_leases.holder_id = EXCLUDED.holder_id
+     OR sync_leases.expires_at <= NOW();
+
+  RETURN QUERY
+  SELECT * FROM public.sync_leases WHERE sync_leases.name = p_name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 3. Release a lease
+-- =======================
+-- Expires the lease right away so a standby doesn't wait for the TTL; the row is kept
+-- so /status still shows the last holder.
+CREATE OR REPLACE FUNCTION release_sync_lease(
+  p_name TEXT,
+  p_holder_id TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.sync_leases
+  SET expires_at = NOW()
+  WHERE name = p_name
+    AND holder_id = p_holder_id
+    AND expires_at > NOW();
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 4. RLS policies and grants
+-- =======================
+ALTER TABLE public.sync_leases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to sync leases" ON public.sync_leases
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to sync leases" ON public.sync_leases
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update access to sync leases" ON public.sync_leases
+  FOR UPDATE USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.sync_leases TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.sync_leases TO anon;
+GRANT EXECUTE ON FUNCTION acquire_sync_lease(TEXT, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION acquire_sync_lease(TEXT, TEXT, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION release_sync_lease(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_sync_lease(TEXT, TEXT) TO anon;
+
+COMMENT ON TABLE public.sync_leases IS 'One row per scheduled sync task; the replica named in holder_id runs it until expires_at';
+COMMENT ON COLUMN public.sync_leases.holder_id IS 'Instance id of the replica holding (or that last held) the lease';
+COMMENT ON COLUMN public.sync_leases.expires_at IS 'The lease is free once this passes without a heartbeat';
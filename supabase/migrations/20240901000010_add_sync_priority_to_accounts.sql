@@ -0,0 +1,35 @@
+-- Migration: Per-account sync priority and tweet activity for the post budget planner
+-- SyncBudgetPlanner shares the monthly post budget between accounts by priority and by how
+-- much they tweet, so the accounts synced last no longer starve near the end of the month.
+
+-- =======================
+-- 1. Add the priority column
+-- =======================
+ALTER TABLE public.accounts
+ADD COLUMN IF NOT EXISTS sync_priority INTEGER NOT NULL DEFAULT 1 CHECK (sync_priority BETWEEN 1 AND 10);
+
+COMMENT ON COLUMN public.accounts.sync_priority IS 'Weight of the account when the post budget is tight (1 = default, 10 = highest)';
+
+-- =======================
+-- 2. Tweet activity per account
+-- =======================
+-- Tweets stored per account over the last p_days days (aggregated in SQL so the planner
+-- doesn't page through every tweet)
+CREATE OR REPLACE FUNCTION get_account_tweet_activity(
+  p_days INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  account_id UUID,
+  tweet_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT t.account_id, COUNT(*)::BIGINT AS tweet_count
+  FROM public.account_tweets t
+  WHERE t.created_at >= NOW() - make_interval(days => p_days)
+  GROUP BY t.account_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_account_tweet_activity(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_account_tweet_activity(INTEGER) TO anon;
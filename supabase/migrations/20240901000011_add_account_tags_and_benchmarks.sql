@@ -0,0 +1,98 @@
+-- Migration: Account tags and per-account metrics for the cross-account benchmark
+-- Tags define peer groups (e.g. 'longevity', 'biodao'). get_account_benchmark_metrics
+-- computes every benchmark metric for all accounts in one query instead of one growth
+-- and one analytics call per account.
+
+-- =======================
+-- 1. Add the tags column
+-- =======================
+ALTER TABLE public.accounts
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_accounts_tags ON public.accounts USING GIN (tags);
+
+COMMENT ON COLUMN public.accounts.tags IS 'Free-form labels used to define benchmark peer groups';
+
+-- =======================
+-- 2. Benchmark metrics for every account
+-- =======================
+-- Followers at the start of the window are taken from the last snapshot on or before it
+-- (or the first snapshot inside it). Each tweet's engagement is normalized by the
+-- followers on its date; tweets from before the first snapshot are left out of the rate.
+CREATE OR REPLACE FUNCTION get_account_benchmark_metrics(
+  p_days INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  account_id UUID,
+  start_followers INTEGER,
+  end_followers INTEGER,
+  tweet_count BIGINT,
+  normalized_engagements BIGINT,
+  follower_sum BIGINT,
+  median_likes DOUBLE PRECISION,
+  top_tweet_id TEXT,
+  top_tweet_views BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH window_tweets AS (
+    SELECT
+      t.account_id AS tweet_account_id,
+      t.id AS tweet_id,
+      COALESCE(t.like_count, 0) AS likes,
+      t.view_count AS views,
+      COALESCE(t.like_count, 0) + COALESCE(t.retweet_count, 0)
+        + COALESCE(t.reply_count, 0) + COALESCE(t.quote_count, 0) AS engagements,
+      snapshot.follower_count AS followers
+    FROM public.account_tweets t
+    LEFT JOIN LATERAL (
+      SELECT fs.follower_count
+      FROM public.follower_daily_snapshots fs
+      WHERE fs.account_id = t.account_id
+        AND fs.date <= t.created_at::DATE
+      ORDER BY fs.date DESC
+      LIMIT 1
+    ) snapshot ON TRUE
+    WHERE t.created_at >= NOW() - make_interval(days => p_days)
+  ),
+  tweet_stats AS (
+    SELECT
+      wt.tweet_account_id,
+      COUNT(*)::BIGINT AS tweets,
+      COALESCE(SUM(wt.engagements) FILTER (WHERE wt.followers > 0), 0)::BIGINT AS engagements,
+      COALESCE(SUM(wt.followers) FILTER (WHERE wt.followers > 0), 0)::BIGINT AS followers,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY wt.likes) AS likes_median,
+      (array_agg(wt.tweet_id ORDER BY wt.views DESC NULLS LAST))[1] AS top_id,
+      MAX(wt.views)::BIGINT AS top_views
+    FROM window_tweets wt
+    GROUP BY wt.tweet_account_id
+  )
+  SELECT
+    a.id,
+    COALESCE(
+      (SELECT fs.follower_count FROM public.follower_daily_snapshots fs
+       WHERE fs.account_id = a.id AND fs.date <= CURRENT_DATE - p_days
+       ORDER BY fs.date DESC LIMIT 1),
+      (SELECT fs.follower_count FROM public.follower_daily_snapshots fs
+       WHERE fs.account_id = a.id AND fs.date > CURRENT_DATE - p_days
+       ORDER BY fs.date ASC LIMIT 1)
+    ),
+    (SELECT fs.follower_count FROM public.follower_daily_snapshots fs
+     WHERE fs.account_id = a.id
+     ORDER BY fs.date DESC LIMIT 1),
+    COALESCE(ts.tweets, 0),
+    COALESCE(ts.engagements, 0),
+    COALESCE(ts.followers, 0),
+    ts.likes_median,
+    ts.top_id,
+    ts.top_views
+  FROM public.accounts a
+  LEFT JOIN tweet_stats ts ON ts.tweet_account_id = a.id
+  WHERE a.twitter_handle IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_account_benchmark_metrics(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_account_benchmark_metrics(INTEGER) TO anon;
+
+COMMENT ON FUNCTION get_account_benchmark_metrics(INTEGER) IS 'Follower growth, tweet volume, engagement and top tweet per account over the last p_days days';
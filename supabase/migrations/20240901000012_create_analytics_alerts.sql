@@ -0,0 +1,52 @@
+-- Migration: Alerts for anomalies in follower and engagement series
+-- The anomaly scan stores one row per detected anomaly (follower drop, viral spike, ...)
+-- and dispatches it to the configured notifiers. dedupe_key keeps a rescan of the same
+-- data from raising the alert twice.
+
+-- =======================
+-- 1. Create the alerts table
+-- =======================
+CREATE TABLE IF NOT EXISTS public.analytics_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('follower_drop', 'follower_spike', 'engagement_spike')),
+  severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+  observed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  value NUMERIC NOT NULL,
+  expected NUMERIC NOT NULL,
+  z_score NUMERIC NOT NULL,
+  message TEXT NOT NULL,
+  context JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key TEXT NOT NULL UNIQUE,
+  notified_at TIMESTAMP WITH TIME ZONE,
+  notification_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_alerts_account_observed
+  ON public.analytics_alerts(account_id, observed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analytics_alerts_created
+  ON public.analytics_alerts(created_at DESC);
+
+-- =======================
+-- 2. RLS policies and grants
+-- =======================
+ALTER TABLE public.analytics_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to analytics alerts" ON public.analytics_alerts
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow insert access to analytics alerts" ON public.analytics_alerts
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Allow update access to analytics alerts" ON public.analytics_alerts
+  FOR UPDATE USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.analytics_alerts TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.analytics_alerts TO anon;
+
+COMMENT ON TABLE public.analytics_alerts IS 'Anomalies detected in follower_daily_snapshots and per-tweet engagement';
+COMMENT ON COLUMN public.analytics_alerts.expected IS 'Baseline the value was compared against (rolling mean of the preceding window)';
+COMMENT ON COLUMN public.analytics_alerts.context IS 'Series details: window, baseline spread, follower counts or tweet id';
+COMMENT ON COLUMN public.analytics_alerts.dedupe_key IS 'kind, account and observation; the same anomaly is only stored once';
+COMMENT ON COLUMN public.analytics_alerts.notified_at IS 'When the notifiers last ran for this alert (NULL = not yet dispatched)';
@@ -0,0 +1,554 @@
+-- Migration: Gap-aware follower snapshots
+-- record_daily_follower_snapshot only writes a row when the daily sync runs, so outages
+-- leave missing dates. Missing days between two real snapshots are now filled by linear
+-- interpolation and flagged with is_interpolated; growth over N days and per week/month
+-- compares the follower counts on the right dates even across gaps. Imported history
+-- (CSV or the legacy account_follower_history table) is tagged with its source.
+
+-- =======================
+-- 1. Mark where each snapshot came from
+-- =======================
+ALTER TABLE public.follower_daily_snapshots
+  ADD COLUMN IF NOT EXISTS is_interpolated BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'sync'
+    CHECK (source IN ('sync', 'interpolated', 'csv', 'legacy_history'));
+
+CREATE INDEX IF NOT EXISTS idx_follower_snapshots_account_observed
+  ON public.follower_daily_snapshots(account_id, date DESC) WHERE is_interpolated = false;
+
+-- =======================
+-- 2. Follower count on any date
+-- =======================
+-- The snapshot on that date, or a linear interpolation between the closest observed
+-- snapshots around it. NULL outside the account's history.
+CREATE OR REPLACE FUNCTION get_follower_count_at(
+  p_account_id UUID,
+  p_date DATE
+) RETURNS INTEGER AS $$
+DECLARE
+  v_before_date DATE;
+  v_before_count INTEGER;
+  v_after_date DATE;
+  v_after_count INTEGER;
+BEGIN
+  SELECT date, follower_count INTO v_before_date, v_before_count
+  FROM public.follower_daily_snapshots
+  WHERE account_id = p_account_id
+    AND date <= p_date
+    AND (date = p_date OR is_interpolated = false)
+  ORDER BY date DESC, is_interpolated ASC
+  LIMIT 1;
+
+  IF v_before_date = p_date THEN
+    RETURN v_before_count;
+  END IF;
+
+  SELECT date, follower_count INTO v_after_date, v_after_count
+  FROM public.follower_daily_snapshots
+  WHERE account_id = p_account_id
+    AND date > p_date
+    AND is_interpolated = false
+  ORDER BY date ASC
+  LIMIT 1;
+
+  IF v_before_date IS NULL OR v_after_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_before_count + ROUND(
+    (v_after_count - v_before_count)::DECIMAL * (p_date - v_before_date) / (v_after_date - v_before_date)
+  )::INTEGER;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =======================
+-- 3. Detect missing dates
+-- =======================
+-- One row per run of missing dates between observed snapshots in the last p_days days,
+-- plus the run from the last snapshot to yesterday when the sync has stopped. Dates
+-- already filled by interpolation are reported with filled = true.
+CREATE OR REPLACE FUNCTION get_follower_snapshot_gaps(
+  p_account_id UUID DEFAULT NULL,
+  p_days INTEGER DEFAULT 90
+) RETURNS TABLE (
+  account_id UUID,
+  gap_start DATE,
+  gap_end DATE,
+  missing_days INTEGER,
+  before_count INTEGER,
+  after_count INTEGER,
+  filled BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH observed AS (
+    SELECT
+      fds.account_id AS obs_account_id,
+      fds.date AS obs_date,
+      fds.follower_count AS obs_count,
+      LEAD(fds.date) OVER w AS next_date,
+      LEAD(fds.follower_count) OVER w AS next_count
+    FROM public.follower_daily_snapshots fds
+    WHERE fds.is_interpolated = false
+      AND (p_account_id IS NULL OR fds.account_id = p_account_id)
+      AND fds.date >= CURRENT_DATE - p_days - 1
+    WINDOW w AS (PARTITION BY fds.account_id ORDER BY fds.date)
+  ),
+  gaps AS (
+    SELECT
+      o.obs_account_id,
+      o.obs_date + 1 AS first_missing,
+      COALESCE(o.next_date, CURRENT_DATE) - 1 AS last_missing,
+      o.obs_count,
+      o.next_count
+    FROM observed o
+    WHERE COALESCE(o.next_date, CURRENT_DATE) - o.obs_date > 1
+  )
+  SELECT
+    g.obs_account_id,
+    g.first_missing,
+    g.last_missing,
+    (g.last_missing - g.first_missing + 1)::INTEGER,
+    g.obs_count,
+    g.next_count,
+    NOT EXISTS (
+      SELECT 1 FROM generate_series(g.first_missing, g.last_missing, INTERVAL '1 day') AS d(day)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.follower_daily_snapshots f
+        WHERE f.account_id = g.obs_account_id AND f.date = d.day::DATE
+      )
+    )
+  FROM gaps g
+  ORDER BY g.obs_account_id, g.first_missing;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =======================
+-- 4. Fill gaps by interpolation
+-- =======================
+-- Rebuilds the interpolated rows from p_since on: gaps between two observed snapshots
+-- of at most p_max_gap_days days are filled, longer gaps are left open (see
+-- get_follower_snapshot_gaps). Observed rows are never touched apart from their change
+-- columns, which are recomputed against the previous day. Returns the rows inserted.
+-- Runs as the owner so clients need no DELETE privilege on the snapshots; only the
+-- service role may execute it (see section 8).
+CREATE OR REPLACE FUNCTION fill_follower_snapshot_gaps(
+  p_account_id UUID DEFAULT NULL,
+  p_since DATE DEFAULT NULL,
+  p_max_gap_days INTEGER DEFAULT 31
+) RETURNS INTEGER AS $$
+DECLARE
+  v_since DATE := COALESCE(p_since, '-infinity'::DATE);
+  v_inserted INTEGER := 0;
+BEGIN
+  DELETE FROM public.follower_daily_snapshots fds
+  WHERE fds.is_interpolated = true
+    AND fds.date >= v_since
+    AND (p_account_id IS NULL OR fds.account_id = p_account_id);
+
+  WITH observed AS (
+    SELECT
+      fds.account_id AS obs_account_id,
+      fds.date AS obs_date,
+      fds.follower_count AS obs_count,
+      LEAD(fds.date) OVER w AS next_date,
+      LEAD(fds.follower_count) OVER w AS next_count
+    FROM public.follower_daily_snapshots fds
+    WHERE fds.is_interpolated = false
+      AND (p_account_id IS NULL OR fds.account_id = p_account_id)
+    WINDOW w AS (PARTITION BY fds.account_id ORDER BY fds.date)
+  ),
+  inserted AS (
+    INSERT INTO public.follower_daily_snapshots (account_id, date, follower_count, is_interpolated, source)
+    SELECT
+      o.obs_account_id,
+      d.day::DATE,
+      o.obs_count + ROUND((o.next_count - o.obs_count)::DECIMAL * (d.day::DATE - o.obs_date) / (o.next_date - o.obs_date))::INTEGER,
+      true,
+      'interpolated'
+    FROM observed o
+    CROSS JOIN LATERAL generate_series(o.obs_date + 1, o.next_date - 1, INTERVAL '1 day') AS d(day)
+    WHERE o.next_date IS NOT NULL
+      AND o.next_date - o.obs_date > 1
+      AND o.next_date - o.obs_date <= p_max_gap_days + 1
+      AND d.day::DATE >= v_since
+    ON CONFLICT (account_id, date) DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_inserted FROM inserted;
+
+  -- Day-over-day changes, now that every filled day has a predecessor
+  UPDATE public.follower_daily_snapshots fds
+  SET
+    change_from_previous = c.change_amount,
+    change_percentage = c.change_pct
+  FROM (
+    SELECT
+      s.id,
+      s.follower_count - COALESCE(LAG(s.follower_count) OVER w, s.follower_count) AS change_amount,
+      CASE
+        WHEN COALESCE(LAG(s.follower_count) OVER w, 0) > 0 THEN
+          ROUND(((s.follower_count - LAG(s.follower_count) OVER w)::DECIMAL / LAG(s.follower_count) OVER w) * 100, 2)
+        ELSE 0.00
+      END AS change_pct,
+      s.date
+    FROM public.follower_daily_snapshots s
+    WHERE (p_account_id IS NULL OR s.account_id = p_account_id)
+    WINDOW w AS (PARTITION BY s.account_id ORDER BY s.date)
+  ) c
+  WHERE fds.id = c.id
+    AND c.date >= v_since;
+
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =======================
+-- 5. Record snapshots with gap filling
+-- =======================
+-- Same as before, except the row is marked as an observed sync snapshot (replacing an
+-- interpolated value for that date) and the days missed since the previous observed
+-- snapshot are interpolated. Runs as the owner so the sync can fill gaps without being
+-- allowed to call fill_follower_snapshot_gaps itself.
+CREATE OR REPLACE FUNCTION record_daily_follower_snapshot(
+  p_account_id UUID,
+  p_follower_count INTEGER,
+  p_date DATE DEFAULT CURRENT_DATE
+) RETURNS VOID AS $$
+DECLARE
+  v_previous_date DATE;
+  v_previous_count INTEGER := 0;
+  v_change_amount INTEGER := 0;
+  v_change_percentage DECIMAL(5,2) := 0.00;
+BEGIN
+  -- Get the previous observed snapshot
+  SELECT date, follower_count INTO v_previous_date, v_previous_count
+  FROM public.follower_daily_snapshots
+  WHERE account_id = p_account_id
+    AND date < p_date
+    AND is_interpolated = false
+  ORDER BY date DESC
+  LIMIT 1;
+
+  -- Calculate changes
+  v_previous_count := COALESCE(v_previous_count, p_follower_count);
+  v_change_amount := p_follower_count - v_previous_count;
+
+  IF v_previous_count > 0 THEN
+    v_change_percentage := ROUND((v_change_amount::DECIMAL / v_previous_count) * 100, 2);
+  END IF;
+
+  -- Insert or update the day's snapshot
+  INSERT INTO public.follower_daily_snapshots (
+    account_id,
+    date,
+    follower_count,
+    change_from_previous,
+    change_percentage,
+    is_interpolated,
+    source
+  ) VALUES (
+    p_account_id,
+    p_date,
+    p_follower_count,
+    v_change_amount,
+    v_change_percentage,
+    false,
+    'sync'
+  )
+  ON CONFLICT (account_id, date)
+  DO UPDATE SET
+    follower_count = EXCLUDED.follower_count,
+    change_from_previous = EXCLUDED.change_from_previous,
+    change_percentage = EXCLUDED.change_percentage,
+    is_interpolated = false,
+    source = 'sync',
+    recorded_at = NOW();
+
+  -- Fill the days the sync missed; this also spreads the change over them
+  IF v_previous_date IS NOT NULL AND p_date - v_previous_date > 1 THEN
+    PERFORM fill_follower_snapshot_gaps(p_account_id, v_previous_date);
+  END IF;
+
+  -- Also update the accounts table
+  UPDATE public.accounts
+  SET
+    follower_count = p_follower_count,
+    follower_count_updated_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_account_id;
+
+  -- Also record in the legacy history table for compatibility
+  INSERT INTO public.account_follower_history (
+    account_id,
+    follower_count,
+    change_amount,
+    recorded_at
+  ) VALUES (
+    p_account_id,
+    p_follower_count,
+    v_change_amount,
+    NOW()
+  );
+
+  RAISE NOTICE 'Daily snapshot recorded for account %: % followers (change: %)',
+    p_account_id, p_follower_count, v_change_amount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =======================
+-- 6. Growth over N days across gaps
+-- =======================
+-- Compares the latest snapshot with the follower count exactly p_days days earlier
+-- (interpolated when that date is missing). Accounts with a shorter history start at
+-- their first snapshot; days_covered says how many days were actually compared.
+DROP FUNCTION IF EXISTS get_account_growth_days(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_account_growth_days(
+  p_account_id UUID,
+  p_days INTEGER DEFAULT 7
+) RETURNS TABLE (
+  start_date DATE,
+  end_date DATE,
+  start_followers INTEGER,
+  end_followers INTEGER,
+  total_change INTEGER,
+  percentage_change DECIMAL(5,2),
+  avg_daily_change DECIMAL(10,2),
+  days_covered INTEGER,
+  interpolated_days INTEGER
+) AS $$
+DECLARE
+  v_end_date DATE;
+  v_end_count INTEGER;
+  v_start_date DATE;
+  v_start_count INTEGER;
+BEGIN
+  SELECT fds.date, fds.follower_count INTO v_end_date, v_end_count
+  FROM public.follower_daily_snapshots fds
+  WHERE fds.account_id = p_account_id
+    AND fds.date <= CURRENT_DATE
+    AND fds.is_interpolated = false
+  ORDER BY fds.date DESC
+  LIMIT 1;
+
+  IF v_end_date IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_start_date := v_end_date - p_days;
+  v_start_count := get_follower_count_at(p_account_id, v_start_date);
+
+  IF v_start_count IS NULL THEN
+    -- History starts after the requested period did
+    SELECT fds.date, fds.follower_count INTO v_start_date, v_start_count
+    FROM public.follower_daily_snapshots fds
+    WHERE fds.account_id = p_account_id
+      AND fds.is_interpolated = false
+    ORDER BY fds.date ASC
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_start_date,
+    v_end_date,
+    v_start_count,
+    v_end_count,
+    v_end_count - v_start_count,
+    CASE
+      WHEN v_start_count > 0 THEN
+        ROUND(((v_end_count - v_start_count)::DECIMAL / v_start_count) * 100, 2)
+      ELSE 0.00
+    END,
+    CASE
+      WHEN v_end_date > v_start_date THEN
+        ROUND((v_end_count - v_start_count)::DECIMAL / (v_end_date - v_start_date), 2)
+      ELSE 0.00
+    END,
+    (v_end_date - v_start_date)::INTEGER,
+    (
+      -- Days in the period without an observed snapshot
+      (v_end_date - v_start_date) - (
+        SELECT COUNT(*) FROM public.follower_daily_snapshots fds
+        WHERE fds.account_id = p_account_id
+          AND fds.date > v_start_date AND fds.date <= v_end_date
+          AND fds.is_interpolated = false
+      )
+    )::INTEGER;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Top growing accounts, using the same gap-aware comparison
+CREATE OR REPLACE FUNCTION get_top_growing_accounts_period(
+  p_days INTEGER DEFAULT 7,
+  p_limit INTEGER DEFAULT 10
+) RETURNS TABLE (
+  account_id UUID,
+  account_name TEXT,
+  twitter_handle TEXT,
+  current_followers INTEGER,
+  growth_amount INTEGER,
+  growth_percentage DECIMAL(5,2)
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.name,
+    a.twitter_handle,
+    a.follower_count,
+    COALESCE(g.total_change, 0),
+    COALESCE(g.percentage_change, 0.00)
+  FROM public.accounts a
+  LEFT JOIN LATERAL get_account_growth_days(a.id, p_days) g ON true
+  WHERE a.twitter_handle IS NOT NULL
+    AND a.twitter_handle != ''
+    AND a.follower_count IS NOT NULL
+  ORDER BY COALESCE(g.total_change, 0) DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =======================
+-- 7. Weekly and monthly growth
+-- =======================
+-- Growth per calendar week (Monday-Sunday) or month for the last p_periods periods,
+-- measured between the follower counts at the period boundaries. The current period
+-- and the one the history starts in are cut to the snapshots that exist.
+CREATE OR REPLACE FUNCTION get_account_growth_by_period(
+  p_account_id UUID,
+  p_period TEXT DEFAULT 'week',
+  p_periods INTEGER DEFAULT 12
+) RETURNS TABLE (
+  period_start DATE,
+  period_end DATE,
+  start_followers INTEGER,
+  end_followers INTEGER,
+  total_change INTEGER,
+  percentage_change DECIMAL(7,2),
+  observed_days INTEGER,
+  interpolated_days INTEGER
+) AS $$
+DECLARE
+  v_first DATE;
+  v_last DATE;
+  v_step INTERVAL;
+BEGIN
+  IF p_period NOT IN ('week', 'month') THEN
+    RAISE EXCEPTION 'p_period must be week or month, got %', p_period;
+  END IF;
+  v_step := CASE p_period WHEN 'week' THEN INTERVAL '1 week' ELSE INTERVAL '1 month' END;
+
+  SELECT MIN(fds.date), MAX(fds.date) INTO v_first, v_last
+  FROM public.follower_daily_snapshots fds
+  WHERE fds.account_id = p_account_id
+    AND fds.is_interpolated = false;
+
+  IF v_first IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT
+      GREATEST(p.bucket::DATE - 1, v_first) AS from_date,
+      LEAST((p.bucket + v_step)::DATE - 1, v_last) AS to_date
+    FROM generate_series(
+      date_trunc(p_period, v_last::TIMESTAMP) - v_step * (p_periods - 1),
+      date_trunc(p_period, v_last::TIMESTAMP),
+      v_step
+    ) AS p(bucket)
+  ),
+  counts AS (
+    SELECT
+      pr.from_date,
+      pr.to_date,
+      get_follower_count_at(p_account_id, pr.from_date) AS from_count,
+      get_follower_count_at(p_account_id, pr.to_date) AS to_count
+    FROM periods pr
+    WHERE pr.to_date > pr.from_date
+  )
+  SELECT
+    c.from_date + 1,
+    c.to_date,
+    c.from_count,
+    c.to_count,
+    c.to_count - c.from_count,
+    CASE
+      WHEN c.from_count > 0 THEN ROUND(((c.to_count - c.from_count)::DECIMAL / c.from_count) * 100, 2)
+      ELSE 0.00
+    END,
+    observed.days::INTEGER,
+    ((c.to_date - c.from_date) - observed.days)::INTEGER
+  FROM counts c
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS days FROM public.follower_daily_snapshots fds
+    WHERE fds.account_id = p_account_id
+      AND fds.date > c.from_date AND fds.date <= c.to_date
+      AND fds.is_interpolated = false
+  ) observed
+  WHERE c.from_count IS NOT NULL AND c.to_count IS NOT NULL
+  ORDER BY c.from_date DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Daily snapshots, now saying which days were interpolated
+DROP FUNCTION IF EXISTS get_account_daily_snapshots(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_account_daily_snapshots(
+  p_account_id UUID,
+  p_limit INTEGER DEFAULT 30
+) RETURNS TABLE (
+  date DATE,
+  follower_count INTEGER,
+  change_from_previous INTEGER,
+  change_percentage DECIMAL(5,2),
+  is_interpolated BOOLEAN,
+  source TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    fds.date,
+    fds.follower_count,
+    fds.change_from_previous,
+    fds.change_percentage,
+    fds.is_interpolated,
+    fds.source
+  FROM public.follower_daily_snapshots fds
+  WHERE fds.account_id = p_account_id
+  ORDER BY fds.date DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 8. Grant permissions
+-- =======================
+GRANT EXECUTE ON FUNCTION get_follower_count_at(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_follower_snapshot_gaps(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_account_growth_days(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_account_growth_by_period(UUID, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_account_daily_snapshots(UUID, INTEGER) TO authenticated;
+
+GRANT EXECUTE ON FUNCTION get_follower_count_at(UUID, DATE) TO anon;
+GRANT EXECUTE ON FUNCTION get_follower_snapshot_gaps(UUID, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION get_account_growth_days(UUID, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION get_account_growth_by_period(UUID, TEXT, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION get_account_daily_snapshots(UUID, INTEGER) TO anon;
+
+-- Rebuilding interpolated rows deletes snapshots, so only the service role may trigger it
+REVOKE EXECUTE ON FUNCTION fill_follower_snapshot_gaps(UUID, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fill_follower_snapshot_gaps(UUID, DATE, INTEGER) TO service_role;
+
+-- =======================
+-- 9. Add helpful comments
+-- =======================
+COMMENT ON COLUMN public.follower_daily_snapshots.is_interpolated IS 'True for days filled between two observed snapshots rather than read from the API';
+COMMENT ON COLUMN public.follower_daily_snapshots.source IS 'sync, interpolated, csv or legacy_history';
+COMMENT ON FUNCTION get_follower_count_at(UUID, DATE) IS 'Follower count on a date, interpolated between observed snapshots when the date is missing';
+COMMENT ON FUNCTION get_follower_snapshot_gaps(UUID, INTEGER) IS 'Runs of dates without an observed follower snapshot per account';
+COMMENT ON FUNCTION fill_follower_snapshot_gaps(UUID, DATE, INTEGER) IS 'Rebuilds interpolated follower snapshots for gaps up to p_max_gap_days days';
+COMMENT ON FUNCTION get_account_growth_days(UUID, INTEGER) IS 'Growth between the latest snapshot and the follower count p_days days earlier, gap-aware';
+COMMENT ON FUNCTION get_account_growth_by_period(UUID, TEXT, INTEGER) IS 'Follower growth per calendar week or month, gap-aware';
@@ -0,0 +1,69 @@
+-- Migration: Record rate limit usage as atomic increments
+-- Each replica used to upsert its whole RateLimitManager state into the shared 'x_api'
+-- row, so concurrent writers overwrote each other's counters. Usage is now added with
+-- record_rate_limit_usage, which locks the row, merges the request window and returns
+-- the combined state for the caller to adopt.
+
+-- =======================
+-- 1. Increment function
+-- =======================
+CREATE OR REPLACE FUNCTION record_rate_limit_usage(
+  p_key TEXT,
+  p_month_start_date TEXT,
+  p_requests INTEGER,
+  p_posts INTEGER,
+  p_request_timestamps BIGINT[],
+  p_last_request_time BIGINT
+) RETURNS JSONB AS $$
+DECLARE
+  v_state JSONB;
+  v_same_month BOOLEAN;
+  v_window_start BIGINT := (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT - 15 * 60 * 1000;
+  v_timestamps JSONB;
+BEGIN
+  INSERT INTO public.rate_limit_state (key, state)
+  VALUES (p_key, '{}'::jsonb)
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT state INTO v_state
+  FROM public.rate_limit_state
+  WHERE key = p_key
+  FOR UPDATE;
+
+  -- Counters from an earlier month start over
+  v_same_month := (v_state->>'monthStartDate') IS NOT NULL
+    AND (v_state->>'monthStartDate')::TIMESTAMPTZ >= p_month_start_date::TIMESTAMPTZ;
+
+  SELECT COALESCE(jsonb_agg(t.ts ORDER BY t.ts), '[]'::jsonb) INTO v_timestamps
+  FROM (
+    SELECT stored.value::BIGINT AS ts
+    FROM jsonb_array_elements_text(COALESCE(v_state->'requestTimestamps', '[]'::jsonb)) AS stored(value)
+    UNION ALL
+    SELECT added.ts FROM unnest(COALESCE(p_request_timestamps, ARRAY[]::BIGINT[])) AS added(ts)
+  ) t
+  WHERE t.ts > v_window_start;
+
+  v_state := jsonb_build_object(
+    'requestTimestamps', v_timestamps,
+    'monthlyRequestCount', CASE WHEN v_same_month THEN COALESCE((v_state->>'monthlyRequestCount')::INTEGER, 0) ELSE 0 END + p_requests,
+    'monthlyPostCount', CASE WHEN v_same_month THEN COALESCE((v_state->>'monthlyPostCount')::INTEGER, 0) ELSE 0 END + p_posts,
+    'monthStartDate', CASE WHEN v_same_month THEN v_state->>'monthStartDate' ELSE p_month_start_date END,
+    'lastRequestTime', GREATEST(COALESCE((v_state->>'lastRequestTime')::BIGINT, 0), p_last_request_time),
+    'updatedAt', NOW()
+  );
+
+  UPDATE public.rate_limit_state
+  SET state = v_state, updated_at = NOW()
+  WHERE key = p_key;
+
+  RETURN v_state;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =======================
+-- 2. Grant permissions
+-- =======================
+GRANT EXECUTE ON FUNCTION record_rate_limit_usage(TEXT, TEXT, INTEGER, INTEGER, BIGINT[], BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_rate_limit_usage(TEXT, TEXT, INTEGER, INTEGER, BIGINT[], BIGINT) TO anon;
+
+COMMENT ON FUNCTION record_rate_limit_usage(TEXT, TEXT, INTEGER, INTEGER, BIGINT[], BIGINT) IS 'Adds one process''s X API usage to the shared rate limit state and returns the combined state';
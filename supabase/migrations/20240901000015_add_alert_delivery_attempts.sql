@@ -0,0 +1,13 @@
+-- Migration: Retry alert deliveries that failed on every notifier
+-- An alert used to be marked notified after one dispatch even when no notifier accepted it.
+-- It now stays pending and is retried on the next scans, up to a cap counted in
+-- delivery_attempts.
+
+-- =======================
+-- 1. Add the attempt counter
+-- =======================
+ALTER TABLE public.analytics_alerts
+  ADD COLUMN IF NOT EXISTS delivery_attempts INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.analytics_alerts.delivery_attempts IS 'Dispatches in which every notifier failed';
+COMMENT ON COLUMN public.analytics_alerts.notified_at IS 'When a notifier accepted the alert, or delivery was given up (NULL = still pending)';